@@ -0,0 +1,84 @@
+#!/usr/bin/env python3
+"""
+Cut the CJK fallback fonts in assets/fonts/ from the static Regular cuts of
+Noto Sans JP, KR and SC (Google Fonts, SIL OFL 1.1).
+
+Each subset keeps the characters in everyday use for its language, so dye
+names never need a font rebuild, plus every character of its locale file:
+
+- JP: kana, half-width katakana and the JIS X 0208 level 1 kanji
+- KR: compatibility jamo and the 2,350 KS X 1001 hangul syllables
+- SC: the GB 2312 level 1 hanzi
+
+Usage (needs fontTools: pip install fonttools):
+
+    python3 scripts/subset-cjk-fonts.py path/to/noto-ttfs
+
+where the directory holds NotoSansJP-Regular.ttf, NotoSansKR-Regular.ttf
+and NotoSansSC-Regular.ttf.
+"""
+
+import sys
+from pathlib import Path
+
+from fontTools import subset
+from fontTools.ttLib import TTFont
+
+ROOT = Path(__file__).resolve().parent.parent
+
+
+def char_range(first, last):
+    return {chr(c) for c in range(first, last + 1)}
+
+
+def double_byte_rows(codec, first_row, last_row):
+    """Characters of rows first_row..last_row of an EUC-encoded 94x94 set"""
+    chars = set()
+    for row in range(first_row, last_row + 1):
+        for cell in range(1, 95):
+            try:
+                chars.add(bytes([0xA0 + row, 0xA0 + cell]).decode(codec))
+            except UnicodeDecodeError:
+                pass
+    return chars
+
+
+# CJK punctuation and full-width forms, shared by all three
+PUNCTUATION = char_range(0x3000, 0x303F) | char_range(0xFF01, 0xFF5E)
+
+FONTS = {
+    'JP': (
+        'ja',
+        char_range(0x3041, 0x30FF)
+        | char_range(0xFF61, 0xFF9F)
+        | double_byte_rows('euc_jp', 16, 47),
+    ),
+    'KR': ('ko', char_range(0x3131, 0x318E) | double_byte_rows('euc_kr', 16, 40)),
+    'SC': ('zh', double_byte_rows('gb2312', 16, 55)),
+}
+
+
+def main(source_dir):
+    options = subset.Options()
+    options.layout_features = ['*']
+    options.name_IDs = ['*']
+    options.notdef_outline = True
+
+    for name, (locale, chars) in FONTS.items():
+        locale_text = (ROOT / 'src' / 'locales' / f'{locale}.ts').read_text(encoding='utf-8')
+        text = ''.join(sorted(chars | PUNCTUATION | set(locale_text)))
+
+        font = TTFont(Path(source_dir) / f'NotoSans{name}-Regular.ttf')
+        subsetter = subset.Subsetter(options)
+        subsetter.populate(text=text)
+        subsetter.subset(font)
+
+        output = ROOT / 'assets' / 'fonts' / f'NotoSans{name}-Subset.ttf'
+        font.save(output)
+        print(f'{output.relative_to(ROOT)}: {output.stat().st_size:,} bytes')
+
+
+if __name__ == '__main__':
+    if len(sys.argv) != 2:
+        sys.exit(__doc__)
+    main(sys.argv[1])
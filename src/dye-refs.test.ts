@@ -0,0 +1,53 @@
+/**
+ * Tests for Dye References
+ *
+ * @module dye-refs.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareDyeRefs, customColorHex, isCustomColor, parseCustomColor } from './dye-refs';
+
+describe('dye-refs', () => {
+  describe('isCustomColor', () => {
+    it('should tell custom colors from itemIDs', () => {
+      expect(isCustomColor('hex:8B4513')).toBe(true);
+      expect(isCustomColor(5771)).toBe(false);
+    });
+  });
+
+  describe('parseCustomColor', () => {
+    it.each(['hex:8b4513', 'hex:#8B4513', ' hex:8B4513 ', 'HEX:8b4513'])(
+      'should normalize %s',
+      (raw) => {
+        expect(parseCustomColor(raw)).toBe('hex:8B4513');
+      }
+    );
+
+    it.each(['8B4513', 'hex:', 'hex:8B451', 'hex:8B45133', 'hex:GGGGGG', '#8B4513'])(
+      'should reject %s',
+      (raw) => {
+        expect(parseCustomColor(raw)).toBeNull();
+      }
+    );
+  });
+
+  describe('customColorHex', () => {
+    it('should return the color with a # prefix', () => {
+      expect(customColorHex('hex:8B4513')).toBe('#8B4513');
+    });
+  });
+
+  describe('compareDyeRefs', () => {
+    it('should sort itemIDs numerically, then custom colors', () => {
+      const refs = ['hex:FF0000', 5772, 'hex:0000FF', 123, 5771] as const;
+
+      expect([...refs].sort(compareDyeRefs)).toEqual([
+        123,
+        5771,
+        5772,
+        'hex:0000FF',
+        'hex:FF0000',
+      ]);
+    });
+  });
+});
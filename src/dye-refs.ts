@@ -0,0 +1,66 @@
+/**
+ * Dye References
+ *
+ * Every tool param that names a dye takes either a dye itemID or a custom
+ * color, written `hex:` and six hex digits:
+ *
+ *   /harmony/?dye=hex:8B4513&harmony=triadic&v=1
+ *   /og/gradient/hex:8B4513/5771/5.png
+ *
+ * Custom colors are drawn with a "Custom colour" label and the nearest dye
+ * (see `resolveDyeRef` in services/svg/dye-helpers). Like share-urls.ts, this
+ * module has no runtime dependency on the dye database.
+ *
+ * @module dye-refs
+ */
+
+import type { CustomColorRef, DyeRef } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Prefix marking a custom color */
+export const CUSTOM_COLOR_PREFIX = 'hex:';
+
+const CUSTOM_COLOR_PATTERN = /^hex:#?([0-9a-f]{6})$/i;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether a dye reference is a custom color
+ */
+export function isCustomColor(ref: DyeRef): ref is CustomColorRef {
+  return typeof ref === 'string';
+}
+
+/**
+ * Parse a raw `hex:` value into a normalized custom color
+ * (`hex:8b4513` and `hex:#8B4513` both become `hex:8B4513`)
+ *
+ * @returns The custom color, or null when the value is not one
+ */
+export function parseCustomColor(raw: string): CustomColorRef | null {
+  const hex = CUSTOM_COLOR_PATTERN.exec(raw.trim())?.[1];
+  return hex ? `${CUSTOM_COLOR_PREFIX}${hex.toUpperCase()}` : null;
+}
+
+/**
+ * The color of a custom color reference, as `#RRGGBB`
+ */
+export function customColorHex(ref: CustomColorRef): string {
+  return `#${ref.slice(CUSTOM_COLOR_PREFIX.length)}`;
+}
+
+/**
+ * Sort order of dye sets in canonical links: itemIDs ascending, then
+ * custom colors by hex
+ */
+export function compareDyeRefs(a: DyeRef, b: DyeRef): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
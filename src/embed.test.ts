@@ -0,0 +1,125 @@
+/**
+ * Tests for the Embeddable Widget
+ *
+ * @module embed.test
+ */
+
+import { createHash } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { embedUrlFor, generateEmbedHTML, EMBED_SECURITY_HEADERS } from './embed';
+import type { Env } from './types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1200 630"></svg>';
+
+const options = {
+  title: 'Snow White - Triadic Harmony | XIV Dye Tools',
+  svg: SVG,
+  palette: [
+    { name: 'Snow White', hex: '#E4DFD0' },
+    { name: 'Dalamud Red', hex: '#782B2B' },
+  ],
+  pageUrl: 'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&v=1',
+};
+
+describe('embed', () => {
+  describe('embedUrlFor', () => {
+    it('should mirror the share link on the worker host', () => {
+      expect(embedUrlFor(env, 'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic')).toBe(
+        'https://og.xivdyetools.app/embed/harmony/?dye=5771&harmony=triadic'
+      );
+    });
+
+    it('should keep links without params', () => {
+      expect(embedUrlFor(env, 'https://xivdyetools.app/comparison/')).toBe(
+        'https://og.xivdyetools.app/embed/comparison/'
+      );
+    });
+
+    it('should use the same host whether or not the base URL carries /og', () => {
+      const bare = { ...env, OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app' };
+
+      expect(embedUrlFor(bare, 'https://xivdyetools.app/comparison/')).toBe(
+        'https://og.xivdyetools.app/embed/comparison/'
+      );
+    });
+  });
+
+  describe('generateEmbedHTML', () => {
+    it('should inline the SVG', () => {
+      const html = generateEmbedHTML(options);
+
+      expect(html).toContain(`<main class="card">\n    ${SVG}`);
+      expect(html).toContain('<title>Snow White - Triadic Harmony | XIV Dye Tools</title>');
+    });
+
+    it('should list each dye with its name, hex code and a chip', () => {
+      const html = generateEmbedHTML(options);
+
+      expect(html).toContain('<span>Snow White</span><code>#E4DFD0</code>');
+      expect(html).toContain('<span>Dalamud Red</span><code>#782B2B</code>');
+      expect(html).toContain('<rect width="16" height="16" rx="4" fill="#782B2B"/>');
+    });
+
+    it('should leave out the list for an empty palette', () => {
+      expect(generateEmbedHTML({ ...options, palette: [] })).not.toContain('<ul');
+    });
+
+    it('should link to the share page in a new tab', () => {
+      const html = generateEmbedHTML(options);
+
+      expect(html).toContain(
+        '<a href="https://xivdyetools.app/harmony/?dye=5771&amp;harmony=triadic&amp;v=1" ' +
+          'target="_blank" rel="noopener">Open in XIV Dye Tools</a>'
+      );
+    });
+
+    it('should write the page in the share language', () => {
+      const html = generateEmbedHTML({ ...options, locale: 'ja' });
+
+      expect(html).toContain('<html lang="ja">');
+      expect(html).toContain('rel="noopener">XIV Dye Tools で開く</a>');
+    });
+
+    it('should escape names and neutralize colors', () => {
+      const html = generateEmbedHTML({
+        ...options,
+        title: '</title><script>',
+        palette: [{ name: '<img src=x>', hex: '#000"/><script>' }],
+      });
+
+      expect(html).not.toContain('<script>');
+      expect(html).not.toContain('<img');
+      expect(html).toContain('fill="#000000"');
+    });
+
+    it('should be a script-free, responsive document', () => {
+      const html = generateEmbedHTML(options);
+
+      expect(html).toContain('<meta name="viewport" content="width=device-width');
+      expect(html).toContain('width: 100%;');
+      expect(html).not.toMatch(/<script|\son\w+=/);
+    });
+  });
+
+  describe('EMBED_SECURITY_HEADERS', () => {
+    const csp = EMBED_SECURITY_HEADERS['Content-Security-Policy'];
+
+    it('should allow the inline styles by hash', () => {
+      const styles = /<style>([\s\S]*)<\/style>/.exec(generateEmbedHTML(options))![1];
+      const hash = createHash('sha256').update(styles).digest('base64');
+
+      expect(csp).toContain(`style-src 'sha256-${hash}'`);
+      expect(csp).toContain("default-src 'none'");
+    });
+
+    it('should allow framing from any site', () => {
+      expect(csp).toContain('frame-ancestors *');
+      expect(EMBED_SECURITY_HEADERS).not.toHaveProperty('X-Frame-Options');
+    });
+  });
+});
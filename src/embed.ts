@@ -0,0 +1,176 @@
+/**
+ * Embeddable Widget
+ *
+ * Self-contained HTML card for iframes in forum posts and guides: the
+ * share's image as inline SVG, its dyes with selectable names and hex
+ * codes, and a link back to the tool. Embed URLs mirror share links:
+ *
+ *   https://xivdyetools.app/harmony/?dye=5771&harmony=triadic
+ *   https://og.xivdyetools.app/embed/harmony/?dye=5771&harmony=triadic
+ *
+ * The page loads nothing and runs no script, so it is also the `html`
+ * payload of rich oEmbed responses (see oembed.ts).
+ *
+ * @module embed
+ */
+
+import { createHash } from 'node:crypto';
+import { DEFAULT_LOCALE, getMessages } from './i18n';
+import { escapeXml, safeColor } from './services/svg/base';
+import { workerOrigin } from './image-routes';
+import type { PaletteEntry } from './services/svg/palette';
+import type { Env, Locale } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Mount point of the embed routes on the worker */
+export const EMBED_ROUTE_PREFIX = '/embed';
+
+/**
+ * Height of the widget below the image (palette and footer), in CSS pixels.
+ * Added to the image height when sizing the oEmbed iframe.
+ */
+export const EMBED_CHROME_HEIGHT = 112;
+
+/** Inline styles of the widget, allowed by hash in the CSP */
+const EMBED_STYLES = `
+    html, body {
+      margin: 0;
+      background: #1a1a2e;
+      color: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 14px;
+    }
+    .card > svg {
+      display: block;
+      width: 100%;
+      height: auto;
+    }
+    .palette {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px 16px;
+      margin: 0;
+      padding: 12px;
+      list-style: none;
+    }
+    .palette li {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .palette code {
+      color: #a1a1aa;
+      user-select: all;
+    }
+    footer {
+      padding: 0 12px 12px;
+    }
+    a {
+      color: #6366f1;
+      text-decoration: none;
+    }
+    a:hover {
+      text-decoration: underline;
+    }
+  `;
+
+/**
+ * Security headers for the widget. Like the crawler page it only allows
+ * its own inline styles, but any site may frame it.
+ */
+export const EMBED_SECURITY_HEADERS: Readonly<Record<string, string>> = {
+  'Content-Security-Policy': [
+    "default-src 'none'",
+    `style-src 'sha256-${createHash('sha256').update(EMBED_STYLES).digest('base64')}'`,
+    "base-uri 'none'",
+    "form-action 'none'",
+    'frame-ancestors *',
+  ].join('; '),
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+};
+
+// ============================================================================
+// URLs
+// ============================================================================
+
+/**
+ * The embed URL for a shared tool link, on the worker's own host
+ * (the origin of `OG_IMAGE_BASE_URL`).
+ *
+ * @example
+ * embedUrlFor(env, 'https://xivdyetools.app/mixer/?dyeA=1&dyeB=2');
+ * // 'https://og.xivdyetools.app/embed/mixer/?dyeA=1&dyeB=2'
+ */
+export function embedUrlFor(env: Env, pageUrl: string): string {
+  const page = new URL(pageUrl);
+  const origin = workerOrigin(env.OG_IMAGE_BASE_URL);
+  return `${origin}${EMBED_ROUTE_PREFIX}${page.pathname}${page.search}`;
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+export interface EmbedPageOptions {
+  /** Page title (the share's OG title) */
+  title: string;
+  /** The share's image, as rendered for `/og/*` */
+  svg: string;
+  /** Dyes listed under the image */
+  palette: PaletteEntry[];
+  /** Share link opened by "Open in XIV Dye Tools" */
+  pageUrl: string;
+  /** Language of the share (its `lang` param), English by default */
+  locale?: Locale;
+}
+
+/**
+ * Small color chip for a palette entry. Drawn as SVG so its fill needs no
+ * inline style, which the CSP would block.
+ */
+function colorChip(hex: string): string {
+  return (
+    '<svg width="16" height="16" viewBox="0 0 16 16" aria-hidden="true">' +
+    `<rect width="16" height="16" rx="4" fill="${safeColor(hex, '#000000')}"/></svg>`
+  );
+}
+
+/**
+ * Generate the widget document for a share
+ */
+export function generateEmbedHTML(options: EmbedPageOptions): string {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const items = options.palette
+    .map(
+      (entry) =>
+        `<li>${colorChip(entry.hex)}<span>${escapeXml(entry.name)}</span>` +
+        `<code>${escapeXml(entry.hex)}</code></li>`
+    )
+    .join('\n      ');
+  const palette = items ? `\n    <ul class="palette">\n      ${items}\n    </ul>` : '';
+  const pageUrl = escapeXml(options.pageUrl);
+  const openInApp = escapeXml(getMessages(locale).embed.openInApp);
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeXml(options.title)}</title>
+  <style>${EMBED_STYLES}</style>
+</head>
+<body>
+  <main class="card">
+    ${options.svg}${palette}
+    <footer>
+      <a href="${pageUrl}" target="_blank" rel="noopener">${openInApp}</a>
+    </footer>
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for OG Text Localisation
+ *
+ * @module i18n.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LOCALE,
+  formatDelta,
+  formatMessage,
+  formatPlural,
+  getMessages,
+  negotiateLocale,
+  type PluralMessage,
+} from './i18n';
+import { LOCALES } from './validation';
+
+/**
+ * Every string in a catalog, keyed by its dotted path
+ */
+function flatten(value: unknown, path = ''): Map<string, string> {
+  if (typeof value === 'string') return new Map([[path, value]]);
+  const entries = Object.entries(value as Record<string, unknown>);
+  return new Map(
+    entries.flatMap(([key, child]) => [...flatten(child, path ? `${path}.${key}` : key)])
+  );
+}
+
+/**
+ * The `{name}` placeholders of a template, sorted
+ */
+function placeholders(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+}
+
+const english = flatten(getMessages('en'));
+
+describe('i18n', () => {
+  describe('catalogs', () => {
+    it('should default to English', () => {
+      expect(DEFAULT_LOCALE).toBe('en');
+      expect(getMessages()).toBe(getMessages('en'));
+    });
+
+    it.each(LOCALES)('should translate every English string in %s', (locale) => {
+      const strings = flatten(getMessages(locale));
+
+      for (const [key, value] of strings) {
+        expect(value, key).not.toBe('');
+      }
+      // Plural forms vary by language; every message must exist in both
+      const plural = /\.(zero|one|two|few|many|other)$/;
+      const messages = (map: Map<string, string>) =>
+        new Set([...map.keys()].map((key) => key.replace(plural, '')));
+      expect(messages(strings)).toEqual(messages(english));
+    });
+
+    it.each(LOCALES)('should keep the English placeholders in %s', (locale) => {
+      for (const [key, value] of flatten(getMessages(locale))) {
+        const source = english.get(key) ?? english.get(key.replace(/\.\w+$/, '.other'))!;
+        // Names may be used as given or lowercased, whichever the language needs
+        const allowed = placeholders(source).flatMap((name) => {
+          const base = name.replace(/Lower$/, '');
+          return [base, `${base}Lower`];
+        });
+
+        expect(allowed.concat('count'), key).toEqual(expect.arrayContaining(placeholders(value)));
+      }
+    });
+
+    it.each(LOCALES)('should give %s its own og:locale', (locale) => {
+      expect(getMessages(locale).ogLocale).toMatch(new RegExp(`^${locale}_[A-Z]{2}$`));
+    });
+
+    it('should keep brand names untranslated', () => {
+      for (const locale of LOCALES) {
+        expect(getMessages(locale).page.redirecting).toContain('XIV Dye Tools');
+        expect(getMessages(locale).og.siteDescription).toContain('FFXIV');
+      }
+    });
+  });
+
+  describe('formatMessage', () => {
+    it('should fill placeholders', () => {
+      expect(formatMessage('{start} to {end}', { start: 'Snow White', end: 'Soot Black' })).toBe(
+        'Snow White to Soot Black'
+      );
+    });
+
+    it('should keep unknown placeholders', () => {
+      expect(formatMessage('Step {step} of {total}', { step: 2 })).toBe('Step 2 of {total}');
+    });
+
+    it('should not read inherited properties', () => {
+      expect(formatMessage('{constructor}', {})).toBe('{constructor}');
+    });
+  });
+
+  describe('formatPlural', () => {
+    const steps: PluralMessage = { one: '{count} Step', other: '{count} Steps' };
+
+    it('should pick the plural form for the language', () => {
+      expect(formatPlural(steps, 1)).toBe('1 Step');
+      expect(formatPlural(steps, 5)).toBe('5 Steps');
+      // French counts 0 as singular
+      expect(formatPlural(steps, 0, 'fr')).toBe('0 Step');
+    });
+
+    it('should fall back to other', () => {
+      expect(formatPlural({ other: '{count}段階' }, 1, 'ja')).toBe('1段階');
+    });
+
+    it('should fill extra values', () => {
+      expect(formatPlural({ other: '{count} dyes: {dyes}' }, 2, 'en', { dyes: 'A, B' })).toBe(
+        '2 dyes: A, B'
+      );
+    });
+
+    it.each(LOCALES)('should format every plural message in %s', (locale) => {
+      const { image, og } = getMessages(locale);
+
+      for (const message of [image.steps, image.topMatches, image.dyesCompared]) {
+        // A singular form may leave the number out ("BEST MATCH")
+        expect(formatPlural(message, 1, locale)).not.toMatch(/[{}]/);
+        expect(formatPlural(message, 5, locale)).toContain('5');
+      }
+      expect(formatPlural(og.comparisonDyeDescription, 2, locale, { dyes: 'A, B' })).toContain(
+        'A, B'
+      );
+    });
+  });
+
+  describe('formatDelta', () => {
+    it.each([
+      ['en', 'Δ2.4'],
+      ['ja', 'Δ2.4'],
+      ['de', 'Δ2,4'],
+      ['fr', 'Δ2,4'],
+      ['ko', 'Δ2.4'],
+      ['zh', 'Δ2.4'],
+    ] as const)('should format %s distances as %s', (locale, delta) => {
+      expect(formatDelta(2.43, locale)).toBe(delta);
+    });
+
+    it('should always show one decimal and no grouping', () => {
+      expect(formatDelta(3)).toBe('Δ3.0');
+      expect(formatDelta(1234.56, 'de')).toBe('Δ1234,6');
+    });
+  });
+
+  describe('negotiateLocale', () => {
+    it.each(LOCALES)('should match %s by its primary subtag', (locale) => {
+      expect(negotiateLocale(locale)).toBe(locale);
+      expect(negotiateLocale(`${locale.toUpperCase()}-XX`)).toBe(locale);
+    });
+
+    it.each([
+      ['ja-JP,ja;q=0.9,en-US;q=0.8,en;q=0.7', 'ja'],
+      ['en;q=0.5, de;q=0.8', 'de'],
+      ['fr-CA, ko', 'fr'],
+      ['es-ES, zh-Hans-CN;q=0.4', 'zh'],
+      ['*;q=0.1, ko;q=0.2', 'ko'],
+    ])('should pick a language from %s', (header, locale) => {
+      expect(negotiateLocale(header)).toBe(locale);
+    });
+
+    it.each([undefined, null, '', 'es-ES, pt-BR', 'ja;q=0', '*'])(
+      'should return undefined for %s',
+      (header) => {
+        expect(negotiateLocale(header)).toBeUndefined();
+      }
+    );
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * OG Text Localisation
+ *
+ * UI strings for the crawler pages and OG images in every supported
+ * language, plus the helpers that pick a language and format messages.
+ * A page's language comes from its `lang` share param, falling back to the
+ * crawler's `Accept-Language` header:
+ *
+ *   /harmony/?dye=5771&harmony=triadic&lang=ja&v=1
+ *
+ * Dye names come from the core library (see `loadDyeNames` in
+ * services/svg/dye-helpers); everything else from the catalogs in locales/.
+ * Templates use `{name}` placeholders. Brand names (XIV Dye Tools, FFXIV)
+ * are never translated.
+ *
+ * @module i18n
+ */
+
+import type {
+  CharacterGender,
+  ColorSheetCategory,
+  HarmonyType,
+  Locale,
+  Subrace,
+  ToolId,
+  VisionType,
+} from './types';
+import { LOCALES } from './validation';
+import { en } from './locales/en';
+import { ja } from './locales/ja';
+import { de } from './locales/de';
+import { fr } from './locales/fr';
+import { ko } from './locales/ko';
+import { zh } from './locales/zh';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A message with a form per plural category; `other` is required */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Every UI string of one language
+ */
+export interface Messages {
+  /** `og:locale` tag, e.g. `ja_JP` */
+  ogLocale: string;
+  /** Tool names in page titles */
+  tools: Record<ToolId, string>;
+  harmonies: Record<HarmonyType, string>;
+  visions: Record<VisionType, string>;
+  /** One-line explanation of each vision type */
+  visionDetails: Record<VisionType, string>;
+  sheets: Record<ColorSheetCategory, string>;
+  genders: Record<CharacterGender, string>;
+  /** Clan names, e.g. "Seeker of the Sun" for `SeekerOfTheSun` */
+  subraces: Record<Subrace, string>;
+  /** Label drawn in place of a dye name for custom colors */
+  customColor: string;
+  /** Name of the swatch's input color in palette listings */
+  inputColor: string;
+
+  /** Crawler page body */
+  page: {
+    redirecting: string;
+    clickHere: string;
+  };
+
+  /** Embed widget */
+  embed: {
+    /** Link back to the share page */
+    openInApp: string;
+  };
+
+  /**
+   * Titles and descriptions. Name placeholders also come lowercased
+   * (`{harmonyLower}`) for languages that lowercase them mid-sentence.
+   */
+  og: {
+    siteDescription: string;
+    /** {name} (nearest dye: {nearest}) */
+    customColorDetail: string;
+    /** {harmony} */
+    harmonyTitle: string;
+    /** {dye}, {harmony} */
+    harmonyDyeTitle: string;
+    /** {harmony}, {harmonyLower} */
+    harmonyDescription: string;
+    /** {dye}, {harmony}, {harmonyLower} */
+    harmonyDyeDescription: string;
+    gradientDescription: string;
+    /** {start}, {end} */
+    gradientDyeTitle: string;
+    /** {steps}, {start}, {end} */
+    gradientDyeDescription: string;
+    mixerDescription: string;
+    /** {a}, {b}, {c} */
+    mixerThreeDyeDescription: string;
+    /** {a}, {b}, {ratioA}, {ratioB} */
+    mixerTwoDyeDescription: string;
+    /** {hex} */
+    swatchTitle: string;
+    /** {limit}, {hex} */
+    swatchDescription: string;
+    /** Appended to `swatchDescription` when the color has no sheet */
+    swatchHint: string;
+    /** {sheet}, {sheetLower}, {hex} */
+    swatchSheetDescription: string;
+    /** {gender}, {race}, {sheet}, {sheetLower}, {hex} */
+    swatchRaceDescription: string;
+    comparisonDescription: string;
+    /** {dyes} */
+    comparisonDyeTitle: string;
+    /** {count}, {dyes} */
+    comparisonDyeDescription: PluralMessage;
+    /** Vision name when none is set */
+    colorVision: string;
+    accessibilityDescription: string;
+    /** {vision}, {dyes} */
+    accessibilityDyeTitle: string;
+    /** {vision}, {visionLower}, {dyes} */
+    accessibilityDyeDescription: string;
+  };
+
+  /** Labels drawn on the OG images */
+  image: {
+    /** Tool names in the card header */
+    tools: Record<ToolId, string>;
+    /** {name} */
+    algorithm: string;
+    noMatches: string;
+    /** {name} */
+    nearestDye: string;
+    /** {name} */
+    category: string;
+    /** Example swatch names on the fallback cards */
+    colors: Record<'white' | 'red' | 'blue' | 'yellow' | 'brown' | 'green' | 'gold', string>;
+
+    input: string;
+    harmonyMatches: string;
+    harmonyHeadline: string;
+    harmonyTagline: string;
+
+    start: string;
+    end: string;
+    /** {step} */
+    step: string;
+    /** {count} */
+    steps: PluralMessage;
+    gradientHeadline: string;
+    gradientTagline: string;
+
+    result: string;
+    /** {ratioA}, {ratioB} */
+    blend: string;
+    threeDyeBlend: string;
+    mixerHeadline: string;
+    mixerTagline: string;
+
+    inputColor: string;
+    from: string;
+    /** {row}, {col} */
+    gridPosition: string;
+    /** {count} */
+    topMatches: PluralMessage;
+    /** {gender}, {race}, {sheet} */
+    raceSheet: string;
+    swatchHeadline: string;
+    swatchTagline: string;
+
+    /** {count} */
+    dyesCompared: PluralMessage;
+    comparisonHeadline: string;
+    comparisonTagline: string;
+
+    originalColors: string;
+    simulatedView: string;
+    original: string;
+    accessibilityHeadline: string;
+    accessibilityTagline: string;
+  };
+}
+
+// ============================================================================
+// Catalogs
+// ============================================================================
+
+/** Language of links without `lang`, and of anything a catalog lacks */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, ja, de, fr, ko, zh };
+
+/**
+ * The UI strings of a language (English when none is given)
+ */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return CATALOGS[locale];
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** Values substituted into `{name}` placeholders */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Fill a template's `{name}` placeholders. Unknown placeholders are kept.
+ *
+ * @example
+ * formatMessage('Step {step}', { step: 2 }); // 'Step 2'
+ */
+export function formatMessage(template: string, values: MessageValues): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Pick the plural form for `count` and fill it in (`count` is passed as
+ * `{count}`)
+ */
+export function formatPlural(
+  message: PluralMessage,
+  count: number,
+  locale: Locale = DEFAULT_LOCALE,
+  values: MessageValues = {}
+): string {
+  const form = message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+  return formatMessage(form, { count, ...values });
+}
+
+/**
+ * A color difference as drawn under a match: `Δ2.4`, or `Δ2,4` in
+ * languages with a decimal comma
+ */
+export function formatDelta(distance: number, locale: Locale = DEFAULT_LOCALE): string {
+  const value = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+    useGrouping: false,
+  }).format(distance);
+  return `Δ${value}`;
+}
+
+// ============================================================================
+// Negotiation
+// ============================================================================
+
+/**
+ * A supported language for a language tag (`de-AT` → `de`), if any
+ */
+function matchLocale(tag: string): Locale | undefined {
+  const primary = tag.trim().toLowerCase().split('-')[0];
+  return LOCALES.find((locale) => locale === primary);
+}
+
+/**
+ * Pick the supported language a client prefers from its `Accept-Language`
+ * header, by q-value and then order
+ *
+ * @returns The language, or undefined when the client accepts none of them
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale | undefined {
+  if (!acceptLanguage) return undefined;
+
+  const ranges = acceptLanguage.split(',').map((range, order) => {
+    const [tag, ...params] = range.split(';');
+    const q = params.map((param) => /^\s*q=([\d.]+)\s*$/.exec(param)?.[1]).find(Boolean);
+    return { locale: matchLocale(tag), q: q === undefined ? 1 : Number(q), order };
+  });
+
+  const best = ranges
+    .filter((range) => range.locale && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.order - b.order)[0];
+  return best?.locale;
+}
@@ -0,0 +1,90 @@
+/**
+ * Image Renderers
+ *
+ * SVG generator for each tool's OG image, keyed by tool, and the in-isolate
+ * render cache. Shared by the `/og/*` and `/embed/*` routes and the RPC
+ * entrypoint (see rpc.ts), so every caller renders the same image.
+ *
+ * @module image-renderers
+ */
+
+import {
+  generateHarmonyOG,
+  generateGradientOG,
+  generateMixerOG,
+  generateSwatchOG,
+  generateComparisonOG,
+  generateAccessibilityOG,
+  loadDyeNames,
+} from './services/svg';
+import { MemoryRenderCache } from './services/render-cache';
+import type { ImageRouteMatch } from './image-routes';
+import type { ToolId, ToolParams } from './types';
+
+/** In-isolate LRU, shared by every request handled by this isolate */
+export const memoryRenderCache = new MemoryRenderCache();
+
+/**
+ * Render functions for each tool's image, keyed by tool.
+ * Routes and URLs come from the image route registry.
+ */
+export const IMAGE_RENDERERS: {
+  [T in ToolId]: (params: ToolParams<T>) => string | Promise<string>;
+} = {
+  harmony: (params) =>
+    generateHarmonyOG({
+      dyeId: params.dye,
+      harmonyType: params.harmony,
+      algorithm: params.algo,
+      lang: params.lang,
+    }),
+  gradient: (params) =>
+    generateGradientOG({
+      startDyeId: params.start,
+      endDyeId: params.end,
+      steps: params.steps,
+      algorithm: params.algo,
+      lang: params.lang,
+    }),
+  mixer: (params) =>
+    generateMixerOG({
+      dyeAId: params.dyeA,
+      dyeBId: params.dyeB,
+      dyeCId: params.dyeC,
+      ratio: params.ratio,
+      algorithm: params.algo,
+      lang: params.lang,
+    }),
+  swatch: (params) =>
+    generateSwatchOG({
+      color: params.color,
+      limit: params.limit ?? 5,
+      algorithm: params.algo,
+      sheet: params.sheet,
+      race: params.race,
+      gender: params.gender,
+      lang: params.lang,
+    }),
+  comparison: (params) => generateComparisonOG({ dyeIds: params.dyes, lang: params.lang }),
+  accessibility: (params) =>
+    generateAccessibilityOG({
+      dyeIds: params.dyes,
+      visionType: params.vision,
+      lang: params.lang,
+    }),
+};
+
+/** A tool and its validated share params */
+export type ToolShare = Pick<ImageRouteMatch, 'tool' | 'params'>;
+
+/**
+ * Render the SVG for a tool share (a resolved image route, embed or RPC call),
+ * in the share's language
+ */
+export async function renderToolSvg(match: ToolShare): Promise<string> {
+  const render = IMAGE_RENDERERS[match.tool] as (
+    params: ImageRouteMatch['params']
+  ) => string | Promise<string>;
+  await loadDyeNames(match.params.lang);
+  return render(match.params);
+}
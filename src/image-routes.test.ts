@@ -0,0 +1,408 @@
+/**
+ * Tests for OG Image Route Registry
+ *
+ * @module image-routes.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  IMAGE_ROUTES,
+  IMAGE_ROUTE_PREFIX,
+  buildImagePath,
+  buildDefaultImagePath,
+  imageBaseUrl,
+  workerOrigin,
+  withContentHash,
+  withSignature,
+  defaultImageMatch,
+  registerImageRoutes,
+  resolveShareParams,
+  type ImageRouteMatch,
+} from './image-routes';
+import type { Env, ShareParams, ToolId } from './types';
+
+/**
+ * Build an app whose image routes echo the resolved match as JSON
+ */
+function createEchoApp() {
+  const app = new Hono<{ Bindings: Env }>();
+  registerImageRoutes(app, (c, match) => c.json(match));
+  return app;
+}
+
+async function resolve(path: string): Promise<ImageRouteMatch | null> {
+  const res = await requestImage(path);
+  return res.status === 200 ? ((await res.json()) as ImageRouteMatch) : null;
+}
+
+async function requestImage(path: string): Promise<Response> {
+  return createEchoApp().request(`${IMAGE_ROUTE_PREFIX}${path}`);
+}
+
+const SAMPLE_PARAMS: ShareParams[] = [
+  { tool: 'harmony', dye: 5771, harmony: 'tetradic' },
+  { tool: 'harmony', dye: 5771, harmony: 'split-complementary', algo: 'ciede2000' },
+  { tool: 'gradient', start: 5771, end: 5772, steps: 5 },
+  { tool: 'gradient', start: 5771, end: 5772, steps: 7, algo: 'euclidean' },
+  { tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 60 },
+  { tool: 'mixer', dyeA: 5771, dyeB: 5772, dyeC: 5773, ratio: 50, algo: 'oklab' },
+  { tool: 'swatch', color: '8B4513', limit: 4 },
+  {
+    tool: 'swatch',
+    color: '8B4513',
+    limit: 5,
+    sheet: 'hairColors',
+    race: 'SeekerOfTheSun',
+    gender: 'Female',
+    algo: 'ciede2000',
+  },
+  { tool: 'comparison', dyes: [5771] },
+  { tool: 'comparison', dyes: [5771, 5772, 5773, 5774] },
+  { tool: 'accessibility', dyes: [5771, 5772], vision: 'deuteranopia' },
+  { tool: 'harmony', dye: 'hex:8B4513', harmony: 'triadic' },
+  { tool: 'mixer', dyeA: 5771, dyeB: 'hex:8B4513', ratio: 40 },
+  { tool: 'comparison', dyes: [5771, 'hex:8B4513'] },
+  { tool: 'harmony', dye: 5771, harmony: 'triadic', algo: 'oklab', lang: 'ja' },
+  { tool: 'gradient', start: 5771, end: 5772, steps: 5, lang: 'de' },
+  { tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 60, lang: 'fr' },
+  { tool: 'swatch', color: '8B4513', limit: 5, sheet: 'eyeColors', lang: 'ko' },
+  { tool: 'comparison', dyes: [5771, 5772], lang: 'zh' },
+  { tool: 'accessibility', dyes: [5771], vision: 'protanopia', lang: 'ja' },
+];
+
+describe('image-routes', () => {
+  describe('IMAGE_ROUTES', () => {
+    it('should have an entry for every tool', () => {
+      const tools: ToolId[] = [
+        'harmony',
+        'gradient',
+        'mixer',
+        'swatch',
+        'comparison',
+        'accessibility',
+      ];
+      expect(Object.keys(IMAGE_ROUTES).sort()).toEqual([...tools].sort());
+      for (const tool of tools) {
+        expect(IMAGE_ROUTES[tool].tool).toBe(tool);
+        expect(IMAGE_ROUTES[tool].templates.length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('buildImagePath', () => {
+    it('should build harmony paths', () => {
+      expect(buildImagePath('harmony', { dye: 5771, harmony: 'tetradic' })).toBe(
+        '/harmony/5771/tetradic.png'
+      );
+    });
+
+    it('should put custom colors in the path as hex:RRGGBB', () => {
+      expect(buildImagePath('gradient', { start: 'hex:8B4513', end: 5771, steps: 5 })).toBe(
+        '/gradient/hex:8B4513/5771/5.png'
+      );
+    });
+
+    it('should append algo as a query param', () => {
+      expect(
+        buildImagePath('gradient', { start: 1, end: 2, steps: 5, algo: 'ciede2000' })
+      ).toBe('/gradient/1/2/5.png?algo=ciede2000');
+    });
+
+    it('should build 2-dye and 3-dye mixer paths', () => {
+      expect(buildImagePath('mixer', { dyeA: 1, dyeB: 2, ratio: 60 })).toBe('/mixer/1/2/60.png');
+      expect(buildImagePath('mixer', { dyeA: 1, dyeB: 2, dyeC: 3, ratio: 50 })).toBe(
+        '/mixer/1/2/3/50.png'
+      );
+    });
+
+    it('should put swatch sheet context in the query string', () => {
+      expect(
+        buildImagePath('swatch', {
+          color: '8B4513',
+          limit: 5,
+          sheet: 'hairColors',
+          race: 'Wildwood',
+          gender: 'Male',
+        })
+      ).toBe('/swatch/8B4513/5.png?sheet=hairColors&race=Wildwood&gender=Male');
+    });
+
+    it('should append lang as a query param', () => {
+      expect(buildImagePath('comparison', { dyes: [1, 2], lang: 'ja' })).toBe(
+        '/comparison/1,2.png?lang=ja'
+      );
+      expect(
+        buildImagePath('gradient', { start: 1, end: 2, steps: 5, algo: 'oklab', lang: 'de' })
+      ).toBe('/gradient/1/2/5.png?algo=oklab&lang=de');
+    });
+
+    it('should default accessibility vision to normal', () => {
+      expect(buildImagePath('accessibility', { dyes: [1, 2] })).toBe(
+        '/accessibility/1,2/normal.png'
+      );
+    });
+  });
+
+  describe('buildDefaultImagePath', () => {
+    it('should build per-tool default paths', () => {
+      expect(buildDefaultImagePath('harmony')).toBe('/harmony/default.png');
+      expect(buildDefaultImagePath('comparison')).toBe('/comparison/default.png');
+    });
+
+    it('should carry the language', () => {
+      expect(buildDefaultImagePath('harmony', 'ja')).toBe('/harmony/default.png?lang=ja');
+    });
+  });
+
+  describe('workerOrigin', () => {
+    it('should drop any path from the base URL', () => {
+      expect(workerOrigin('https://og.xivdyetools.app/og/')).toBe('https://og.xivdyetools.app');
+      expect(workerOrigin('http://localhost:8787')).toBe('http://localhost:8787');
+    });
+  });
+
+  describe('imageBaseUrl', () => {
+    it.each([
+      'https://og.xivdyetools.app',
+      'https://og.xivdyetools.app/',
+      'https://og.xivdyetools.app/og',
+      'https://og.xivdyetools.app/og/',
+    ])('should mount image paths under the route prefix for %s', (baseUrl) => {
+      expect(imageBaseUrl(baseUrl)).toBe(`https://og.xivdyetools.app${IMAGE_ROUTE_PREFIX}`);
+    });
+
+    const wranglerBaseUrls = [
+      ...readFileSync(join(__dirname, '..', 'wrangler.toml'), 'utf-8').matchAll(
+        /^OG_IMAGE_BASE_URL = "([^"]+)"/gm
+      ),
+    ].map((m) => m[1]);
+
+    it('should find OG_IMAGE_BASE_URL in every wrangler.toml vars block', () => {
+      expect(wranglerBaseUrls).toHaveLength(2);
+    });
+
+    it.each(wranglerBaseUrls)('should build routable image URLs from %s', async (baseUrl) => {
+      const path = buildImagePath('harmony', { dye: 5771, harmony: 'tetradic' });
+      const url = new URL(`${imageBaseUrl(baseUrl)}${path}`);
+
+      const res = await createEchoApp().request(`${url.pathname}${url.search}`);
+
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as ImageRouteMatch).tool).toBe('harmony');
+    });
+  });
+
+  describe('withContentHash', () => {
+    it('should start a query string when there is none', () => {
+      expect(withContentHash('/harmony/1/triadic.png', 'abc123')).toBe(
+        '/harmony/1/triadic.png?h=abc123'
+      );
+    });
+
+    it('should append to an existing query string', () => {
+      expect(withContentHash('/harmony/1/triadic.png?algo=oklab', 'abc123')).toBe(
+        '/harmony/1/triadic.png?algo=oklab&h=abc123'
+      );
+    });
+  });
+
+  describe('withSignature', () => {
+    it('should append the signature after the content hash', () => {
+      expect(withSignature('/harmony/1/triadic.png?h=abc123', 'k1.x_y-z')).toBe(
+        '/harmony/1/triadic.png?h=abc123&sig=k1.x_y-z'
+      );
+    });
+
+    it('should start a query string when there is none', () => {
+      expect(withSignature('/harmony/1/triadic.png', 'k1.abc')).toBe(
+        '/harmony/1/triadic.png?sig=k1.abc'
+      );
+    });
+  });
+
+  describe('defaultImageMatch', () => {
+    it('should describe the tool default image', () => {
+      expect(defaultImageMatch('gradient')).toEqual({
+        tool: 'gradient',
+        params: IMAGE_ROUTES.gradient.defaults,
+        path: '/gradient/default.png',
+        isDefault: true,
+      });
+    });
+
+    it('should describe the default image in a language', () => {
+      expect(defaultImageMatch('gradient', 'fr')).toMatchObject({
+        params: { ...IMAGE_ROUTES.gradient.defaults, lang: 'fr' },
+        path: '/gradient/default.png?lang=fr',
+      });
+    });
+  });
+
+  describe('resolveShareParams', () => {
+    it('should validate share link params', () => {
+      const query = new URLSearchParams('dye=5771&harmony=triadic');
+
+      expect(resolveShareParams('harmony', query)).toEqual({ dye: 5771, harmony: 'triadic' });
+    });
+
+    it('should fall back to the tool defaults for malformed params', () => {
+      const query = new URLSearchParams('start=abc&steps=999');
+
+      expect(resolveShareParams('gradient', query)).toEqual(IMAGE_ROUTES.gradient.defaults);
+    });
+  });
+
+  describe('round-trip through registered routes', () => {
+    it.each(SAMPLE_PARAMS.map((p) => [p.tool, p] as const))(
+      'should resolve built %s paths back to the same params',
+      async (_tool, share) => {
+        const { tool, ...params } = share;
+        const path = buildImagePath(tool, params as never);
+
+        const match = await resolve(path);
+
+        expect(match).not.toBeNull();
+        expect(match!.tool).toBe(tool);
+        expect(match!.params).toEqual(params);
+        expect(match!.path).toBe(path);
+        expect(match!.isDefault).toBe(false);
+      }
+    );
+
+    it.each(Object.keys(IMAGE_ROUTES) as ToolId[])(
+      'should resolve the %s default image',
+      async (tool) => {
+        const match = await resolve(buildDefaultImagePath(tool));
+
+        expect(match).not.toBeNull();
+        expect(match!.tool).toBe(tool);
+        expect(match!.isDefault).toBe(true);
+        expect(match!.params).toEqual(IMAGE_ROUTES[tool].defaults);
+      }
+    );
+
+    it('should resolve the language of default images', async () => {
+      const match = await resolve('/swatch/default.png?lang=KO');
+
+      expect(match?.params).toEqual({ ...IMAGE_ROUTES.swatch.defaults, lang: 'ko' });
+      expect(match?.path).toBe('/swatch/default.png?lang=ko');
+    });
+
+    it('should serve default images in English for unsupported languages', async () => {
+      const match = await resolve('/swatch/default.png?lang=es');
+
+      expect(match?.params).toEqual(IMAGE_ROUTES.swatch.defaults);
+      expect(match?.path).toBe('/swatch/default.png');
+    });
+
+    it('should pass the content hash through without affecting params or path', async () => {
+      const path = buildImagePath('gradient', { start: 1, end: 2, steps: 5, algo: 'oklab' });
+
+      const match = await resolve(withContentHash(path, 'abc123def456'));
+
+      expect(match?.hash).toBe('abc123def456');
+      expect(match?.path).toBe(path);
+      expect(match?.params).toEqual({ start: 1, end: 2, steps: 5, algo: 'oklab' });
+    });
+
+    it('should pass the content hash through on default images', async () => {
+      const match = await resolve(withContentHash(buildDefaultImagePath('mixer'), 'abc123'));
+
+      expect(match?.hash).toBe('abc123');
+      expect(match?.isDefault).toBe(true);
+    });
+
+    it('should pass the signature through', async () => {
+      const path = buildImagePath('harmony', { dye: 5771, harmony: 'tetradic' });
+
+      const match = await resolve(withSignature(withContentHash(path, 'abc123'), 'k1.sig'));
+
+      expect(match?.signature).toBe('k1.sig');
+      expect(match?.hash).toBe('abc123');
+      expect(match?.path).toBe(path);
+    });
+
+    it('should leave the hash undefined for unhashed URLs', async () => {
+      const match = await resolve('/harmony/5771/tetradic.png');
+
+      expect(match?.hash).toBeUndefined();
+    });
+
+    it('should not resolve unknown tools', async () => {
+      expect(await resolve('/palette/1/2.png')).toBeNull();
+    });
+
+    it('should normalize harmony type casing', async () => {
+      const match = await resolve('/harmony/5771/Tetradic.png');
+
+      expect(match?.params).toEqual({ dye: 5771, harmony: 'tetradic' });
+      expect(match?.path).toBe('/harmony/5771/tetradic.png');
+    });
+  });
+
+  describe('parameter validation', () => {
+    it.each([
+      ['/harmony/abc/triadic.png', 'dye', 'invalid_id'],
+      ['/harmony/0/triadic.png', 'dye', 'invalid_id'],
+      ['/harmony/hex:8B45/triadic.png', 'dye', 'invalid_hex'],
+      ['/harmony/5771/foo.png', 'harmony', 'invalid_enum'],
+      ['/harmony/5771/triadic.png?algo=rgb', 'algo', 'invalid_enum'],
+      ['/gradient/5771/5772/1e3.png', 'steps', 'invalid_integer'],
+      ['/swatch/ZZZZZZ/5.png', 'color', 'invalid_hex'],
+      ['/swatch/8B4513/5.png?sheet=nope', 'sheet', 'invalid_enum'],
+      ['/comparison/a,b,c.png', 'dyes', 'invalid_list'],
+      ['/accessibility/5771/blurry.png', 'vision', 'invalid_enum'],
+    ])('should reject %s with a 400 naming %s', async (path, param, code) => {
+      const res = await requestImage(path);
+
+      expect(res.status).toBe(400);
+      expect(res.headers.get('Content-Type')).toContain('application/json');
+      const body = (await res.json()) as {
+        error: string;
+        issues: { param: string; code: string }[];
+      };
+      expect(body.error).toBe('invalid_params');
+      expect(body.issues).toContainEqual(expect.objectContaining({ param, code }));
+    });
+
+    it('should list every invalid param', async () => {
+      const res = await requestImage('/mixer/x/y/50.png?algo=rgb');
+
+      const body = (await res.json()) as { tool: string; issues: { param: string }[] };
+      expect(body.tool).toBe('mixer');
+      expect(body.issues.map((i) => i.param)).toEqual(['dyeA', 'dyeB', 'algo']);
+    });
+
+    it('should list the allowed values for enum params', async () => {
+      const res = await requestImage('/harmony/5771/foo.png');
+
+      const body = (await res.json()) as { issues: { allowed?: string[] }[] };
+      expect(body.issues[0].allowed).toContain('triadic');
+    });
+
+    it('should clamp out-of-range numbers into the canonical path', async () => {
+      expect((await resolve('/gradient/5771/5772/-3.png'))?.path).toBe(
+        '/gradient/5771/5772/2.png'
+      );
+      expect((await resolve('/mixer/5771/5772/900.png'))?.path).toBe('/mixer/5771/5772/100.png');
+      expect((await resolve('/swatch/8b4513/10000.png'))?.path).toBe('/swatch/8B4513/10.png');
+    });
+
+    it('should truncate long dye lists', async () => {
+      const ids = Array.from({ length: 500 }, (_, i) => 5000 + i).join(',');
+
+      const match = await resolve(`/comparison/${ids}.png`);
+
+      expect(match?.params).toEqual({ dyes: [5000, 5001, 5002, 5003] });
+    });
+
+    it('should let 400 responses be cached briefly', async () => {
+      const res = await requestImage('/harmony/abc/triadic.png');
+
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=300');
+    });
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * OG Image Route Registry
+ *
+ * Single source of truth for the `/og/*` image URLs. Each tool owns its
+ * path templates, the parser that turns a matched request back into share
+ * params, and the builder that turns share params into an image path.
+ *
+ * Both sides are derived from this registry:
+ * - `og-data-generator.ts` builds `og:image` URLs with `buildImagePath()`
+ * - `index.ts` registers the Hono routes with `registerImageRoutes()`
+ *
+ * so an image URL emitted in the HTML always resolves to a real route.
+ *
+ * @module image-routes
+ */
+
+import type { Context, Hono } from 'hono';
+import type { Env, Locale, ToolId, ToolParams } from './types';
+import {
+  LOCALES,
+  validateSearchParams,
+  validateToolParams,
+  ValidationError,
+  type RawParams,
+} from './validation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single Hono path template and the mapping of its matched params
+ */
+interface ImageRouteTemplate {
+  /** Hono path template, relative to the `/og` mount */
+  path: string;
+  /**
+   * Map matched path params and the query string onto raw share params,
+   * which are then checked by `validateToolParams`
+   */
+  extract(pathParams: Record<string, string>, query: URLSearchParams): RawParams;
+}
+
+/**
+ * Registry entry for one tool's image routes
+ */
+export interface ImageRouteDefinition<T extends ToolId> {
+  tool: T;
+  /** Path templates (mixer has separate 2-dye and 3-dye forms) */
+  templates: readonly ImageRouteTemplate[];
+  /** Build the image path (relative to `imageBaseUrl()`) for share params */
+  build(params: ToolParams<T>): string;
+  /** Params rendered for the per-tool `default.png` image */
+  defaults: ToolParams<T>;
+}
+
+/**
+ * A resolved image request for one tool
+ */
+export interface ImageRouteMatchFor<T extends ToolId> {
+  tool: T;
+  params: ToolParams<T>;
+  /** Image path rebuilt from the parsed params (relative to `/og`) */
+  path: string;
+  /** Whether this is the per-tool `default.png` route */
+  isDefault: boolean;
+  /** Content hash from the `h` query param, if the URL carried one */
+  hash?: string;
+  /** URL signature from the `sig` query param, if the URL carried one */
+  signature?: string;
+}
+
+/**
+ * A resolved image request, discriminated by tool
+ */
+export type ImageRouteMatch = { [T in ToolId]: ImageRouteMatchFor<T> }[ToolId];
+
+export type ImageRouteHandler = (
+  c: Context<{ Bindings: Env }>,
+  match: ImageRouteMatch
+) => Response | Promise<Response>;
+
+// ============================================================================
+// Param Helpers
+// ============================================================================
+
+/** Mount point of the image routes within the worker */
+export const IMAGE_ROUTE_PREFIX = '/og';
+
+/** Query param carrying the image content hash */
+export const CONTENT_HASH_PARAM = 'h';
+
+/** Query param carrying the image URL signature */
+export const SIGNATURE_PARAM = 'sig';
+
+/** Path of the site-wide default image (relative to `/og`) */
+export const SITE_DEFAULT_IMAGE_PATH = '/default.png';
+
+/**
+ * Strip the `.png` extension from the last path segment
+ */
+function stripPng(segment: string): string {
+  return segment.replace(/\.png$/, '');
+}
+
+/**
+ * Serialize optional query params, skipping empty values
+ */
+function queryString(entries: Array<[string, string | undefined]>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of entries) {
+    if (value) query.set(key, value);
+  }
+  const serialized = query.toString();
+  return serialized ? `?${serialized}` : '';
+}
+
+// ============================================================================
+// Route Registry
+// ============================================================================
+
+const harmonyRoute: ImageRouteDefinition<'harmony'> = {
+  tool: 'harmony',
+  templates: [
+    {
+      path: '/harmony/:dyeId/:harmonyType',
+      extract: (p, query) => ({
+        dye: p.dyeId,
+        harmony: stripPng(p.harmonyType),
+        algo: query.get('algo'),
+        lang: query.get('lang'),
+      }),
+    },
+  ],
+  build: (params) =>
+    `/harmony/${params.dye}/${params.harmony}.png` +
+    queryString([
+      ['algo', params.algo],
+      ['lang', params.lang],
+    ]),
+  defaults: { dye: 0, harmony: 'complementary' },
+};
+
+const gradientRoute: ImageRouteDefinition<'gradient'> = {
+  tool: 'gradient',
+  templates: [
+    {
+      path: '/gradient/:startId/:endId/:steps',
+      extract: (p, query) => ({
+        start: p.startId,
+        end: p.endId,
+        steps: stripPng(p.steps),
+        algo: query.get('algo'),
+        lang: query.get('lang'),
+      }),
+    },
+  ],
+  build: (params) =>
+    `/gradient/${params.start}/${params.end}/${params.steps}.png` +
+    queryString([
+      ['algo', params.algo],
+      ['lang', params.lang],
+    ]),
+  defaults: { start: 0, end: 0, steps: 5 },
+};
+
+const mixerRoute: ImageRouteDefinition<'mixer'> = {
+  tool: 'mixer',
+  templates: [
+    {
+      path: '/mixer/:dyeAId/:dyeBId/:ratio',
+      extract: (p, query) => ({
+        dyeA: p.dyeAId,
+        dyeB: p.dyeBId,
+        ratio: stripPng(p.ratio),
+        algo: query.get('algo'),
+        lang: query.get('lang'),
+      }),
+    },
+    {
+      path: '/mixer/:dyeAId/:dyeBId/:dyeCId/:ratio',
+      extract: (p, query) => ({
+        dyeA: p.dyeAId,
+        dyeB: p.dyeBId,
+        dyeC: p.dyeCId,
+        ratio: stripPng(p.ratio),
+        algo: query.get('algo'),
+        lang: query.get('lang'),
+      }),
+    },
+  ],
+  build: (params) => {
+    const dyes = params.dyeC
+      ? `${params.dyeA}/${params.dyeB}/${params.dyeC}`
+      : `${params.dyeA}/${params.dyeB}`;
+    return `/mixer/${dyes}/${params.ratio}.png${queryString([
+      ['algo', params.algo],
+      ['lang', params.lang],
+    ])}`;
+  },
+  defaults: { dyeA: 0, dyeB: 0, ratio: 50 },
+};
+
+const swatchRoute: ImageRouteDefinition<'swatch'> = {
+  tool: 'swatch',
+  templates: [
+    {
+      path: '/swatch/:color/:limit',
+      extract: (p, query) => ({
+        color: p.color,
+        limit: stripPng(p.limit),
+        algo: query.get('algo'),
+        sheet: query.get('sheet'),
+        race: query.get('race'),
+        gender: query.get('gender'),
+        lang: query.get('lang'),
+      }),
+    },
+  ],
+  build: (params) =>
+    `/swatch/${params.color}/${params.limit ?? 5}.png${queryString([
+      ['sheet', params.sheet],
+      ['race', params.race],
+      ['gender', params.gender],
+      ['algo', params.algo],
+      ['lang', params.lang],
+    ])}`,
+  defaults: { color: '', limit: 5 },
+};
+
+const comparisonRoute: ImageRouteDefinition<'comparison'> = {
+  tool: 'comparison',
+  templates: [
+    {
+      path: '/comparison/:dyes',
+      extract: (p, query) => ({ dyes: stripPng(p.dyes), lang: query.get('lang') }),
+    },
+  ],
+  build: (params) =>
+    `/comparison/${params.dyes.join(',')}.png${queryString([['lang', params.lang]])}`,
+  defaults: { dyes: [] },
+};
+
+const accessibilityRoute: ImageRouteDefinition<'accessibility'> = {
+  tool: 'accessibility',
+  templates: [
+    {
+      path: '/accessibility/:dyes/:visionType',
+      extract: (p, query) => ({
+        dyes: p.dyes,
+        vision: stripPng(p.visionType),
+        lang: query.get('lang'),
+      }),
+    },
+  ],
+  build: (params) =>
+    `/accessibility/${params.dyes.join(',')}/${params.vision || 'normal'}.png` +
+    queryString([['lang', params.lang]]),
+  defaults: { dyes: [] },
+};
+
+/**
+ * Image route registry, keyed by tool
+ */
+export const IMAGE_ROUTES: { [T in ToolId]: ImageRouteDefinition<T> } = {
+  harmony: harmonyRoute,
+  gradient: gradientRoute,
+  mixer: mixerRoute,
+  swatch: swatchRoute,
+  comparison: comparisonRoute,
+  accessibility: accessibilityRoute,
+};
+
+// ============================================================================
+// URL Builders
+// ============================================================================
+
+/**
+ * Build the image path for a tool's share params.
+ *
+ * @example
+ * buildImagePath('harmony', { dye: 5771, harmony: 'tetradic' });
+ * // '/harmony/5771/tetradic.png'
+ */
+export function buildImagePath<T extends ToolId>(tool: T, params: ToolParams<T>): string {
+  return IMAGE_ROUTES[tool].build(params);
+}
+
+/**
+ * Build the path of a tool's default (no dye selected) image, in English
+ * unless a language is given
+ */
+export function buildDefaultImagePath(tool: ToolId, lang?: Locale): string {
+  return `/${tool}/default.png${queryString([['lang', lang]])}`;
+}
+
+/**
+ * The worker's origin from `OG_IMAGE_BASE_URL`. Only the origin is used,
+ * so a configured path (with or without `/og`) can't move the routes.
+ *
+ * @example
+ * workerOrigin('https://og.xivdyetools.app/og'); // 'https://og.xivdyetools.app'
+ */
+export function workerOrigin(baseUrl: string): string {
+  return new URL(baseUrl).origin;
+}
+
+/**
+ * The base that image paths are appended to: the worker's origin plus
+ * `IMAGE_ROUTE_PREFIX`, whatever path `OG_IMAGE_BASE_URL` carries
+ *
+ * @example
+ * imageBaseUrl('https://og.xivdyetools.app'); // 'https://og.xivdyetools.app/og'
+ */
+export function imageBaseUrl(baseUrl: string): string {
+  return `${workerOrigin(baseUrl)}${IMAGE_ROUTE_PREFIX}`;
+}
+
+/**
+ * Append a content hash to an image path as the `h` query param.
+ *
+ * @example
+ * withContentHash('/gradient/1/2/5.png?algo=oklab', '9c41e0b27d3a');
+ * // '/gradient/1/2/5.png?algo=oklab&h=9c41e0b27d3a'
+ */
+export function withContentHash(path: string, hash: string): string {
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${CONTENT_HASH_PARAM}=${hash}`;
+}
+
+/**
+ * Append a URL signature as the `sig` query param (after any content hash)
+ */
+export function withSignature(path: string, signature: string): string {
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${SIGNATURE_PARAM}=${encodeURIComponent(signature)}`;
+}
+
+/**
+ * Validate a share link's params, falling back to the tool's defaults when
+ * they are malformed (the same card the crawler page falls back to)
+ */
+export function resolveShareParams<T extends ToolId>(
+  tool: T,
+  searchParams: URLSearchParams
+): ToolParams<T> {
+  try {
+    return validateSearchParams(tool, searchParams);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return IMAGE_ROUTES[tool].defaults as ToolParams<T>;
+  }
+}
+
+/**
+ * The resolved request for a tool's `default.png` image
+ */
+export function defaultImageMatch(tool: ToolId, lang?: Locale): ImageRouteMatch {
+  const defaults = IMAGE_ROUTES[tool].defaults;
+  return {
+    tool,
+    params: lang ? { ...defaults, lang } : defaults,
+    path: buildDefaultImagePath(tool, lang),
+    isDefault: true,
+  } as ImageRouteMatch;
+}
+
+/**
+ * The language of a `default.png` request. Default images are fallbacks,
+ * so an unknown `lang` gets the English image rather than a 400.
+ */
+function defaultImageLocale(raw: string | undefined): Locale | undefined {
+  const needle = raw?.trim().toLowerCase();
+  return LOCALES.find((locale) => locale === needle);
+}
+
+// ============================================================================
+// Hono Registration
+// ============================================================================
+
+/**
+ * Register one tool's image routes.
+ * The `default.png` route is registered first so it wins over
+ * single-segment templates like `/comparison/:dyes`.
+ * Requests with invalid params get a 400 with the validation issues as JSON.
+ */
+function registerTool(
+  app: Hono<{ Bindings: Env }>,
+  route: ImageRouteDefinition<ToolId>,
+  handler: ImageRouteHandler
+): void {
+  const defaultPath = buildDefaultImagePath(route.tool);
+  const dispatch = (c: Context<{ Bindings: Env }>, match: ImageRouteMatchFor<ToolId>) =>
+    handler(c, match as ImageRouteMatch);
+
+  app.get(`${IMAGE_ROUTE_PREFIX}${defaultPath}`, (c) =>
+    dispatch(c, {
+      ...defaultImageMatch(route.tool, defaultImageLocale(c.req.query('lang'))),
+      hash: c.req.query(CONTENT_HASH_PARAM),
+      signature: c.req.query(SIGNATURE_PARAM),
+    })
+  );
+
+  for (const template of route.templates) {
+    app.get(`${IMAGE_ROUTE_PREFIX}${template.path}`, (c) => {
+      const query = new URL(c.req.url).searchParams;
+
+      let params: ToolParams<ToolId>;
+      try {
+        params = validateToolParams(route.tool, template.extract(c.req.param(), query));
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        return c.json(error.toJSON(), 400, { 'Cache-Control': 'public, max-age=300' });
+      }
+
+      return dispatch(c, {
+        tool: route.tool,
+        params,
+        path: route.build(params),
+        isDefault: false,
+        hash: query.get(CONTENT_HASH_PARAM) ?? undefined,
+        signature: query.get(SIGNATURE_PARAM) ?? undefined,
+      });
+    });
+  }
+}
+
+/**
+ * Register every tool's image routes (and per-tool default images) on the app.
+ *
+ * @param app - Hono app to register routes on
+ * @param handler - Called with the resolved tool and params for each request
+ */
+export function registerImageRoutes(
+  app: Hono<{ Bindings: Env }>,
+  handler: ImageRouteHandler
+): void {
+  for (const tool of Object.keys(IMAGE_ROUTES) as ToolId[]) {
+    registerTool(app, IMAGE_ROUTES[tool], handler);
+  }
+}
@@ -14,26 +14,95 @@
  * @module index
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { detectCrawlerFromRequest, getCrawlerName } from './crawler-detector';
-import { generateOGDataForTool, generateOGHTML } from './og-data-generator';
-import { renderOGImage } from './services/renderer';
 import {
-  generateHarmonyOG,
-  generateGradientOG,
-  generateMixerOG,
-  generateSwatchOG,
-  generateComparisonOG,
-  generateAccessibilityOG,
+  generateOGDataForTool,
+  generateOGHTML,
+  generateOGMetaTags,
+  siteDefaultImageUrl,
+  OG_HTML_SECURITY_HEADERS,
+} from './og-data-generator';
+import {
+  registerImageRoutes,
+  defaultImageMatch,
+  resolveShareParams,
+  withContentHash,
+  withSignature,
+  IMAGE_ROUTE_PREFIX,
+  CONTENT_HASH_PARAM,
+  SITE_DEFAULT_IMAGE_PATH,
+} from './image-routes';
+import { generateEmbedHTML, EMBED_ROUTE_PREFIX, EMBED_SECURITY_HEADERS } from './embed';
+import {
+  buildOEmbed,
+  parseOEmbedRequest,
+  OEmbedError,
+  OEMBED_PATH,
+} from './oembed';
+import {
+  parsePreviewRequest,
+  previewCorsHeaders,
+  PreviewRequestError,
+  PREVIEW_API_PATH,
+  type SharePreview,
+} from './preview-api';
+import { renderOGPng } from './services/renderer';
+import {
+  createPngResponse,
+  imageCacheHeaders,
+  renderFailureResponse,
+} from './services/image-response';
+import {
+  isNotModified,
+  notModifiedResponse,
+  strongETag,
+  validatorHeaders,
+  RENDERED_LAST_MODIFIED,
+  type Validators,
+} from './services/conditional-request';
+import { buildRenderCacheKey, createRenderCache } from './services/render-cache';
+import { memoryRenderCache, renderToolSvg, type ToolShare } from './image-renderers';
+import { computeContentHash, sha256Hex } from './services/content-hash';
+import { checkImageSignature } from './services/url-signing';
+import {
+  CrawlerHtmlCache,
+  CRAWLER_HTML_CACHE_HEADERS,
+  varyOnUserAgent,
+} from './services/crawler-cache';
+import { isSpaInjectionEnabled, respondWithSpaPage } from './services/spa-injector';
+import {
+  MemoryRateLimitStore,
+  RateLimiter,
+  clientFromRequest,
+  createRateLimitStore,
+} from './services/rate-limit';
+import {
+  parseCreateShortLinkRequest,
+  shortLinkCorsHeaders,
+  toShortLinkResponse,
+  DurableObjectShortCodeRegistry,
+  ShortLinkError,
+  ShortLinkStore,
+  SHORT_LINK_CREATE_POLICY,
+  SHORT_LINK_PATH,
+  SHORT_LINK_RATE_LIMIT_SCOPE,
+} from './services/short-links';
+import { buildShareUrl, canonicalSharePath } from './share-urls';
+import { getDyeDataVersion } from './services/svg/dye-helpers';
+import { getSharePalette } from './services/svg/palette';
+import { DEFAULT_LOCALE, negotiateLocale } from './i18n';
+import {
   generateOGCard,
   THEME,
   FONTS,
   OG_DIMENSIONS,
-  rect,
-  text,
-  circle,
+  box,
+  h,
+  place,
+  row,
 } from './services/svg';
-import type { Env, ToolId, AnalyticsEvent, HarmonyType, MatchingAlgorithm, VisionType } from './types';
+import type { Env, ToolId, AnalyticsEvent } from './types';
 
 // ============================================================================
 // Constants
@@ -78,6 +147,197 @@ function trackAnalytics(env: Env, event: AnalyticsEvent): void {
   }
 }
 
+// ============================================================================
+// Execution Context
+// ============================================================================
+
+/**
+ * `waitUntil` of the current request, if there is an execution context
+ */
+function getWaitUntil(
+  c: Context<{ Bindings: Env }>
+): ((promise: Promise<unknown>) => void) | undefined {
+  try {
+    const ctx = c.executionCtx;
+    return (promise) => ctx.waitUntil(promise);
+  } catch {
+    // No execution context (e.g. app.request in tests) - writes are awaited instead
+    return undefined;
+  }
+}
+
+/**
+ * The data center's Cache API cache, when running on Workers
+ */
+function getEdgeCache(): Cache | undefined {
+  return typeof caches !== 'undefined' ? caches.default : undefined;
+}
+
+// ============================================================================
+// Render Cache
+// ============================================================================
+
+/**
+ * An image to serve: what to render and the URL it was requested under
+ */
+interface ImageRequest {
+  tool: ToolId | 'default';
+  params: object;
+  /** Normalized image path from the route registry */
+  path: string;
+  /** Content hash from the request URL, if any */
+  hash?: string;
+  /** URL signature from the request URL, kept across hash redirects */
+  signature?: string;
+}
+
+/**
+ * Render (or fetch from cache) a PNG and respond with it.
+ *
+ * Content-addressed requests (`?h=`) whose hash matches the current renderer
+ * and dye data are served as immutable; stale or mismatched hashes redirect
+ * to the current URL. Unhashed legacy URLs keep the shorter default caching.
+ *
+ * The content hash doubles as a strong ETag, so a matching If-None-Match is
+ * answered with 304 before the render cache or resvg are touched. HEAD is
+ * answered from the same validators without rendering.
+ * Tracks the image request with the real cache outcome.
+ */
+async function respondWithCachedImage(
+  c: Context<{ Bindings: Env }>,
+  image: ImageRequest,
+  renderSvg: () => string | Promise<string>,
+  cacheMaxAge?: number
+): Promise<Response> {
+  const dataVersion = getDyeDataVersion();
+  const currentHash = computeContentHash(image.path, dataVersion);
+
+  if (image.hash !== undefined && image.hash !== currentHash) {
+    const current = withContentHash(image.path, currentHash);
+    const location = image.signature ? withSignature(current, image.signature) : current;
+    return c.redirect(`${IMAGE_ROUTE_PREFIX}${location}`, 302);
+  }
+
+  const validators: Validators = {
+    etag: strongETag(currentHash),
+    lastModified: RENDERED_LAST_MODIFIED,
+  };
+  const cacheHeaders = imageCacheHeaders(cacheMaxAge, image.hash !== undefined);
+
+  if (isNotModified(c.req.raw, validators)) {
+    trackImageRequest(c.env, image.tool, true); // Served from the client's cache
+    return notModifiedResponse(validators, cacheHeaders);
+  }
+
+  // Every header is known up front, so HEAD probes never cost a render
+  if (c.req.method === 'HEAD') {
+    return createPngResponse(null, cacheMaxAge, {
+      ...cacheHeaders,
+      ...validatorHeaders(validators),
+    });
+  }
+
+  const cache = createRenderCache({
+    memory: memoryRenderCache,
+    edge: getEdgeCache(),
+    origin: new URL(c.req.url).origin,
+    kv: c.env.OG_CACHE,
+    waitUntil: getWaitUntil(c),
+  });
+
+  let cacheHit = false;
+  try {
+    const result = await cache.getOrRender(
+      buildRenderCacheKey({ tool: image.tool, params: image.params, dataVersion }),
+      async () => renderOGPng(await renderSvg(), c.env.ASSETS)
+    );
+    cacheHit = result.cacheHit;
+
+    return createPngResponse(result.png, cacheMaxAge, {
+      ...cacheHeaders,
+      ...validatorHeaders(validators),
+      'X-Render-Cache': result.tier ? `HIT; tier=${result.tier}` : 'MISS',
+    });
+  } catch (error) {
+    console.error('[Renderer] OG image generation failed:', error);
+    return renderFailureResponse();
+  } finally {
+    trackImageRequest(c.env, image.tool, cacheHit);
+  }
+}
+
+/**
+ * Track an image request (the site default image is not tracked)
+ */
+function trackImageRequest(env: Env, tool: ToolId | 'default', cacheHit: boolean): void {
+  if (tool === 'default') return;
+
+  trackAnalytics(env, {
+    event: 'og_image_request',
+    tool,
+    crawler: 'none', // Image requests don't have crawler detection
+    cacheHit,
+    timestamp: Date.now(),
+  });
+}
+
+// ============================================================================
+// HTML Responses
+// ============================================================================
+
+/**
+ * Headers that differ between the HTML pages the worker serves
+ */
+interface HtmlPageHeaders {
+  security: Readonly<Record<string, string>>;
+  /** Also sent on 304 responses */
+  cache: Readonly<Record<string, string>>;
+}
+
+/** Crawler pages, kept out of the CDN's URL-keyed cache (see services/crawler-cache) */
+const CRAWLER_PAGE_HEADERS: HtmlPageHeaders = {
+  security: OG_HTML_SECURITY_HEADERS,
+  cache: CRAWLER_HTML_CACHE_HEADERS,
+};
+
+/** Embed widgets, which look the same to every client */
+const EMBED_PAGE_HEADERS: HtmlPageHeaders = {
+  security: EMBED_SECURITY_HEADERS,
+  cache: {},
+};
+
+/**
+ * Respond with generated HTML, honoring conditional requests.
+ * The ETag is a digest of the generated HTML, which is cheap to build.
+ * Sent with the page's security headers (CSP, nosniff, Referrer-Policy).
+ */
+function respondWithHtml(
+  c: Context<{ Bindings: Env }>,
+  html: string,
+  cacheControl?: string,
+  page: HtmlPageHeaders = CRAWLER_PAGE_HEADERS
+): Response {
+  const validators: Validators = {
+    etag: strongETag(sha256Hex(html).slice(0, 16)),
+    lastModified: RENDERED_LAST_MODIFIED,
+  };
+  const headers: Record<string, string> = {
+    ...(cacheControl ? { 'Cache-Control': cacheControl } : {}),
+    ...page.cache,
+  };
+
+  if (isNotModified(c.req.raw, validators)) {
+    return notModifiedResponse(validators, headers);
+  }
+
+  return c.text(html, 200, {
+    'Content-Type': 'text/html; charset=utf-8',
+    ...page.security,
+    ...headers,
+    ...validatorHeaders(validators),
+  });
+}
+
 // ============================================================================
 // Route Handlers
 // ============================================================================
@@ -98,7 +358,7 @@ app.get('/health', (c) => {
  * Creates a route handler for each supported tool
  */
 function createToolHandler(tool: ToolId) {
-  return async (c: { req: { raw: Request }; env: Env; text: (html: string, status?: number, headers?: Record<string, string>) => Response }) => {
+  return async (c: Context<{ Bindings: Env }>) => {
     const request = c.req.raw;
     const env = c.env;
     const url = new URL(request.url);
@@ -113,15 +373,47 @@ function createToolHandler(tool: ToolId) {
       timestamp: Date.now(),
     });
 
-    // If not a crawler, let the request pass through to the origin (SPA)
+    // If not a crawler, serve the SPA - with OG tags injected when configured,
+    // for bots and preview services we don't recognize
     if (!crawlerInfo.isCrawler) {
+      if (isSpaInjectionEnabled(env)) {
+        const ogData = await generateOGDataForTool(tool, url.searchParams, env);
+        const metaTags = generateOGMetaTags(ogData);
+        return varyOnUserAgent(await respondWithSpaPage(env, request, metaTags));
+      }
+
       // Pass through to origin - the SPA will handle it
       // In production, this would be proxied to the static site
-      return fetch(request);
+      return varyOnUserAgent(await fetch(request));
+    }
+
+    // Equivalent links collapse onto one canonical URL, so preview caches
+    // (ours and the platforms') hold one entry per share
+    const canonicalPath = canonicalSharePath(tool, url.searchParams);
+    if (canonicalPath && canonicalPath !== `${url.pathname}${url.search}`) {
+      return new Response(null, {
+        status: 301,
+        headers: {
+          Location: `${url.origin}${canonicalPath}`,
+          'Cache-Control': 'public, max-age=86400',
+          ...CRAWLER_HTML_CACHE_HEADERS,
+        },
+      });
+    }
+
+    // Links without `lang` are written in the crawler's language
+    const locale = negotiateLocale(request.headers.get('Accept-Language')) ?? DEFAULT_LOCALE;
+
+    // Crawler HTML is cached under its own key, never the page URL
+    const edgeCache = getEdgeCache();
+    const htmlCache = edgeCache ? new CrawlerHtmlCache(edgeCache) : undefined;
+    const cached = await htmlCache?.get(url.toString(), locale);
+    if (cached) {
+      return respondWithHtml(c, cached, 'public, max-age=3600, s-maxage=86400');
     }
 
     // Generate OG data for this tool
-    const ogData = generateOGDataForTool(tool, url.searchParams, env);
+    const ogData = await generateOGDataForTool(tool, url.searchParams, env, locale);
 
     // Log for debugging
     console.log(
@@ -135,10 +427,14 @@ function createToolHandler(tool: ToolId) {
     // Generate and return HTML with OG tags
     const html = generateOGHTML(ogData);
 
-    return c.text(html, 200, {
-      'Content-Type': 'text/html; charset=utf-8',
-      'Cache-Control': 'public, max-age=3600, s-maxage=86400', // 1h browser, 24h edge
-    });
+    if (htmlCache) {
+      const write = htmlCache.put(url.toString(), html, locale);
+      const waitUntil = getWaitUntil(c);
+      if (waitUntil) waitUntil(write);
+      else await write;
+    }
+
+    return respondWithHtml(c, html, 'public, max-age=3600, s-maxage=86400'); // 1h browser, 24h edge
   };
 }
 
@@ -154,251 +450,402 @@ for (const tool of SUPPORTED_TOOLS) {
 }
 
 // ============================================================================
-// OG Image Generation Routes
+// oEmbed
 // ============================================================================
 
 /**
- * Harmony tool OG image
- * Pattern: /og/harmony/:dyeId/:harmonyType.png
+ * oEmbed provider for shared tool links (see oembed.ts)
+ * - /oembed?url=https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&format=json
+ * Errors follow the spec: 404 for unsupported URLs, 501 for non-JSON formats.
  */
-app.get('/og/harmony/:dyeId/:harmonyType', async (c) => {
-  const dyeId = parseInt(c.req.param('dyeId'), 10);
-  const harmonyTypeRaw = c.req.param('harmonyType').replace('.png', '');
-  const harmonyType = harmonyTypeRaw.toLowerCase() as HarmonyType;
-  const algorithm = (c.req.query('algo') || 'oklab') as MatchingAlgorithm;
+app.get(OEMBED_PATH, async (c) => {
+  const corsHeaders = { 'Access-Control-Allow-Origin': '*' };
 
-  // Track analytics
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'harmony',
-    crawler: 'none', // Image requests don't have crawler detection
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+  try {
+    const request = parseOEmbedRequest(c.req.query(), c.env);
+    const ogData = await generateOGDataForTool(request.tool, request.searchParams, c.env);
 
-  const svg = generateHarmonyOG({
-    dyeId,
-    harmonyType,
-    algorithm,
-  });
+    trackAnalytics(c.env, {
+      event: 'oembed_request',
+      tool: request.tool,
+      crawler: detectCrawlerFromRequest(c.req.raw).type,
+      timestamp: Date.now(),
+    });
 
-  return renderOGImage(svg);
+    return c.json(buildOEmbed(ogData, request, c.env), 200, {
+      ...corsHeaders,
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400', // 1h browser, 24h edge
+    });
+  } catch (error) {
+    if (!(error instanceof OEmbedError)) throw error;
+    return c.json(error.toJSON(), error.status, {
+      ...corsHeaders,
+      'Cache-Control': 'public, max-age=300',
+    });
+  }
 });
 
+// ============================================================================
+// Share Preview API
+// ============================================================================
+
 /**
- * Gradient tool OG image
- * Pattern: /og/gradient/:startId/:endId/:steps.png
+ * OG data and image dyes for a share link, for the SPA (see preview-api.ts)
+ * - /api/og-data?url=https://xivdyetools.app/harmony/?dye=5771&harmony=triadic
  */
-app.get('/og/gradient/:startId/:endId/:steps', async (c) => {
-  const startDyeId = parseInt(c.req.param('startId'), 10);
-  const endDyeId = parseInt(c.req.param('endId'), 10);
-  const steps = parseInt(c.req.param('steps').replace('.png', ''), 10);
-  const algorithm = (c.req.query('algo') || 'oklab') as MatchingAlgorithm;
+app.get(PREVIEW_API_PATH, async (c) => {
+  const corsHeaders = previewCorsHeaders(c.env);
 
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'gradient',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+  try {
+    const { tool, searchParams } = parsePreviewRequest(c.req.query(), c.env);
 
-  const svg = generateGradientOG({
-    startDyeId,
-    endDyeId,
-    steps: isNaN(steps) ? 5 : steps,
-    algorithm,
-  });
+    trackAnalytics(c.env, {
+      event: 'preview_request',
+      tool,
+      crawler: 'none',
+      timestamp: Date.now(),
+    });
+
+    const preview: SharePreview = {
+      tool,
+      ogData: await generateOGDataForTool(tool, searchParams, c.env),
+      dyes: getSharePalette(tool, resolveShareParams(tool, searchParams)),
+    };
 
-  return renderOGImage(svg);
+    return c.json(preview, 200, {
+      ...corsHeaders,
+      'Cache-Control': 'public, max-age=300, s-maxage=3600', // 5m browser, 1h edge
+    });
+  } catch (error) {
+    if (!(error instanceof PreviewRequestError)) throw error;
+    return c.json(error.toJSON(), error.status, {
+      ...corsHeaders,
+      'Cache-Control': 'public, max-age=300',
+    });
+  }
 });
 
 /**
- * Mixer tool OG image (2 dyes)
- * Pattern: /og/mixer/:dyeAId/:dyeBId/:ratio.png
+ * CORS preflight for the preview API
  */
-app.get('/og/mixer/:dyeAId/:dyeBId/:ratio', async (c) => {
-  const dyeAId = parseInt(c.req.param('dyeAId'), 10);
-  const dyeBId = parseInt(c.req.param('dyeBId'), 10);
-  const ratio = parseInt(c.req.param('ratio').replace('.png', ''), 10);
-  const algorithm = (c.req.query('algo') || 'oklab') as MatchingAlgorithm;
-
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'mixer',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+app.options(PREVIEW_API_PATH, (c) => c.body(null, 204, previewCorsHeaders(c.env)));
 
-  const svg = generateMixerOG({
-    dyeAId,
-    dyeBId,
-    ratio: isNaN(ratio) ? 50 : ratio,
-    algorithm,
-  });
+// ============================================================================
+// Rate Limiting
+// ============================================================================
 
-  return renderOGImage(svg);
-});
+/** In-isolate buckets, used when no Durable Object or KV store is bound */
+const memoryRateLimitStore = new MemoryRateLimitStore();
 
 /**
- * Mixer tool OG image (3 dyes)
- * Pattern: /og/mixer/:dyeAId/:dyeBId/:dyeCId/:ratio.png
+ * Token-bucket limit on every image route (see services/rate-limit).
+ * Over-limit crawlers get the site default image so the preview still
+ * shows something; anyone else gets a 429. Neither may be cached, or the
+ * CDN would keep serving them after the bucket refills.
  */
-app.get('/og/mixer/:dyeAId/:dyeBId/:dyeCId/:ratio', async (c) => {
-  const dyeAId = parseInt(c.req.param('dyeAId'), 10);
-  const dyeBId = parseInt(c.req.param('dyeBId'), 10);
-  const dyeCId = parseInt(c.req.param('dyeCId'), 10);
-  const ratio = parseInt(c.req.param('ratio').replace('.png', ''), 10);
-  const algorithm = (c.req.query('algo') || 'oklab') as MatchingAlgorithm;
+app.use(`${IMAGE_ROUTE_PREFIX}/*`, async (c, next) => {
+  const client = clientFromRequest(c.req.raw);
+  if (!client) {
+    await next();
+    return;
+  }
 
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'mixer',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+  const limiter = new RateLimiter(createRateLimitStore(c.env, memoryRateLimitStore));
+  const decision = await limiter.take(client);
 
-  const svg = generateMixerOG({
-    dyeAId,
-    dyeBId,
-    dyeCId,
-    ratio: isNaN(ratio) ? 50 : ratio,
-    algorithm,
-  });
+  if (decision.allowed) {
+    await next();
+    return;
+  }
+
+  console.log(
+    `[RateLimit] ${client.crawler}:${client.ip} over limit, retry in ${decision.retryAfter}s`
+  );
 
-  return renderOGImage(svg);
+  const response =
+    client.crawler === 'none'
+      ? c.json({ error: 'rate_limited', retryAfter: decision.retryAfter }, 429)
+      : await respondWithCachedImage(
+          c,
+          { tool: 'default', params: {}, path: SITE_DEFAULT_IMAGE_PATH },
+          renderDefaultSvg
+        );
+
+  response.headers.set('Retry-After', String(decision.retryAfter));
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.delete('CDN-Cache-Control');
+  response.headers.set('X-OG-Rate-Limit', 'exceeded');
+  return response;
 });
 
+// ============================================================================
+// OG Image Generation Routes
+// ============================================================================
+
+/** Browser cache lifetime of the fallback served for unsigned image URLs */
+const UNSIGNED_FALLBACK_MAX_AGE = 3600;
+
 /**
- * Swatch tool OG image
- * Pattern: /og/swatch/:color/:limit.png?sheet=X&race=Y&gender=Z
+ * Tool OG images
+ * Unsigned or badly signed requests get the tool's default image instead
+ * of a fresh render (see services/url-signing).
+ * Patterns come from the image route registry, e.g.:
+ * - /og/harmony/:dyeId/:harmonyType.png
+ * - /og/gradient/:startId/:endId/:steps.png
+ * - /og/mixer/:dyeAId/:dyeBId[/:dyeCId]/:ratio.png
+ * - /og/swatch/:color/:limit.png?sheet=X&race=Y&gender=Z
+ * - /og/comparison/:dyes.png
+ * - /og/accessibility/:dyes/:visionType.png
+ * - /og/{tool}/default.png
  */
-app.get('/og/swatch/:color/:limit', async (c) => {
-  const color = c.req.param('color');
-  const limit = parseInt(c.req.param('limit').replace('.png', ''), 10);
-  const algorithm = (c.req.query('algo') || 'oklab') as MatchingAlgorithm;
+registerImageRoutes(app, async (c, match) => {
+  // Default images are cheap and shared by every fallback, so they need no signature
+  const signature = match.isDefault
+    ? 'valid'
+    : checkImageSignature(c.env, match.path, match.signature);
+
+  if (signature !== 'valid' && signature !== 'bypassed') {
+    const fallback = defaultImageMatch(match.tool, match.params.lang);
+    const response = await respondWithCachedImage(
+      c,
+      fallback,
+      () => renderToolSvg(fallback),
+      UNSIGNED_FALLBACK_MAX_AGE
+    );
+    response.headers.set('X-OG-Signature', signature);
+    return response;
+  }
 
-  // Parse optional sheet context params
-  const sheet = c.req.query('sheet') as import('./types').ColorSheetCategory | undefined;
-  const race = c.req.query('race') || undefined;
-  const gender = c.req.query('gender') as import('./types').CharacterGender | undefined;
+  return respondWithCachedImage(c, match, () => renderToolSvg(match));
+});
 
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'swatch',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+/**
+ * Build the SVG for the site-wide default image
+ */
+function renderDefaultSvg(): string {
+  const centerX = OG_DIMENSIONS.width / 2;
+  const centerY = OG_DIMENSIONS.height / 2;
 
-  const svg = await generateSwatchOG({
-    color,
-    limit: isNaN(limit) ? 5 : limit,
-    algorithm,
-    sheet,
-    race,
-    gender,
+  // Decorative color circles
+  const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7', '#ec4899'];
+  const circleSize = 44;
+  const circleSpacing = 70; // Center to center
+  const circles = row(
+    colors.map((color) =>
+      box(circleSize, circleSize, (x, y) =>
+        h('circle', {
+          cx: x + circleSize / 2,
+          cy: y + circleSize / 2,
+          r: circleSize / 2,
+          fill: color,
+        })
+      )
+    ),
+    { gap: circleSpacing - circleSize }
+  );
+  const circleY = centerY + 80;
+
+  return generateOGCard({
+    toolName: 'XIV Dye Tools',
+    content: [
+      // Main title
+      h(
+        'text',
+        {
+          x: centerX,
+          y: centerY - 60,
+          fill: THEME.text,
+          fontSize: 48,
+          fontFamily: FONTS.header,
+          fontWeight: 700,
+          textAnchor: 'middle',
+        },
+        'XIV DYE TOOLS'
+      ),
+
+      // Subtitle
+      h(
+        'text',
+        {
+          x: centerX,
+          y: centerY,
+          fill: THEME.textMuted,
+          fontSize: 24,
+          fontFamily: FONTS.primary,
+          textAnchor: 'middle',
+        },
+        'FFXIV Color & Dye Companion'
+      ),
+
+      ...place(
+        circles,
+        {
+          x: 0,
+          y: circleY - circleSize / 2,
+          width: OG_DIMENSIONS.width,
+          height: circleSize,
+        },
+        { justify: 'center' }
+      ),
+    ],
   });
+}
 
-  return renderOGImage(svg);
-});
+/**
+ * Default/fallback OG image
+ */
+app.get(`${IMAGE_ROUTE_PREFIX}${SITE_DEFAULT_IMAGE_PATH}`, (c) =>
+  respondWithCachedImage(
+    c,
+    {
+      tool: 'default',
+      params: {},
+      path: SITE_DEFAULT_IMAGE_PATH,
+      hash: c.req.query(CONTENT_HASH_PARAM),
+    },
+    renderDefaultSvg,
+    604800 // Cache for 7 days
+  )
+);
+
+// ============================================================================
+// Embed Widget Routes
+// ============================================================================
 
 /**
- * Comparison tool OG image
- * Pattern: /og/comparison/:dyes.png
- * where dyes is comma-separated itemIDs (e.g., "5771,5772,5773")
+ * Embed widget handler factory (see embed.ts).
+ * Takes the same query as the tool's share link; malformed share params
+ * get the tool's default card, like the crawler page.
  */
-app.get('/og/comparison/:dyes', async (c) => {
-  const dyesParam = c.req.param('dyes').replace('.png', '');
-  const dyeIds = dyesParam.split(',').map((id) => parseInt(id, 10)).filter((id) => !isNaN(id));
+function createEmbedHandler(tool: ToolId) {
+  return async (c: Context<{ Bindings: Env }>) => {
+    const searchParams = new URL(c.req.url).searchParams;
+    const params = resolveShareParams(tool, searchParams);
 
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'comparison',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+    trackAnalytics(c.env, {
+      event: 'embed_request',
+      tool,
+      crawler: detectCrawlerFromRequest(c.req.raw).type,
+      timestamp: Date.now(),
+    });
 
-  const svg = generateComparisonOG({ dyeIds });
+    const ogData = await generateOGDataForTool(tool, searchParams, c.env);
+    const html = generateEmbedHTML({
+      title: ogData.title,
+      svg: await renderToolSvg({ tool, params } as ToolShare),
+      palette: getSharePalette(tool, params),
+      pageUrl: ogData.url,
+      locale: ogData.locale,
+    });
 
-  return renderOGImage(svg);
-});
+    return respondWithHtml(c, html, 'public, max-age=3600, s-maxage=86400', EMBED_PAGE_HEADERS);
+  };
+}
 
 /**
- * Accessibility tool OG image
- * Pattern: /og/accessibility/:dyes/:visionType.png
+ * Embed widgets, one per tool, mirroring the share links:
+ * - /embed/harmony/?dye=5771&harmony=triadic
  */
-app.get('/og/accessibility/:dyes/:visionType', async (c) => {
-  const dyesParam = c.req.param('dyes');
-  const visionTypeRaw = c.req.param('visionType').replace('.png', '');
-  const visionType = visionTypeRaw.toLowerCase() as VisionType;
-  const dyeIds = dyesParam.split(',').map((id) => parseInt(id, 10)).filter((id) => !isNaN(id));
+for (const tool of SUPPORTED_TOOLS) {
+  app.get(`${EMBED_ROUTE_PREFIX}/${tool}`, createEmbedHandler(tool));
+  app.get(`${EMBED_ROUTE_PREFIX}/${tool}/`, createEmbedHandler(tool));
+}
 
-  trackAnalytics(c.env, {
-    event: 'og_image_request',
-    tool: 'accessibility',
-    crawler: 'none',
-    cacheHit: false,
-    timestamp: Date.now(),
-  });
+// ============================================================================
+// Short Links
+// ============================================================================
 
-  const svg = generateAccessibilityOG({
-    dyeIds,
-    visionType,
-  });
+/**
+ * Create a short link (see services/short-links)
+ * - POST /s {"url": "https://xivdyetools.app/harmony/?dye=5771&harmony=triadic", "ttl": 86400}
+ */
+app.post(SHORT_LINK_PATH, async (c) => {
+  const headers = { ...shortLinkCorsHeaders(c.env), 'Cache-Control': 'no-store' };
 
-  return renderOGImage(svg);
+  try {
+    if (!c.env.SHORT_LINKS || !c.env.SHORT_CODES) {
+      throw new ShortLinkError(503, 'Short links are not configured');
+    }
+
+    // Creates are unauthenticated writes, so each client has a daily quota
+    const client = clientFromRequest(c.req.raw);
+    if (client) {
+      const limiter = new RateLimiter(createRateLimitStore(c.env, memoryRateLimitStore), {
+        policies: { crawler: SHORT_LINK_CREATE_POLICY, default: SHORT_LINK_CREATE_POLICY },
+        scope: SHORT_LINK_RATE_LIMIT_SCOPE,
+      });
+      const decision = await limiter.take(client);
+      if (!decision.allowed) {
+        return c.json({ error: 'rate_limited', retryAfter: decision.retryAfter }, 429, {
+          ...headers,
+          'Retry-After': String(decision.retryAfter),
+        });
+      }
+    }
+
+    const { share, ttl } = parseCreateShortLinkRequest(await c.req.json().catch(() => null));
+    const codes = new DurableObjectShortCodeRegistry(c.env.SHORT_CODES);
+    const link = await new ShortLinkStore(c.env.SHORT_LINKS, { codes }).create(share, ttl);
+
+    trackAnalytics(c.env, {
+      event: 'short_link_create',
+      tool: share.tool,
+      crawler: 'none',
+      timestamp: Date.now(),
+    });
+
+    return c.json(toShortLinkResponse(link, c.env), 201, headers);
+  } catch (error) {
+    if (!(error instanceof ShortLinkError)) throw error;
+    return c.json(error.toJSON(), error.status, headers);
+  }
 });
 
 /**
- * Default/fallback OG image
+ * CORS preflight for short link creation
  */
-app.get('/og/default.png', async (c) => {
-  // Generate a simple default image
-  const contentElements: string[] = [];
-  const centerX = OG_DIMENSIONS.width / 2;
-  const centerY = OG_DIMENSIONS.height / 2;
+app.options(SHORT_LINK_PATH, (c) => c.body(null, 204, shortLinkCorsHeaders(c.env)));
 
-  // Main title
-  contentElements.push(
-    text(centerX, centerY - 60, 'XIV DYE TOOLS', {
-      fill: THEME.text,
-      fontSize: 48,
-      fontFamily: FONTS.header,
-      fontWeight: 700,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Subtitle
-  contentElements.push(
-    text(centerX, centerY, 'FFXIV Color & Dye Companion', {
-      fill: THEME.textMuted,
-      fontSize: 24,
-      fontFamily: FONTS.primary,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Decorative color circles
-  const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7', '#ec4899'];
-  const circleY = centerY + 80;
-  const circleSpacing = 70;
-  const startX = centerX - ((colors.length - 1) * circleSpacing) / 2;
+/**
+ * Short links: crawlers get the share's OG HTML, everyone else a redirect
+ * to the full share link. Redirects are temporary since links can expire.
+ * Unknown or expired codes 404 for crawlers and send people to the app.
+ */
+app.get(`${SHORT_LINK_PATH}/:code`, async (c) => {
+  const crawlerInfo = detectCrawlerFromRequest(c.req.raw);
+  const store = c.env.SHORT_LINKS && new ShortLinkStore(c.env.SHORT_LINKS);
+  const link = store ? await store.resolve(c.req.param('code')) : null;
+
+  if (!link) {
+    if (crawlerInfo.isCrawler) {
+      return c.text('Short link not found', 404, {
+        'Cache-Control': 'public, max-age=300',
+        ...CRAWLER_HTML_CACHE_HEADERS,
+      });
+    }
+    return varyOnUserAgent(Response.redirect(c.env.APP_BASE_URL, 302));
+  }
 
-  colors.forEach((color, i) => {
-    contentElements.push(circle(startX + i * circleSpacing, circleY, 22, color));
+  trackAnalytics(c.env, {
+    event: 'short_link_request',
+    tool: link.share.tool,
+    crawler: crawlerInfo.type,
+    timestamp: Date.now(),
   });
 
-  const svg = generateOGCard({
-    toolName: 'XIV Dye Tools',
-    content: contentElements.join('\n'),
-  });
+  const shareUrl = new URL(buildShareUrl(link.share, c.env.APP_BASE_URL));
+  if (!crawlerInfo.isCrawler) {
+    return varyOnUserAgent(Response.redirect(shareUrl.toString(), 302));
+  }
 
-  return renderOGImage(svg, 604800); // Cache for 7 days
+  const locale = negotiateLocale(c.req.header('Accept-Language'));
+  const ogData = await generateOGDataForTool(
+    link.share.tool,
+    shareUrl.searchParams,
+    c.env,
+    locale
+  );
+  return respondWithHtml(c, generateOGHTML(ogData), 'public, max-age=300, s-maxage=3600');
 });
 
 // ============================================================================
@@ -418,50 +865,54 @@ app.get('/', (c) => {
       description:
         'Explore FFXIV dye colors, create harmonious palettes, build gradients, mix colors, and find your perfect glamour combinations. Free web tools for Final Fantasy XIV players.',
       url: c.env.APP_BASE_URL,
-      imageUrl: `${c.env.OG_IMAGE_BASE_URL}/default.png`,
+      imageUrl: siteDefaultImageUrl(c.env),
       siteName: 'XIV Dye Tools',
     };
 
     const html = generateOGHTML(ogData);
-    return c.text(html, 200, {
-      'Content-Type': 'text/html; charset=utf-8',
-      'Cache-Control': 'public, max-age=86400', // 24h
-    });
+    return respondWithHtml(c, html, 'public, max-age=86400'); // 24h
   }
 
   // Regular user - redirect to main site
-  return Response.redirect(c.env.APP_BASE_URL, 302);
+  return varyOnUserAgent(Response.redirect(c.env.APP_BASE_URL, 302));
 });
 
 /**
  * Catch-all route for unknown paths
- * Pass through to origin for regular users, return 404 for crawlers
+ * Crawlers get minimal OG tags; regular users get the SPA (with those tags
+ * injected when SPA injection is configured)
  */
-app.all('*', (c) => {
+app.all('*', async (c) => {
   const crawlerInfo = detectCrawlerFromRequest(c.req.raw);
 
-  if (crawlerInfo.isCrawler) {
-    // Unknown route for crawler - return minimal OG tags
-    const ogData = {
-      title: 'XIV Dye Tools',
-      description: 'FFXIV Color & Dye Companion',
-      url: c.env.APP_BASE_URL,
-      imageUrl: `${c.env.OG_IMAGE_BASE_URL}/default.png`,
-      siteName: 'XIV Dye Tools',
-    };
+  // Unknown route - minimal OG tags
+  const ogData = {
+    title: 'XIV Dye Tools',
+    description: 'FFXIV Color & Dye Companion',
+    url: c.env.APP_BASE_URL,
+    imageUrl: siteDefaultImageUrl(c.env),
+    siteName: 'XIV Dye Tools',
+  };
 
+  if (crawlerInfo.isCrawler) {
     const html = generateOGHTML(ogData);
-    return c.text(html, 200, {
-      'Content-Type': 'text/html; charset=utf-8',
-    });
+    return respondWithHtml(c, html);
+  }
+
+  if (isSpaInjectionEnabled(c.env)) {
+    return varyOnUserAgent(await respondWithSpaPage(c.env, c.req.raw, generateOGMetaTags(ogData)));
   }
 
   // Pass through to origin for regular users
-  return fetch(c.req.raw);
+  return varyOnUserAgent(await fetch(c.req.raw));
 });
 
 // ============================================================================
 // Export Worker
 // ============================================================================
 
+export { RateLimiterDurableObject } from './services/rate-limit';
+export { ShortCodeDurableObject } from './services/short-links';
+export { OGRenderer } from './rpc';
+
 export default app;
@@ -0,0 +1,190 @@
+/**
+ * German UI Strings
+ *
+ * @module locales/de
+ */
+
+import type { Messages } from '../i18n';
+
+export const de: Messages = {
+  ogLocale: 'de_DE',
+  tools: {
+    harmony: 'Harmonie-Explorer',
+    gradient: 'Verlaufs-Editor',
+    mixer: 'Farbstoff-Mixer',
+    swatch: 'Farbabgleich',
+    comparison: 'Farbstoff-Vergleich',
+    accessibility: 'Barrierefreiheits-Check',
+  },
+  harmonies: {
+    complementary: 'Komplementär',
+    analogous: 'Analog',
+    triadic: 'Triadisch',
+    'split-complementary': 'Split-Komplementär',
+    tetradic: 'Tetradisch',
+    square: 'Quadratisch',
+    monochromatic: 'Monochromatisch',
+    compound: 'Zusammengesetzt',
+    shades: 'Schattierungen',
+  },
+  visions: {
+    normal: 'Normales Farbsehen',
+    protanopia: 'Protanopie',
+    deuteranopia: 'Deuteranopie',
+    tritanopia: 'Tritanopie',
+    achromatopsia: 'Achromatopsie',
+  },
+  visionDetails: {
+    normal: 'Volles Farbsehen',
+    protanopia: 'Rotblind (keine Rotzapfen)',
+    deuteranopia: 'Grünblind (keine Grünzapfen)',
+    tritanopia: 'Blaublind (keine Blauzapfen)',
+    achromatopsia: 'Vollständige Farbenblindheit',
+  },
+  sheets: {
+    eyeColors: 'Augenfarben',
+    highlightColors: 'Strähnchen',
+    lipColorsDark: 'Lippenfarben (dunkel)',
+    lipColorsLight: 'Lippenfarben (hell)',
+    tattooColors: 'Tattoo/Limbusring',
+    facePaintColorsDark: 'Gesichtsbemalung (dunkel)',
+    facePaintColorsLight: 'Gesichtsbemalung (hell)',
+    hairColors: 'Haarfarben',
+    skinColors: 'Hautfarben',
+  },
+  genders: {
+    Male: 'männlich',
+    Female: 'weiblich',
+  },
+  subraces: {
+    Midlander: 'Wiesländer',
+    Highlander: 'Hochländer',
+    Wildwood: 'Waldläufer',
+    Duskwight: 'Dunkelalb',
+    Plainsfolk: 'Halmling',
+    Dunesfolk: 'Sandling',
+    SeekerOfTheSun: 'Goldtatze',
+    KeeperOfTheMoon: 'Mondstreuner',
+    SeaWolf: 'Seewolf',
+    Hellsguard: 'Lohengarde',
+    Raen: 'Raen',
+    Xaela: 'Xaela',
+    Rava: 'Rava',
+    Veena: 'Veena',
+    Helion: 'Helion',
+    TheLost: 'Verlorener',
+  },
+  customColor: 'Eigene Farbe',
+  inputColor: 'Eingabefarbe',
+
+  page: {
+    redirecting: 'Weiterleitung zu XIV Dye Tools...',
+    clickHere: 'Hier klicken, falls die Weiterleitung nicht funktioniert',
+  },
+
+  embed: {
+    openInApp: 'In XIV Dye Tools öffnen',
+  },
+
+  og: {
+    siteDescription:
+      'Entdecke die Farbstoffe von FFXIV, erstelle harmonische Paletten und finde die perfekte Kombination für deine Projektion.',
+    customColorDetail: '{name} (nächster Farbstoff: {nearest})',
+    harmonyTitle: 'Harmonie: {harmony}',
+    harmonyDyeTitle: '{dye} - Harmonie: {harmony}',
+    harmonyDescription: 'Entdecke Farbharmonien ({harmony}) für FFXIV-Farbstoffe.',
+    harmonyDyeDescription:
+      'Entdecke Farbharmonien ({harmony}) für {dye} in FFXIV. Finde passende Farbstoffe für deine Projektion!',
+    gradientDescription: 'Erstelle sanfte Farbverläufe zwischen FFXIV-Farbstoffen.',
+    gradientDyeTitle: 'Verlauf von {start} zu {end}',
+    gradientDyeDescription:
+      'Verlauf in {steps} Stufen von {start} zu {end}. Finde die perfekte Farbstoff-Abfolge für deine FFXIV-Projektion!',
+    mixerDescription: 'Mische FFXIV-Farbstoffe und finde das am besten passende Ergebnis.',
+    mixerThreeDyeDescription:
+      'Mische {a}, {b} und {c} und finde passende FFXIV-Farbstoffe für deine perfekte Mischung!',
+    mixerTwoDyeDescription:
+      'Mische {ratioA} % {a} mit {ratioB} % {b} und finde passende FFXIV-Farbstoffe für deine perfekte Mischung!',
+    swatchTitle: 'Passend zu {hex}',
+    swatchDescription: 'Finde die {limit} FFXIV-Farbstoffe, die am besten zu {hex} passen.',
+    swatchHint: ' Perfekt für Charakterfarben oder eigene Paletten!',
+    swatchSheetDescription: 'Finde FFXIV-Farbstoffe passend zu dieser Farbe aus „{sheet}“ ({hex}).',
+    swatchRaceDescription:
+      'Finde FFXIV-Farbstoffe passend zu dieser Farbe aus „{sheet}“ ({race}, {gender}, {hex}).',
+    comparisonDescription: 'Vergleiche bis zu 4 FFXIV-Farbstoffe nebeneinander.',
+    comparisonDyeTitle: 'Vergleich: {dyes}',
+    comparisonDyeDescription: {
+      one: 'Direkter Vergleich von {count} FFXIV-Farbstoff: {dyes}. Sieh dir an, wie er wirkt!',
+      other:
+        'Direkter Vergleich von {count} FFXIV-Farbstoffen: {dyes}. Sieh dir an, wie sie zusammen wirken!',
+    },
+    colorVision: 'Farbsehen',
+    accessibilityDescription:
+      'Prüfe, wie FFXIV-Farbstoffe für Spieler mit Farbsehschwäche aussehen.',
+    accessibilityDyeTitle: '{vision}: {dyes}',
+    accessibilityDyeDescription:
+      'So wirken {dyes} bei {vision}. Gestalte barrierefreie Projektionen!',
+  },
+
+  image: {
+    tools: {
+      harmony: 'Harmonie-Explorer',
+      gradient: 'Verlaufs-Editor',
+      mixer: 'Farbstoff-Mixer',
+      swatch: 'Farbabgleich',
+      comparison: 'Vergleich',
+      accessibility: 'Barrierefreiheit',
+    },
+    algorithm: 'Algorithmus: {name}',
+    noMatches: 'Keine Treffer',
+    nearestDye: 'Nächster Farbstoff: {name}',
+    category: 'Kategorie: {name}',
+    colors: {
+      white: 'Weiß',
+      red: 'Rot',
+      blue: 'Blau',
+      yellow: 'Gelb',
+      brown: 'Braun',
+      green: 'Grün',
+      gold: 'Gold',
+    },
+
+    input: 'EINGABE',
+    harmonyMatches: 'HARMONIE-TREFFER',
+    harmonyHeadline: 'Farbharmonien entdecken',
+    harmonyTagline: 'Finde passende Farbstoffe für deine FFXIV-Projektion',
+
+    start: 'START',
+    end: 'ENDE',
+    step: 'Stufe {step}',
+    steps: { one: '{count} Stufe', other: '{count} Stufen' },
+    gradientHeadline: 'Farbverläufe erstellen',
+    gradientTagline: 'Sanfte Übergänge zwischen FFXIV-Farbstoffen',
+
+    result: 'ERGEBNIS',
+    blend: 'Mischung {ratioA}/{ratioB}',
+    threeDyeBlend: 'Mischung aus 3 Farbstoffen',
+    mixerHeadline: 'Farbstoffe mischen',
+    mixerTagline: 'Mische zwei FFXIV-Farbstoffe und finde den nächsten Treffer',
+
+    inputColor: 'EINGABEFARBE',
+    from: 'AUS',
+    gridPosition: 'Zeile {row}, Spalte {col}',
+    topMatches: { one: 'BESTER TREFFER', other: 'TOP {count} TREFFER' },
+    raceSheet: '{sheet} ({race}, {gender})',
+    swatchHeadline: 'Jede Farbe abgleichen',
+    swatchTagline: 'Finde FFXIV-Farbstoffe passend zu deinen eigenen Farben',
+
+    dyesCompared: {
+      one: '{count} Farbstoff im Vergleich',
+      other: '{count} Farbstoffe im Vergleich',
+    },
+    comparisonHeadline: 'Farbstoffe nebeneinander vergleichen',
+    comparisonTagline: 'Wähle bis zu 4 Farbstoffe, um Farben und Details zu vergleichen',
+
+    originalColors: 'ORIGINALFARBEN',
+    simulatedView: 'SIMULIERTE ANSICHT',
+    original: 'Original:',
+    accessibilityHeadline: 'Barrierefreiheit beim Farbsehen',
+    accessibilityTagline: 'So sehen farbenblinde Spieler deine Farbstoffwahl',
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * English UI Strings
+ *
+ * @module locales/en
+ */
+
+import type { Messages } from '../i18n';
+
+export const en: Messages = {
+  ogLocale: 'en_US',
+  tools: {
+    harmony: 'Harmony Explorer',
+    gradient: 'Gradient Builder',
+    mixer: 'Dye Mixer',
+    swatch: 'Swatch Matcher',
+    comparison: 'Dye Comparison',
+    accessibility: 'Accessibility Checker',
+  },
+  harmonies: {
+    complementary: 'Complementary',
+    analogous: 'Analogous',
+    triadic: 'Triadic',
+    'split-complementary': 'Split-Complementary',
+    tetradic: 'Tetradic',
+    square: 'Square',
+    monochromatic: 'Monochromatic',
+    compound: 'Compound',
+    shades: 'Shades',
+  },
+  visions: {
+    normal: 'Normal Vision',
+    protanopia: 'Protanopia',
+    deuteranopia: 'Deuteranopia',
+    tritanopia: 'Tritanopia',
+    achromatopsia: 'Achromatopsia',
+  },
+  visionDetails: {
+    normal: 'Full color vision',
+    protanopia: 'Red-blind (no red cones)',
+    deuteranopia: 'Green-blind (no green cones)',
+    tritanopia: 'Blue-blind (no blue cones)',
+    achromatopsia: 'Complete color blindness',
+  },
+  sheets: {
+    eyeColors: 'Eye Colors',
+    highlightColors: 'Highlights',
+    lipColorsDark: 'Lip Colors (Dark)',
+    lipColorsLight: 'Lip Colors (Light)',
+    tattooColors: 'Tattoo/Limbal',
+    facePaintColorsDark: 'Face Paint (Dark)',
+    facePaintColorsLight: 'Face Paint (Light)',
+    hairColors: 'Hair Colors',
+    skinColors: 'Skin Colors',
+  },
+  genders: {
+    Male: 'Male',
+    Female: 'Female',
+  },
+  subraces: {
+    Midlander: 'Midlander',
+    Highlander: 'Highlander',
+    Wildwood: 'Wildwood',
+    Duskwight: 'Duskwight',
+    Plainsfolk: 'Plainsfolk',
+    Dunesfolk: 'Dunesfolk',
+    SeekerOfTheSun: 'Seeker of the Sun',
+    KeeperOfTheMoon: 'Keeper of the Moon',
+    SeaWolf: 'Sea Wolf',
+    Hellsguard: 'Hellsguard',
+    Raen: 'Raen',
+    Xaela: 'Xaela',
+    Rava: 'Rava',
+    Veena: 'Veena',
+    Helion: 'Helion',
+    TheLost: 'The Lost',
+  },
+  customColor: 'Custom colour',
+  inputColor: 'Input Color',
+
+  page: {
+    redirecting: 'Redirecting to XIV Dye Tools...',
+    clickHere: "Click here if you're not redirected",
+  },
+
+  embed: {
+    openInApp: 'Open in XIV Dye Tools',
+  },
+
+  og: {
+    siteDescription:
+      'Explore FFXIV dye colors, create harmonious palettes, and find your perfect glamour combinations.',
+    customColorDetail: '{name} (nearest dye: {nearest})',
+    harmonyTitle: '{harmony} Harmony',
+    harmonyDyeTitle: '{dye} - {harmony} Harmony',
+    harmonyDescription: 'Explore {harmonyLower} color harmonies for FFXIV dyes.',
+    harmonyDyeDescription:
+      'Explore {harmonyLower} color harmonies for {dye} in FFXIV. Find matching dyes for your glamour!',
+    gradientDescription: 'Create smooth color gradients between FFXIV dyes.',
+    gradientDyeTitle: '{start} to {end} Gradient',
+    gradientDyeDescription:
+      '{steps}-step gradient from {start} to {end}. Find the perfect dye progression for your FFXIV glamour!',
+    mixerDescription: 'Mix FFXIV dyes and find the closest matching result.',
+    mixerThreeDyeDescription:
+      'Mix {a}, {b}, and {c} to find matching FFXIV dyes for your perfect blend!',
+    mixerTwoDyeDescription:
+      'Mix {ratioA}% {a} with {ratioB}% {b} to find matching FFXIV dyes for your perfect blend!',
+    swatchTitle: 'Match {hex}',
+    swatchDescription: 'Find the top {limit} FFXIV dyes that match {hex}.',
+    swatchHint: ' Perfect for matching character colors or custom palettes!',
+    swatchSheetDescription: 'Find FFXIV dyes matching this {sheetLower} ({hex}).',
+    swatchRaceDescription: 'Find FFXIV dyes matching this {gender} {race} {sheetLower} ({hex}).',
+    comparisonDescription: 'Compare up to 4 FFXIV dyes side by side.',
+    comparisonDyeTitle: 'Compare: {dyes}',
+    comparisonDyeDescription: {
+      other: 'Side-by-side comparison of {count} FFXIV dyes: {dyes}. See how they look together!',
+    },
+    colorVision: 'Color Vision',
+    accessibilityDescription:
+      'Check how FFXIV dyes appear to players with color vision differences.',
+    accessibilityDyeTitle: '{vision}: {dyes}',
+    accessibilityDyeDescription:
+      'See how {dyes} appear with {visionLower}. Design inclusive glamours!',
+  },
+
+  image: {
+    tools: {
+      harmony: 'Harmony Explorer',
+      gradient: 'Gradient Builder',
+      mixer: 'Dye Mixer',
+      swatch: 'Swatch Matcher',
+      comparison: 'Comparison',
+      accessibility: 'Accessibility',
+    },
+    algorithm: 'Algorithm: {name}',
+    noMatches: 'No matches found',
+    nearestDye: 'Nearest dye: {name}',
+    category: 'Category: {name}',
+    colors: {
+      white: 'White',
+      red: 'Red',
+      blue: 'Blue',
+      yellow: 'Yellow',
+      brown: 'Brown',
+      green: 'Green',
+      gold: 'Gold',
+    },
+
+    input: 'INPUT',
+    harmonyMatches: 'HARMONY MATCHES',
+    harmonyHeadline: 'Explore Color Harmonies',
+    harmonyTagline: 'Find matching dyes for your FFXIV glamour',
+
+    start: 'START',
+    end: 'END',
+    step: 'Step {step}',
+    steps: { other: '{count} Steps' },
+    gradientHeadline: 'Create Color Gradients',
+    gradientTagline: 'Build smooth transitions between FFXIV dyes',
+
+    result: 'RESULT',
+    blend: '{ratioA}/{ratioB} Blend',
+    threeDyeBlend: '3-Dye Blend',
+    mixerHeadline: 'Mix Dye Colors',
+    mixerTagline: 'Blend two FFXIV dyes and find the closest match',
+
+    inputColor: 'INPUT COLOR',
+    from: 'FROM',
+    gridPosition: 'Row {row}, Col {col}',
+    topMatches: { other: 'TOP {count} MATCHES' },
+    raceSheet: '{gender} {race} {sheet}',
+    swatchHeadline: 'Match Any Color',
+    swatchTagline: 'Find FFXIV dyes that match your custom colors',
+
+    dyesCompared: { one: '{count} Dye Compared', other: '{count} Dyes Compared' },
+    comparisonHeadline: 'Compare Dyes Side-by-Side',
+    comparisonTagline: 'Select up to 4 dyes to compare colors and details',
+
+    originalColors: 'ORIGINAL COLORS',
+    simulatedView: 'SIMULATED VIEW',
+    original: 'Original:',
+    accessibilityHeadline: 'Color Vision Accessibility',
+    accessibilityTagline: 'See how your dye choices appear to colorblind players',
+  },
+};
@@ -0,0 +1,191 @@
+/**
+ * French UI Strings
+ *
+ * @module locales/fr
+ */
+
+import type { Messages } from '../i18n';
+
+export const fr: Messages = {
+  ogLocale: 'fr_FR',
+  tools: {
+    harmony: 'Explorateur d’harmonies',
+    gradient: 'Créateur de dégradés',
+    mixer: 'Mélangeur de teintures',
+    swatch: 'Correspondance de couleurs',
+    comparison: 'Comparateur de teintures',
+    accessibility: 'Vérificateur d’accessibilité',
+  },
+  harmonies: {
+    complementary: 'Complémentaire',
+    analogous: 'Analogue',
+    triadic: 'Triadique',
+    'split-complementary': 'Complémentaire adjacente',
+    tetradic: 'Tétradique',
+    square: 'Carrée',
+    monochromatic: 'Monochromatique',
+    compound: 'Composée',
+    shades: 'Nuances',
+  },
+  visions: {
+    normal: 'Vision normale',
+    protanopia: 'Protanopie',
+    deuteranopia: 'Deutéranopie',
+    tritanopia: 'Tritanopie',
+    achromatopsia: 'Achromatopsie',
+  },
+  visionDetails: {
+    normal: 'Vision complète des couleurs',
+    protanopia: 'Insensible au rouge (pas de cônes rouges)',
+    deuteranopia: 'Insensible au vert (pas de cônes verts)',
+    tritanopia: 'Insensible au bleu (pas de cônes bleus)',
+    achromatopsia: 'Absence totale de vision des couleurs',
+  },
+  sheets: {
+    eyeColors: 'Couleurs des yeux',
+    highlightColors: 'Mèches',
+    lipColorsDark: 'Couleurs des lèvres (foncées)',
+    lipColorsLight: 'Couleurs des lèvres (claires)',
+    tattooColors: 'Tatouage/Anneau limbique',
+    facePaintColorsDark: 'Peinture faciale (foncée)',
+    facePaintColorsLight: 'Peinture faciale (claire)',
+    hairColors: 'Couleurs des cheveux',
+    skinColors: 'Couleurs de peau',
+  },
+  genders: {
+    Male: 'masculin',
+    Female: 'féminin',
+  },
+  subraces: {
+    Midlander: 'Hyurois des plaines',
+    Highlander: 'Hyurois des hautes terres',
+    Wildwood: 'Sylvestre',
+    Duskwight: 'Crépusculaire',
+    Plainsfolk: 'Peuple des plaines',
+    Dunesfolk: 'Peuple des dunes',
+    SeekerOfTheSun: 'Tribu du Soleil',
+    KeeperOfTheMoon: 'Tribu de la Lune',
+    SeaWolf: 'Clan de la Mer',
+    Hellsguard: 'Clan du Feu',
+    Raen: 'Raen',
+    Xaela: 'Xaela',
+    Rava: 'Rava',
+    Veena: 'Veena',
+    Helion: 'Hélion',
+    TheLost: 'Égaré',
+  },
+  customColor: 'Couleur perso.',
+  inputColor: 'Couleur d’entrée',
+
+  page: {
+    redirecting: 'Redirection vers XIV Dye Tools...',
+    clickHere: 'Cliquez ici si vous n’êtes pas redirigé',
+  },
+
+  embed: {
+    openInApp: 'Ouvrir dans XIV Dye Tools',
+  },
+
+  og: {
+    siteDescription:
+      'Explorez les teintures de FFXIV, créez des palettes harmonieuses et trouvez les combinaisons parfaites pour vos mirages.',
+    customColorDetail: '{name} (teinture la plus proche : {nearest})',
+    harmonyTitle: 'Harmonie {harmonyLower}',
+    harmonyDyeTitle: '{dye} - Harmonie {harmonyLower}',
+    harmonyDescription: 'Explorez les harmonies {harmonyLower} des teintures de FFXIV.',
+    harmonyDyeDescription:
+      'Explorez les harmonies {harmonyLower} de {dye} dans FFXIV. Trouvez les teintures assorties à votre mirage !',
+    gradientDescription: 'Créez des dégradés fluides entre les teintures de FFXIV.',
+    gradientDyeTitle: 'Dégradé de {start} à {end}',
+    gradientDyeDescription:
+      'Dégradé en {steps} étapes de {start} à {end}. Trouvez la progression idéale pour votre mirage FFXIV !',
+    mixerDescription: 'Mélangez des teintures de FFXIV et trouvez le résultat le plus proche.',
+    mixerThreeDyeDescription:
+      'Mélangez {a}, {b} et {c} pour trouver les teintures FFXIV de votre mélange parfait !',
+    mixerTwoDyeDescription:
+      'Mélangez {ratioA} % de {a} et {ratioB} % de {b} pour trouver les teintures FFXIV de votre mélange parfait !',
+    swatchTitle: 'Correspondances pour {hex}',
+    swatchDescription: 'Trouvez les {limit} teintures FFXIV les plus proches de {hex}.',
+    swatchHint: ' Idéal pour les couleurs de personnage ou vos propres palettes !',
+    swatchSheetDescription:
+      'Trouvez les teintures FFXIV assorties à cette couleur ({sheetLower}, {hex}).',
+    swatchRaceDescription:
+      'Trouvez les teintures FFXIV assorties à cette couleur ({sheetLower}, {race} {gender}, {hex}).',
+    comparisonDescription: 'Comparez jusqu’à 4 teintures de FFXIV côte à côte.',
+    comparisonDyeTitle: 'Comparaison : {dyes}',
+    comparisonDyeDescription: {
+      one: 'Comparaison de {count} teinture FFXIV : {dyes}. Voyez son rendu !',
+      other:
+        'Comparaison côte à côte de {count} teintures FFXIV : {dyes}. Voyez leur rendu ensemble !',
+    },
+    colorVision: 'Vision des couleurs',
+    accessibilityDescription:
+      'Vérifiez l’apparence des teintures de FFXIV pour les joueurs daltoniens.',
+    accessibilityDyeTitle: '{vision} : {dyes}',
+    accessibilityDyeDescription:
+      'Voyez l’apparence de {dyes} en cas de {visionLower}. Créez des mirages inclusifs !',
+  },
+
+  image: {
+    tools: {
+      harmony: 'Harmonies',
+      gradient: 'Dégradés',
+      mixer: 'Mélangeur',
+      swatch: 'Correspondance',
+      comparison: 'Comparaison',
+      accessibility: 'Accessibilité',
+    },
+    algorithm: 'Algorithme : {name}',
+    noMatches: 'Aucune correspondance',
+    nearestDye: 'Teinture la plus proche : {name}',
+    category: 'Catégorie : {name}',
+    colors: {
+      white: 'Blanc',
+      red: 'Rouge',
+      blue: 'Bleu',
+      yellow: 'Jaune',
+      brown: 'Brun',
+      green: 'Vert',
+      gold: 'Or',
+    },
+
+    input: 'ENTRÉE',
+    harmonyMatches: 'HARMONIES TROUVÉES',
+    harmonyHeadline: 'Explorez les harmonies',
+    harmonyTagline: 'Trouvez les teintures assorties à votre mirage FFXIV',
+
+    start: 'DÉBUT',
+    end: 'FIN',
+    step: 'Étape {step}',
+    steps: { one: '{count} étape', other: '{count} étapes' },
+    gradientHeadline: 'Créez des dégradés',
+    gradientTagline: 'Des transitions fluides entre les teintures de FFXIV',
+
+    result: 'RÉSULTAT',
+    blend: 'Mélange {ratioA}/{ratioB}',
+    threeDyeBlend: 'Mélange de 3 teintures',
+    mixerHeadline: 'Mélangez les teintures',
+    mixerTagline: 'Mélangez deux teintures FFXIV et trouvez la plus proche',
+
+    inputColor: 'COULEUR D’ENTRÉE',
+    from: 'ORIGINE',
+    gridPosition: 'Ligne {row}, colonne {col}',
+    topMatches: { one: 'MEILLEURE CORRESPONDANCE', other: '{count} MEILLEURES CORRESPONDANCES' },
+    raceSheet: '{sheet} ({race} {gender})',
+    swatchHeadline: 'Trouvez n’importe quelle couleur',
+    swatchTagline: 'Trouvez les teintures FFXIV assorties à vos couleurs',
+
+    dyesCompared: {
+      one: '{count} teinture comparée',
+      other: '{count} teintures comparées',
+    },
+    comparisonHeadline: 'Comparez les teintures côte à côte',
+    comparisonTagline: 'Choisissez jusqu’à 4 teintures pour comparer couleurs et détails',
+
+    originalColors: 'COULEURS D’ORIGINE',
+    simulatedView: 'VUE SIMULÉE',
+    original: 'Original :',
+    accessibilityHeadline: 'Accessibilité des couleurs',
+    accessibilityTagline: 'Voyez vos teintures comme les joueurs daltoniens',
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * Japanese UI Strings
+ *
+ * @module locales/ja
+ */
+
+import type { Messages } from '../i18n';
+
+export const ja: Messages = {
+  ogLocale: 'ja_JP',
+  tools: {
+    harmony: 'カラーハーモニー',
+    gradient: 'グラデーション作成',
+    mixer: 'カララント調合',
+    swatch: 'カラーマッチング',
+    comparison: 'カララント比較',
+    accessibility: 'アクセシビリティチェック',
+  },
+  harmonies: {
+    complementary: '補色',
+    analogous: '類似色',
+    triadic: 'トライアド',
+    'split-complementary': 'スプリット補色',
+    tetradic: 'テトラード',
+    square: 'スクエア',
+    monochromatic: 'モノクロマティック',
+    compound: 'コンパウンド',
+    shades: 'シェード',
+  },
+  visions: {
+    normal: '一般色覚',
+    protanopia: '1型色覚',
+    deuteranopia: '2型色覚',
+    tritanopia: '3型色覚',
+    achromatopsia: '全色盲',
+  },
+  visionDetails: {
+    normal: 'すべての色を識別できる色覚',
+    protanopia: '赤を感じる錐体がない色覚',
+    deuteranopia: '緑を感じる錐体がない色覚',
+    tritanopia: '青を感じる錐体がない色覚',
+    achromatopsia: '色をまったく識別できない色覚',
+  },
+  sheets: {
+    eyeColors: '瞳の色',
+    highlightColors: 'メッシュ',
+    lipColorsDark: '唇の色（ダーク）',
+    lipColorsLight: '唇の色（ライト）',
+    tattooColors: 'タトゥー/リンバルリング',
+    facePaintColorsDark: 'フェイスペイント（ダーク）',
+    facePaintColorsLight: 'フェイスペイント（ライト）',
+    hairColors: '髪の色',
+    skinColors: '肌の色',
+  },
+  genders: {
+    Male: '男性',
+    Female: '女性',
+  },
+  subraces: {
+    Midlander: 'ミッドランダー',
+    Highlander: 'ハイランダー',
+    Wildwood: 'フォレスター',
+    Duskwight: 'シェーダー',
+    Plainsfolk: 'プレーンフォーク',
+    Dunesfolk: 'デューンフォーク',
+    SeekerOfTheSun: 'サンシーカー',
+    KeeperOfTheMoon: 'ムーンキーパー',
+    SeaWolf: 'ゼーヴォルフ',
+    Hellsguard: 'ローエンガルデ',
+    Raen: 'アウラ・レン',
+    Xaela: 'アウラ・ゼラ',
+    Rava: 'ラヴァ・ヴィエラ',
+    Veena: 'ヴィナ・ヴィエラ',
+    Helion: 'ヘリオン',
+    TheLost: 'ロスト',
+  },
+  customColor: 'カスタムカラー',
+  inputColor: '入力カラー',
+
+  page: {
+    redirecting: 'XIV Dye Tools に移動しています...',
+    clickHere: '自動で移動しない場合はこちらをクリック',
+  },
+
+  embed: {
+    openInApp: 'XIV Dye Tools で開く',
+  },
+
+  og: {
+    siteDescription:
+      'FFXIVのカララントの色を調べて、調和のとれたパレットを作り、理想のミラプリを見つけよう。',
+    customColorDetail: '{name}（最も近いカララント: {nearest}）',
+    harmonyTitle: '{harmony}ハーモニー',
+    harmonyDyeTitle: '{dye} - {harmony}ハーモニー',
+    harmonyDescription: 'FFXIVのカララントで{harmony}のカラーハーモニーを探そう。',
+    harmonyDyeDescription:
+      'FFXIVの{dye}に合う{harmony}のカラーハーモニー。ミラプリに合うカララントを見つけよう！',
+    gradientDescription: 'FFXIVのカララント同士をなめらかなグラデーションでつなごう。',
+    gradientDyeTitle: '{start}から{end}へのグラデーション',
+    gradientDyeDescription:
+      '{start}から{end}への{steps}段階のグラデーション。FFXIVのミラプリにぴったりのカララントの流れを見つけよう！',
+    mixerDescription: 'FFXIVのカララントを混ぜて、最も近い色を見つけよう。',
+    mixerThreeDyeDescription:
+      '{a}、{b}、{c}を混ぜて、理想のブレンドに合うFFXIVのカララントを見つけよう！',
+    mixerTwoDyeDescription:
+      '{a} {ratioA}%と{b} {ratioB}%を混ぜて、理想のブレンドに合うFFXIVのカララントを見つけよう！',
+    swatchTitle: '{hex}にマッチ',
+    swatchDescription: '{hex}に合うFFXIVのカララント上位{limit}件を見つけよう。',
+    swatchHint: 'キャラクターの色やオリジナルのパレットに合わせるのに最適！',
+    swatchSheetDescription: 'この{sheet}（{hex}）に合うFFXIVのカララントを見つけよう。',
+    swatchRaceDescription:
+      'この{race}（{gender}）の{sheet}（{hex}）に合うFFXIVのカララントを見つけよう。',
+    comparisonDescription: 'FFXIVのカララントを最大4色まで並べて比較しよう。',
+    comparisonDyeTitle: '比較: {dyes}',
+    comparisonDyeDescription: {
+      other: 'FFXIVのカララント{count}色を並べて比較: {dyes}。組み合わせを確かめよう！',
+    },
+    colorVision: '色覚',
+    accessibilityDescription: '色覚の異なるプレイヤーにFFXIVのカララントがどう見えるか確かめよう。',
+    accessibilityDyeTitle: '{vision}: {dyes}',
+    accessibilityDyeDescription:
+      '{vision}では{dyes}がどう見えるか確かめよう。誰にでも見やすいミラプリを！',
+  },
+
+  image: {
+    tools: {
+      harmony: 'カラーハーモニー',
+      gradient: 'グラデーション',
+      mixer: 'カララント調合',
+      swatch: 'カラーマッチング',
+      comparison: '比較',
+      accessibility: 'アクセシビリティ',
+    },
+    algorithm: 'アルゴリズム: {name}',
+    noMatches: '一致するカララントがありません',
+    nearestDye: '最も近いカララント: {name}',
+    category: 'カテゴリ: {name}',
+    colors: {
+      white: '白',
+      red: '赤',
+      blue: '青',
+      yellow: '黄',
+      brown: '茶',
+      green: '緑',
+      gold: '金',
+    },
+
+    input: '入力',
+    harmonyMatches: 'ハーモニーの候補',
+    harmonyHeadline: 'カラーハーモニーを探そう',
+    harmonyTagline: 'FFXIVのミラプリに合うカララントを見つけよう',
+
+    start: '開始',
+    end: '終了',
+    step: 'ステップ{step}',
+    steps: { other: '{count}段階' },
+    gradientHeadline: 'グラデーションを作ろう',
+    gradientTagline: 'FFXIVのカララント同士をなめらかにつなごう',
+
+    result: '結果',
+    blend: '{ratioA}:{ratioB}ブレンド',
+    threeDyeBlend: '3色ブレンド',
+    mixerHeadline: 'カララントを混ぜよう',
+    mixerTagline: 'FFXIVのカララント2色を混ぜて最も近い色を見つけよう',
+
+    inputColor: '入力カラー',
+    from: '出典',
+    gridPosition: '{row}行目 {col}列目',
+    topMatches: { other: '上位{count}件' },
+    raceSheet: '{race}（{gender}）の{sheet}',
+    swatchHeadline: 'どんな色にもマッチ',
+    swatchTagline: 'オリジナルの色に合うFFXIVのカララントを見つけよう',
+
+    dyesCompared: { other: '{count}色を比較' },
+    comparisonHeadline: 'カララントを並べて比較',
+    comparisonTagline: '最大4色まで選んで色と詳細を比べよう',
+
+    originalColors: '元の色',
+    simulatedView: 'シミュレーション',
+    original: '元の色:',
+    accessibilityHeadline: '色覚アクセシビリティ',
+    accessibilityTagline: '色覚の異なるプレイヤーに選んだ色がどう見えるか確かめよう',
+  },
+};
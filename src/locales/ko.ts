@@ -0,0 +1,183 @@
+/**
+ * Korean UI Strings
+ *
+ * @module locales/ko
+ */
+
+import type { Messages } from '../i18n';
+
+export const ko: Messages = {
+  ogLocale: 'ko_KR',
+  tools: {
+    harmony: '색상 조화 탐색기',
+    gradient: '그라데이션 빌더',
+    mixer: '염료 혼합기',
+    swatch: '색상 매칭',
+    comparison: '염료 비교',
+    accessibility: '접근성 검사',
+  },
+  harmonies: {
+    complementary: '보색',
+    analogous: '유사색',
+    triadic: '3색 조화',
+    'split-complementary': '분할 보색',
+    tetradic: '4색 조화',
+    square: '정사각형 조화',
+    monochromatic: '단색',
+    compound: '복합 조화',
+    shades: '음영',
+  },
+  visions: {
+    normal: '정상 색각',
+    protanopia: '제1색맹',
+    deuteranopia: '제2색맹',
+    tritanopia: '제3색맹',
+    achromatopsia: '전색맹',
+  },
+  visionDetails: {
+    normal: '모든 색을 구별하는 색각',
+    protanopia: '적색맹 (적색 원추세포 없음)',
+    deuteranopia: '녹색맹 (녹색 원추세포 없음)',
+    tritanopia: '청색맹 (청색 원추세포 없음)',
+    achromatopsia: '색을 전혀 구별하지 못함',
+  },
+  sheets: {
+    eyeColors: '눈 색',
+    highlightColors: '브리지',
+    lipColorsDark: '입술 색 (어두움)',
+    lipColorsLight: '입술 색 (밝음)',
+    tattooColors: '문신/홍채 테두리',
+    facePaintColorsDark: '페이스 페인트 (어두움)',
+    facePaintColorsLight: '페이스 페인트 (밝음)',
+    hairColors: '머리 색',
+    skinColors: '피부 색',
+  },
+  genders: {
+    Male: '남성',
+    Female: '여성',
+  },
+  subraces: {
+    Midlander: '중원 부족',
+    Highlander: '고지 부족',
+    Wildwood: '숲 부족',
+    Duskwight: '황혼 부족',
+    Plainsfolk: '평원 부족',
+    Dunesfolk: '사막 부족',
+    SeekerOfTheSun: '태양의 추종자',
+    KeeperOfTheMoon: '달의 수호자',
+    SeaWolf: '바다늑대',
+    Hellsguard: '불꽃지킴이',
+    Raen: '렌',
+    Xaela: '젤라',
+    Rava: '라바',
+    Veena: '비나',
+    Helion: '헬리온',
+    TheLost: '로스트',
+  },
+  customColor: '사용자 지정 색',
+  inputColor: '입력 색상',
+
+  page: {
+    redirecting: 'XIV Dye Tools로 이동하는 중...',
+    clickHere: '자동으로 이동하지 않으면 여기를 클릭하세요',
+  },
+
+  embed: {
+    openInApp: 'XIV Dye Tools에서 열기',
+  },
+
+  og: {
+    siteDescription:
+      'FFXIV 염료 색을 살펴보고, 조화로운 팔레트를 만들고, 완벽한 외형 투영 조합을 찾아보세요.',
+    customColorDetail: '{name} (가장 가까운 염료: {nearest})',
+    harmonyTitle: '{harmony} 조화',
+    harmonyDyeTitle: '{dye} - {harmony} 조화',
+    harmonyDescription: 'FFXIV 염료의 {harmony} 색상 조화를 살펴보세요.',
+    harmonyDyeDescription:
+      'FFXIV {dye}의 {harmony} 색상 조화를 살펴보세요. 외형 투영에 어울리는 염료를 찾아보세요!',
+    gradientDescription: 'FFXIV 염료 사이의 부드러운 그라데이션을 만들어 보세요.',
+    gradientDyeTitle: '{start}에서 {end}까지 그라데이션',
+    gradientDyeDescription:
+      '{start}에서 {end}까지 {steps}단계 그라데이션. FFXIV 외형 투영에 딱 맞는 염료 흐름을 찾아보세요!',
+    mixerDescription: 'FFXIV 염료를 섞어 가장 가까운 결과를 찾아보세요.',
+    mixerThreeDyeDescription:
+      '{a}, {b}, {c}을(를) 섞어 완벽한 조합에 어울리는 FFXIV 염료를 찾아보세요!',
+    mixerTwoDyeDescription:
+      '{a} {ratioA}%와 {b} {ratioB}%를 섞어 완벽한 조합에 어울리는 FFXIV 염료를 찾아보세요!',
+    swatchTitle: '{hex} 매칭',
+    swatchDescription: '{hex}와 가장 잘 맞는 FFXIV 염료 {limit}개를 찾아보세요.',
+    swatchHint: ' 캐릭터 색상이나 나만의 팔레트에 맞추기 좋아요!',
+    swatchSheetDescription: '이 {sheet} ({hex})에 맞는 FFXIV 염료를 찾아보세요.',
+    swatchRaceDescription: '이 {race} {gender} {sheet} ({hex})에 맞는 FFXIV 염료를 찾아보세요.',
+    comparisonDescription: 'FFXIV 염료를 최대 4개까지 나란히 비교해 보세요.',
+    comparisonDyeTitle: '비교: {dyes}',
+    comparisonDyeDescription: {
+      other: 'FFXIV 염료 {count}개 나란히 비교: {dyes}. 함께 어떻게 보이는지 확인하세요!',
+    },
+    colorVision: '색각',
+    accessibilityDescription: '색각 이상이 있는 플레이어에게 FFXIV 염료가 어떻게 보이는지 확인하세요.',
+    accessibilityDyeTitle: '{vision}: {dyes}',
+    accessibilityDyeDescription:
+      '{vision}에서 {dyes}이(가) 어떻게 보이는지 확인하세요. 모두를 위한 외형 투영을 만들어 보세요!',
+  },
+
+  image: {
+    tools: {
+      harmony: '색상 조화',
+      gradient: '그라데이션',
+      mixer: '염료 혼합',
+      swatch: '색상 매칭',
+      comparison: '비교',
+      accessibility: '접근성',
+    },
+    algorithm: '알고리즘: {name}',
+    noMatches: '일치하는 염료 없음',
+    nearestDye: '가장 가까운 염료: {name}',
+    category: '분류: {name}',
+    colors: {
+      white: '흰색',
+      red: '빨강',
+      blue: '파랑',
+      yellow: '노랑',
+      brown: '갈색',
+      green: '초록',
+      gold: '금색',
+    },
+
+    input: '입력',
+    harmonyMatches: '조화 색상',
+    harmonyHeadline: '색상 조화 탐색',
+    harmonyTagline: 'FFXIV 외형 투영에 어울리는 염료를 찾아보세요',
+
+    start: '시작',
+    end: '끝',
+    step: '{step}단계',
+    steps: { other: '{count}단계' },
+    gradientHeadline: '그라데이션 만들기',
+    gradientTagline: 'FFXIV 염료 사이를 부드럽게 이어 보세요',
+
+    result: '결과',
+    blend: '{ratioA}:{ratioB} 혼합',
+    threeDyeBlend: '3색 혼합',
+    mixerHeadline: '염료 섞기',
+    mixerTagline: 'FFXIV 염료 두 개를 섞어 가장 가까운 염료를 찾아보세요',
+
+    inputColor: '입력 색상',
+    from: '출처',
+    gridPosition: '{row}행 {col}열',
+    topMatches: { other: '상위 {count}개' },
+    raceSheet: '{race} {gender} {sheet}',
+    swatchHeadline: '어떤 색이든 매칭',
+    swatchTagline: '나만의 색에 어울리는 FFXIV 염료를 찾아보세요',
+
+    dyesCompared: { other: '염료 {count}개 비교' },
+    comparisonHeadline: '염료 나란히 비교',
+    comparisonTagline: '최대 4개의 염료를 골라 색과 정보를 비교하세요',
+
+    originalColors: '원래 색',
+    simulatedView: '시뮬레이션',
+    original: '원래 색:',
+    accessibilityHeadline: '색각 접근성',
+    accessibilityTagline: '색각 이상 플레이어에게 보이는 염료 색을 확인하세요',
+  },
+};
@@ -0,0 +1,179 @@
+/**
+ * Simplified Chinese UI Strings
+ *
+ * @module locales/zh
+ */
+
+import type { Messages } from '../i18n';
+
+export const zh: Messages = {
+  ogLocale: 'zh_CN',
+  tools: {
+    harmony: '配色探索',
+    gradient: '渐变生成器',
+    mixer: '染剂混合器',
+    swatch: '颜色匹配',
+    comparison: '染剂对比',
+    accessibility: '无障碍检查',
+  },
+  harmonies: {
+    complementary: '互补色',
+    analogous: '类似色',
+    triadic: '三角色',
+    'split-complementary': '分裂互补色',
+    tetradic: '四角色',
+    square: '方形配色',
+    monochromatic: '单色',
+    compound: '复合配色',
+    shades: '深浅色',
+  },
+  visions: {
+    normal: '正常色觉',
+    protanopia: '红色盲',
+    deuteranopia: '绿色盲',
+    tritanopia: '蓝色盲',
+    achromatopsia: '全色盲',
+  },
+  visionDetails: {
+    normal: '完整的色觉',
+    protanopia: '无法分辨红色（缺少红视锥）',
+    deuteranopia: '无法分辨绿色（缺少绿视锥）',
+    tritanopia: '无法分辨蓝色（缺少蓝视锥）',
+    achromatopsia: '完全无法分辨颜色',
+  },
+  sheets: {
+    eyeColors: '瞳色',
+    highlightColors: '挑染',
+    lipColorsDark: '唇色（深）',
+    lipColorsLight: '唇色（浅）',
+    tattooColors: '纹身/虹膜环',
+    facePaintColorsDark: '面妆（深）',
+    facePaintColorsLight: '面妆（浅）',
+    hairColors: '发色',
+    skinColors: '肤色',
+  },
+  genders: {
+    Male: '男性',
+    Female: '女性',
+  },
+  subraces: {
+    Midlander: '中原之民',
+    Highlander: '高地之民',
+    Wildwood: '森林之民',
+    Duskwight: '黑影之民',
+    Plainsfolk: '平原之民',
+    Dunesfolk: '沙漠之民',
+    SeekerOfTheSun: '逐日之民',
+    KeeperOfTheMoon: '护月之民',
+    SeaWolf: '北洋之民',
+    Hellsguard: '红焰之民',
+    Raen: '晨曦之民',
+    Xaela: '暮晖之民',
+    Rava: '山林之民',
+    Veena: '密林之民',
+    Helion: '日光之民',
+    TheLost: '迷失之民',
+  },
+  customColor: '自定义颜色',
+  inputColor: '输入颜色',
+
+  page: {
+    redirecting: '正在跳转到 XIV Dye Tools...',
+    clickHere: '如果没有自动跳转，请点击这里',
+  },
+
+  embed: {
+    openInApp: '在 XIV Dye Tools 中打开',
+  },
+
+  og: {
+    siteDescription: '探索FFXIV染剂颜色，创建和谐的配色，找到完美的幻化搭配。',
+    customColorDetail: '{name}（最接近的染剂：{nearest}）',
+    harmonyTitle: '{harmony}配色',
+    harmonyDyeTitle: '{dye} - {harmony}配色',
+    harmonyDescription: '探索FFXIV染剂的{harmony}配色。',
+    harmonyDyeDescription: '探索FFXIV中{dye}的{harmony}配色，为你的幻化找到搭配的染剂！',
+    gradientDescription: '在FFXIV染剂之间创建平滑的渐变。',
+    gradientDyeTitle: '{start}到{end}的渐变',
+    gradientDyeDescription:
+      '从{start}到{end}的{steps}级渐变，为你的FFXIV幻化找到完美的染剂过渡！',
+    mixerDescription: '混合FFXIV染剂，找到最接近的结果。',
+    mixerThreeDyeDescription: '混合{a}、{b}和{c}，为你的完美调色找到匹配的FFXIV染剂！',
+    mixerTwoDyeDescription:
+      '将{ratioA}%的{a}与{ratioB}%的{b}混合，为你的完美调色找到匹配的FFXIV染剂！',
+    swatchTitle: '匹配{hex}',
+    swatchDescription: '找到与{hex}最匹配的前{limit}种FFXIV染剂。',
+    swatchHint: '非常适合匹配角色颜色或自定义配色！',
+    swatchSheetDescription: '找到与这个{sheet}（{hex}）匹配的FFXIV染剂。',
+    swatchRaceDescription: '找到与这个{race}{gender}{sheet}（{hex}）匹配的FFXIV染剂。',
+    comparisonDescription: '并排对比最多4种FFXIV染剂。',
+    comparisonDyeTitle: '对比：{dyes}',
+    comparisonDyeDescription: {
+      other: '并排对比{count}种FFXIV染剂：{dyes}。看看它们搭配起来的效果！',
+    },
+    colorVision: '色觉',
+    accessibilityDescription: '查看色觉障碍玩家眼中的FFXIV染剂。',
+    accessibilityDyeTitle: '{vision}：{dyes}',
+    accessibilityDyeDescription: '查看{dyes}在{vision}下的效果，打造人人可读的幻化！',
+  },
+
+  image: {
+    tools: {
+      harmony: '配色探索',
+      gradient: '渐变生成',
+      mixer: '染剂混合',
+      swatch: '颜色匹配',
+      comparison: '对比',
+      accessibility: '无障碍',
+    },
+    algorithm: '算法：{name}',
+    noMatches: '没有匹配的染剂',
+    nearestDye: '最接近的染剂：{name}',
+    category: '分类：{name}',
+    colors: {
+      white: '白',
+      red: '红',
+      blue: '蓝',
+      yellow: '黄',
+      brown: '棕',
+      green: '绿',
+      gold: '金',
+    },
+
+    input: '输入',
+    harmonyMatches: '配色结果',
+    harmonyHeadline: '探索配色',
+    harmonyTagline: '为你的FFXIV幻化找到搭配的染剂',
+
+    start: '起点',
+    end: '终点',
+    step: '第{step}级',
+    steps: { other: '{count}级' },
+    gradientHeadline: '创建渐变',
+    gradientTagline: '在FFXIV染剂之间创建平滑过渡',
+
+    result: '结果',
+    blend: '{ratioA}:{ratioB}混合',
+    threeDyeBlend: '三色混合',
+    mixerHeadline: '混合染剂',
+    mixerTagline: '混合两种FFXIV染剂并找到最接近的结果',
+
+    inputColor: '输入颜色',
+    from: '来源',
+    gridPosition: '第{row}行 第{col}列',
+    topMatches: { other: '前{count}个匹配' },
+    raceSheet: '{race}{gender}{sheet}',
+    swatchHeadline: '匹配任意颜色',
+    swatchTagline: '找到与你的自定义颜色匹配的FFXIV染剂',
+
+    dyesCompared: { other: '对比{count}种染剂' },
+    comparisonHeadline: '并排对比染剂',
+    comparisonTagline: '选择最多4种染剂，对比颜色和详情',
+
+    originalColors: '原始颜色',
+    simulatedView: '模拟效果',
+    original: '原始：',
+    accessibilityHeadline: '色觉无障碍',
+    accessibilityTagline: '看看色觉障碍玩家眼中你选择的染剂',
+  },
+};
@@ -0,0 +1,209 @@
+/**
+ * Tests for oEmbed Provider
+ *
+ * @module oembed.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildOEmbed,
+  fitImageSize,
+  oembedDiscoveryUrl,
+  parseOEmbedRequest,
+  parseToolUrl,
+  OEmbedError,
+  OEMBED_CACHE_AGE,
+} from './oembed';
+import { EMBED_CHROME_HEIGHT } from './embed';
+import type { Env, OGData } from './types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const SHARE_URL = 'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic';
+
+const ogData: OGData = {
+  title: 'Snow White - Triadic Harmony | XIV Dye Tools',
+  description: 'Explore triadic color harmonies.',
+  url: `${SHARE_URL}&v=1`,
+  imageUrl: 'https://og.xivdyetools.app/og/harmony/5771/triadic.png?h=0123456789ab',
+  siteName: 'XIV Dye Tools',
+};
+
+/**
+ * Run a function expected to throw an OEmbedError and return it
+ */
+function oembedError(fn: () => unknown): OEmbedError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof OEmbedError) return error;
+    throw error;
+  }
+  throw new Error('Expected an OEmbedError');
+}
+
+describe('oembed', () => {
+  describe('oembedDiscoveryUrl', () => {
+    it('should point at the worker host with the page URL encoded', () => {
+      expect(oembedDiscoveryUrl(env, SHARE_URL)).toBe(
+        'https://og.xivdyetools.app/oembed?url=' +
+          'https%3A%2F%2Fxivdyetools.app%2Fharmony%2F%3Fdye%3D5771%26harmony%3Dtriadic&format=json'
+      );
+    });
+
+    it('should use the same host whether or not the base URL carries /og', () => {
+      const bare = { ...env, OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app' };
+
+      expect(oembedDiscoveryUrl(bare, SHARE_URL)).toBe(oembedDiscoveryUrl(env, SHARE_URL));
+    });
+  });
+
+  describe('parseToolUrl', () => {
+    it.each(['harmony', 'gradient', 'mixer', 'swatch', 'comparison', 'accessibility'])(
+      'should resolve %s links',
+      (tool) => {
+        expect(parseToolUrl(`https://xivdyetools.app/${tool}/?a=1`, env)?.tool).toBe(tool);
+      }
+    );
+
+    it('should keep the share params', () => {
+      const target = parseToolUrl(SHARE_URL, env)!;
+
+      expect(target.searchParams.get('dye')).toBe('5771');
+      expect(target.searchParams.get('harmony')).toBe('triadic');
+    });
+
+    it('should accept links without a trailing slash', () => {
+      expect(parseToolUrl('https://xivdyetools.app/mixer?dyeA=1', env)?.tool).toBe('mixer');
+    });
+
+    it.each([
+      'not a url',
+      'https://evil.example/harmony/?dye=5771',
+      'http://xivdyetools.app/harmony/',
+      'https://xivdyetools.app/',
+      'https://xivdyetools.app/unknown/',
+      'https://xivdyetools.app/harmony/extra',
+      'https://xivdyetools.app/constructor/',
+    ])('should reject %j', (url) => {
+      expect(parseToolUrl(url, env)).toBeNull();
+    });
+  });
+
+  describe('parseOEmbedRequest', () => {
+    it('should default to a JSON photo response', () => {
+      const request = parseOEmbedRequest({ url: SHARE_URL }, env);
+
+      expect(request).toMatchObject({ tool: 'harmony', type: 'photo' });
+      expect(request.maxwidth).toBeUndefined();
+    });
+
+    it('should parse size limits and the rich type', () => {
+      const request = parseOEmbedRequest(
+        { url: SHARE_URL, format: 'json', type: 'rich', maxwidth: '600', maxheight: '400' },
+        env
+      );
+
+      expect(request).toMatchObject({ type: 'rich', maxwidth: 600, maxheight: 400 });
+    });
+
+    it('should answer non-JSON formats with 501', () => {
+      expect(oembedError(() => parseOEmbedRequest({ url: SHARE_URL, format: 'xml' }, env)))
+        .toMatchObject({ status: 501 });
+    });
+
+    it('should answer unsupported URLs with 404', () => {
+      const url = 'https://example.com/harmony/';
+
+      expect(oembedError(() => parseOEmbedRequest({ url }, env)).status).toBe(404);
+    });
+
+    it.each([
+      [{}],
+      [{ url: SHARE_URL, maxwidth: '0' }],
+      [{ url: SHARE_URL, maxheight: '-5' }],
+      [{ url: SHARE_URL, maxwidth: '12px' }],
+      [{ url: SHARE_URL, type: 'video' }],
+    ])('should answer %j with 400', (query) => {
+      expect(oembedError(() => parseOEmbedRequest(query, env)).status).toBe(400);
+    });
+
+    it('should serialize errors', () => {
+      const error = oembedError(() => parseOEmbedRequest({ url: SHARE_URL, format: 'xml' }, env));
+
+      expect(error.toJSON()).toEqual({
+        error: 'unsupported_format',
+        message: 'Unsupported format: xml',
+      });
+    });
+  });
+
+  describe('fitImageSize', () => {
+    it('should return the full image size without limits', () => {
+      expect(fitImageSize()).toEqual({ width: 1200, height: 630 });
+    });
+
+    it('should scale down to the tighter limit, keeping the aspect ratio', () => {
+      expect(fitImageSize(600)).toEqual({ width: 600, height: 315 });
+      expect(fitImageSize(600, 100)).toEqual({ width: 190, height: 100 });
+    });
+
+    it('should never scale up', () => {
+      expect(fitImageSize(5000, 5000)).toEqual({ width: 1200, height: 630 });
+    });
+  });
+
+  describe('buildOEmbed', () => {
+    it('should build a photo response pointing at the rendered image', () => {
+      expect(buildOEmbed(ogData, { type: 'photo' }, env)).toEqual({
+        version: '1.0',
+        type: 'photo',
+        title: ogData.title,
+        provider_name: 'XIV Dye Tools',
+        provider_url: 'https://xivdyetools.app',
+        cache_age: OEMBED_CACHE_AGE,
+        url: ogData.imageUrl,
+        width: 1200,
+        height: 630,
+        thumbnail_url: ogData.imageUrl,
+        thumbnail_width: 1200,
+        thumbnail_height: 630,
+      });
+    });
+
+    it('should build rich HTML framing the embed widget', () => {
+      const oembed = buildOEmbed(ogData, { type: 'rich', maxwidth: 600 }, env);
+
+      expect(oembed.type).toBe('rich');
+      expect(oembed.url).toBeUndefined();
+      expect(oembed.html).toContain(
+        '<iframe src="https://og.xivdyetools.app/embed/harmony/?dye=5771&amp;harmony=triadic'
+      );
+    });
+
+    it('should size the frame for the image plus the palette', () => {
+      const oembed = buildOEmbed(ogData, { type: 'rich', maxwidth: 600 }, env);
+
+      expect(oembed).toMatchObject({ width: 600, height: 315 + EMBED_CHROME_HEIGHT });
+      expect(oembed.html).toContain(`width="600" height="${315 + EMBED_CHROME_HEIGHT}"`);
+    });
+
+    it('should keep the frame within maxheight', () => {
+      const maxheight = 315 + EMBED_CHROME_HEIGHT;
+
+      expect(buildOEmbed(ogData, { type: 'rich', maxheight }, env).height).toBe(maxheight);
+    });
+
+    it('should escape values in rich HTML', () => {
+      const hostile = { ...ogData, title: '"><script>alert(1)</script>' };
+
+      const { html } = buildOEmbed(hostile, { type: 'rich' }, env);
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('title="&quot;&gt;&lt;script&gt;');
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * oEmbed Provider
+ *
+ * Serves oEmbed (https://oembed.com) for shared tool links, for platforms
+ * that prefer it over scraping meta tags (Discourse, Notion, WordPress,
+ * many Mastodon clients). Responses are built from the same `OGData` as
+ * the crawler page and point at the same rendered `/og/*` image.
+ *
+ *   GET /oembed?url=https://xivdyetools.app/harmony/?dye=5771&format=json
+ *
+ * Only JSON is supported. `type=rich` (non-standard) asks for an iframe of
+ * the embed widget (see embed.ts) instead of the default `photo` response.
+ *
+ * @module oembed
+ */
+
+import type { Env, OGData, ToolId } from './types';
+import { toolFromSharePath } from './share-urls';
+import { embedUrlFor, EMBED_CHROME_HEIGHT } from './embed';
+import { escapeXml } from './services/svg/base';
+import { workerOrigin } from './image-routes';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Path of the oEmbed endpoint on the worker */
+export const OEMBED_PATH = '/oembed';
+
+/** Suggested consumer cache lifetime (seconds) */
+export const OEMBED_CACHE_AGE = 86400;
+
+/** Size of the rendered OG images */
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OEmbedType = 'photo' | 'rich';
+
+/**
+ * oEmbed 1.0 response (photo or rich)
+ */
+export interface OEmbedResponse {
+  version: '1.0';
+  type: OEmbedType;
+  title: string;
+  provider_name: string;
+  provider_url: string;
+  cache_age: number;
+  /** Image URL (photo only) */
+  url?: string;
+  /** Embed markup (rich only) */
+  html?: string;
+  width: number;
+  height: number;
+  thumbnail_url: string;
+  thumbnail_width: number;
+  thumbnail_height: number;
+}
+
+/**
+ * A validated oEmbed request
+ */
+export interface OEmbedRequest {
+  tool: ToolId;
+  searchParams: URLSearchParams;
+  type: OEmbedType;
+  maxwidth?: number;
+  maxheight?: number;
+}
+
+/**
+ * oEmbed request error, with the status code the spec asks for
+ */
+export class OEmbedError extends Error {
+  constructor(
+    readonly status: 400 | 404 | 501,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OEmbedError';
+  }
+
+  toJSON(): { error: string; message: string } {
+    const codes = { 400: 'invalid_request', 404: 'not_found', 501: 'unsupported_format' };
+    return { error: codes[this.status], message: this.message };
+  }
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * The oEmbed endpoint URL for a page, for the discovery `<link>`.
+ * The endpoint lives on the worker's own host (the origin of `OG_IMAGE_BASE_URL`).
+ */
+export function oembedDiscoveryUrl(env: Env, pageUrl: string): string {
+  const endpoint = `${workerOrigin(env.OG_IMAGE_BASE_URL)}${OEMBED_PATH}`;
+  return `${endpoint}?url=${encodeURIComponent(pageUrl)}&format=json`;
+}
+
+/**
+ * Resolve a shared link to its tool and share params.
+ * Only `/{tool}` and `/{tool}/` pages on the app's own origin are supported.
+ */
+export function parseToolUrl(
+  url: string,
+  env: Env
+): { tool: ToolId; searchParams: URLSearchParams } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== new URL(env.APP_BASE_URL).origin) return null;
+
+  const tool = toolFromSharePath(parsed.pathname);
+  if (!tool) return null;
+
+  return { tool, searchParams: parsed.searchParams };
+}
+
+/**
+ * Parse an optional positive integer size limit
+ */
+function parseSizeLimit(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (!/^\d+$/.test(value) || Number(value) === 0) {
+    throw new OEmbedError(400, `${name} must be a positive integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * Validate the query of an oEmbed request
+ */
+export function parseOEmbedRequest(
+  query: Record<string, string | undefined>,
+  env: Env
+): OEmbedRequest {
+  const format = query.format ?? 'json';
+  if (format !== 'json') {
+    throw new OEmbedError(501, `Unsupported format: ${format}`);
+  }
+  if (!query.url) {
+    throw new OEmbedError(400, 'Missing url parameter');
+  }
+
+  const type = query.type ?? 'photo';
+  if (type !== 'photo' && type !== 'rich') {
+    throw new OEmbedError(400, 'type must be photo or rich');
+  }
+
+  const target = parseToolUrl(query.url, env);
+  if (!target) {
+    throw new OEmbedError(404, 'Not a shareable XIV Dye Tools link');
+  }
+
+  return {
+    ...target,
+    type,
+    maxwidth: parseSizeLimit('maxwidth', query.maxwidth),
+    maxheight: parseSizeLimit('maxheight', query.maxheight),
+  };
+}
+
+// ============================================================================
+// Response
+// ============================================================================
+
+/**
+ * Scale the OG image size down to fit `maxwidth`/`maxheight`, keeping
+ * its aspect ratio. Never scales up.
+ */
+export function fitImageSize(
+  maxwidth?: number,
+  maxheight?: number
+): { width: number; height: number } {
+  const scale = Math.min(
+    1,
+    maxwidth ? maxwidth / IMAGE_WIDTH : 1,
+    maxheight ? maxheight / IMAGE_HEIGHT : 1
+  );
+  return {
+    width: Math.max(1, Math.floor(IMAGE_WIDTH * scale)),
+    height: Math.max(1, Math.floor(IMAGE_HEIGHT * scale)),
+  };
+}
+
+/**
+ * Build the oEmbed response for a page's OG data.
+ * Rich responses leave room under the image for the widget's palette.
+ */
+export function buildOEmbed(
+  ogData: OGData,
+  request: Pick<OEmbedRequest, 'type' | 'maxwidth' | 'maxheight'>,
+  env: Env
+): OEmbedResponse {
+  const isRich = request.type === 'rich';
+  const maxImageHeight =
+    isRich && request.maxheight
+      ? Math.max(1, request.maxheight - EMBED_CHROME_HEIGHT)
+      : request.maxheight;
+  const { width, height } = fitImageSize(request.maxwidth, maxImageHeight);
+
+  const common = {
+    version: '1.0' as const,
+    title: ogData.title,
+    provider_name: ogData.siteName,
+    provider_url: env.APP_BASE_URL,
+    cache_age: OEMBED_CACHE_AGE,
+    width,
+    height,
+    thumbnail_url: ogData.imageUrl,
+    thumbnail_width: width,
+    thumbnail_height: height,
+  };
+
+  if (isRich) {
+    const frameHeight = height + EMBED_CHROME_HEIGHT;
+    const html =
+      `<iframe src="${escapeXml(embedUrlFor(env, ogData.url))}" ` +
+      `title="${escapeXml(ogData.title)}" width="${width}" height="${frameHeight}" ` +
+      `loading="lazy" frameborder="0"></iframe>`;
+    return { ...common, type: 'rich', html, height: frameHeight };
+  }
+
+  return { ...common, type: 'photo', url: ogData.imageUrl };
+}
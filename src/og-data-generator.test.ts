@@ -13,9 +13,27 @@ import {
   generateComparisonOGData,
   generateAccessibilityOGData,
   generateOGHTML,
+  generateOGMetaTags,
   generateOGDataForTool,
+  OG_HTML_SECURITY_HEADERS,
 } from './og-data-generator';
-import type { Env } from './types';
+import { buildCompactShareUrl, buildShareUrl, parseShareUrl } from './share-urls';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { HOSTILE_INPUTS, findUnsafeTags } from './test-utils/hostile-inputs';
+import { Hono } from 'hono';
+import {
+  imageBaseUrl,
+  registerImageRoutes,
+  withContentHash,
+  type ImageRouteMatch,
+} from './image-routes';
+import { computeContentHash } from './services/content-hash';
+import { getDyeDataVersion } from './services/svg/dye-helpers';
+import { getMessages } from './i18n';
+import { LOCALES } from './validation';
+import type { Env, ShareParams, ToolId } from './types';
 
 const mockEnv: Env = {
   APP_BASE_URL: 'https://xivdyetools.app',
@@ -70,6 +88,16 @@ describe('og-data-generator', () => {
         expect(result.url).toContain(`harmony=${harmony}`);
       });
     });
+
+    it('should describe custom colors with their nearest dye', () => {
+      const result = generateHarmonyOGData({ dye: 'hex:8B4513', harmony: 'triadic' }, mockEnv);
+
+      expect(result.title).toContain('Custom colour #8B4513 - Triadic Harmony');
+      expect(result.description).toMatch(/Custom colour #8B4513 \(nearest dye: .+\)/);
+      expect(result.url).toContain('dye=hex:8B4513');
+      expect(result.imageUrl).toContain('/harmony/hex:8B4513/triadic.png');
+      expect(result.themeColor).toBe('#8B4513');
+    });
   });
 
   describe('generateGradientOGData', () => {
@@ -143,6 +171,14 @@ describe('og-data-generator', () => {
       expect(result.imageUrl).toContain('/mixer/5771/5772/5773/50.png');
     });
 
+    it('should build share URLs that parse back to the same params', () => {
+      const params = { dyeA: 5771, dyeB: 5772, dyeC: 5773, ratio: 50, algo: 'oklab' as const };
+
+      const result = generateMixerOGData(params, mockEnv);
+
+      expect(parseShareUrl(result.url)).toEqual({ tool: 'mixer', ...params });
+    });
+
     it('should generate fallback for invalid dyes', () => {
       const result = generateMixerOGData(
         { dyeA: 999999, dyeB: 999998, ratio: 50 },
@@ -199,6 +235,21 @@ describe('og-data-generator', () => {
       expect(result.description).toContain('hair');
     });
 
+    it.each([
+      ['en', 'Seeker of the Sun'],
+      ['ja', 'サンシーカー'],
+      ['de', 'Goldtatze'],
+      ['zh', '逐日之民'],
+    ] as const)('should name the clan in %s', (lang, clan) => {
+      const result = generateSwatchOGData(
+        { color: 'FF5733', sheet: 'hairColors', race: 'SeekerOfTheSun', gender: 'Male', lang },
+        mockEnv
+      );
+
+      expect(result.description).toContain(clan);
+      expect(result.description).not.toContain('SeekerOfTheSun');
+    });
+
     it('should include sheet params in image URL', () => {
       const result = generateSwatchOGData(
         {
@@ -386,100 +437,561 @@ describe('og-data-generator', () => {
       expect(html).toContain('href="https://example.com/test?foo=bar"');
       expect(html).toContain("Click here if you're not redirected");
     });
+
+    it('should normalize the theme color', () => {
+      const html = generateOGHTML({ ...testOGData, themeColor: 'ff5733' });
+
+      expect(html).toContain('name="theme-color" content="#FF5733"');
+    });
+
+    it.each(HOSTILE_INPUTS)('should drop a hostile theme color %j', (themeColor) => {
+      const html = generateOGHTML({ ...testOGData, themeColor });
+
+      expect(html).not.toContain('name="theme-color"');
+    });
+
+    it.each(HOSTILE_INPUTS)('should keep %j inside its attribute or text node', (input) => {
+      const html = generateOGHTML({
+        title: input,
+        description: input,
+        url: `https://example.com/?q=${input}`,
+        imageUrl: `https://example.com/${input}.png`,
+        siteName: input,
+        themeColor: input,
+      });
+
+      expect(findUnsafeTags(html)).toEqual([]);
+      expect(html.match(/<\/title>/g)).toHaveLength(1);
+      expect(html.match(/<\/style>/g)).toHaveLength(1);
+    });
+
+    it('should allow exactly the inline styles in the CSP', () => {
+      const html = generateOGHTML(testOGData);
+      const styles = /<style>([\s\S]*?)<\/style>/.exec(html)![1];
+      const hash = createHash('sha256').update(styles).digest('base64');
+
+      const csp = OG_HTML_SECURITY_HEADERS['Content-Security-Policy'];
+      expect(csp).toContain(`style-src 'sha256-${hash}'`);
+      expect(csp).toContain("default-src 'none'");
+      expect(csp).not.toContain('unsafe-inline');
+    });
+  });
+
+  describe('generateOGMetaTags', () => {
+    const ogData = {
+      title: 'Test <Title>',
+      description: 'Test description',
+      url: 'https://example.com/test',
+      imageUrl: 'https://example.com/image.png',
+      siteName: 'Test Site',
+      themeColor: '#ff0000',
+    };
+
+    it('should be the head tags of the crawler page', () => {
+      expect(generateOGHTML(ogData)).toContain(generateOGMetaTags(ogData));
+    });
+
+    it('should leave out the document, refresh and styles', () => {
+      const tags = generateOGMetaTags(ogData);
+
+      expect(tags).toContain('<title>Test &lt;Title&gt;</title>');
+      expect(tags).toContain('<meta name="theme-color" content="#FF0000">');
+      expect(tags).not.toContain('<head>');
+      expect(tags).not.toContain('http-equiv="refresh"');
+      expect(tags).not.toContain('<style>');
+    });
+
+    it('should include the oEmbed discovery link when set', () => {
+      const tags = generateOGMetaTags({
+        ...ogData,
+        oembedUrl: 'https://og.example.com/oembed?url=x&format=json',
+      });
+
+      expect(tags).toContain(
+        '<link rel="alternate" type="application/json+oembed" ' +
+          'href="https://og.example.com/oembed?url=x&amp;format=json" title="Test &lt;Title&gt;">'
+      );
+      expect(generateOGMetaTags(ogData)).not.toContain('json+oembed');
+    });
+
+    it('should link the canonical URL', () => {
+      expect(generateOGMetaTags(ogData)).toContain(
+        '<link rel="canonical" href="https://example.com/test">'
+      );
+    });
+  });
+
+  describe('generateSwatchOGData hardening', () => {
+    it.each(HOSTILE_INPUTS)('should not carry a hostile color %j into the page', (color) => {
+      const html = generateOGHTML(generateSwatchOGData({ color, limit: 5 }, mockEnv));
+
+      expect(findUnsafeTags(html)).toEqual([]);
+      expect(html).not.toContain('name="theme-color"');
+    });
   });
 
   describe('generateOGDataForTool', () => {
-    it('should dispatch to harmony generator', () => {
+    it('should dispatch to harmony generator', async () => {
       const params = new URLSearchParams('dye=5771&harmony=tetradic');
-      const result = generateOGDataForTool('harmony', params, mockEnv);
+      const result = await generateOGDataForTool('harmony', params, mockEnv);
 
       expect(result.imageUrl).toContain('/harmony/');
     });
 
-    it('should dispatch to gradient generator', () => {
+    it('should dispatch to gradient generator', async () => {
       const params = new URLSearchParams('start=5771&end=5772&steps=5');
-      const result = generateOGDataForTool('gradient', params, mockEnv);
+      const result = await generateOGDataForTool('gradient', params, mockEnv);
 
       expect(result.imageUrl).toContain('/gradient/');
     });
 
-    it('should dispatch to mixer generator', () => {
+    it('should dispatch to mixer generator', async () => {
       const params = new URLSearchParams('dyeA=5771&dyeB=5772&ratio=60');
-      const result = generateOGDataForTool('mixer', params, mockEnv);
+      const result = await generateOGDataForTool('mixer', params, mockEnv);
 
       expect(result.imageUrl).toContain('/mixer/');
     });
 
-    it('should dispatch to swatch generator', () => {
+    it('should dispatch to swatch generator', async () => {
       const params = new URLSearchParams('color=FF5733&limit=5');
-      const result = generateOGDataForTool('swatch', params, mockEnv);
+      const result = await generateOGDataForTool('swatch', params, mockEnv);
 
       expect(result.imageUrl).toContain('/swatch/');
     });
 
-    it('should dispatch to comparison generator', () => {
+    it('should dispatch to comparison generator', async () => {
       const params = new URLSearchParams('dyes=5771,5772');
-      const result = generateOGDataForTool('comparison', params, mockEnv);
+      const result = await generateOGDataForTool('comparison', params, mockEnv);
 
       expect(result.imageUrl).toContain('/comparison/');
     });
 
-    it('should dispatch to accessibility generator', () => {
+    it('should dispatch to accessibility generator', async () => {
       const params = new URLSearchParams('dyes=5771&vision=protanopia');
-      const result = generateOGDataForTool('accessibility', params, mockEnv);
+      const result = await generateOGDataForTool('accessibility', params, mockEnv);
 
       expect(result.imageUrl).toContain('/accessibility/');
     });
 
-    it('should return default OG data for unknown tool', () => {
+    it('should return default OG data for unknown tool', async () => {
       const params = new URLSearchParams();
       // @ts-expect-error - Testing invalid tool
-      const result = generateOGDataForTool('unknown', params, mockEnv);
+      const result = await generateOGDataForTool('unknown', params, mockEnv);
 
       expect(result.title).toBe('XIV Dye Tools');
       expect(result.imageUrl).toContain('/default.png');
     });
 
-    it('should use default values for missing params', () => {
+    it('should use default values for missing params', async () => {
       const params = new URLSearchParams();
 
       // When params are empty/invalid, generators return fallback OG data
       // Check that fallback images are used for tools requiring dye IDs
-      const harmonyResult = generateOGDataForTool('harmony', params, mockEnv);
+      const harmonyResult = await generateOGDataForTool('harmony', params, mockEnv);
       expect(harmonyResult.imageUrl).toContain('/harmony/default.png');
 
-      const gradientResult = generateOGDataForTool('gradient', params, mockEnv);
+      const gradientResult = await generateOGDataForTool('gradient', params, mockEnv);
       expect(gradientResult.imageUrl).toContain('/gradient/default.png');
 
-      const mixerResult = generateOGDataForTool('mixer', params, mockEnv);
+      const mixerResult = await generateOGDataForTool('mixer', params, mockEnv);
       expect(mixerResult.imageUrl).toContain('/mixer/default.png');
 
       // Swatch defaults to FFFFFF color with limit 5
-      const swatchResult = generateOGDataForTool('swatch', params, mockEnv);
+      const swatchResult = await generateOGDataForTool('swatch', params, mockEnv);
       expect(swatchResult.imageUrl).toContain('/swatch/FFFFFF/5.png');
     });
 
-    it('should parse perceptual param for harmony', () => {
+    it.each([
+      { tool: 'harmony', dye: 5771, harmony: 'triadic', algo: 'ciede2000', perceptual: true },
+      { tool: 'mixer', dyeA: 5771, dyeB: 5772, dyeC: 5773, ratio: 40 },
+      {
+        tool: 'swatch',
+        color: '8B4513',
+        limit: 5,
+        sheet: 'hairColors',
+        race: 'SeekerOfTheSun',
+        gender: 'Female',
+      },
+      { tool: 'accessibility', dyes: [5771, 5772, 5773, 5774], vision: 'tritanopia' },
+    ] as ShareParams[])('should serve v1 and v=2 $tool links the same card', async (share) => {
+      const v1 = new URL(buildShareUrl(share));
+      const v2 = new URL(buildCompactShareUrl(share));
+
+      const { url, oembedUrl, ...card } = await generateOGDataForTool(
+        share.tool,
+        v2.searchParams,
+        mockEnv
+      );
+      const { url: _url, oembedUrl: _oembedUrl, ...v1Card } = await generateOGDataForTool(
+        share.tool,
+        v1.searchParams,
+        mockEnv
+      );
+
+      expect(card).toEqual(v1Card);
+      // A compact link is canonical in its own form
+      expect(url).toBe(v2.toString());
+      expect(oembedUrl).toContain(encodeURIComponent(v2.toString()));
+    });
+
+    it.each([
+      ['harmony', 'dye=5771&harmony=Tetradic&utm_source=discord', 'dye=5771&harmony=tetradic'],
+      ['harmony', 'harmony=tetradic&dye=5771', 'dye=5771&harmony=tetradic'],
+      ['comparison', 'dyes=5772,5771,5772', 'dyes=5771,5772'],
+    ] as const)(
+      'should give the %s link %s its canonical og:url',
+      async (tool, query, canonical) => {
+        const result = await generateOGDataForTool(tool, new URLSearchParams(query), mockEnv);
+
+        expect(result.url).toBe(`${mockEnv.APP_BASE_URL}/${tool}/?${canonical}&v=1`);
+      }
+    );
+
+    it('should use the fallback card for malformed v=2 state', async () => {
+      const params = new URLSearchParams('s=not!base64&v=2');
+      const result = await generateOGDataForTool('gradient', params, mockEnv);
+
+      expect(result.imageUrl).toContain('/gradient/default.png');
+    });
+
+    it('should parse perceptual param for harmony', async () => {
       const params = new URLSearchParams('dye=5771&harmony=analogous&perceptual=1');
-      const result = generateOGDataForTool('harmony', params, mockEnv);
+      const result = await generateOGDataForTool('harmony', params, mockEnv);
 
       // Should complete without error
       expect(result.imageUrl).toContain('/harmony/');
     });
 
-    it('should handle optional dyeC for mixer', () => {
+    it('should handle optional dyeC for mixer', async () => {
       const params = new URLSearchParams('dyeA=5771&dyeB=5772&dyeC=5773&ratio=50');
-      const result = generateOGDataForTool('mixer', params, mockEnv);
+      const result = await generateOGDataForTool('mixer', params, mockEnv);
 
       expect(result.imageUrl).toContain('/mixer/5771/5772/5773/');
     });
 
-    it('should filter invalid dye IDs in comparison', () => {
+    it('should filter invalid dye IDs in comparison', async () => {
       const params = new URLSearchParams('dyes=5771,invalid,5772');
-      const result = generateOGDataForTool('comparison', params, mockEnv);
+      const result = await generateOGDataForTool('comparison', params, mockEnv);
 
       // Should only include valid IDs
       expect(result.url).toContain('dyes=5771,5772');
     });
+
+    it('should carry algo into harmony, gradient and mixer image URLs', async () => {
+      const harmony = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=tetradic&algo=ciede2000'),
+        mockEnv
+      );
+      expect(harmony.imageUrl).toContain('/harmony/5771/tetradic.png?algo=ciede2000');
+      expect(harmony.url).toContain('algo=ciede2000');
+
+      const gradient = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772&steps=5&algo=euclidean'),
+        mockEnv
+      );
+      expect(gradient.imageUrl).toContain('/gradient/5771/5772/5.png?algo=euclidean');
+      expect(gradient.url).toContain('algo=euclidean');
+
+      const mixer = await generateOGDataForTool(
+        'mixer',
+        new URLSearchParams('dyeA=5771&dyeB=5772&ratio=60&algo=ciede2000'),
+        mockEnv
+      );
+      expect(mixer.imageUrl).toContain('/mixer/5771/5772/60.png?algo=ciede2000');
+      expect(mixer.url).toContain('algo=ciede2000');
+    });
+
+    it('should omit algo from URLs when not provided', async () => {
+      const result = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=tetradic'),
+        mockEnv
+      );
+
+      expect(result.imageUrl).not.toContain('algo=');
+      expect(result.url).not.toContain('algo=');
+    });
+
+    it('should fall back to the generic tool card for unknown algo values', async () => {
+      const result = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772&steps=5&algo=<script>'),
+        mockEnv
+      );
+
+      expect(result.imageUrl).toContain('/gradient/default.png');
+      expect(result.url).toBe(`${mockEnv.APP_BASE_URL}/gradient/`);
+    });
+
+    it.each([
+      ['harmony', 'dye=5771&harmony=foo'],
+      ['harmony', 'dye=12abc&harmony=triadic'],
+      ['mixer', 'dyeA=5771&dyeB=5772&ratio=lots'],
+      ['swatch', 'color=not-a-color'],
+      ['comparison', 'dyes=a,b'],
+      ['accessibility', 'dyes=5771&vision=blurry'],
+    ] as const)('should fall back to the generic %s card for %s', async (tool, query) => {
+      const result = await generateOGDataForTool(tool, new URLSearchParams(query), mockEnv);
+
+      expect(result.title).toContain('| XIV Dye Tools');
+      expect(result.url).toBe(`${mockEnv.APP_BASE_URL}/${tool}/`);
+      expect(result.imageUrl).toContain(`/${tool}/default.png`);
+    });
+
+    it('should clamp out-of-range numbers', async () => {
+      const gradient = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772&steps=900'),
+        mockEnv
+      );
+      expect(gradient.imageUrl).toContain('/gradient/5771/5772/10.png');
+
+      const swatch = await generateOGDataForTool(
+        'swatch',
+        new URLSearchParams('color=8b4513&limit=0'),
+        mockEnv
+      );
+      expect(swatch.imageUrl).toContain('/swatch/8B4513/1.png');
+    });
+
+    it('should accept algo case-insensitively', async () => {
+      const result = await generateOGDataForTool(
+        'mixer',
+        new URLSearchParams('dyeA=5771&dyeB=5772&ratio=50&algo=CIEDE2000'),
+        mockEnv
+      );
+
+      expect(result.imageUrl).toContain('algo=ciede2000');
+    });
+  });
+
+  describe('image URL round-trip', () => {
+    const app = new Hono<{ Bindings: Env }>();
+    registerImageRoutes(app, (c, match) => c.json(match));
+
+    /**
+     * Resolve an emitted og:image URL against the registered image routes
+     */
+    async function resolveImageUrl(imageUrl: string): Promise<ImageRouteMatch | null> {
+      const url = new URL(imageUrl);
+      const res = await app.request(`${url.pathname}${url.search}`);
+      return res.status === 200 ? ((await res.json()) as ImageRouteMatch) : null;
+    }
+
+    const cases: Array<[ToolId, string]> = [
+      ['harmony', 'dye=5771&harmony=tetradic'],
+      ['harmony', 'dye=5771&harmony=triadic&algo=ciede2000'],
+      ['harmony', ''],
+      ['gradient', 'start=5771&end=5772&steps=7'],
+      ['gradient', 'start=5771&end=5772&steps=5&algo=euclidean'],
+      ['gradient', 'start=999999&end=5772'],
+      ['mixer', 'dyeA=5771&dyeB=5772&ratio=60'],
+      ['mixer', 'dyeA=5771&dyeB=5772&dyeC=5773&ratio=50&algo=oklab'],
+      ['mixer', 'dyeA=5771'],
+      ['swatch', 'color=8B4513&limit=4'],
+      ['swatch', 'color=8B4513&limit=5&sheet=hairColors&race=Midlander&gender=Female'],
+      ['swatch', ''],
+      ['comparison', 'dyes=5771,5772,5773'],
+      ['comparison', ''],
+      ['accessibility', 'dyes=5771,5772&vision=protanopia'],
+      ['accessibility', ''],
+    ];
+
+    it.each(cases)('should resolve the %s image URL for "%s"', async (tool, query) => {
+      const result = await generateOGDataForTool(tool, new URLSearchParams(query), mockEnv);
+
+      const match = await resolveImageUrl(result.imageUrl);
+
+      expect(match).not.toBeNull();
+      expect(match!.tool).toBe(tool);
+      // The emitted hash must be the one the route expects for the normalized path
+      const expectedHash = computeContentHash(match!.path, getDyeDataVersion());
+      expect(match!.hash).toBe(expectedHash);
+      const base = imageBaseUrl(mockEnv.OG_IMAGE_BASE_URL);
+      expect(`${base}${withContentHash(match!.path, expectedHash)}`).toBe(result.imageUrl);
+    });
+
+    // The deployed vars, not just the mock env, must produce routable URLs
+    const wranglerBaseUrls = [
+      ...readFileSync(join(__dirname, '..', 'wrangler.toml'), 'utf-8').matchAll(
+        /^OG_IMAGE_BASE_URL = "([^"]+)"/gm
+      ),
+    ].map((m) => m[1]);
+
+    it('should find OG_IMAGE_BASE_URL in every wrangler.toml vars block', () => {
+      expect(wranglerBaseUrls).toHaveLength(2);
+    });
+
+    it.each(wranglerBaseUrls)('should resolve image URLs built from %s', async (baseUrl) => {
+      const env = { ...mockEnv, OG_IMAGE_BASE_URL: baseUrl };
+
+      for (const [tool, query] of cases) {
+        const result = await generateOGDataForTool(tool, new URLSearchParams(query), env);
+
+        expect(new URL(result.imageUrl).origin).toBe(new URL(baseUrl).origin);
+        expect((await resolveImageUrl(result.imageUrl))?.tool).toBe(tool);
+      }
+    });
+  });
+
+  describe('content-addressed image URLs', () => {
+    it('should append a content hash to tool image URLs', () => {
+      const result = generateHarmonyOGData({ dye: 5771, harmony: 'tetradic' }, mockEnv);
+
+      expect(result.imageUrl).toMatch(/\/harmony\/5771\/tetradic\.png\?h=[0-9a-f]{12}$/);
+    });
+
+    it('should emit the same URL for the same inputs', async () => {
+      const a = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772'),
+        mockEnv
+      );
+      const b = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('end=5772&start=5771&steps=5'),
+        mockEnv
+      );
+
+      expect(a.imageUrl).toBe(b.imageUrl);
+    });
+
+    it('should emit different hashes for different render inputs', async () => {
+      const oklab = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=triadic&algo=oklab'),
+        mockEnv
+      );
+      const ciede = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=triadic&algo=ciede2000'),
+        mockEnv
+      );
+
+      const hashOf = (url: string) => new URL(url).searchParams.get('h');
+      expect(hashOf(oklab.imageUrl)).not.toBe(hashOf(ciede.imageUrl));
+    });
+
+    it('should hash the site default image URL for unknown tools', async () => {
+      const result = await generateOGDataForTool(
+        'unknown' as never,
+        new URLSearchParams(),
+        mockEnv
+      );
+
+      expect(result.imageUrl).toMatch(/\/default\.png\?h=[0-9a-f]{12}$/);
+    });
+  });
+
+  describe('localisation', () => {
+    const ogData = {
+      title: 'Test Title',
+      description: 'Test description',
+      url: 'https://example.com/test',
+      imageUrl: 'https://example.com/image.png',
+      siteName: 'Test Site',
+    };
+
+    it.each(LOCALES)('should write lang=%s links in that language', async (locale) => {
+      const t = getMessages(locale);
+      const result = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams(`dye=5771&harmony=triadic&lang=${locale}`),
+        mockEnv
+      );
+
+      expect(result.locale).toBe(locale);
+      expect(result.title).toContain(t.harmonies.triadic);
+      expect(result.url).toContain(`lang=${locale}`);
+      expect(result.imageUrl).toContain(`lang=${locale}`);
+    });
+
+    it.each(LOCALES)('should write every %s fallback card', async (locale) => {
+      for (const tool of ['gradient', 'mixer', 'comparison', 'accessibility'] as const) {
+        const result = await generateOGDataForTool(tool, new URLSearchParams(), mockEnv, locale);
+
+        expect(result.title).toBe(`${getMessages(locale).tools[tool]} | XIV Dye Tools`);
+        expect(result.description).not.toMatch(/[{}]/);
+      }
+    });
+
+    it('should use the fallback language for links without lang', async () => {
+      const result = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772&steps=5'),
+        mockEnv,
+        'fr'
+      );
+
+      expect(result.locale).toBe('fr');
+      expect(result.title).toContain('Dégradé');
+      expect(result.imageUrl).toContain('lang=fr');
+      // The page's canonical URL doesn't depend on who asked for it
+      expect(result.url).not.toContain('lang=');
+    });
+
+    it('should prefer the link lang over the fallback language', async () => {
+      const result = await generateOGDataForTool(
+        'comparison',
+        new URLSearchParams('dyes=5771&lang=de'),
+        mockEnv,
+        'ja'
+      );
+
+      expect(result.locale).toBe('de');
+      expect(result.description).toContain('1 FFXIV-Farbstoff:');
+    });
+
+    it('should leave English out of image URLs', async () => {
+      const result = await generateOGDataForTool(
+        'comparison',
+        new URLSearchParams('dyes=5771'),
+        mockEnv,
+        'en'
+      );
+
+      expect(result.imageUrl).not.toContain('lang=');
+    });
+
+    it('should serve the default image in the page language', async () => {
+      const result = await generateOGDataForTool('mixer', new URLSearchParams(), mockEnv, 'ko');
+
+      expect(result.imageUrl).toContain('/mixer/default.png?lang=ko');
+    });
+
+    it('should name custom colors in the page language', async () => {
+      const result = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=hex:8B4513&harmony=triadic&lang=ja'),
+        mockEnv
+      );
+
+      expect(result.title).toContain('カスタムカラー');
+      expect(result.description).toContain('最も近いカララント');
+    });
+
+    it('should tag the page with og:locale and the other languages as alternates', () => {
+      const tags = generateOGMetaTags({ ...ogData, locale: 'ja' });
+
+      expect(tags).toContain('<meta property="og:locale" content="ja_JP">');
+      for (const locale of LOCALES.filter((locale) => locale !== 'ja')) {
+        const alternate = getMessages(locale).ogLocale;
+        expect(tags).toContain(`<meta property="og:locale:alternate" content="${alternate}">`);
+      }
+      expect(tags).not.toContain('og:locale:alternate" content="ja_JP"');
+    });
+
+    it('should default og:locale to English', () => {
+      expect(generateOGMetaTags(ogData)).toContain('<meta property="og:locale" content="en_US">');
+    });
+
+    it.each(LOCALES)('should write the %s crawler page in its language', (locale) => {
+      const html = generateOGHTML({ ...ogData, locale });
+
+      expect(html).toContain(`<html lang="${locale}">`);
+      expect(html).toContain(getMessages(locale).page.clickHere.replace(/'/g, '&#039;'));
+    });
   });
 });
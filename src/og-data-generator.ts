@@ -8,99 +8,102 @@
  * @module og-data-generator
  */
 
-import { DyeService, dyeDatabase, type Dye } from '@xivdyetools/core';
+import { createHash } from 'node:crypto';
 import type {
   OGData,
   ToolId,
+  ToolParams,
+  ShareParams,
   HarmonyParams,
   GradientParams,
   MixerParams,
   SwatchParams,
   ComparisonParams,
   AccessibilityParams,
-  HarmonyType,
-  VisionType,
-  ColorSheetCategory,
-  CharacterGender,
+  DyeRef,
+  Locale,
+  MatchingAlgorithm,
   Env,
 } from './types';
+import {
+  buildImagePath,
+  buildDefaultImagePath,
+  imageBaseUrl,
+  withContentHash,
+  withSignature,
+  SITE_DEFAULT_IMAGE_PATH,
+} from './image-routes';
+import { LOCALES, validateSearchParams, ValidationError } from './validation';
+import {
+  buildShareUrl,
+  canonicalizeShareParams,
+  isCompactShareQuery,
+  toCompactShareUrl,
+} from './share-urls';
+import { computeContentHash } from './services/content-hash';
+import { getPrimarySigningKey, signImagePath } from './services/url-signing';
+import { oembedDiscoveryUrl } from './oembed';
+import {
+  dyeName,
+  getDyeDataVersion,
+  loadDyeNames,
+  nearestDyeOf,
+  resolveDyeRef,
+} from './services/svg/dye-helpers';
+import { DEFAULT_LOCALE, formatMessage, formatPlural, getMessages } from './i18n';
 
 // ============================================================================
-// Tool Display Names
-// ============================================================================
-
-const TOOL_NAMES: Record<ToolId, string> = {
-  harmony: 'Harmony Explorer',
-  gradient: 'Gradient Builder',
-  mixer: 'Dye Mixer',
-  swatch: 'Swatch Matcher',
-  comparison: 'Dye Comparison',
-  accessibility: 'Accessibility Checker',
-};
-
-const HARMONY_NAMES: Record<HarmonyType, string> = {
-  complementary: 'Complementary',
-  analogous: 'Analogous',
-  triadic: 'Triadic',
-  'split-complementary': 'Split-Complementary',
-  tetradic: 'Tetradic',
-  square: 'Square',
-  monochromatic: 'Monochromatic',
-  compound: 'Compound',
-  shades: 'Shades',
-};
-
-const VISION_NAMES: Record<VisionType, string> = {
-  normal: 'Normal Vision',
-  protanopia: 'Protanopia',
-  deuteranopia: 'Deuteranopia',
-  tritanopia: 'Tritanopia',
-  achromatopsia: 'Achromatopsia',
-};
-
-const SHEET_NAMES: Record<ColorSheetCategory, string> = {
-  eyeColors: 'Eye Colors',
-  highlightColors: 'Highlights',
-  lipColorsDark: 'Lip Colors (Dark)',
-  lipColorsLight: 'Lip Colors (Light)',
-  tattooColors: 'Tattoo/Limbal',
-  facePaintColorsDark: 'Face Paint (Dark)',
-  facePaintColorsLight: 'Face Paint (Light)',
-  hairColors: 'Hair Colors',
-  skinColors: 'Skin Colors',
-};
-
-// ============================================================================
-// DyeService Instance
+// Helper Functions
 // ============================================================================
 
 /**
- * Initialize DyeService with the embedded dye database.
- * This runs once when the module is loaded.
+ * Name and color of a share's dye, as written in titles and descriptions
  */
-const dyeService = new DyeService(dyeDatabase);
-
-// ============================================================================
-// Helper Functions
-// ============================================================================
+interface DyeInfo {
+  name: string;
+  hex: string;
+  /** Name and hex for descriptions, e.g. "Snow White (#E4DFD0)" */
+  detail: string;
+}
 
 /**
- * Get dye name and hex color by itemID
+ * Get the name and hex color of a dye or custom color, named in the given
+ * language. Custom colors are named by their hex, with their nearest dye in
+ * the detail.
  */
-function getDyeInfo(itemID: number): { name: string; hex: string } | null {
-  const allDyes = dyeService.getAllDyes();
-  const dye = allDyes.find((d: Dye) => d.itemID === itemID);
+function getDyeInfo(ref: DyeRef, locale: Locale, algo?: MatchingAlgorithm): DyeInfo | null {
+  const dye = resolveDyeRef(ref, algo);
 
   if (!dye) {
     return null;
   }
 
+  const nearest = nearestDyeOf(dye);
+  if (nearest) {
+    const name = `${getMessages(locale).customColor} ${dye.hex}`;
+    const detail = formatMessage(getMessages(locale).og.customColorDetail, {
+      name,
+      nearest: dyeName(nearest, locale),
+    });
+    return { name, hex: dye.hex, detail };
+  }
+
+  const name = dyeName(dye, locale);
   return {
-    name: dye.name,
+    name,
     hex: dye.hex,
+    detail: `${name} (${dye.hex})`,
   };
 }
 
+/**
+ * Share params with the page's language, so the image matches the text.
+ * English is the default and stays out of the image URL.
+ */
+function withLocale<P extends { lang?: Locale }>(params: P, locale: Locale): P {
+  return locale === DEFAULT_LOCALE ? params : { ...params, lang: locale };
+}
+
 /**
  * Format hex color for display (ensure # prefix)
  */
@@ -108,6 +111,41 @@ function formatHex(hex: string): string {
   return hex.startsWith('#') ? hex : `#${hex}`;
 }
 
+/**
+ * Build an absolute, content-addressed image URL for a registry path.
+ * The hash pins the URL to the current renderer and dye data, so it can
+ * be cached as immutable; the signature (when a key is configured) lets
+ * the image routes render it.
+ */
+function hashedImageUrl(env: Env, path: string): string {
+  const hashed = withContentHash(path, computeContentHash(path, getDyeDataVersion()));
+  const key = getPrimarySigningKey(env);
+  const url = key ? withSignature(hashed, signImagePath(path, key)) : hashed;
+  return `${imageBaseUrl(env.OG_IMAGE_BASE_URL)}${url}`;
+}
+
+/**
+ * Build an absolute OG image URL from the image route registry
+ */
+function imageUrlFor<T extends ToolId>(env: Env, tool: T, params: ToolParams<T>): string {
+  return hashedImageUrl(env, buildImagePath(tool, params));
+}
+
+/**
+ * Build the absolute URL of a tool's default image in the given language
+ */
+function defaultImageUrlFor(env: Env, tool: ToolId, locale: Locale): string {
+  const lang = locale === DEFAULT_LOCALE ? undefined : locale;
+  return hashedImageUrl(env, buildDefaultImagePath(tool, lang));
+}
+
+/**
+ * Build the absolute URL of the site-wide default image
+ */
+export function siteDefaultImageUrl(env: Env): string {
+  return hashedImageUrl(env, SITE_DEFAULT_IMAGE_PATH);
+}
+
 // ============================================================================
 // Tool-Specific OG Data Generators
 // ============================================================================
@@ -115,72 +153,99 @@ function formatHex(hex: string): string {
 /**
  * Generate OG data for Harmony Explorer
  */
-export function generateHarmonyOGData(params: HarmonyParams, env: Env): OGData {
-  const dyeInfo = getDyeInfo(params.dye);
-  const harmonyName = HARMONY_NAMES[params.harmony] || params.harmony;
+export function generateHarmonyOGData(
+  params: HarmonyParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
+  const dyeInfo = getDyeInfo(params.dye, locale, params.algo);
+  const harmony = t.harmonies[params.harmony] || params.harmony;
+  const names = { harmony, harmonyLower: harmony.toLowerCase() };
 
   if (!dyeInfo) {
     return {
-      title: `${harmonyName} Harmony | XIV Dye Tools`,
-      description: `Explore ${harmonyName.toLowerCase()} color harmonies for FFXIV dyes.`,
+      title: `${formatMessage(t.og.harmonyTitle, names)} | XIV Dye Tools`,
+      description: formatMessage(t.og.harmonyDescription, names),
       url: `${env.APP_BASE_URL}/harmony/`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/harmony/default.png`,
+      imageUrl: defaultImageUrlFor(env, 'harmony', locale),
       siteName: 'XIV Dye Tools',
+      locale,
     };
   }
 
+  const title = formatMessage(t.og.harmonyDyeTitle, { ...names, dye: dyeInfo.name });
   return {
-    title: `${dyeInfo.name} - ${harmonyName} Harmony | XIV Dye Tools`,
-    description: `Explore ${harmonyName.toLowerCase()} color harmonies for ${dyeInfo.name} (${dyeInfo.hex}) in FFXIV. Find matching dyes for your glamour!`,
-    url: `${env.APP_BASE_URL}/harmony/?dye=${params.dye}&harmony=${params.harmony}&v=1`,
-    imageUrl: `${env.OG_IMAGE_BASE_URL}/harmony/${params.dye}/${params.harmony}.png`,
+    title: `${title} | XIV Dye Tools`,
+    description: formatMessage(t.og.harmonyDyeDescription, { ...names, dye: dyeInfo.detail }),
+    url: buildShareUrl({ tool: 'harmony', ...params }, env.APP_BASE_URL),
+    imageUrl: imageUrlFor(env, 'harmony', withLocale(params, locale)),
     siteName: 'XIV Dye Tools',
     themeColor: dyeInfo.hex,
+    locale,
   };
 }
 
 /**
  * Generate OG data for Gradient Builder
  */
-export function generateGradientOGData(params: GradientParams, env: Env): OGData {
-  const startDye = getDyeInfo(params.start);
-  const endDye = getDyeInfo(params.end);
+export function generateGradientOGData(
+  params: GradientParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
+  const startDye = getDyeInfo(params.start, locale, params.algo);
+  const endDye = getDyeInfo(params.end, locale, params.algo);
 
   if (!startDye || !endDye) {
     return {
-      title: 'Gradient Builder | XIV Dye Tools',
-      description: 'Create smooth color gradients between FFXIV dyes.',
+      title: `${t.tools.gradient} | XIV Dye Tools`,
+      description: t.og.gradientDescription,
       url: `${env.APP_BASE_URL}/gradient/`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/gradient/default.png`,
+      imageUrl: defaultImageUrlFor(env, 'gradient', locale),
       siteName: 'XIV Dye Tools',
+      locale,
     };
   }
 
+  const title = formatMessage(t.og.gradientDyeTitle, { start: startDye.name, end: endDye.name });
   return {
-    title: `${startDye.name} to ${endDye.name} Gradient | XIV Dye Tools`,
-    description: `${params.steps}-step gradient from ${startDye.name} (${startDye.hex}) to ${endDye.name} (${endDye.hex}). Find the perfect dye progression for your FFXIV glamour!`,
-    url: `${env.APP_BASE_URL}/gradient/?start=${params.start}&end=${params.end}&steps=${params.steps}&v=1`,
-    imageUrl: `${env.OG_IMAGE_BASE_URL}/gradient/${params.start}/${params.end}/${params.steps}.png`,
+    title: `${title} | XIV Dye Tools`,
+    description: formatMessage(t.og.gradientDyeDescription, {
+      steps: params.steps,
+      start: startDye.detail,
+      end: endDye.detail,
+    }),
+    url: buildShareUrl({ tool: 'gradient', ...params }, env.APP_BASE_URL),
+    imageUrl: imageUrlFor(env, 'gradient', withLocale(params, locale)),
     siteName: 'XIV Dye Tools',
     themeColor: startDye.hex,
+    locale,
   };
 }
 
 /**
  * Generate OG data for Dye Mixer
  */
-export function generateMixerOGData(params: MixerParams, env: Env): OGData {
-  const dyeA = getDyeInfo(params.dyeA);
-  const dyeB = getDyeInfo(params.dyeB);
-  const dyeC = params.dyeC ? getDyeInfo(params.dyeC) : null;
+export function generateMixerOGData(
+  params: MixerParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
+  const dyeA = getDyeInfo(params.dyeA, locale, params.algo);
+  const dyeB = getDyeInfo(params.dyeB, locale, params.algo);
+  const dyeC = params.dyeC ? getDyeInfo(params.dyeC, locale, params.algo) : null;
 
   if (!dyeA || !dyeB) {
     return {
-      title: 'Dye Mixer | XIV Dye Tools',
-      description: 'Mix FFXIV dyes and find the closest matching result.',
+      title: `${t.tools.mixer} | XIV Dye Tools`,
+      description: t.og.mixerDescription,
       url: `${env.APP_BASE_URL}/mixer/`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/mixer/default.png`,
+      imageUrl: defaultImageUrlFor(env, 'mixer', locale),
       siteName: 'XIV Dye Tools',
+      locale,
     };
   }
 
@@ -188,130 +253,178 @@ export function generateMixerOGData(params: MixerParams, env: Env): OGData {
   if (dyeC) {
     return {
       title: `${dyeA.name} + ${dyeB.name} + ${dyeC.name} | XIV Dye Tools`,
-      description: `Mix ${dyeA.name}, ${dyeB.name}, and ${dyeC.name} to find matching FFXIV dyes for your perfect blend!`,
-      url: `${env.APP_BASE_URL}/mixer/?dyeA=${params.dyeA}&dyeB=${params.dyeB}&dyeC=${params.dyeC}&v=1`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/mixer/${params.dyeA}/${params.dyeB}/${params.dyeC}/${params.ratio}.png`,
+      description: formatMessage(t.og.mixerThreeDyeDescription, {
+        a: dyeA.name,
+        b: dyeB.name,
+        c: dyeC.name,
+      }),
+      url: buildShareUrl({ tool: 'mixer', ...params }, env.APP_BASE_URL),
+      imageUrl: imageUrlFor(env, 'mixer', withLocale(params, locale)),
       siteName: 'XIV Dye Tools',
       themeColor: dyeA.hex,
+      locale,
     };
   }
 
   // 2-dye mix
   return {
     title: `${params.ratio}% ${dyeA.name} + ${100 - params.ratio}% ${dyeB.name} | XIV Dye Tools`,
-    description: `Mix ${params.ratio}% ${dyeA.name} with ${100 - params.ratio}% ${dyeB.name} to find matching FFXIV dyes for your perfect blend!`,
-    url: `${env.APP_BASE_URL}/mixer/?dyeA=${params.dyeA}&dyeB=${params.dyeB}&ratio=${params.ratio}&v=1`,
-    imageUrl: `${env.OG_IMAGE_BASE_URL}/mixer/${params.dyeA}/${params.dyeB}/${params.ratio}.png`,
+    description: formatMessage(t.og.mixerTwoDyeDescription, {
+      a: dyeA.name,
+      b: dyeB.name,
+      ratioA: params.ratio,
+      ratioB: 100 - params.ratio,
+    }),
+    url: buildShareUrl({ tool: 'mixer', ...params, dyeC: undefined }, env.APP_BASE_URL),
+    imageUrl: imageUrlFor(env, 'mixer', withLocale({ ...params, dyeC: undefined }, locale)),
     siteName: 'XIV Dye Tools',
     themeColor: dyeA.hex,
+    locale,
   };
 }
 
 /**
  * Generate OG data for Swatch Matcher
  */
-export function generateSwatchOGData(params: SwatchParams, env: Env): OGData {
+export function generateSwatchOGData(
+  params: SwatchParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
   const hexColor = formatHex(params.color);
   const limit = params.limit || 5;
   const { sheet, race, gender } = params;
 
   // Build description based on available context
-  let description = `Find the top ${limit} FFXIV dyes that match ${hexColor}.`;
+  let description = formatMessage(t.og.swatchDescription, { limit, hex: hexColor });
 
   if (sheet) {
     const isRaceSpecific = sheet === 'hairColors' || sheet === 'skinColors';
+    const sheetName = t.sheets[sheet];
+    const names = { sheet: sheetName, sheetLower: sheetName.toLowerCase(), hex: hexColor };
     if (isRaceSpecific && race && gender) {
-      description = `Find FFXIV dyes matching this ${gender} ${race} ${SHEET_NAMES[sheet].toLowerCase()} (${hexColor}).`;
+      description = formatMessage(t.og.swatchRaceDescription, {
+        ...names,
+        gender: t.genders[gender],
+        race: t.subraces[race],
+      });
     } else {
-      description = `Find FFXIV dyes matching this ${SHEET_NAMES[sheet].toLowerCase()} (${hexColor}).`;
+      description = formatMessage(t.og.swatchSheetDescription, names);
     }
   } else {
-    description += ' Perfect for matching character colors or custom palettes!';
+    description += t.og.swatchHint;
   }
 
-  // Build the web app URL with all params
-  const urlParams = new URLSearchParams();
-  urlParams.set('color', params.color);
-  urlParams.set('limit', String(limit));
-  if (sheet) urlParams.set('sheet', sheet);
-  if (race) urlParams.set('race', race);
-  if (gender) urlParams.set('gender', gender);
-  if (params.algo) urlParams.set('algo', params.algo);
-  urlParams.set('v', '1');
-
-  // Build the OG image URL with query params for sheet context
-  const imageUrlParams = new URLSearchParams();
-  if (sheet) imageUrlParams.set('sheet', sheet);
-  if (race) imageUrlParams.set('race', race);
-  if (gender) imageUrlParams.set('gender', gender);
-  if (params.algo) imageUrlParams.set('algo', params.algo);
-  const imageQueryString = imageUrlParams.toString();
-  const imageUrl = `${env.OG_IMAGE_BASE_URL}/swatch/${params.color}/${limit}.png${imageQueryString ? `?${imageQueryString}` : ''}`;
+  // Build the OG image URL (sheet context travels as query params)
+  const imageUrl = imageUrlFor(env, 'swatch', withLocale({ ...params, limit }, locale));
 
   return {
-    title: `Match ${hexColor} | XIV Dye Tools`,
+    title: `${formatMessage(t.og.swatchTitle, { hex: hexColor })} | XIV Dye Tools`,
     description,
-    url: `${env.APP_BASE_URL}/swatch/?${urlParams.toString()}`,
+    url: buildShareUrl({ tool: 'swatch', ...params, limit }, env.APP_BASE_URL),
     imageUrl,
     siteName: 'XIV Dye Tools',
     themeColor: hexColor,
+    locale,
   };
 }
 
 /**
  * Generate OG data for Dye Comparison
  */
-export function generateComparisonOGData(params: ComparisonParams, env: Env): OGData {
-  const dyes = params.dyes.slice(0, 4).map(getDyeInfo).filter(Boolean);
+export function generateComparisonOGData(
+  params: ComparisonParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
+  const dyes = params.dyes
+    .slice(0, 4)
+    .map((dye) => getDyeInfo(dye, locale))
+    .filter(Boolean);
 
   if (dyes.length === 0) {
     return {
-      title: 'Dye Comparison | XIV Dye Tools',
-      description: 'Compare up to 4 FFXIV dyes side by side.',
+      title: `${t.tools.comparison} | XIV Dye Tools`,
+      description: t.og.comparisonDescription,
       url: `${env.APP_BASE_URL}/comparison/`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/comparison/default.png`,
+      imageUrl: defaultImageUrlFor(env, 'comparison', locale),
       siteName: 'XIV Dye Tools',
+      locale,
     };
   }
 
   const dyeNames = dyes.map((d) => d!.name).join(', ');
 
   return {
-    title: `Compare: ${dyeNames} | XIV Dye Tools`,
-    description: `Side-by-side comparison of ${dyes.length} FFXIV dyes: ${dyeNames}. See how they look together!`,
-    url: `${env.APP_BASE_URL}/comparison/?dyes=${params.dyes.join(',')}&v=1`,
-    imageUrl: `${env.OG_IMAGE_BASE_URL}/comparison/${params.dyes.join(',')}.png`,
+    title: `${formatMessage(t.og.comparisonDyeTitle, { dyes: dyeNames })} | XIV Dye Tools`,
+    description: formatPlural(t.og.comparisonDyeDescription, dyes.length, locale, {
+      dyes: dyeNames,
+    }),
+    url: buildShareUrl({ tool: 'comparison', ...params }, env.APP_BASE_URL),
+    imageUrl: imageUrlFor(env, 'comparison', withLocale(params, locale)),
     siteName: 'XIV Dye Tools',
     themeColor: dyes[0]!.hex,
+    locale,
   };
 }
 
 /**
  * Generate OG data for Accessibility Checker
  */
-export function generateAccessibilityOGData(params: AccessibilityParams, env: Env): OGData {
-  const dyes = params.dyes.slice(0, 4).map(getDyeInfo).filter(Boolean);
-  const visionName = params.vision ? VISION_NAMES[params.vision] : 'Color Vision';
+export function generateAccessibilityOGData(
+  params: AccessibilityParams,
+  env: Env,
+  locale: Locale = params.lang ?? DEFAULT_LOCALE
+): OGData {
+  const t = getMessages(locale);
+  const dyes = params.dyes
+    .slice(0, 4)
+    .map((dye) => getDyeInfo(dye, locale))
+    .filter(Boolean);
+  const vision = params.vision ? t.visions[params.vision] : t.og.colorVision;
 
   if (dyes.length === 0) {
     return {
-      title: 'Accessibility Checker | XIV Dye Tools',
-      description: 'Check how FFXIV dyes appear to players with color vision differences.',
+      title: `${t.tools.accessibility} | XIV Dye Tools`,
+      description: t.og.accessibilityDescription,
       url: `${env.APP_BASE_URL}/accessibility/`,
-      imageUrl: `${env.OG_IMAGE_BASE_URL}/accessibility/default.png`,
+      imageUrl: defaultImageUrlFor(env, 'accessibility', locale),
       siteName: 'XIV Dye Tools',
+      locale,
     };
   }
 
   const dyeNames = dyes.map((d) => d!.name).join(', ');
+  const names = { vision, visionLower: vision.toLowerCase(), dyes: dyeNames };
 
   return {
-    title: `${visionName}: ${dyeNames} | XIV Dye Tools`,
-    description: `See how ${dyeNames} appear with ${visionName.toLowerCase()}. Design inclusive glamours!`,
-    url: `${env.APP_BASE_URL}/accessibility/?dyes=${params.dyes.join(',')}&vision=${params.vision || 'normal'}&v=1`,
-    imageUrl: `${env.OG_IMAGE_BASE_URL}/accessibility/${params.dyes.join(',')}/${params.vision || 'normal'}.png`,
+    title: `${formatMessage(t.og.accessibilityDyeTitle, names)} | XIV Dye Tools`,
+    description: formatMessage(t.og.accessibilityDyeDescription, names),
+    url: buildShareUrl(
+      { tool: 'accessibility', ...params, vision: params.vision || 'normal' },
+      env.APP_BASE_URL
+    ),
+    imageUrl: imageUrlFor(env, 'accessibility', withLocale(params, locale)),
     siteName: 'XIV Dye Tools',
     themeColor: dyes[0]!.hex,
+    locale,
+  };
+}
+
+/**
+ * Generate generic OG data for a tool, used when share params are invalid
+ */
+function generateToolFallbackOGData(tool: ToolId, env: Env, locale: Locale): OGData {
+  const t = getMessages(locale);
+  return {
+    title: `${t.tools[tool]} | XIV Dye Tools`,
+    description: t.og.siteDescription,
+    url: `${env.APP_BASE_URL}/${tool}/`,
+    imageUrl: defaultImageUrlFor(env, tool, locale),
+    siteName: 'XIV Dye Tools',
+    locale,
   };
 }
 
@@ -319,33 +432,83 @@ export function generateAccessibilityOGData(params: AccessibilityParams, env: En
 // HTML Template Generator
 // ============================================================================
 
+/** Inline styles of the crawler page, allowed by hash in the CSP */
+const OG_PAGE_STYLES = `
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      margin: 0;
+      background: #1a1a2e;
+      color: #fff;
+    }
+    .container {
+      text-align: center;
+      padding: 2rem;
+    }
+    a {
+      color: #6366f1;
+      text-decoration: none;
+    }
+    a:hover {
+      text-decoration: underline;
+    }
+  `;
+
 /**
- * Generate HTML with OpenGraph meta tags for crawler consumption.
- *
- * This HTML includes:
- * - Standard OG tags (og:title, og:description, og:image, etc.)
- * - Twitter Card tags
- * - Discord-specific theme-color
- * - A meta refresh to redirect JS-enabled browsers to the real page
+ * Security headers for the crawler HTML. The page loads nothing and runs
+ * no script, so the CSP only allows its own inline styles.
+ */
+export const OG_HTML_SECURITY_HEADERS: Readonly<Record<string, string>> = {
+  'Content-Security-Policy': [
+    "default-src 'none'",
+    `style-src 'sha256-${createHash('sha256').update(OG_PAGE_STYLES).digest('base64')}'`,
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'none'",
+  ].join('; '),
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+};
+
+/**
+ * Normalize a theme color to `#RRGGBB`, or null when it is not a hex color
+ */
+function sanitizeThemeColor(color: string | undefined): string | null {
+  const hex = color?.trim().replace(/^#/, '');
+  return hex && /^[0-9a-fA-F]{6}$/.test(hex) ? `#${hex.toUpperCase()}` : null;
+}
+
+/**
+ * Generate the title, description, OpenGraph, Twitter Card, theme-color
+ * and oEmbed discovery tags for a page's `<head>`. Shared by the crawler page and the tags
+ * injected into the SPA (see services/spa-injector).
  *
  * @param ogData - The OpenGraph data to include in meta tags
- * @returns Complete HTML string
+ * @returns Head markup, indented for the crawler page
  */
-export function generateOGHTML(ogData: OGData): string {
-  const themeColorTag = ogData.themeColor
-    ? `<meta name="theme-color" content="${ogData.themeColor}">`
+export function generateOGMetaTags(ogData: OGData): string {
+  const themeColor = sanitizeThemeColor(ogData.themeColor);
+  const themeColorTag = themeColor
+    ? `<meta name="theme-color" content="${escapeHtml(themeColor)}">`
+    : '';
+  const ogLocale = getMessages(ogData.locale).ogLocale;
+  const alternateLocaleTags = LOCALES.map((locale) => getMessages(locale).ogLocale)
+    .filter((alternate) => alternate !== ogLocale)
+    .map((alternate) => `<meta property="og:locale:alternate" content="${alternate}">`)
+    .join('\n  ');
+  const oembedTag = ogData.oembedUrl
+    ? `<link rel="alternate" type="application/json+oembed" ` +
+      `href="${escapeHtml(ogData.oembedUrl)}" title="${escapeHtml(ogData.title)}">`
     : '';
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-
-  <!-- Primary Meta Tags -->
+  return `<!-- Primary Meta Tags -->
   <title>${escapeHtml(ogData.title)}</title>
   <meta name="title" content="${escapeHtml(ogData.title)}">
   <meta name="description" content="${escapeHtml(ogData.description)}">
+  <link rel="canonical" href="${escapeHtml(ogData.url)}">
 
   <!-- Open Graph / Facebook -->
   <meta property="og:type" content="website">
@@ -356,6 +519,8 @@ export function generateOGHTML(ogData: OGData): string {
   <meta property="og:image:width" content="1200">
   <meta property="og:image:height" content="630">
   <meta property="og:site_name" content="${escapeHtml(ogData.siteName)}">
+  <meta property="og:locale" content="${ogLocale}">
+  ${alternateLocaleTags}
 
   <!-- Twitter -->
   <meta name="twitter:card" content="summary_large_image">
@@ -367,37 +532,43 @@ export function generateOGHTML(ogData: OGData): string {
   <!-- Discord embed color -->
   ${themeColorTag}
 
+  <!-- oEmbed discovery -->
+  ${oembedTag}`;
+}
+
+/**
+ * Generate HTML with OpenGraph meta tags for crawler consumption.
+ *
+ * This HTML includes:
+ * - Standard OG tags (og:title, og:description, og:image, etc.)
+ * - Twitter Card tags
+ * - Discord-specific theme-color
+ * - `og:locale`, with the other supported languages as alternates
+ * - A meta refresh to redirect JS-enabled browsers to the real page
+ *
+ * @param ogData - The OpenGraph data to include in meta tags
+ * @returns Complete HTML string
+ */
+export function generateOGHTML(ogData: OGData): string {
+  const locale = ogData.locale ?? DEFAULT_LOCALE;
+  const t = getMessages(locale);
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+
+  ${generateOGMetaTags(ogData)}
+
   <!-- Redirect for JavaScript-enabled browsers -->
   <meta http-equiv="refresh" content="0;url=${escapeHtml(ogData.url)}">
 
-  <style>
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      min-height: 100vh;
-      margin: 0;
-      background: #1a1a2e;
-      color: #fff;
-    }
-    .container {
-      text-align: center;
-      padding: 2rem;
-    }
-    a {
-      color: #6366f1;
-      text-decoration: none;
-    }
-    a:hover {
-      text-decoration: underline;
-    }
-  </style>
+  <style>${OG_PAGE_STYLES}</style>
 </head>
 <body>
   <div class="container">
-    <p>Redirecting to XIV Dye Tools...</p>
-    <p><a href="${escapeHtml(ogData.url)}">Click here if you're not redirected</a></p>
+    <p>${escapeHtml(t.page.redirecting)}</p>
+    <p><a href="${escapeHtml(ogData.url)}">${escapeHtml(t.page.clickHere)}</a></p>
   </div>
 </body>
 </html>`;
@@ -421,94 +592,107 @@ function escapeHtml(str: string): string {
 
 /**
  * Generate OG data for any tool based on parsed URL parameters.
+ * The page's oEmbed endpoint is included for the discovery link, and
+ * compact (`v=2`) pages keep a compact `og:url`.
  *
  * @param tool - The tool ID from the URL path
  * @param searchParams - URL search parameters
  * @param env - Environment bindings
+ * @param fallbackLocale - Language for links without `lang`, e.g. negotiated
+ *   from the crawler's `Accept-Language` (default English)
  * @returns OGData for the requested tool and parameters
  */
-export function generateOGDataForTool(
+export async function generateOGDataForTool(
   tool: ToolId,
   searchParams: URLSearchParams,
-  env: Env
-): OGData {
-  switch (tool) {
-    case 'harmony': {
-      const params: HarmonyParams = {
-        dye: parseInt(searchParams.get('dye') || '0', 10),
-        harmony: (searchParams.get('harmony') || 'complementary').toLowerCase() as HarmonyParams['harmony'],
-        algo: searchParams.get('algo') as HarmonyParams['algo'],
-        perceptual: searchParams.get('perceptual') === '1',
-      };
-      return generateHarmonyOGData(params, env);
-    }
-
-    case 'gradient': {
-      const params: GradientParams = {
-        start: parseInt(searchParams.get('start') || '0', 10),
-        end: parseInt(searchParams.get('end') || '0', 10),
-        steps: parseInt(searchParams.get('steps') || '5', 10),
-        algo: searchParams.get('algo') as GradientParams['algo'],
-      };
-      return generateGradientOGData(params, env);
-    }
-
-    case 'mixer': {
-      const dyeCRaw = searchParams.get('dyeC');
-      const params: MixerParams = {
-        dyeA: parseInt(searchParams.get('dyeA') || '0', 10),
-        dyeB: parseInt(searchParams.get('dyeB') || '0', 10),
-        dyeC: dyeCRaw ? parseInt(dyeCRaw, 10) : undefined,
-        ratio: parseInt(searchParams.get('ratio') || '50', 10),
-        algo: searchParams.get('algo') as MixerParams['algo'],
-      };
-      return generateMixerOGData(params, env);
-    }
-
-    case 'swatch': {
-      const params: SwatchParams = {
-        color: searchParams.get('color') || 'FFFFFF',
-        algo: searchParams.get('algo') as SwatchParams['algo'],
-        limit: parseInt(searchParams.get('limit') || '5', 10),
-        sheet: searchParams.get('sheet') as ColorSheetCategory | undefined,
-        race: searchParams.get('race') || undefined,
-        gender: searchParams.get('gender') as CharacterGender | undefined,
-      };
-      return generateSwatchOGData(params, env);
-    }
+  env: Env,
+  fallbackLocale: Locale = DEFAULT_LOCALE
+): Promise<OGData> {
+  const ogData = await generateToolOGData(tool, searchParams, env, fallbackLocale);
+  const url = isCompactShareQuery(searchParams) ? toCompactShareUrl(ogData.url) : ogData.url;
+  return { ...ogData, url, oembedUrl: oembedDiscoveryUrl(env, url) };
+}
 
-    case 'comparison': {
-      const dyesParam = searchParams.get('dyes') || '';
-      const params: ComparisonParams = {
-        dyes: dyesParam
-          .split(',')
-          .map((id) => parseInt(id, 10))
-          .filter((id) => !isNaN(id)),
-      };
-      return generateComparisonOGData(params, env);
-    }
+/**
+ * Validate a page query and reduce it to canonical share params, so every
+ * equivalent link yields the same `og:url` and canonical link
+ */
+function canonicalParams<T extends ToolId>(
+  tool: T,
+  searchParams: URLSearchParams
+): ToolParams<T> {
+  const share = { tool, ...validateSearchParams(tool, searchParams) } as unknown as ShareParams;
+  const { tool: _, ...params } = canonicalizeShareParams(share);
+  return params as unknown as ToolParams<T>;
+}
 
-    case 'accessibility': {
-      const dyesParam = searchParams.get('dyes') || '';
-      const params: AccessibilityParams = {
-        dyes: dyesParam
-          .split(',')
-          .map((id) => parseInt(id, 10))
-          .filter((id) => !isNaN(id)),
-        vision: searchParams.get('vision') as VisionType | undefined,
-      };
-      return generateAccessibilityOGData(params, env);
-    }
+/**
+ * Pick a page's language (its `lang` param, else the fallback) and load
+ * that language's dye names
+ */
+async function pageLocale(params: { lang?: Locale }, fallbackLocale: Locale): Promise<Locale> {
+  const locale = params.lang ?? fallbackLocale;
+  await loadDyeNames(locale);
+  return locale;
+}
 
-    default: {
-      // Fallback for unknown tools
-      return {
-        title: 'XIV Dye Tools',
-        description: 'Explore FFXIV dye colors, create harmonious palettes, and find your perfect glamour combinations.',
-        url: env.APP_BASE_URL,
-        imageUrl: `${env.OG_IMAGE_BASE_URL}/default.png`,
-        siteName: 'XIV Dye Tools',
-      };
+/**
+ * Validate the share params and dispatch to the tool's generator
+ */
+async function generateToolOGData(
+  tool: ToolId,
+  searchParams: URLSearchParams,
+  env: Env,
+  fallbackLocale: Locale
+): Promise<OGData> {
+  try {
+    switch (tool) {
+      case 'harmony': {
+        const params = canonicalParams(tool, searchParams);
+        return generateHarmonyOGData(params, env, await pageLocale(params, fallbackLocale));
+      }
+
+      case 'gradient': {
+        const params = canonicalParams(tool, searchParams);
+        return generateGradientOGData(params, env, await pageLocale(params, fallbackLocale));
+      }
+
+      case 'mixer': {
+        const params = canonicalParams(tool, searchParams);
+        return generateMixerOGData(params, env, await pageLocale(params, fallbackLocale));
+      }
+
+      case 'swatch': {
+        const params = canonicalParams(tool, searchParams);
+        return generateSwatchOGData(params, env, await pageLocale(params, fallbackLocale));
+      }
+
+      case 'comparison': {
+        const params = canonicalParams(tool, searchParams);
+        return generateComparisonOGData(params, env, await pageLocale(params, fallbackLocale));
+      }
+
+      case 'accessibility': {
+        const params = canonicalParams(tool, searchParams);
+        const locale = await pageLocale(params, fallbackLocale);
+        return generateAccessibilityOGData(params, env, locale);
+      }
+
+      default: {
+        // Fallback for unknown tools
+        return {
+          title: 'XIV Dye Tools',
+          description: getMessages(fallbackLocale).og.siteDescription,
+          url: env.APP_BASE_URL,
+          imageUrl: siteDefaultImageUrl(env),
+          siteName: 'XIV Dye Tools',
+          locale: fallbackLocale,
+        };
+      }
     }
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    // Crawlers still need a preview, so malformed links get the tool's generic card
+    return generateToolFallbackOGData(tool, env, fallbackLocale);
   }
 }
@@ -0,0 +1,72 @@
+/**
+ * Tests for the Share Preview API
+ *
+ * @module preview-api.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePreviewRequest, previewCorsHeaders, PreviewRequestError } from './preview-api';
+import type { Env } from './types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+/**
+ * Run a function expected to throw a PreviewRequestError and return it
+ */
+function previewError(fn: () => unknown): PreviewRequestError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PreviewRequestError) return error;
+    throw error;
+  }
+  throw new Error('Expected a PreviewRequestError');
+}
+
+describe('preview-api', () => {
+  describe('parsePreviewRequest', () => {
+    it('should resolve a share link to its tool and params', () => {
+      const target = parsePreviewRequest(
+        { url: 'https://xivdyetools.app/gradient/?start=5771&end=5772&steps=7' },
+        env
+      );
+
+      expect(target.tool).toBe('gradient');
+      expect(target.searchParams.get('steps')).toBe('7');
+    });
+
+    it('should answer a missing url with 400', () => {
+      const error = previewError(() => parsePreviewRequest({}, env));
+
+      expect(error.status).toBe(400);
+      expect(error.toJSON()).toEqual({
+        error: 'invalid_request',
+        message: 'Missing url parameter',
+      });
+    });
+
+    it.each([
+      'https://example.com/harmony/?dye=5771',
+      'https://xivdyetools.app/about/',
+      'not a url',
+    ])('should answer %j with 404', (url) => {
+      const error = previewError(() => parsePreviewRequest({ url }, env));
+
+      expect(error.status).toBe(404);
+      expect(error.toJSON().error).toBe('not_found');
+    });
+  });
+
+  describe('previewCorsHeaders', () => {
+    it('should allow the app origin only', () => {
+      expect(previewCorsHeaders({ ...env, APP_BASE_URL: 'https://xivdyetools.app/' })).toEqual({
+        'Access-Control-Allow-Origin': 'https://xivdyetools.app',
+        'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Share Preview API
+ *
+ * Lets the SPA show "how this will look when shared" without reimplementing
+ * the OG data generators. Given a share link, returns the `OGData` crawlers
+ * would get, plus the dyes drawn on its image:
+ *
+ *   GET /api/og-data?url=https://xivdyetools.app/harmony/?dye=5771&harmony=triadic
+ *
+ * Share params go through the same validation and defaults as the crawler
+ * path. Responses are readable from the app's origin only.
+ *
+ * @module preview-api
+ */
+
+import type { Env, OGData, ToolId } from './types';
+import type { PaletteEntry } from './services/svg/palette';
+import { parseToolUrl } from './oembed';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Path of the preview endpoint on the worker */
+export const PREVIEW_API_PATH = '/api/og-data';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a share link produces when it is shared
+ */
+export interface SharePreview {
+  tool: ToolId;
+  /** The OG data served to crawlers for the link */
+  ogData: OGData;
+  /** Dyes (and colors) drawn on the OG image */
+  dyes: PaletteEntry[];
+}
+
+/**
+ * Preview request error, with its HTTP status
+ */
+export class PreviewRequestError extends Error {
+  constructor(
+    readonly status: 400 | 404,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PreviewRequestError';
+  }
+
+  toJSON(): { error: string; message: string } {
+    return {
+      error: this.status === 404 ? 'not_found' : 'invalid_request',
+      message: this.message,
+    };
+  }
+}
+
+// ============================================================================
+// Request Handling
+// ============================================================================
+
+/**
+ * Validate the query of a preview request and resolve its share link
+ */
+export function parsePreviewRequest(
+  query: Record<string, string | undefined>,
+  env: Env
+): { tool: ToolId; searchParams: URLSearchParams } {
+  if (!query.url) {
+    throw new PreviewRequestError(400, 'Missing url parameter');
+  }
+
+  const target = parseToolUrl(query.url, env);
+  if (!target) {
+    throw new PreviewRequestError(404, 'Not a shareable XIV Dye Tools link');
+  }
+  return target;
+}
+
+/**
+ * CORS headers allowing the app's origin to read preview responses
+ */
+export function previewCorsHeaders(env: Env): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': new URL(env.APP_BASE_URL).origin,
+    'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+}
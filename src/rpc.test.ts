@@ -0,0 +1,97 @@
+/**
+ * Tests for the RPC Entrypoint
+ *
+ * @module rpc.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('./services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import { OGRenderer } from './rpc';
+import { renderOGPng } from './services/renderer';
+import { ValidationError } from './validation';
+import { MemoryKV } from './test-utils/memory-kv';
+import type { Env } from './types';
+
+function createRenderer(env: Partial<Env> = {}): OGRenderer {
+  const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() };
+  return new OGRenderer(ctx as unknown as ExecutionContext, {
+    APP_BASE_URL: 'https://xivdyetools.app',
+    OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+    ...env,
+  });
+}
+
+describe('OGRenderer', () => {
+  beforeEach(() => {
+    vi.mocked(renderOGPng).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['renderHarmony', { dye: 5771, harmony: 'triadic' }],
+    ['renderGradient', { start: 5771, end: 5772, steps: 5 }],
+    ['renderMixer', { dyeA: 5771, dyeB: 5772, ratio: 50 }],
+    ['renderSwatch', { color: '8B4513', limit: 3 }],
+    ['renderComparison', { dyes: [5771, 5772] }],
+    ['renderAccessibility', { dyes: [5771, 5772], vision: 'protanopia' }],
+  ] as const)('should return PNG bytes from %s', async (method, params) => {
+    const renderer = createRenderer() as unknown as Record<
+      typeof method,
+      (params: object) => Promise<Uint8Array>
+    >;
+
+    const png = await renderer[method](params);
+
+    expect(png).toEqual(new Uint8Array([137, 80, 78, 71]));
+  });
+
+  it('should render the same SVG as the image routes', async () => {
+    const svg = await createRenderer().renderSvg({ tool: 'comparison', dyes: [5771] });
+
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(renderOGPng).not.toHaveBeenCalled();
+  });
+
+  it('should reuse rendered PNGs', async () => {
+    const renderer = createRenderer();
+
+    await renderer.renderGradient({ start: 5771, end: 5773, steps: 4 });
+    await renderer.renderGradient({ start: 5771, end: 5773, steps: 4 });
+
+    expect(renderOGPng).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store PNGs in the KV tier when configured', async () => {
+    const kv = new MemoryKV();
+    const renderer = createRenderer({ OG_CACHE: kv as unknown as KVNamespace });
+
+    await renderer.renderMixer({ dyeA: 5771, dyeB: 5773, ratio: 25 });
+
+    expect(kv.calls.put).toBe(1);
+  });
+
+  it('should clamp params like share links', async () => {
+    const svg = await createRenderer().renderSvg({ tool: 'gradient', start: 1, end: 2, steps: 99 });
+    const clamped = await createRenderer().renderSvg({
+      tool: 'gradient',
+      start: 1,
+      end: 2,
+      steps: 10,
+    });
+
+    expect(svg).toBe(clamped);
+  });
+
+  it('should reject malformed params', async () => {
+    await expect(createRenderer().renderHarmony({ dye: 0, harmony: 'triadic' })).rejects.toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * RPC Entrypoint
+ *
+ * Lets other Workers (the Discord bot) render the same OG images over a
+ * service binding, without a round trip through the public `/og/*` routes:
+ *
+ *   const png = await env.OG_RENDERER.renderHarmony({ dye: 5771, harmony: 'triadic' });
+ *
+ * Params go through the same validation as share links and PNGs share the
+ * render cache with the image routes. There is no crawler detection or
+ * analytics; malformed params reject with the `ValidationError` message.
+ *
+ * @module rpc
+ */
+
+import { WorkerEntrypoint } from 'cloudflare:workers';
+import { renderOGPng } from './services/renderer';
+import { buildRenderCacheKey, createRenderCache } from './services/render-cache';
+import { getDyeDataVersion } from './services/svg/dye-helpers';
+import { memoryRenderCache, renderToolSvg, type ToolShare } from './image-renderers';
+import { normalizeShareParams } from './share-urls';
+import { workerOrigin } from './image-routes';
+import type {
+  Env,
+  ShareParams,
+  HarmonyParams,
+  GradientParams,
+  MixerParams,
+  SwatchParams,
+  ComparisonParams,
+  AccessibilityParams,
+} from './types';
+
+/**
+ * Split validated share params into the shape the image renderers take
+ */
+function toToolShare(share: ShareParams): ToolShare {
+  const { tool, ...params } = normalizeShareParams(share);
+  return { tool, params } as ToolShare;
+}
+
+/**
+ * OG image renderer, exposed to other Workers as the `OGRenderer` entrypoint
+ */
+export class OGRenderer extends WorkerEntrypoint<Env> {
+  /** Harmony wheel image, as PNG bytes */
+  renderHarmony(params: HarmonyParams): Promise<Uint8Array> {
+    return this.render({ tool: 'harmony', ...params });
+  }
+
+  /** Gradient image, as PNG bytes */
+  renderGradient(params: GradientParams): Promise<Uint8Array> {
+    return this.render({ tool: 'gradient', ...params });
+  }
+
+  /** Mixer image, as PNG bytes */
+  renderMixer(params: MixerParams): Promise<Uint8Array> {
+    return this.render({ tool: 'mixer', ...params });
+  }
+
+  /** Swatch match image, as PNG bytes */
+  renderSwatch(params: SwatchParams): Promise<Uint8Array> {
+    return this.render({ tool: 'swatch', ...params });
+  }
+
+  /** Comparison image, as PNG bytes */
+  renderComparison(params: ComparisonParams): Promise<Uint8Array> {
+    return this.render({ tool: 'comparison', ...params });
+  }
+
+  /** Accessibility image, as PNG bytes */
+  renderAccessibility(params: AccessibilityParams): Promise<Uint8Array> {
+    return this.render({ tool: 'accessibility', ...params });
+  }
+
+  /**
+   * Render any tool's image as PNG bytes, through the render cache
+   */
+  async render(share: ShareParams): Promise<Uint8Array> {
+    const image = toToolShare(share);
+    const origin = workerOrigin(this.env.OG_IMAGE_BASE_URL);
+
+    const cache = createRenderCache({
+      memory: memoryRenderCache,
+      edge: typeof caches !== 'undefined' ? caches.default : undefined,
+      origin, // Same Cache API keys as the image routes on the worker's own origin
+      kv: this.env.OG_CACHE,
+      waitUntil: (promise) => this.ctx.waitUntil(promise),
+    });
+
+    const result = await cache.getOrRender(
+      buildRenderCacheKey({ ...image, dataVersion: getDyeDataVersion() }),
+      async () => renderOGPng(await renderToolSvg(image), this.env.ASSETS)
+    );
+    return result.png;
+  }
+
+  /**
+   * Render any tool's image as an SVG document (not cached)
+   */
+  async renderSvg(share: ShareParams): Promise<string> {
+    return renderToolSvg(toToolShare(share));
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Tests for Conditional Request Handling
+ *
+ * @module services/conditional-request.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ifNoneMatchMatches,
+  isNotModified,
+  notModifiedResponse,
+  strongETag,
+  validatorHeaders,
+  RENDERED_LAST_MODIFIED,
+  type Validators,
+} from './conditional-request';
+
+const validators: Validators = {
+  etag: strongETag('abc123'),
+  lastModified: 'Mon, 19 Oct 2026 00:00:00 GMT',
+};
+
+function request(headers: Record<string, string>, method = 'GET'): Request {
+  return new Request('https://og.example.com/og/harmony/1/triadic.png', { method, headers });
+}
+
+describe('conditional-request', () => {
+  describe('strongETag', () => {
+    it('should quote the value', () => {
+      expect(strongETag('abc123')).toBe('"abc123"');
+    });
+  });
+
+  describe('RENDERED_LAST_MODIFIED', () => {
+    it('should be a valid HTTP-date', () => {
+      expect(RENDERED_LAST_MODIFIED).toMatch(/GMT$/);
+      expect(isNaN(Date.parse(RENDERED_LAST_MODIFIED))).toBe(false);
+    });
+  });
+
+  describe('ifNoneMatchMatches', () => {
+    it('should match an identical tag', () => {
+      expect(ifNoneMatchMatches('"abc123"', '"abc123"')).toBe(true);
+    });
+
+    it('should match any tag in a list', () => {
+      expect(ifNoneMatchMatches('"zzz", "abc123" ,"yyy"', '"abc123"')).toBe(true);
+    });
+
+    it('should use weak comparison', () => {
+      expect(ifNoneMatchMatches('W/"abc123"', '"abc123"')).toBe(true);
+    });
+
+    it('should match the wildcard', () => {
+      expect(ifNoneMatchMatches('*', '"abc123"')).toBe(true);
+    });
+
+    it('should not match different tags', () => {
+      expect(ifNoneMatchMatches('"abc124"', '"abc123"')).toBe(false);
+      expect(ifNoneMatchMatches('abc123', '"abc123"')).toBe(false);
+    });
+  });
+
+  describe('isNotModified', () => {
+    it('should be true for a matching If-None-Match', () => {
+      expect(isNotModified(request({ 'If-None-Match': '"abc123"' }), validators)).toBe(true);
+    });
+
+    it('should support HEAD requests', () => {
+      expect(isNotModified(request({ 'If-None-Match': '"abc123"' }, 'HEAD'), validators)).toBe(
+        true
+      );
+    });
+
+    it('should ignore other methods', () => {
+      expect(isNotModified(request({ 'If-None-Match': '"abc123"' }, 'POST'), validators)).toBe(
+        false
+      );
+    });
+
+    it('should be false without conditional headers', () => {
+      expect(isNotModified(request({}), validators)).toBe(false);
+    });
+
+    it('should honor If-Modified-Since at or after Last-Modified', () => {
+      expect(
+        isNotModified(request({ 'If-Modified-Since': validators.lastModified! }), validators)
+      ).toBe(true);
+      expect(
+        isNotModified(request({ 'If-Modified-Since': 'Tue, 20 Oct 2026 00:00:00 GMT' }), validators)
+      ).toBe(true);
+    });
+
+    it('should not honor an older If-Modified-Since', () => {
+      expect(
+        isNotModified(request({ 'If-Modified-Since': 'Sun, 18 Oct 2026 00:00:00 GMT' }), validators)
+      ).toBe(false);
+    });
+
+    it('should ignore an unparseable If-Modified-Since', () => {
+      expect(isNotModified(request({ 'If-Modified-Since': 'yesterday' }), validators)).toBe(false);
+    });
+
+    it('should let If-None-Match take precedence over If-Modified-Since', () => {
+      const req = request({
+        'If-None-Match': '"stale"',
+        'If-Modified-Since': 'Tue, 20 Oct 2026 00:00:00 GMT',
+      });
+
+      expect(isNotModified(req, validators)).toBe(false);
+    });
+  });
+
+  describe('validatorHeaders', () => {
+    it('should include ETag and Last-Modified', () => {
+      expect(validatorHeaders(validators)).toEqual({
+        ETag: '"abc123"',
+        'Last-Modified': 'Mon, 19 Oct 2026 00:00:00 GMT',
+      });
+    });
+
+    it('should omit Last-Modified when unknown', () => {
+      expect(validatorHeaders({ etag: '"x"' })).toEqual({ ETag: '"x"' });
+    });
+  });
+
+  describe('notModifiedResponse', () => {
+    it('should return an empty 304 with validators and caching headers', async () => {
+      const res = notModifiedResponse(validators, { 'Cache-Control': 'public, max-age=60' });
+
+      expect(res.status).toBe(304);
+      expect(res.headers.get('ETag')).toBe('"abc123"');
+      expect(res.headers.get('Last-Modified')).toBe(validators.lastModified);
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=60');
+      expect(await res.text()).toBe('');
+    });
+  });
+});
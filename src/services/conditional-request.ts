@@ -0,0 +1,93 @@
+/**
+ * Conditional Request Handling
+ *
+ * ETag / If-None-Match and Last-Modified / If-Modified-Since support
+ * (RFC 9110 §13). Validators are derived from render inputs, so a
+ * revalidating crawler can be answered with a 304 before anything is
+ * rendered.
+ *
+ * @module services/conditional-request
+ */
+
+import { RENDERER_UPDATED_AT } from './content-hash';
+
+/**
+ * Response validators for a resource
+ */
+export interface Validators {
+  /** Strong entity tag, including quotes */
+  etag: string;
+  /** HTTP-date of the last change to the resource */
+  lastModified?: string;
+}
+
+/**
+ * Format a value as a strong entity tag
+ */
+export function strongETag(value: string): string {
+  return `"${value}"`;
+}
+
+/** Last-Modified for anything derived from the current renderer and dye data */
+export const RENDERED_LAST_MODIFIED = new Date(RENDERER_UPDATED_AT).toUTCString();
+
+/**
+ * Whether an If-None-Match header matches the given entity tag.
+ * Uses weak comparison, as the spec requires for If-None-Match.
+ */
+export function ifNoneMatchMatches(ifNoneMatch: string, etag: string): boolean {
+  const trimmed = ifNoneMatch.trim();
+  if (trimmed === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  const target = opaque(etag);
+
+  return trimmed.split(',').some((candidate) => opaque(candidate) === target);
+}
+
+/**
+ * Whether a GET/HEAD request can be answered with 304 Not Modified.
+ *
+ * If-None-Match takes precedence; If-Modified-Since is only consulted
+ * when the client sent no entity tags.
+ */
+export function isNotModified(request: Request, validators: Validators): boolean {
+  if (request.method !== 'GET' && request.method !== 'HEAD') return false;
+
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch !== null) {
+    return ifNoneMatchMatches(ifNoneMatch, validators.etag);
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince !== null && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(validators.lastModified);
+    return !isNaN(since) && !isNaN(modified) && modified <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Headers that carry the validators on a response
+ */
+export function validatorHeaders(validators: Validators): Record<string, string> {
+  const headers: Record<string, string> = { ETag: validators.etag };
+  if (validators.lastModified) headers['Last-Modified'] = validators.lastModified;
+  return headers;
+}
+
+/**
+ * Build a 304 response.
+ * Repeats the validators and caching headers a 200 would have sent.
+ */
+export function notModifiedResponse(
+  validators: Validators,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(null, {
+    status: 304,
+    headers: { ...headers, ...validatorHeaders(validators) },
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for OG Image Content Hashing
+ *
+ * @module services/content-hash.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CONTENT_HASH_LENGTH,
+  canonicalize,
+  computeContentHash,
+  computeDataVersion,
+} from './content-hash';
+
+const DYES = [
+  { itemID: 5771, name: 'Snow White', hex: '#E4DFD0' },
+  { itemID: 5772, name: 'Ash Grey', hex: '#ACA8A2' },
+];
+
+describe('content-hash', () => {
+  describe('canonicalize', () => {
+    it('should sort object keys', () => {
+      expect(canonicalize({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+    });
+
+    it('should drop undefined and null fields', () => {
+      expect(canonicalize({ a: 1, b: undefined, c: null })).toBe('{"a":1}');
+    });
+
+    it('should keep array order and recurse', () => {
+      expect(canonicalize({ dyes: [2, 1], nested: { z: 'x', y: [true] } })).toBe(
+        '{"dyes":[2,1],"nested":{"y":[true],"z":"x"}}'
+      );
+    });
+  });
+
+  describe('computeDataVersion', () => {
+    it('should be an 8-character hex string', () => {
+      expect(computeDataVersion(DYES)).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    it('should not depend on dye order or hex casing', () => {
+      const reordered = [DYES[1], { ...DYES[0], hex: DYES[0].hex.toLowerCase() }];
+
+      expect(computeDataVersion(reordered)).toBe(computeDataVersion(DYES));
+    });
+
+    it('should change when a dye is recolored, renamed or added', () => {
+      const base = computeDataVersion(DYES);
+
+      expect(computeDataVersion([{ ...DYES[0], hex: '#FFFFFF' }, DYES[1]])).not.toBe(base);
+      expect(computeDataVersion([{ ...DYES[0], name: 'Pure White' }, DYES[1]])).not.toBe(base);
+      expect(
+        computeDataVersion([...DYES, { itemID: 5773, name: 'Goobbue Grey', hex: '#8F8782' }])
+      ).not.toBe(base);
+    });
+  });
+
+  describe('computeContentHash', () => {
+    it('should be a short hex string', () => {
+      const hash = computeContentHash('/harmony/5771/tetradic.png', 'abcd1234');
+
+      expect(hash).toMatch(new RegExp(`^[0-9a-f]{${CONTENT_HASH_LENGTH}}$`));
+    });
+
+    it('should be deterministic', () => {
+      expect(computeContentHash('/gradient/1/2/5.png', 'abcd1234')).toBe(
+        computeContentHash('/gradient/1/2/5.png', 'abcd1234')
+      );
+    });
+
+    it('should change with the image path', () => {
+      expect(computeContentHash('/gradient/1/2/5.png', 'abcd1234')).not.toBe(
+        computeContentHash('/gradient/1/2/6.png', 'abcd1234')
+      );
+      expect(computeContentHash('/gradient/1/2/5.png', 'abcd1234')).not.toBe(
+        computeContentHash('/gradient/1/2/5.png?algo=ciede2000', 'abcd1234')
+      );
+    });
+
+    it('should change with the dye data version', () => {
+      expect(computeContentHash('/gradient/1/2/5.png', 'abcd1234')).not.toBe(
+        computeContentHash('/gradient/1/2/5.png', 'ffff0000')
+      );
+    });
+  });
+});
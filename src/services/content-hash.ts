@@ -0,0 +1,84 @@
+/**
+ * Content Hashing for OG Images
+ *
+ * Image URLs carry a short hash of everything that determines the rendered
+ * PNG: the normalized image path (tool + params), the renderer version and
+ * the dye data version. A hashed URL therefore never changes meaning and can
+ * be cached as immutable; a layout change or dye database update produces
+ * new URLs instead of stale cards.
+ *
+ * @module services/content-hash
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * Bump whenever rendering output changes (layout, fonts, colors) so
+ * previously cached PNGs and image URLs are superseded.
+ */
+export const RENDERER_VERSION = '5';
+
+/**
+ * When rendered output last changed. Bump together with RENDERER_VERSION
+ * (and when upgrading the dye database); used as the Last-Modified date.
+ */
+export const RENDERER_UPDATED_AT = '2026-10-19T00:00:00Z';
+
+/** Length of the hash embedded in image URLs (hex characters) */
+export const CONTENT_HASH_LENGTH = 12;
+
+/**
+ * Serialize a value with sorted object keys, dropping undefined/null fields,
+ * so equivalent params always produce the same string.
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hex SHA-256 digest of a string
+ */
+export function sha256Hex(input: string): string {
+  return createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Fingerprint a dye database so any added, renamed or recolored dye
+ * changes the version.
+ */
+export function computeDataVersion(
+  dyes: ReadonlyArray<{ itemID: number; name: string; hex: string }>
+): string {
+  const fingerprint = dyes
+    .map((dye) => `${dye.itemID}:${dye.name}:${dye.hex.toUpperCase()}`)
+    .sort()
+    .join('|');
+  return sha256Hex(fingerprint).slice(0, 8);
+}
+
+/**
+ * Compute the content hash of an image.
+ *
+ * @param imagePath - Normalized image path from the route registry (no hash param)
+ * @param dataVersion - Dye data version from `computeDataVersion`
+ *
+ * @example
+ * computeContentHash('/gradient/5771/5772/5.png', dataVersion);
+ * // '9c41e0b27d3a'
+ */
+export function computeContentHash(imagePath: string, dataVersion: string): string {
+  return sha256Hex(`r${RENDERER_VERSION}:${dataVersion}:${imagePath}`).slice(
+    0,
+    CONTENT_HASH_LENGTH
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for Crawler Cache Segmentation
+ *
+ * @module services/crawler-cache.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CrawlerHtmlCache,
+  CRAWLER_HTML_TTL,
+  crawlerCacheKey,
+  varyOnUserAgent,
+} from './crawler-cache';
+import { MemoryCache } from '../test-utils/memory-cache';
+
+const PAGE = 'https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic';
+
+describe('crawler-cache', () => {
+  describe('crawlerCacheKey', () => {
+    it('should keep the origin, path and query under a crawler-only prefix', () => {
+      expect(crawlerCacheKey(PAGE).url).toBe(
+        'https://xivdyetools.app/__crawler-html/harmony/?dye=5771&harmony=tetradic'
+      );
+    });
+
+    it('should never equal the page URL', () => {
+      expect(crawlerCacheKey(PAGE).url).not.toBe(PAGE);
+    });
+
+    it('should differ per query string', () => {
+      expect(crawlerCacheKey(PAGE).url).not.toBe(
+        crawlerCacheKey('https://xivdyetools.app/harmony/?dye=5771&harmony=square').url
+      );
+    });
+
+    it('should give each language other than English its own segment', () => {
+      expect(crawlerCacheKey(PAGE, 'en').url).toBe(crawlerCacheKey(PAGE).url);
+      expect(crawlerCacheKey(PAGE, 'ja').url).toBe(
+        'https://xivdyetools.app/__crawler-html/ja/harmony/?dye=5771&harmony=tetradic'
+      );
+    });
+  });
+
+  describe('CrawlerHtmlCache', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should store HTML under the crawler key only', async () => {
+      const memory = new MemoryCache();
+      const cache = new CrawlerHtmlCache(memory.asCache());
+
+      await cache.put(PAGE, '<html></html>');
+
+      expect([...memory.store.keys()]).toEqual([crawlerCacheKey(PAGE).url]);
+      expect(await cache.get(PAGE)).toBe('<html></html>');
+    });
+
+    it('should cache for the configured TTL', async () => {
+      const memory = new MemoryCache();
+
+      await new CrawlerHtmlCache(memory.asCache()).put(PAGE, '<html></html>');
+
+      const stored = memory.store.get(crawlerCacheKey(PAGE).url)!;
+      expect(stored.headers.get('Cache-Control')).toBe(`public, max-age=${CRAWLER_HTML_TTL}`);
+    });
+
+    it('should miss for pages it has not stored', async () => {
+      expect(await new CrawlerHtmlCache(new MemoryCache().asCache()).get(PAGE)).toBeNull();
+    });
+
+    it('should treat cache errors as misses', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const broken = {
+        match: async () => {
+          throw new Error('cache unavailable');
+        },
+        put: async () => {
+          throw new Error('cache unavailable');
+        },
+      } as unknown as Cache;
+      const cache = new CrawlerHtmlCache(broken);
+
+      await expect(cache.put(PAGE, '<html></html>')).resolves.toBeUndefined();
+      expect(await cache.get(PAGE)).toBeNull();
+      expect(console.error).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('varyOnUserAgent', () => {
+    it('should add Vary: User-Agent to an immutable origin response', async () => {
+      const origin = Response.redirect('https://xivdyetools.app', 302);
+
+      const res = varyOnUserAgent(origin);
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe('https://xivdyetools.app/');
+      expect(res.headers.get('Vary')).toBe('User-Agent');
+    });
+
+    it('should keep existing Vary values and the body', async () => {
+      const origin = new Response('<div id="app"></div>', {
+        headers: { Vary: 'Accept-Encoding' },
+      });
+
+      const res = varyOnUserAgent(origin);
+
+      expect(res.headers.get('Vary')).toBe('Accept-Encoding, User-Agent');
+      expect(await res.text()).toBe('<div id="app"></div>');
+    });
+
+    it.each(['User-Agent', 'accept-encoding, user-agent', '*'])(
+      'should not repeat Vary: %s',
+      (vary) => {
+        const res = varyOnUserAgent(new Response(null, { headers: { Vary: vary } }));
+
+        expect(res.headers.get('Vary')).toBe(vary);
+      }
+    );
+  });
+});
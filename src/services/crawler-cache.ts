@@ -0,0 +1,116 @@
+/**
+ * Crawler Cache Segmentation
+ *
+ * Tool page URLs answer crawlers with generated OG HTML and everyone else
+ * with the SPA, so one URL has two responses depending on the User-Agent.
+ * Cloudflare's cache ignores `Vary: User-Agent`, so the two must never
+ * share a cache entry:
+ *
+ * - Crawler HTML is kept out of the CDN's URL-keyed cache
+ *   (`CDN-Cache-Control: no-store`) and cached in `caches.default` under a
+ *   separate, crawler-only key instead
+ * - Both crawler HTML and pass-through responses carry `Vary: User-Agent`
+ *   for any downstream cache that honors it
+ * - Pass-through responses are never written under the crawler key
+ *
+ * Crawler HTML is also written in the crawler's `Accept-Language` (see
+ * i18n.ts), so it varies on that too and each language has its own key.
+ *
+ * @module services/crawler-cache
+ */
+
+import { DEFAULT_LOCALE } from '../i18n';
+import type { Locale } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Edge lifetime of cached crawler HTML (24 hours) */
+export const CRAWLER_HTML_TTL = 86400;
+
+/** Path prefix of crawler cache keys; never routed, only used as a key */
+const CRAWLER_CACHE_PREFIX = '/__crawler-html';
+
+/**
+ * Headers for every crawler HTML response (including 304s)
+ */
+export const CRAWLER_HTML_CACHE_HEADERS: Readonly<Record<string, string>> = {
+  Vary: 'User-Agent, Accept-Language',
+  'CDN-Cache-Control': 'no-store',
+};
+
+// ============================================================================
+// Cache Keys
+// ============================================================================
+
+/**
+ * Cache key for the crawler HTML of a page URL in a language.
+ * Same origin, path and query, under a prefix no real page uses;
+ * languages other than English get their own segment.
+ */
+export function crawlerCacheKey(url: string, locale: Locale = DEFAULT_LOCALE): Request {
+  const { origin, pathname, search } = new URL(url);
+  const segment = locale === DEFAULT_LOCALE ? '' : `/${locale}`;
+  return new Request(`${origin}${CRAWLER_CACHE_PREFIX}${segment}${pathname}${search}`);
+}
+
+// ============================================================================
+// Crawler HTML Cache
+// ============================================================================
+
+/**
+ * Crawler HTML stored in a Cache API cache under crawler-only keys.
+ * Cache errors are logged and treated as misses.
+ */
+export class CrawlerHtmlCache {
+  constructor(
+    private readonly cache: Cache,
+    private readonly ttl: number = CRAWLER_HTML_TTL
+  ) {}
+
+  async get(url: string, locale?: Locale): Promise<string | null> {
+    try {
+      const cached = await this.cache.match(crawlerCacheKey(url, locale));
+      return cached ? await cached.text() : null;
+    } catch (error) {
+      console.error('[CrawlerCache] get failed:', error);
+      return null;
+    }
+  }
+
+  async put(url: string, html: string, locale?: Locale): Promise<void> {
+    try {
+      await this.cache.put(
+        crawlerCacheKey(url, locale),
+        new Response(html, {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Cache-Control': `public, max-age=${this.ttl}`,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('[CrawlerCache] put failed:', error);
+    }
+  }
+}
+
+// ============================================================================
+// Pass-through Responses
+// ============================================================================
+
+/**
+ * Mark an origin (SPA) response as depending on the User-Agent.
+ * Origin responses have immutable headers, so this returns a copy.
+ */
+export function varyOnUserAgent(response: Response): Response {
+  const varied = new Response(response.body, response);
+  const vary = varied.headers.get('Vary');
+
+  if (vary?.trim() === '*') return varied;
+  if (!vary?.toLowerCase().split(/\s*,\s*/).includes('user-agent')) {
+    varied.headers.append('Vary', 'User-Agent');
+  }
+  return varied;
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for Font Fallback Chain
+ *
+ * @module services/font-fallback.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FALLBACK_FONT_FAMILIES,
+  detectFallbackScript,
+  fallbackScriptsOf,
+  resolveFontFamily,
+} from './font-fallback';
+import { getMessages } from '../i18n';
+import { LOCALES } from '../validation';
+
+describe('font-fallback', () => {
+  describe('detectFallbackScript', () => {
+    it.each([
+      ['スノウホワイト', 'japanese'],
+      ['ｽﾉｳ', 'japanese'],
+      ['入力カラー', 'japanese'],
+      ['스노우 화이트', 'korean'],
+      ['雪白', 'chinese'],
+      ['第2级', 'chinese'],
+      ['（', 'chinese'],
+    ] as const)('should pick %s as %s', (text, script) => {
+      expect(detectFallbackScript(text)).toBe(script);
+    });
+
+    it.each(['Snow White', 'Δ2.4', 'Dégradé', 'Weiß', '#8B4513', ''])(
+      'should need no fallback for %j',
+      (text) => {
+        expect(detectFallbackScript(text)).toBeUndefined();
+      }
+    );
+  });
+
+  describe('resolveFontFamily', () => {
+    it('should append the fallback font to the family', () => {
+      expect(resolveFontFamily('カララント', 'Space Grotesk')).toBe('Space Grotesk, Noto Sans JP');
+    });
+
+    it('should fall back from the Chinese to the Japanese font for Han text', () => {
+      expect(resolveFontFamily('配色探索', 'Space Grotesk')).toBe(
+        'Space Grotesk, Noto Sans SC, Noto Sans JP'
+      );
+    });
+
+    it('should start from the renderer default when no family is set', () => {
+      expect(resolveFontFamily('カララント')).toBe('Onest, Noto Sans JP');
+    });
+
+    it('should leave Latin text unchanged', () => {
+      expect(resolveFontFamily('Snow White', 'Habibi')).toBe('Habibi');
+      expect(resolveFontFamily('Snow White')).toBeUndefined();
+    });
+
+    it.each(LOCALES)('should cover every %s image label', (locale) => {
+      const { image } = getMessages(locale);
+      const expected = {
+        ja: 'Noto Sans JP',
+        ko: 'Noto Sans KR',
+        zh: 'Noto Sans SC, Noto Sans JP',
+      } as const;
+      const fallback = expected[locale as keyof typeof expected];
+
+      for (const label of [image.harmonyHeadline, image.noMatches, image.originalColors]) {
+        const family = resolveFontFamily(label, 'Onest');
+        expect(family).toBe(fallback ? `Onest, ${fallback}` : 'Onest');
+      }
+    });
+  });
+
+  describe('fallbackScriptsOf', () => {
+    it('should list the fallback fonts an SVG names', () => {
+      const svg =
+        `<text font-family="Onest, ${FALLBACK_FONT_FAMILIES.korean}">색상</text>` +
+        `<text font-family="Onest, ${FALLBACK_FONT_FAMILIES.japanese}">カラー</text>`;
+
+      expect(fallbackScriptsOf(svg)).toEqual(['japanese', 'korean']);
+    });
+
+    it('should need no fallback fonts for Latin SVGs', () => {
+      expect(fallbackScriptsOf('<text font-family="Onest">Snow White</text>')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Font Fallback Chain
+ *
+ * The brand fonts (see fonts.ts) only cover Latin text, so localised dye
+ * names and labels in Japanese, Korean or Chinese would render as tofu.
+ * Each `text()` element is checked for those scripts and gets a subsetted
+ * Noto Sans font appended to its `font-family`:
+ *
+ *   font-family="Onest, Noto Sans JP"
+ *
+ * The renderer then loads only the fallback fonts an SVG names, so English
+ * renders never pay for the CJK fonts.
+ *
+ * @module services/font-fallback
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Scripts drawn with a fallback font */
+export type FallbackScript = 'japanese' | 'korean' | 'chinese';
+
+/**
+ * Fallback font family per script, in resolution order
+ */
+export const FALLBACK_FONT_FAMILIES: Readonly<Record<FallbackScript, string>> = {
+  japanese: 'Noto Sans JP',
+  korean: 'Noto Sans KR',
+  chinese: 'Noto Sans SC',
+};
+
+/**
+ * Fallback fonts per script, in order. Han text without kana may be a
+ * Japanese kanji-only label, so characters the Simplified Chinese subset
+ * lacks (such as 補) fall through to the Japanese font.
+ */
+const FALLBACK_CHAINS: Readonly<Record<FallbackScript, readonly FallbackScript[]>> = {
+  japanese: ['japanese'],
+  korean: ['korean'],
+  chinese: ['chinese', 'japanese'],
+};
+
+/** The renderer's default family, for text without a `font-family` */
+const DEFAULT_FONT_FAMILY = 'Onest';
+
+/** Hiragana, katakana and halfwidth katakana */
+const KANA = /[\u3040-\u30ff\u31f0-\u31ff\uff66-\uff9f]/;
+
+/** Hangul syllables and jamo */
+const HANGUL = /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/;
+
+/** Han ideographs plus CJK and fullwidth punctuation */
+const HAN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uff65\uffe0-\uffef]/;
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * The fallback script a text needs, if any. Kana marks Japanese and hangul
+ * Korean; Han characters without either are drawn with the Chinese font.
+ */
+export function detectFallbackScript(text: string): FallbackScript | undefined {
+  if (KANA.test(text)) return 'japanese';
+  if (HANGUL.test(text)) return 'korean';
+  if (HAN.test(text)) return 'chinese';
+  return undefined;
+}
+
+/**
+ * The `font-family` for a text element: the given family, followed by the
+ * fallback fonts for the text's script when it needs them
+ *
+ * @param family - The element's own family (the renderer default when unset)
+ * @returns The family list, or `family` unchanged for Latin-only text
+ */
+export function resolveFontFamily(text: string, family?: string): string | undefined {
+  const script = detectFallbackScript(text);
+  if (!script) return family;
+  const fallbacks = FALLBACK_CHAINS[script].map((chained) => FALLBACK_FONT_FAMILIES[chained]);
+  return [family ?? DEFAULT_FONT_FAMILY, ...fallbacks].join(', ');
+}
+
+/**
+ * The fallback scripts whose fonts an SVG names, i.e. the fonts the
+ * renderer must load for it
+ */
+export function fallbackScriptsOf(svg: string): FallbackScript[] {
+  return (Object.keys(FALLBACK_FONT_FAMILIES) as FallbackScript[]).filter((script) =>
+    svg.includes(FALLBACK_FONT_FAMILIES[script])
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for TrueType Font Metrics
+ *
+ * Expected widths come from the fonts themselves, instanced at each weight
+ * with fontTools.
+ *
+ * @module services/font-metrics.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { FontMetrics } from './font-metrics';
+
+function loadFont(file: string): FontMetrics {
+  return new FontMetrics(readFileSync(join(__dirname, '..', 'fonts', file)));
+}
+
+const onest = loadFont('Onest-VariableFont_wght.ttf');
+const spaceGrotesk = loadFont('SpaceGrotesk-VariableFont_wght.ttf');
+const habibi = loadFont('Habibi-Regular.ttf');
+
+/**
+ * Width of a string in font units: advances plus pair kerning
+ */
+function unitsOf(font: FontMetrics, text: string, weight?: number): number {
+  const glyphs = [...text].map((char) => font.glyphId(char.codePointAt(0)!));
+  return glyphs.reduce(
+    (width, glyph, i) =>
+      width + font.advanceWidth(glyph, weight) + (i > 0 ? font.kern(glyphs[i - 1], glyph) : 0),
+    0
+  );
+}
+
+describe('FontMetrics', () => {
+  describe('naming', () => {
+    it('should read the typographic family name', () => {
+      expect(onest.family).toBe('Onest');
+      // Name ID 1 is "Space Grotesk Light" in the variable font
+      expect(spaceGrotesk.family).toBe('Space Grotesk');
+      expect(habibi.family).toBe('Habibi');
+    });
+
+    it('should read units per em', () => {
+      expect(onest.unitsPerEm).toBe(1000);
+      expect(habibi.unitsPerEm).toBe(2048);
+    });
+  });
+
+  describe('character map', () => {
+    it('should map code points to glyphs', () => {
+      expect(onest.glyphId(0x41)).toBeGreaterThan(0);
+      expect(onest.codePoints().has(0x41)).toBe(true);
+    });
+
+    it('should return .notdef for missing characters', () => {
+      expect(onest.glyphId(0x2726)).toBe(0);
+      expect(onest.codePoints().has(0x2726)).toBe(false);
+    });
+  });
+
+  describe('weight axis', () => {
+    it('should read the weight axis of variable fonts', () => {
+      expect(onest.weightAxis).toEqual({ min: 100, default: 400, max: 900 });
+      expect(spaceGrotesk.weightAxis).toEqual({ min: 300, default: 300, max: 700 });
+      expect(habibi.weightAxis).toBeUndefined();
+    });
+
+    it.each([
+      [undefined, 670],
+      [300, 659],
+      [600, 698],
+      [700, 711],
+      [900, 739],
+    ])('should vary advances with the weight (Onest A at %s)', (weight, advance) => {
+      expect(onest.advanceWidth(onest.glyphId(0x41), weight)).toBeCloseTo(advance, 0);
+    });
+
+    it('should map weights through avar', () => {
+      const w = spaceGrotesk.glyphId(0x57);
+
+      expect(spaceGrotesk.advanceWidth(w, 500)).toBeCloseTo(887, 0);
+      expect(spaceGrotesk.advanceWidth(w, 700)).toBeCloseTo(898, 0);
+    });
+
+    it('should clamp weights to the axis', () => {
+      const a = onest.glyphId(0x41);
+
+      expect(onest.advanceWidth(a, 1000)).toBe(onest.advanceWidth(a, 900));
+    });
+
+    it('should ignore the weight of static fonts', () => {
+      const a = habibi.glyphId(0x41);
+
+      expect(habibi.advanceWidth(a, 700)).toBe(habibi.advanceWidth(a));
+    });
+  });
+
+  describe('kerning', () => {
+    it('should kern glyph pairs', () => {
+      expect(onest.kern(onest.glyphId(0x41), onest.glyphId(0x56))).toBeLessThan(0);
+      expect(onest.kern(onest.glyphId(0x6f), onest.glyphId(0x6f))).toBe(0);
+    });
+
+    it.each([
+      ['AVATAR', 'Onest', undefined, 3720],
+      ['Turquoise Green', 'Onest', 700, 7843],
+      ['Turquoise Green', 'Space Grotesk', 700, 7800],
+      ['WAVE Ty.', 'Space Grotesk', undefined, 4185],
+      ['#1A2B3C', 'Habibi', undefined, 9225],
+    ] as const)('should measure %s in %s at weight %s', (text, family, weight, units) => {
+      const font = { Onest: onest, 'Space Grotesk': spaceGrotesk, Habibi: habibi }[family];
+
+      // Instanced fonts round each advance, so allow a unit per character
+      expect(Math.abs(unitsOf(font, text, weight) - units)).toBeLessThanOrEqual(text.length);
+    });
+  });
+});
@@ -0,0 +1,568 @@
+/**
+ * TrueType Font Metrics
+ *
+ * Reads what text layout needs straight from a TTF: the family name, the
+ * character map, advance widths (with their weight-axis variations from
+ * HVAR, for variable fonts) and pair kerning from GPOS. Only the table
+ * formats the bundled fonts use are read; shaping beyond pair kerning
+ * (ligatures, marks) is out of scope.
+ *
+ * @module services/font-metrics
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Range of a variable font's weight axis */
+export interface WeightAxis {
+  min: number;
+  default: number;
+  max: number;
+}
+
+/** Kerning of one GPOS pair adjustment subtable, in font units */
+type PairKerning =
+  | { format: 1; pairs: Map<number, Map<number, number>> }
+  | {
+      format: 2;
+      coverage: Set<number>;
+      firstClasses: Map<number, number>;
+      secondClasses: Map<number, number>;
+      secondClassCount: number;
+      values: Int16Array;
+    };
+
+/** An axis region of an item variation store: [start, peak, end] */
+type Region = Array<[number, number, number]>;
+
+/** HVAR advance width deltas */
+interface AdvanceVariations {
+  regions: Region[];
+  /** Per variation data: the regions its deltas apply to, and a row per item */
+  data: Array<{ regionIndexes: number[]; deltas: number[][] }>;
+  /** Glyph → [outer, inner] index; glyph ID into data 0 when absent */
+  map?: Array<[number, number]>;
+}
+
+// ============================================================================
+// Parsing helpers
+// ============================================================================
+
+/** A signed 2.14 fixed-point number */
+function f2dot14(view: DataView, offset: number): number {
+  return view.getInt16(offset) / 16384;
+}
+
+/** A signed 16.16 fixed-point number */
+function fixed(view: DataView, offset: number): number {
+  return view.getInt32(offset) / 65536;
+}
+
+/**
+ * Byte offsets of the font's tables, by tag
+ */
+function readTableDirectory(view: DataView): Map<string, number> {
+  const tables = new Map<string, number>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3)
+    );
+    tables.set(tag, view.getUint32(record + 8));
+  }
+  return tables;
+}
+
+/**
+ * The family name: the typographic family (name ID 16) when set, since
+ * name ID 1 carries the weight for variable fonts
+ */
+function readFamilyName(view: DataView, table: number): string {
+  const count = view.getUint16(table + 2);
+  const strings = table + view.getUint16(table + 4);
+
+  const names = new Map<number, string>();
+  for (let i = 0; i < count; i++) {
+    const record = table + 6 + i * 12;
+    const nameId = view.getUint16(record + 6);
+    // Windows platform names are UTF-16BE
+    if (view.getUint16(record) !== 3 || (nameId !== 1 && nameId !== 16)) continue;
+
+    const start = strings + view.getUint16(record + 10);
+    const units: number[] = [];
+    for (let offset = 0; offset < view.getUint16(record + 8); offset += 2) {
+      units.push(view.getUint16(start + offset));
+    }
+    names.set(nameId, String.fromCharCode(...units));
+  }
+
+  const family = names.get(16) ?? names.get(1);
+  if (!family) throw new Error('Font has no family name');
+  return family;
+}
+
+/**
+ * Code point → glyph ID, from the Unicode cmap (format 12, else format 4)
+ */
+function readCharacterMap(view: DataView, table: number): Map<number, number> {
+  const subtables = Array.from({ length: view.getUint16(table + 2) }, (_, i) =>
+    table + view.getUint32(table + 8 + i * 8)
+  );
+  const subtable =
+    subtables.find((offset) => view.getUint16(offset) === 12) ??
+    subtables.find((offset) => view.getUint16(offset) === 4);
+  if (subtable === undefined) throw new Error('Font has no Unicode cmap');
+
+  const glyphs = new Map<number, number>();
+  if (view.getUint16(subtable) === 12) {
+    for (let i = 0; i < view.getUint32(subtable + 12); i++) {
+      const group = subtable + 16 + i * 12;
+      const start = view.getUint32(group);
+      const startGlyph = view.getUint32(group + 8);
+      for (let cp = start; cp <= view.getUint32(group + 4); cp++) {
+        glyphs.set(cp, startGlyph + cp - start);
+      }
+    }
+    return glyphs;
+  }
+
+  const segments = view.getUint16(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segments * 2 + 2;
+  const idDeltas = startCodes + segments * 2;
+  const idRangeOffsets = idDeltas + segments * 2;
+  for (let i = 0; i < segments; i++) {
+    const start = view.getUint16(startCodes + i * 2);
+    const end = view.getUint16(endCodes + i * 2);
+    const delta = view.getUint16(idDeltas + i * 2);
+    const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+
+    for (let cp = start; cp <= end && cp !== 0xffff; cp++) {
+      let glyph = 0;
+      if (rangeOffset === 0) {
+        glyph = (cp + delta) & 0xffff;
+      } else {
+        glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (cp - start) * 2);
+        if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph !== 0) glyphs.set(cp, glyph);
+    }
+  }
+  return glyphs;
+}
+
+/**
+ * Advance width per glyph, in font units
+ */
+function readAdvances(view: DataView, tables: Map<string, number>): Uint16Array {
+  const glyphCount = view.getUint16(tables.get('maxp')! + 4);
+  const metricCount = view.getUint16(tables.get('hhea')! + 34);
+  const hmtx = tables.get('hmtx')!;
+
+  const advances = new Uint16Array(glyphCount);
+  for (let glyph = 0; glyph < glyphCount; glyph++) {
+    // Glyphs past the last long metric share its advance
+    advances[glyph] = view.getUint16(hmtx + Math.min(glyph, metricCount - 1) * 4);
+  }
+  return advances;
+}
+
+/**
+ * Glyph → coverage index of an OpenType coverage table
+ */
+function readCoverage(view: DataView, table: number): Map<number, number> {
+  const coverage = new Map<number, number>();
+  const count = view.getUint16(table + 2);
+  if (view.getUint16(table) === 1) {
+    for (let i = 0; i < count; i++) coverage.set(view.getUint16(table + 4 + i * 2), i);
+    return coverage;
+  }
+  for (let i = 0; i < count; i++) {
+    const range = table + 4 + i * 6;
+    const start = view.getUint16(range);
+    const startIndex = view.getUint16(range + 4);
+    for (let glyph = start; glyph <= view.getUint16(range + 2); glyph++) {
+      coverage.set(glyph, startIndex + glyph - start);
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Glyph → class of an OpenType class definition table (unlisted glyphs
+ * are class 0)
+ */
+function readClassDef(view: DataView, table: number): Map<number, number> {
+  const classes = new Map<number, number>();
+  if (view.getUint16(table) === 1) {
+    const start = view.getUint16(table + 2);
+    for (let i = 0; i < view.getUint16(table + 4); i++) {
+      classes.set(start + i, view.getUint16(table + 6 + i * 2));
+    }
+    return classes;
+  }
+  for (let i = 0; i < view.getUint16(table + 2); i++) {
+    const range = table + 4 + i * 6;
+    const value = view.getUint16(range + 4);
+    for (let glyph = view.getUint16(range); glyph <= view.getUint16(range + 2); glyph++) {
+      classes.set(glyph, value);
+    }
+  }
+  return classes;
+}
+
+/** Size of a GPOS value record, in bytes */
+function valueRecordSize(format: number): number {
+  let fields = 0;
+  for (let bits = format; bits; bits >>= 1) fields += bits & 1;
+  return fields * 2;
+}
+
+/** The XAdvance of a GPOS value record, if it has one */
+function xAdvance(view: DataView, record: number, format: number): number {
+  if (!(format & 0x4)) return 0;
+  return view.getInt16(record + valueRecordSize(format & 0x3));
+}
+
+/**
+ * One pair adjustment subtable (GPOS lookup type 2)
+ */
+function readPairKerning(view: DataView, table: number): PairKerning | undefined {
+  const format = view.getUint16(table);
+  const coverage = readCoverage(view, table + view.getUint16(table + 2));
+  const valueFormat1 = view.getUint16(table + 4);
+  const valueFormat2 = view.getUint16(table + 6);
+  const size1 = valueRecordSize(valueFormat1);
+  const size2 = valueRecordSize(valueFormat2);
+
+  if (format === 1) {
+    const pairs = new Map<number, Map<number, number>>();
+    for (const [first, index] of coverage) {
+      const pairSet = table + view.getUint16(table + 10 + index * 2);
+      const seconds = new Map<number, number>();
+      for (let i = 0; i < view.getUint16(pairSet); i++) {
+        const record = pairSet + 2 + i * (2 + size1 + size2);
+        seconds.set(view.getUint16(record), xAdvance(view, record + 2, valueFormat1));
+      }
+      pairs.set(first, seconds);
+    }
+    return { format, pairs };
+  }
+
+  if (format === 2) {
+    const firstClassCount = view.getUint16(table + 12);
+    const secondClassCount = view.getUint16(table + 14);
+    const values = new Int16Array(firstClassCount * secondClassCount);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = xAdvance(view, table + 16 + i * (size1 + size2), valueFormat1);
+    }
+    return {
+      format,
+      coverage: new Set(coverage.keys()),
+      firstClasses: readClassDef(view, table + view.getUint16(table + 8)),
+      secondClasses: readClassDef(view, table + view.getUint16(table + 10)),
+      secondClassCount,
+      values,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * The pair kerning lookups of the GPOS `kern` feature, each a list of
+ * subtables in order
+ */
+function readKerning(view: DataView, gpos: number | undefined): PairKerning[][] {
+  if (gpos === undefined) return [];
+  const featureList = gpos + view.getUint16(gpos + 6);
+  const lookupList = gpos + view.getUint16(gpos + 8);
+
+  const lookupIndexes = new Set<number>();
+  for (let i = 0; i < view.getUint16(featureList); i++) {
+    const record = featureList + 2 + i * 6;
+    const tag = String.fromCharCode(
+      ...[0, 1, 2, 3].map((byte) => view.getUint8(record + byte))
+    );
+    if (tag !== 'kern') continue;
+
+    const feature = featureList + view.getUint16(record + 4);
+    for (let j = 0; j < view.getUint16(feature + 2); j++) {
+      lookupIndexes.add(view.getUint16(feature + 4 + j * 2));
+    }
+  }
+
+  return [...lookupIndexes].sort((a, b) => a - b).map((index) => {
+    const lookup = lookupList + view.getUint16(lookupList + 2 + index * 2);
+    const type = view.getUint16(lookup);
+    const subtables: PairKerning[] = [];
+    for (let i = 0; i < view.getUint16(lookup + 4); i++) {
+      let subtable = lookup + view.getUint16(lookup + 6 + i * 2);
+      // Extension lookups (type 9) point at the real subtable
+      if (type === 9) {
+        if (view.getUint16(subtable + 2) !== 2) continue;
+        subtable += view.getUint32(subtable + 4);
+      } else if (type !== 2) {
+        continue;
+      }
+      const kerning = readPairKerning(view, subtable);
+      if (kerning) subtables.push(kerning);
+    }
+    return subtables;
+  });
+}
+
+/**
+ * The weight axis of a variable font, with its avar segment map
+ */
+function readWeightAxis(
+  view: DataView,
+  tables: Map<string, number>
+): { axis: WeightAxis; index: number; segments?: Array<[number, number]> } | undefined {
+  const fvar = tables.get('fvar');
+  if (fvar === undefined) return undefined;
+
+  const axes = fvar + view.getUint16(fvar + 4);
+  const axisCount = view.getUint16(fvar + 8);
+  const axisSize = view.getUint16(fvar + 10);
+  for (let index = 0; index < axisCount; index++) {
+    const record = axes + index * axisSize;
+    if (view.getUint32(record) !== 0x77676874) continue; // 'wght'
+
+    const axis = {
+      min: fixed(view, record + 4),
+      default: fixed(view, record + 8),
+      max: fixed(view, record + 12),
+    };
+
+    const avar = tables.get('avar');
+    if (avar === undefined) return { axis, index };
+    // Skip the segment maps of earlier axes
+    let map = avar + 8;
+    for (let i = 0; i < index; i++) map += 2 + view.getUint16(map) * 4;
+    const segments = Array.from(
+      { length: view.getUint16(map) },
+      (_, i): [number, number] => [
+        f2dot14(view, map + 2 + i * 4),
+        f2dot14(view, map + 4 + i * 4),
+      ]
+    );
+    return { axis, index, segments };
+  }
+  return undefined;
+}
+
+/**
+ * The HVAR advance width deltas
+ */
+function readAdvanceVariations(view: DataView, hvar: number): AdvanceVariations {
+  const store = hvar + view.getUint32(hvar + 4);
+  const regionList = store + view.getUint32(store + 2);
+  const axisCount = view.getUint16(regionList);
+
+  const regions = Array.from({ length: view.getUint16(regionList + 2) }, (_, r) =>
+    Array.from({ length: axisCount }, (_, a): [number, number, number] => {
+      const coords = regionList + 4 + (r * axisCount + a) * 6;
+      return [f2dot14(view, coords), f2dot14(view, coords + 2), f2dot14(view, coords + 4)];
+    })
+  );
+
+  const data = Array.from({ length: view.getUint16(store + 6) }, (_, d) => {
+    const table = store + view.getUint32(store + 8 + d * 4);
+    const itemCount = view.getUint16(table);
+    const wordDeltaCount = view.getUint16(table + 2);
+    const regionIndexes = Array.from({ length: view.getUint16(table + 4) }, (_, i) =>
+      view.getUint16(table + 6 + i * 2)
+    );
+
+    // The first `wordCount` deltas of a row are wide (16 or 32 bits)
+    const longWords = (wordDeltaCount & 0x8000) !== 0;
+    const wordCount = wordDeltaCount & 0x7fff;
+    const wide = longWords ? 4 : 2;
+    const narrow = longWords ? 2 : 1;
+    const rowSize = wordCount * wide + (regionIndexes.length - wordCount) * narrow;
+
+    let row = table + 6 + regionIndexes.length * 2;
+    const deltas: number[][] = [];
+    for (let item = 0; item < itemCount; item++, row += rowSize) {
+      deltas.push(
+        regionIndexes.map((_, i) => {
+          if (i < wordCount) {
+            const at = row + i * wide;
+            return longWords ? view.getInt32(at) : view.getInt16(at);
+          }
+          const at = row + wordCount * wide + (i - wordCount) * narrow;
+          return longWords ? view.getInt16(at) : view.getInt8(at);
+        })
+      );
+    }
+    return { regionIndexes, deltas };
+  });
+
+  const mapOffset = view.getUint32(hvar + 8);
+  if (!mapOffset) return { regions, data };
+
+  const indexMap = hvar + mapOffset;
+  const format = view.getUint8(indexMap);
+  const entryFormat = view.getUint8(indexMap + 1);
+  const count = format === 0 ? view.getUint16(indexMap + 2) : view.getUint32(indexMap + 2);
+  const entries = indexMap + (format === 0 ? 4 : 6);
+  const entrySize = ((entryFormat & 0x30) >> 4) + 1;
+  const innerBits = (entryFormat & 0x0f) + 1;
+
+  const map = Array.from({ length: count }, (_, i): [number, number] => {
+    let entry = 0;
+    for (let byte = 0; byte < entrySize; byte++) {
+      entry = entry * 256 + view.getUint8(entries + i * entrySize + byte);
+    }
+    return [Math.floor(entry / 2 ** innerBits), entry % 2 ** innerBits];
+  });
+  return { regions, data, map };
+}
+
+/**
+ * How much a variation region applies at a normalized weight
+ */
+function regionScalar(region: Region, axisIndex: number, coord: number): number {
+  let scalar = 1;
+  region.forEach(([start, peak, end], axis) => {
+    if (peak === 0) return;
+    const value = axis === axisIndex ? coord : 0;
+    if (value === peak) return;
+    if (value <= start || value >= end) {
+      scalar = 0;
+    } else {
+      scalar *= value < peak ? (value - start) / (peak - start) : (end - value) / (end - peak);
+    }
+  });
+  return scalar;
+}
+
+// ============================================================================
+// Font metrics
+// ============================================================================
+
+/**
+ * Metrics of one TrueType font
+ *
+ * @example
+ * const font = new FontMetrics(onestData);
+ * font.advanceWidth(font.glyphId(0x41), 700); // width of "A" at bold, in font units
+ */
+export class FontMetrics {
+  readonly family: string;
+  readonly unitsPerEm: number;
+  /** The weight axis, for variable fonts */
+  readonly weightAxis?: WeightAxis;
+
+  private readonly glyphs: Map<number, number>;
+  private readonly advances: Uint16Array;
+  private readonly kerning: PairKerning[][];
+  private readonly weightAxisIndex: number = -1;
+  private readonly weightSegments?: Array<[number, number]>;
+  private readonly variations?: AdvanceVariations;
+
+  constructor(data: ArrayBuffer | Uint8Array) {
+    const view =
+      data instanceof Uint8Array
+        ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+        : new DataView(data);
+    const tables = readTableDirectory(view);
+
+    this.family = readFamilyName(view, tables.get('name')!);
+    this.unitsPerEm = view.getUint16(tables.get('head')! + 18);
+    this.glyphs = readCharacterMap(view, tables.get('cmap')!);
+    this.advances = readAdvances(view, tables);
+    this.kerning = readKerning(view, tables.get('GPOS'));
+
+    const weight = readWeightAxis(view, tables);
+    const hvar = tables.get('HVAR');
+    if (weight) {
+      this.weightAxis = weight.axis;
+      this.weightAxisIndex = weight.index;
+      this.weightSegments = weight.segments;
+      if (hvar !== undefined) this.variations = readAdvanceVariations(view, hvar);
+    }
+  }
+
+  /** Glyph ID of a code point; 0 (.notdef) when the font lacks it */
+  glyphId(codePoint: number): number {
+    return this.glyphs.get(codePoint) ?? 0;
+  }
+
+  /** Every code point the font can draw */
+  codePoints(): Set<number> {
+    return new Set(this.glyphs.keys());
+  }
+
+  /**
+   * Advance width of a glyph at a weight (default instance when unset or
+   * not variable), in font units
+   */
+  advanceWidth(glyph: number, weight?: number): number {
+    const advance = this.advances[glyph] ?? 0;
+    const coord = this.normalizeWeight(weight);
+    if (!coord || !this.variations) return advance;
+
+    const { regions, data, map } = this.variations;
+    const [outer, inner] = map ? map[Math.min(glyph, map.length - 1)] : [0, glyph];
+    const deltas = data[outer]?.deltas[inner];
+    if (!deltas) return advance;
+
+    const { regionIndexes } = data[outer];
+    return deltas.reduce(
+      (width, delta, i) =>
+        width + delta * regionScalar(regions[regionIndexes[i]], this.weightAxisIndex, coord),
+      advance
+    );
+  }
+
+  /**
+   * Kerning between two glyphs, in font units (negative pulls them closer)
+   */
+  kern(left: number, right: number): number {
+    let total = 0;
+    for (const lookup of this.kerning) {
+      for (const subtable of lookup) {
+        if (subtable.format === 1) {
+          const value = subtable.pairs.get(left)?.get(right);
+          if (value === undefined) continue;
+          total += value;
+          break;
+        }
+        if (!subtable.coverage.has(left)) continue;
+        const first = subtable.firstClasses.get(left) ?? 0;
+        const second = subtable.secondClasses.get(right) ?? 0;
+        total += subtable.values[first * subtable.secondClassCount + second];
+        break;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * A weight as a normalized axis coordinate (-1 to 1, 0 at the default),
+   * mapped through avar
+   */
+  private normalizeWeight(weight: number | undefined): number {
+    const axis = this.weightAxis;
+    if (!axis || weight === undefined) return 0;
+
+    const value = Math.min(axis.max, Math.max(axis.min, weight));
+    let coord = 0;
+    if (value < axis.default) coord = -(axis.default - value) / (axis.default - axis.min);
+    if (value > axis.default) coord = (value - axis.default) / (axis.max - axis.default);
+
+    const segments = this.weightSegments;
+    if (!segments || segments.length === 0) return coord;
+    const upper = segments.findIndex(([from]) => from >= coord);
+    if (upper === -1) return segments[segments.length - 1][1];
+    if (upper === 0) return segments[0][1];
+    const [fromA, toA] = segments[upper - 1];
+    const [fromB, toB] = segments[upper];
+    return toA + ((coord - fromA) * (toB - toA)) / (fromB - fromA);
+  }
+}
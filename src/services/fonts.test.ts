@@ -0,0 +1,97 @@
+/**
+ * Tests for Font Loading
+ *
+ * @module services/fonts.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FALLBACK_FONT_FAMILIES } from './font-fallback';
+
+/** The worker's static assets directory */
+const ASSETS_DIR = join(__dirname, '..', '..', 'assets');
+
+/**
+ * A static assets binding serving files from `assets/`, like the runtime
+ */
+function assetsBinding(): Fetcher & { fetch: ReturnType<typeof vi.fn> } {
+  return {
+    fetch: vi.fn(async (input: string) => {
+      try {
+        return new Response(readFileSync(join(ASSETS_DIR, new URL(input).pathname)));
+      } catch {
+        return new Response('Not Found', { status: 404 });
+      }
+    }),
+  } as unknown as Fetcher & { fetch: ReturnType<typeof vi.fn> };
+}
+
+function svgWithFamily(family: string): string {
+  return `<svg><text font-family="Onest, ${family}">text</text></svg>`;
+}
+
+describe('fonts', () => {
+  // Fallback fonts are cached per module, as per isolate in the worker
+  let fonts: typeof import('./fonts');
+
+  beforeEach(async () => {
+    vi.resetModules();
+    fonts = await import('./fonts');
+  });
+
+  describe('getFontBuffersFor', () => {
+    it('should give Latin-only SVGs the brand fonts without fetching', async () => {
+      const assets = assetsBinding();
+
+      const buffers = await fonts.getFontBuffersFor(svgWithFamily('Space Grotesk'), assets);
+
+      expect(buffers).toBe(fonts.getFontBuffers());
+      expect(assets.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the fallback fonts an SVG names from the assets', async () => {
+      const assets = assetsBinding();
+      const { japanese, korean } = FALLBACK_FONT_FAMILIES;
+      const svg = svgWithFamily(`${japanese}, ${korean}`);
+
+      const buffers = await fonts.getFontBuffersFor(svg, assets);
+
+      expect(buffers).toHaveLength(fonts.getFontBuffers().length + 2);
+      expect(assets.fetch.mock.calls.map(([url]) => new URL(url).pathname)).toEqual([
+        '/fonts/NotoSansJP-Subset.ttf',
+        '/fonts/NotoSansKR-Subset.ttf',
+      ]);
+    });
+
+    it('should fetch each fallback font once per isolate', async () => {
+      const assets = assetsBinding();
+      const svg = svgWithFamily(FALLBACK_FONT_FAMILIES.chinese);
+
+      const first = await fonts.getFontBuffersFor(svg, assets);
+      const second = await fonts.getFontBuffersFor(svg, assets);
+
+      expect(second.at(-1)).toBe(first.at(-1));
+      expect(assets.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a fallback font that failed to load', async () => {
+      const assets = assetsBinding();
+      assets.fetch.mockResolvedValueOnce(new Response('Unavailable', { status: 503 }));
+      const svg = svgWithFamily(FALLBACK_FONT_FAMILIES.japanese);
+
+      await expect(fonts.getFontBuffersFor(svg, assets)).rejects.toThrow('HTTP 503');
+      await expect(fonts.getFontBuffersFor(svg, assets)).resolves.toHaveLength(
+        fonts.getFontBuffers().length + 1
+      );
+      expect(assets.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail CJK SVGs without an assets binding', async () => {
+      const svg = svgWithFamily(FALLBACK_FONT_FAMILIES.korean);
+
+      await expect(fonts.getFontBuffersFor(svg)).rejects.toThrow('No ASSETS binding');
+      await expect(fonts.getFontBuffersFor(svgWithFamily('Onest'))).resolves.toHaveLength(3);
+    });
+  });
+});
@@ -8,8 +8,16 @@
  * - Space Grotesk: Headers (variable weight 300-700)
  * - Onest: Body text, labels (variable weight 100-900)
  * - Habibi: Hex codes (static, regular weight only)
+ *
+ * CJK fallback fonts (see font-fallback.ts), fetched from the worker's
+ * static assets only for SVGs that name them, so they stay out of the
+ * bundle. Subsets of Noto Sans JP, KR and SC (SIL OFL, see
+ * assets/fonts/OFL-NotoSansCJK.txt) cut to the characters in everyday use
+ * for each language; scripts/subset-cjk-fonts.py regenerates them.
  */
 
+import { fallbackScriptsOf, type FallbackScript } from './font-fallback';
+
 // Static font imports - wrangler bundles these as ArrayBuffer at build time
 // @ts-expect-error - Binary imports are handled by wrangler bundler
 import spaceGroteskData from '../fonts/SpaceGrotesk-VariableFont_wght.ttf';
@@ -21,6 +29,22 @@ import habibiData from '../fonts/Habibi-Regular.ttf';
 // Cache font buffers to avoid repeated conversions
 let fontBuffersCache: Uint8Array[] | null = null;
 
+/**
+ * Paths of the fallback fonts in the static assets (`[assets]` in
+ * wrangler.toml)
+ */
+const FALLBACK_FONT_PATHS: Record<FallbackScript, string> = {
+  japanese: '/fonts/NotoSansJP-Subset.ttf',
+  korean: '/fonts/NotoSansKR-Subset.ttf',
+  chinese: '/fonts/NotoSansSC-Subset.ttf',
+};
+
+// The assets binding only looks at the path; any origin will do
+const ASSETS_ORIGIN = 'https://assets.local';
+
+// Loaded fallback fonts, kept for the life of the isolate
+const fallbackFontCache = new Map<FallbackScript, Promise<Uint8Array>>();
+
 /**
  * Returns font file data as Uint8Array buffers for resvg-wasm.
  * Buffers are cached after first call.
@@ -49,6 +73,55 @@ export function getFontBuffers(): Uint8Array[] {
   return fontBuffersCache;
 }
 
+/**
+ * Fetch a font file from the static assets
+ */
+async function fetchFont(assets: Fetcher, path: string): Promise<Uint8Array> {
+  const response = await assets.fetch(`${ASSETS_ORIGIN}${path}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load font ${path}: HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Load a fallback font once per isolate. Failed loads are retried on the
+ * next render.
+ */
+function loadFallbackFont(assets: Fetcher, script: FallbackScript): Promise<Uint8Array> {
+  let font = fallbackFontCache.get(script);
+  if (!font) {
+    font = fetchFont(assets, FALLBACK_FONT_PATHS[script]);
+    font.catch(() => fallbackFontCache.delete(script));
+    fallbackFontCache.set(script, font);
+  }
+  return font;
+}
+
+/**
+ * Returns the font buffers an SVG needs: the brand fonts, plus the fallback
+ * fonts its text names. Latin-only SVGs get just the brand fonts and never
+ * touch the assets binding.
+ *
+ * @param assets - Static assets binding holding the fallback fonts
+ * @throws Error if the SVG needs a fallback font and there is no binding,
+ *   rather than rendering its text as missing glyphs
+ */
+export async function getFontBuffersFor(svg: string, assets?: Fetcher): Promise<Uint8Array[]> {
+  const scripts = fallbackScriptsOf(svg);
+  if (scripts.length === 0) {
+    return getFontBuffers();
+  }
+  if (!assets) {
+    throw new Error(`No ASSETS binding to load the ${scripts.join(', ')} fallback fonts from`);
+  }
+
+  const fallbacks = await Promise.all(
+    scripts.map((script) => loadFallbackFont(assets, script))
+  );
+  return [...getFontBuffers(), ...fallbacks];
+}
+
 /**
  * Font family names as they appear in the font metadata.
  * Use these names in SVG font-family attributes.
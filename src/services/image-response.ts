@@ -0,0 +1,70 @@
+/**
+ * OG Image Responses
+ *
+ * Builds the HTTP responses for rendered PNGs. Kept apart from the
+ * resvg renderer so routes can be tested without loading WASM.
+ *
+ * @module services/image-response
+ */
+
+/**
+ * Cache headers for content-addressed image URLs, which never change meaning
+ */
+export const IMMUTABLE_CACHE_HEADERS: Record<string, string> = {
+  'Cache-Control': 'public, max-age=31536000, immutable',
+  'CDN-Cache-Control': 'max-age=31536000',
+};
+
+/**
+ * Caching headers for an OG image
+ *
+ * @param cacheMaxAge - Browser cache duration in seconds; the edge keeps it 7x longer
+ * @param immutable - Content-addressed URL, cacheable for a year
+ */
+export function imageCacheHeaders(
+  cacheMaxAge: number = 86400,
+  immutable: boolean = false
+): Record<string, string> {
+  if (immutable) {
+    return { ...IMMUTABLE_CACHE_HEADERS };
+  }
+
+  return {
+    'Cache-Control': `public, max-age=${cacheMaxAge}, s-maxage=${cacheMaxAge * 7}`,
+    'CDN-Cache-Control': `max-age=${cacheMaxAge * 7}`,
+  };
+}
+
+/**
+ * Wraps PNG bytes in an image response with OG caching headers
+ *
+ * @param pngBuffer - Rendered PNG, or null for a HEAD response
+ * @param cacheMaxAge - Cache duration in seconds (default: 24 hours)
+ * @param headers - Additional response headers (override the defaults)
+ */
+export function createPngResponse(
+  pngBuffer: Uint8Array | null,
+  cacheMaxAge: number = 86400,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(pngBuffer, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      ...imageCacheHeaders(cacheMaxAge),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Fallback response when image generation fails
+ */
+export function renderFailureResponse(): Response {
+  return new Response('Image generation failed', {
+    status: 500,
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+  });
+}
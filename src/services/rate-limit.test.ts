@@ -0,0 +1,273 @@
+/**
+ * Tests for Rate Limiting
+ *
+ * @module services/rate-limit.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  takeTokens,
+  MemoryRateLimitStore,
+  DurableObjectRateLimitStore,
+  RateLimiterDurableObject,
+  RateLimiter,
+  clientFromRequest,
+  createRateLimitStore,
+  RATE_LIMIT_POLICIES,
+  type RateLimitClient,
+  type RateLimitStore,
+  type TokenBucketPolicy,
+} from './rate-limit';
+import type { Env } from '../types';
+
+const POLICY: TokenBucketPolicy = { capacity: 3, refillPerSecond: 0.5 };
+const T0 = Date.UTC(2025, 0, 1);
+
+const browser: RateLimitClient = { ip: '203.0.113.1', crawler: 'none' };
+const discord: RateLimitClient = { ip: '203.0.113.1', crawler: 'discord' };
+
+/**
+ * Fake clock for a limiter; advance with `tick(ms)`
+ */
+function fakeClock(start = T0) {
+  let now = start;
+  return { now: () => now, tick: (ms: number) => void (now += ms) };
+}
+
+/**
+ * Take `n` tokens and return how many were allowed
+ */
+async function burst(limiter: RateLimiter, client: RateLimitClient, n: number): Promise<number> {
+  let allowed = 0;
+  for (let i = 0; i < n; i++) {
+    if ((await limiter.take(client)).allowed) allowed++;
+  }
+  return allowed;
+}
+
+/**
+ * Durable Object namespace backed by in-memory objects, one per name
+ */
+function fakeNamespace(): DurableObjectNamespace {
+  const objects = new Map<string, RateLimiterDurableObject>();
+  const objectFor = (name: string) => {
+    let object = objects.get(name);
+    if (!object) {
+      const data = new Map<string, unknown>();
+      const storage = {
+        get: async (key: string) => data.get(key),
+        put: async (key: string, value: unknown) => void data.set(key, value),
+      };
+      object = new RateLimiterDurableObject({ storage } as unknown as DurableObjectState);
+      objects.set(name, object);
+    }
+    return object;
+  };
+
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      fetch: (input: string, init?: RequestInit) => objectFor(name).fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('rate-limit', () => {
+  describe('takeTokens', () => {
+    it('should start a new bucket full', () => {
+      const { bucket, decision } = takeTokens(undefined, POLICY, 1, T0);
+
+      expect(decision).toEqual({ allowed: true, remaining: 2, limit: 3, retryAfter: 0 });
+      expect(bucket).toEqual({ tokens: 2, updatedAt: T0 });
+    });
+
+    it('should refuse when the bucket is empty and report when to retry', () => {
+      const { decision } = takeTokens({ tokens: 0.5, updatedAt: T0 }, POLICY, 1, T0);
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.retryAfter).toBe(1); // 0.5 tokens at 0.5/s
+    });
+
+    it('should refill with elapsed time, up to capacity', () => {
+      const empty = { tokens: 0, updatedAt: T0 };
+
+      expect(takeTokens(empty, POLICY, 1, T0 + 2_000).decision.allowed).toBe(true);
+      expect(takeTokens(empty, POLICY, 1, T0 + 3_600_000).bucket.tokens).toBe(2);
+    });
+
+    it('should not refill when the clock goes backwards', () => {
+      const { decision } = takeTokens({ tokens: 0, updatedAt: T0 }, POLICY, 1, T0 - 60_000);
+
+      expect(decision.allowed).toBe(false);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    let clock: ReturnType<typeof fakeClock>;
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+      clock = fakeClock();
+      limiter = new RateLimiter(new MemoryRateLimitStore(), { now: clock.now });
+    });
+
+    it('should allow a burst up to capacity, then refuse', async () => {
+      const capacity = RATE_LIMIT_POLICIES.default.capacity;
+
+      expect(await burst(limiter, browser, capacity + 5)).toBe(capacity);
+    });
+
+    it('should give crawlers a larger budget', async () => {
+      const allowed = await burst(limiter, discord, 100);
+
+      expect(allowed).toBe(RATE_LIMIT_POLICIES.crawler.capacity);
+      expect(allowed).toBeGreaterThan(RATE_LIMIT_POLICIES.default.capacity);
+    });
+
+    it('should keep separate buckets per IP', async () => {
+      await burst(limiter, browser, 100);
+
+      expect((await limiter.take({ ...browser, ip: '203.0.113.2' })).allowed).toBe(true);
+    });
+
+    it('should keep scoped budgets apart from the default one', async () => {
+      const store = new MemoryRateLimitStore();
+      const scoped = new RateLimiter(store, { scope: 'short-links', now: clock.now });
+      await burst(new RateLimiter(store, { now: clock.now }), browser, 100);
+
+      expect((await scoped.take(browser)).allowed).toBe(true);
+      expect(store.size).toBe(2);
+    });
+
+    it('should share one bucket when an IP alternates User-Agents', async () => {
+      let allowed = 0;
+      for (let i = 0; i < 100; i++) {
+        if ((await limiter.take(i % 2 ? discord : browser)).allowed) allowed++;
+      }
+
+      expect(allowed).toBe(RATE_LIMIT_POLICIES.default.capacity);
+      expect((await limiter.take(discord)).allowed).toBe(false);
+    });
+
+    it('should cap browser requests at the browser budget after crawler requests', async () => {
+      await burst(limiter, discord, 10);
+
+      expect(await burst(limiter, browser, 100)).toBe(RATE_LIMIT_POLICIES.default.capacity);
+    });
+
+    it('should allow requests again once the bucket refills', async () => {
+      await burst(limiter, browser, 100);
+      const refused = await limiter.take(browser);
+
+      clock.tick(refused.retryAfter * 1000 - 1);
+      expect((await limiter.take(browser)).allowed).toBe(false);
+
+      clock.tick(refused.retryAfter * 1000);
+      expect((await limiter.take(browser)).allowed).toBe(true);
+    });
+
+    it('should accept custom policies', async () => {
+      const strict = new RateLimiter(new MemoryRateLimitStore(), {
+        now: clock.now,
+        policies: { default: POLICY },
+      });
+
+      expect(await burst(strict, browser, 10)).toBe(POLICY.capacity);
+      expect(strict.policyFor(discord)).toEqual(RATE_LIMIT_POLICIES.crawler);
+    });
+
+    describe('store failures', () => {
+      beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+      });
+
+      afterEach(() => {
+        vi.restoreAllMocks();
+      });
+
+      it('should fail open', async () => {
+        const broken: RateLimitStore = {
+          take: async () => {
+            throw new Error('storage unavailable');
+          },
+        };
+
+        const decision = await new RateLimiter(broken).take(browser);
+
+        expect(decision.allowed).toBe(true);
+        expect(console.error).toHaveBeenCalledWith('[RateLimit] store failed:', expect.any(Error));
+      });
+    });
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should evict the least recently used bucket past its limit', async () => {
+      const store = new MemoryRateLimitStore(2);
+      await store.take('a', POLICY, 3, T0);
+      await store.take('b', POLICY, 1, T0);
+      await store.take('a', POLICY, 0, T0); // a is now the most recent
+      await store.take('c', POLICY, 1, T0);
+
+      expect(store.size).toBe(2);
+      expect((await store.take('a', POLICY, 1, T0)).allowed).toBe(false); // a survived, empty
+      expect((await store.take('b', POLICY, 1, T0)).remaining).toBe(2); // b restarted full
+    });
+  });
+
+  describe('DurableObjectRateLimitStore', () => {
+    it('should keep one bucket per client in its own object', async () => {
+      const limiter = new RateLimiter(new DurableObjectRateLimitStore(fakeNamespace()), {
+        now: () => T0,
+        policies: { default: POLICY },
+      });
+
+      expect(await burst(limiter, browser, 10)).toBe(POLICY.capacity);
+      expect((await limiter.take({ ...browser, ip: '203.0.113.2' })).allowed).toBe(true);
+    });
+
+    it('should surface failed object calls', async () => {
+      const namespace = {
+        idFromName: (name: string) => name,
+        get: () => ({ fetch: async () => new Response('boom', { status: 500 }) }),
+      } as unknown as DurableObjectNamespace;
+
+      await expect(
+        new DurableObjectRateLimitStore(namespace).take('client', POLICY, 1, T0)
+      ).rejects.toThrow('Rate limiter object returned 500');
+    });
+  });
+
+  describe('clientFromRequest', () => {
+    it('should identify the connecting IP and crawler type', () => {
+      const request = new Request('https://og.xivdyetools.app/og/default.png', {
+        headers: {
+          'CF-Connecting-IP': '198.51.100.7',
+          'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)',
+        },
+      });
+
+      expect(clientFromRequest(request)).toEqual({ ip: '198.51.100.7', crawler: 'discord' });
+    });
+
+    it('should return null without a connecting IP', () => {
+      const request = new Request('https://og.xivdyetools.app/og/default.png');
+
+      expect(clientFromRequest(request)).toBeNull();
+    });
+  });
+
+  describe('createRateLimitStore', () => {
+    const env: Env = {
+      APP_BASE_URL: 'https://xivdyetools.app',
+      OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+    };
+    const memory = new MemoryRateLimitStore();
+
+    it('should prefer the Durable Object to memory', () => {
+      const withObject = { ...env, RATE_LIMITER: fakeNamespace() };
+
+      expect(createRateLimitStore(withObject, memory)).toBeInstanceOf(DurableObjectRateLimitStore);
+      expect(createRateLimitStore(env, memory)).toBe(memory);
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Rate Limiting for Image Routes
+ *
+ * Token buckets keyed on client IP. Every `/og/*` request takes a token;
+ * buckets refill continuously up to their capacity, so a client can burst
+ * up to the capacity and then sustain the refill rate. Known crawlers (see
+ * `detectCrawler`) get a more generous budget, since a single shared link
+ * can fan out into many preview fetches.
+ *
+ * The crawler type only picks the policy, never the bucket: the User-Agent
+ * is the client's to choose, so switching it must not buy a fresh bucket.
+ * All requests from one IP spend from the same tokens, and a request never
+ * sees more of them than its own policy's capacity.
+ *
+ * Bucket state lives in a pluggable store:
+ *
+ * - `MemoryRateLimitStore` - per isolate, approximate (the default)
+ * - `DurableObjectRateLimitStore` - one `RateLimiterDurableObject` per
+ *   client, exact and shared across isolates
+ *
+ * There is no KV store: a bucket changes on every request, and KV allows
+ * one write per second per key and bills each one.
+ *
+ * @module services/rate-limit
+ */
+
+import type { CrawlerType, Env } from '../types';
+import { detectCrawlerFromRequest } from '../crawler-detector';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Milliseconds since the epoch; injectable so tests can use a fake clock */
+export type Clock = () => number;
+
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface TokenBucketPolicy {
+  /** Most tokens a bucket holds (the burst size) */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Persisted state of one bucket
+ */
+export interface BucketState {
+  tokens: number;
+  /** When `tokens` was last brought up to date (ms) */
+  updatedAt: number;
+}
+
+/**
+ * Outcome of taking tokens from a bucket
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Bucket capacity */
+  limit: number;
+  /** Seconds until the request would be allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Who a request is limited as
+ */
+export interface RateLimitClient {
+  /** Keys the bucket */
+  ip: string;
+  /** Picks the policy (see `RateLimiter.policyFor`) */
+  crawler: CrawlerType;
+}
+
+/**
+ * Storage for bucket state. Implementations refill and take in one step,
+ * so stores that can be atomic (Durable Objects) are.
+ */
+export interface RateLimitStore {
+  take(
+    key: string,
+    policy: TokenBucketPolicy,
+    cost: number,
+    now: number
+  ): Promise<RateLimitDecision>;
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+/**
+ * Default budgets: crawlers may burst 60 and sustain 1 request/s,
+ * everyone else 20 and 1 request every 5 s.
+ */
+export const RATE_LIMIT_POLICIES: Readonly<Record<'crawler' | 'default', TokenBucketPolicy>> = {
+  crawler: { capacity: 60, refillPerSecond: 1 },
+  default: { capacity: 20, refillPerSecond: 0.2 },
+};
+
+/** Most buckets the in-memory store keeps before evicting the oldest */
+const DEFAULT_MEMORY_MAX_BUCKETS = 10_000;
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+/**
+ * Refill a bucket up to `now` and try to take `cost` tokens.
+ * A missing bucket starts full. Pure, so every store shares it.
+ */
+export function takeTokens(
+  bucket: BucketState | null | undefined,
+  policy: TokenBucketPolicy,
+  cost: number,
+  now: number
+): { bucket: BucketState; decision: RateLimitDecision } {
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const available = bucket
+    ? Math.min(policy.capacity, bucket.tokens + elapsed * policy.refillPerSecond)
+    : policy.capacity;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+  const retryAfter = allowed ? 0 : Math.ceil((cost - available) / policy.refillPerSecond);
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    decision: { allowed, remaining: Math.floor(tokens), limit: policy.capacity, retryAfter },
+  };
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-isolate store. Each isolate counts separately, so limits are per
+ * isolate rather than global; cheap and good enough to stop a single
+ * client hammering one data center.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, BucketState>();
+
+  constructor(private readonly maxBuckets: number = DEFAULT_MEMORY_MAX_BUCKETS) {}
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  async take(
+    key: string,
+    policy: TokenBucketPolicy,
+    cost: number,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const result = takeTokens(this.buckets.get(key), policy, cost, now);
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.buckets.delete(key);
+    this.buckets.set(key, result.bucket);
+    while (this.buckets.size > this.maxBuckets) {
+      this.buckets.delete(this.buckets.keys().next().value!);
+    }
+
+    return result.decision;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+}
+
+/**
+ * Body of a take request sent to `RateLimiterDurableObject`
+ */
+interface TakeRequest {
+  policy: TokenBucketPolicy;
+  cost: number;
+  now: number;
+}
+
+/**
+ * Durable Object-backed store: one object per client IP, which makes
+ * every take atomic and the limit global.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async take(
+    key: string,
+    policy: TokenBucketPolicy,
+    cost: number,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const body: TakeRequest = { policy, cost, now };
+    const response = await stub.fetch('https://rate-limiter/take', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter object returned ${response.status}`);
+    }
+    return response.json<RateLimitDecision>();
+  }
+}
+
+/**
+ * Durable Object holding one client's bucket. Bind it as `RATE_LIMITER`
+ * (see wrangler.toml); requests to a single object are serialized, so no
+ * extra locking is needed.
+ */
+export class RateLimiterDurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { policy, cost, now } = await request.json<TakeRequest>();
+    const stored = await this.state.storage.get<BucketState>('bucket');
+    const { bucket, decision } = takeTokens(stored, policy, cost, now);
+
+    await this.state.storage.put('bucket', bucket);
+    return Response.json(decision);
+  }
+}
+
+// ============================================================================
+// Rate Limiter
+// ============================================================================
+
+/**
+ * Identify the client of a request: `CF-Connecting-IP`, which keys its
+ * bucket, and crawler type, which picks its policy.
+ * Cloudflare sets the IP on every request through its edge; without it
+ * (e.g. `app.request` in tests) there is no client to key on, and one
+ * shared bucket would throttle unrelated callers together, so it is null.
+ */
+export function clientFromRequest(request: Request): RateLimitClient | null {
+  const ip = request.headers.get('CF-Connecting-IP');
+  if (!ip) return null;
+
+  return { ip, crawler: detectCrawlerFromRequest(request).type };
+}
+
+/**
+ * Applies the per-client policies on top of a store
+ */
+export class RateLimiter {
+  private readonly policies: Record<'crawler' | 'default', TokenBucketPolicy>;
+  private readonly scope?: string;
+  private readonly now: Clock;
+
+  constructor(
+    private readonly store: RateLimitStore,
+    options: {
+      policies?: Partial<Record<'crawler' | 'default', TokenBucketPolicy>>;
+      /** Bucket key prefix, so a separate budget never spends the image routes' tokens */
+      scope?: string;
+      now?: Clock;
+    } = {}
+  ) {
+    this.policies = { ...RATE_LIMIT_POLICIES, ...options.policies };
+    this.scope = options.scope;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Policy applied to a client. Chosen per request from the claimed
+   * crawler type; the bucket it spends from is the IP's either way.
+   */
+  policyFor(client: RateLimitClient): TokenBucketPolicy {
+    return client.crawler === 'none' ? this.policies.default : this.policies.crawler;
+  }
+
+  /**
+   * Take tokens for a client.
+   * Store failures are logged and let the request through: a broken
+   * limiter must not take the previews down with it.
+   */
+  async take(client: RateLimitClient, cost: number = 1): Promise<RateLimitDecision> {
+    const policy = this.policyFor(client);
+    try {
+      const key = this.scope ? `${this.scope}:${client.ip}` : client.ip;
+      return await this.store.take(key, policy, cost, this.now());
+    } catch (error) {
+      console.error('[RateLimit] store failed:', error);
+      return { allowed: true, remaining: policy.capacity, limit: policy.capacity, retryAfter: 0 };
+    }
+  }
+}
+
+/**
+ * Pick the most accurate store the environment provides:
+ * the `RATE_LIMITER` Durable Object, else the given in-memory store.
+ */
+export function createRateLimitStore(env: Env, memory: MemoryRateLimitStore): RateLimitStore {
+  if (env.RATE_LIMITER) return new DurableObjectRateLimitStore(env.RATE_LIMITER);
+  return memory;
+}
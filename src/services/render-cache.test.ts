@@ -0,0 +1,322 @@
+/**
+ * Tests for Tiered Render Cache
+ *
+ * @module services/render-cache.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  RENDER_CACHE_TTL,
+  MemoryRenderCache,
+  KVRenderCache,
+  EdgeRenderCache,
+  RenderCache,
+  buildRenderCacheKey,
+  createRenderCache,
+  type RenderCacheTier,
+} from './render-cache';
+import { RENDERER_VERSION } from './content-hash';
+import { MemoryKV } from '../test-utils/memory-kv';
+import { MemoryCache } from '../test-utils/memory-cache';
+
+const png = (...bytes: number[]) => new Uint8Array(bytes);
+
+describe('render-cache', () => {
+  describe('buildRenderCacheKey', () => {
+    it('should include renderer version, tool, theme and size', () => {
+      const key = buildRenderCacheKey({ tool: 'harmony', params: { dye: 5771 } });
+
+      expect(key).toMatch(
+        new RegExp(`^og:r${RENDERER_VERSION}:harmony:dark:1200x630:[0-9a-f]{64}$`)
+      );
+    });
+
+    it('should ignore param order and undefined fields', () => {
+      const a = buildRenderCacheKey({
+        tool: 'harmony',
+        params: { dye: 5771, harmony: 'tetradic', algo: undefined },
+      });
+      const b = buildRenderCacheKey({
+        tool: 'harmony',
+        params: { harmony: 'tetradic', dye: 5771 },
+      });
+
+      expect(a).toBe(b);
+    });
+
+    it('should differ when params differ', () => {
+      const a = buildRenderCacheKey({ tool: 'harmony', params: { dye: 5771, algo: 'oklab' } });
+      const b = buildRenderCacheKey({
+        tool: 'harmony',
+        params: { dye: 5771, algo: 'ciede2000' },
+      });
+
+      expect(a).not.toBe(b);
+    });
+
+    it('should include the dye data version when given', () => {
+      const a = buildRenderCacheKey({ tool: 'harmony', params: { dye: 5771 } });
+      const b = buildRenderCacheKey({
+        tool: 'harmony',
+        params: { dye: 5771 },
+        dataVersion: 'abcd1234',
+      });
+
+      expect(b).toContain(':dabcd1234:');
+      expect(a).not.toBe(b);
+    });
+
+    it('should keep array order significant', () => {
+      const a = buildRenderCacheKey({ tool: 'comparison', params: { dyes: [1, 2] } });
+      const b = buildRenderCacheKey({ tool: 'comparison', params: { dyes: [2, 1] } });
+
+      expect(a).not.toBe(b);
+    });
+
+    it('should differ by tool, theme and size', () => {
+      const base = { tool: 'gradient' as const, params: { start: 1, end: 2, steps: 5 } };
+
+      expect(buildRenderCacheKey(base)).not.toBe(
+        buildRenderCacheKey({ ...base, tool: 'mixer' })
+      );
+      expect(buildRenderCacheKey(base)).not.toBe(
+        buildRenderCacheKey({ ...base, theme: 'light' })
+      );
+      expect(buildRenderCacheKey(base)).not.toBe(
+        buildRenderCacheKey({ ...base, width: 600, height: 315 })
+      );
+    });
+
+    it('should stay short for very long params', () => {
+      const key = buildRenderCacheKey({
+        tool: 'swatch',
+        params: { color: 'A'.repeat(5000) },
+      });
+
+      expect(key.length).toBeLessThan(512);
+    });
+  });
+
+  describe('MemoryRenderCache', () => {
+    it('should return stored entries', async () => {
+      const cache = new MemoryRenderCache();
+      await cache.put('a', png(1));
+
+      expect(await cache.get('a')).toEqual(png(1));
+      expect(await cache.get('b')).toBeNull();
+    });
+
+    it('should evict the least recently used entry when full', async () => {
+      const cache = new MemoryRenderCache(2);
+      await cache.put('a', png(1));
+      await cache.put('b', png(2));
+      await cache.get('a'); // a is now most recently used
+      await cache.put('c', png(3));
+
+      expect(await cache.get('a')).not.toBeNull();
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).not.toBeNull();
+    });
+
+    it('should evict by total byte size', async () => {
+      const cache = new MemoryRenderCache(10, 4);
+      await cache.put('a', png(1, 1));
+      await cache.put('b', png(2, 2));
+      await cache.put('c', png(3, 3));
+
+      expect(cache.size).toBe(2);
+      expect(await cache.get('a')).toBeNull();
+    });
+
+    it('should skip entries larger than the byte limit', async () => {
+      const cache = new MemoryRenderCache(10, 2);
+      await cache.put('a', png(1, 2, 3));
+
+      expect(cache.size).toBe(0);
+    });
+
+    it('should replace existing entries without double counting', async () => {
+      const cache = new MemoryRenderCache(10, 4);
+      await cache.put('a', png(1, 1));
+      await cache.put('a', png(2, 2));
+      await cache.put('b', png(3, 3));
+
+      expect(cache.size).toBe(2);
+      expect(await cache.get('a')).toEqual(png(2, 2));
+    });
+  });
+
+  describe('KVRenderCache', () => {
+    it('should round-trip PNG bytes through KV', async () => {
+      const kv = new MemoryKV();
+      const tier = new KVRenderCache(kv.asBinding());
+
+      await tier.put('key', png(137, 80, 78, 71));
+
+      expect(await tier.get('key')).toEqual(png(137, 80, 78, 71));
+      expect(await tier.get('missing')).toBeNull();
+    });
+
+    it('should expire entries after the TTL', async () => {
+      let now = 1_000_000;
+      const kv = new MemoryKV(() => now);
+      const tier = new KVRenderCache(kv.asBinding());
+
+      await tier.put('key', png(1));
+      now += (RENDER_CACHE_TTL - 1) * 1000;
+      expect(await tier.get('key')).not.toBeNull();
+
+      now += 2000;
+      expect(await tier.get('key')).toBeNull();
+    });
+  });
+
+  describe('EdgeRenderCache', () => {
+    it('should store entries under the given origin with a max-age', async () => {
+      const cache = new MemoryCache();
+      const tier = new EdgeRenderCache(cache.asCache(), 'https://og.example.com');
+
+      await tier.put('og:r1:harmony', png(1, 2));
+
+      const [url] = [...cache.store.keys()];
+      expect(url.startsWith('https://og.example.com/__render-cache/')).toBe(true);
+      expect(cache.store.get(url)?.headers.get('Cache-Control')).toContain('max-age=');
+      expect(await tier.get('og:r1:harmony')).toEqual(png(1, 2));
+      expect(await tier.get('other')).toBeNull();
+    });
+  });
+
+  describe('RenderCache', () => {
+    let memory: MemoryRenderCache;
+    let kv: MemoryKV;
+    let render: ReturnType<typeof vi.fn<() => Promise<Uint8Array>>>;
+
+    beforeEach(() => {
+      memory = new MemoryRenderCache();
+      kv = new MemoryKV();
+      render = vi.fn(async () => png(9, 9, 9));
+    });
+
+    it('should render and report a miss on a cold cache', async () => {
+      const cache = createRenderCache({ memory, kv: kv.asBinding() });
+
+      const result = await cache.getOrRender('k', render);
+
+      expect(result).toEqual({ png: png(9, 9, 9), cacheHit: false, tier: null });
+      expect(render).toHaveBeenCalledTimes(1);
+      expect(kv.size).toBe(1);
+      expect(memory.size).toBe(1);
+    });
+
+    it('should serve repeat requests from memory without rendering', async () => {
+      const cache = createRenderCache({ memory, kv: kv.asBinding() });
+
+      await cache.getOrRender('k', render);
+      const result = await cache.getOrRender('k', render);
+
+      expect(result.cacheHit).toBe(true);
+      expect(result.tier).toBe('memory');
+      expect(render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall through to KV and back-fill memory', async () => {
+      await createRenderCache({ memory, kv: kv.asBinding() }).getOrRender('k', render);
+
+      // Fresh isolate: empty LRU, same KV
+      const freshMemory = new MemoryRenderCache();
+      const cache = createRenderCache({ memory: freshMemory, kv: kv.asBinding() });
+      const result = await cache.getOrRender('k', render);
+
+      expect(result.tier).toBe('kv');
+      expect(result.cacheHit).toBe(true);
+      expect(render).toHaveBeenCalledTimes(1);
+      expect(freshMemory.size).toBe(1);
+    });
+
+    it('should check the edge cache before KV', async () => {
+      const edge = new MemoryCache();
+      const origin = 'https://og.example.com';
+      await createRenderCache({ edge: edge.asCache(), origin, kv: kv.asBinding() }).getOrRender(
+        'k',
+        render
+      );
+      kv.calls.get = 0;
+
+      const result = await createRenderCache({
+        memory,
+        edge: edge.asCache(),
+        origin,
+        kv: kv.asBinding(),
+      }).getOrRender('k', render);
+
+      expect(result.tier).toBe('edge');
+      expect(kv.calls.get).toBe(0);
+    });
+
+    it('should work without KV or edge cache', async () => {
+      const cache = createRenderCache({ memory });
+
+      expect((await cache.getOrRender('k', render)).cacheHit).toBe(false);
+      expect((await cache.getOrRender('k', render)).tier).toBe('memory');
+    });
+
+    it('should render every time with no tiers', async () => {
+      const cache = createRenderCache({});
+
+      await cache.getOrRender('k', render);
+      const result = await cache.getOrRender('k', render);
+
+      expect(result.cacheHit).toBe(false);
+      expect(render).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat tier read and write failures as misses', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const broken: RenderCacheTier = {
+        name: 'kv',
+        get: async () => {
+          throw new Error('KV unavailable');
+        },
+        put: async () => {
+          throw new Error('KV unavailable');
+        },
+      };
+      const cache = new RenderCache([memory, broken]);
+
+      const result = await cache.getOrRender('k', render);
+
+      expect(result.cacheHit).toBe(false);
+      expect(result.png).toEqual(png(9, 9, 9));
+      expect(memory.size).toBe(1);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should propagate render failures without caching', async () => {
+      const cache = createRenderCache({ memory, kv: kv.asBinding() });
+
+      await expect(
+        cache.getOrRender('k', async () => {
+          throw new Error('resvg failed');
+        })
+      ).rejects.toThrow('resvg failed');
+      expect(memory.size).toBe(0);
+      expect(kv.size).toBe(0);
+    });
+
+    it('should hand writes to waitUntil when provided', async () => {
+      const pending: Promise<unknown>[] = [];
+      const cache = createRenderCache({
+        memory,
+        kv: kv.asBinding(),
+        waitUntil: (promise) => pending.push(promise),
+      });
+
+      await cache.getOrRender('k', render);
+      expect(pending).toHaveLength(1);
+
+      await Promise.all(pending);
+      expect(kv.size).toBe(1);
+    });
+  });
+});
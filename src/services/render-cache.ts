@@ -0,0 +1,306 @@
+/**
+ * Tiered Render Cache
+ *
+ * Sits in front of the resvg renderer so identical OG images are only
+ * rasterized once. Lookups fall through three tiers, fastest first:
+ *
+ * 1. `memory` - in-isolate LRU, lost when the isolate is evicted
+ * 2. `edge`   - Workers Cache API (`caches.default`), per data center
+ * 3. `kv`     - the optional `OG_CACHE` KV namespace, global
+ *
+ * A hit in a lower tier back-fills the tiers above it. Every tier is
+ * optional, so the cache degrades to a plain render when KV is unbound
+ * or the Cache API is unavailable (e.g. in unit tests).
+ *
+ * @module services/render-cache
+ */
+
+import type { ToolId } from '../types';
+import { OG_DIMENSIONS } from './svg/base';
+import { RENDERER_VERSION, canonicalize, sha256Hex } from './content-hash';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default theme of the rendered cards */
+export const DEFAULT_RENDER_THEME = 'dark';
+
+/** How long rendered PNGs live in the edge cache and KV (7 days) */
+export const RENDER_CACHE_TTL = 604800;
+
+/** In-isolate LRU limits */
+const DEFAULT_MEMORY_MAX_ENTRIES = 64;
+const DEFAULT_MEMORY_MAX_BYTES = 16 * 1024 * 1024;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RenderCacheTierName = 'memory' | 'edge' | 'kv';
+
+/**
+ * A single storage tier of the render cache
+ */
+export interface RenderCacheTier {
+  readonly name: RenderCacheTierName;
+  get(key: string): Promise<Uint8Array | null>;
+  put(key: string, png: Uint8Array): Promise<void>;
+}
+
+/**
+ * Inputs that identify a rendered image
+ */
+export interface RenderCacheKeyInput {
+  tool: ToolId | 'default';
+  params: object;
+  theme?: string;
+  width?: number;
+  height?: number;
+  /** Dye data version, so cached images are dropped when the database changes */
+  dataVersion?: string;
+}
+
+/**
+ * Result of a cache lookup-or-render
+ */
+export interface RenderCacheResult {
+  png: Uint8Array;
+  cacheHit: boolean;
+  /** Tier that served the hit, or null when the image was rendered */
+  tier: RenderCacheTierName | null;
+}
+
+export interface RenderCacheOptions {
+  /**
+   * Schedules background writes (e.g. `ctx.waitUntil`).
+   * When omitted, writes are awaited before returning.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+// ============================================================================
+// Cache Key
+// ============================================================================
+
+/**
+ * Build the deterministic cache key for a rendered image.
+ *
+ * Params are hashed so keys stay within KV's 512-byte limit regardless
+ * of input; the readable prefix keeps keys easy to inspect and purge.
+ *
+ * @example
+ * buildRenderCacheKey({ tool: 'harmony', params: { dye: 5771, harmony: 'tetradic' } });
+ * // 'og:r1:harmony:dark:1200x630:3f1c…'
+ */
+export function buildRenderCacheKey(input: RenderCacheKeyInput): string {
+  const theme = input.theme ?? DEFAULT_RENDER_THEME;
+  const width = input.width ?? OG_DIMENSIONS.width;
+  const height = input.height ?? OG_DIMENSIONS.height;
+  const data = input.dataVersion ? `:d${input.dataVersion}` : '';
+  const digest = sha256Hex(canonicalize(input.params));
+
+  return `og:r${RENDERER_VERSION}${data}:${input.tool}:${theme}:${width}x${height}:${digest}`;
+}
+
+// ============================================================================
+// Tiers
+// ============================================================================
+
+/**
+ * In-isolate LRU tier, bounded by entry count and total bytes
+ */
+export class MemoryRenderCache implements RenderCacheTier {
+  readonly name = 'memory' as const;
+  private readonly entries = new Map<string, Uint8Array>();
+  private bytes = 0;
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_MEMORY_MAX_ENTRIES,
+    private readonly maxBytes: number = DEFAULT_MEMORY_MAX_BYTES
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const png = this.entries.get(key);
+    if (!png) return null;
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, png);
+    return png;
+  }
+
+  async put(key: string, png: Uint8Array): Promise<void> {
+    if (png.byteLength > this.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.bytes -= existing.byteLength;
+      this.entries.delete(key);
+    }
+
+    this.entries.set(key, png);
+    this.bytes += png.byteLength;
+
+    // Evict least recently used entries (Map iterates in insertion order)
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldestKey);
+      this.bytes -= oldest.byteLength;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+}
+
+/**
+ * Workers Cache API tier.
+ * Cache API keys must be URLs, so keys are mapped onto a path of `origin`.
+ */
+export class EdgeRenderCache implements RenderCacheTier {
+  readonly name = 'edge' as const;
+
+  constructor(
+    private readonly cache: Cache,
+    private readonly origin: string,
+    private readonly ttl: number = RENDER_CACHE_TTL
+  ) {}
+
+  private toRequest(key: string): Request {
+    return new Request(`${this.origin}/__render-cache/${encodeURIComponent(key)}`);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const cached = await this.cache.match(this.toRequest(key));
+    if (!cached) return null;
+    return new Uint8Array(await cached.arrayBuffer());
+  }
+
+  async put(key: string, png: Uint8Array): Promise<void> {
+    await this.cache.put(
+      this.toRequest(key),
+      new Response(png, {
+        headers: {
+          'Content-Type': 'image/png',
+          'Cache-Control': `public, max-age=${this.ttl}`,
+        },
+      })
+    );
+  }
+}
+
+/**
+ * KV tier backed by the `OG_CACHE` namespace
+ */
+export class KVRenderCache implements RenderCacheTier {
+  readonly name = 'kv' as const;
+
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly ttl: number = RENDER_CACHE_TTL
+  ) {}
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const cached = await this.kv.get(key, 'arrayBuffer');
+    return cached ? new Uint8Array(cached) : null;
+  }
+
+  async put(key: string, png: Uint8Array): Promise<void> {
+    await this.kv.put(key, png, { expirationTtl: this.ttl });
+  }
+}
+
+// ============================================================================
+// Render Cache
+// ============================================================================
+
+/**
+ * Looks up rendered PNGs across tiers and renders on a full miss
+ */
+export class RenderCache {
+  constructor(
+    private readonly tiers: readonly RenderCacheTier[],
+    private readonly options: RenderCacheOptions = {}
+  ) {}
+
+  /**
+   * Return the cached PNG for `key`, or render, store and return it.
+   * Tier failures are logged and treated as misses so a broken cache
+   * never breaks image generation.
+   */
+  async getOrRender(key: string, render: () => Promise<Uint8Array>): Promise<RenderCacheResult> {
+    for (let i = 0; i < this.tiers.length; i++) {
+      const tier = this.tiers[i];
+      let png: Uint8Array | null = null;
+
+      try {
+        png = await tier.get(key);
+      } catch (error) {
+        console.error(`[RenderCache] ${tier.name} read failed:`, error);
+      }
+
+      if (png) {
+        // Back-fill faster tiers
+        await this.write(this.tiers.slice(0, i), key, png);
+        return { png, cacheHit: true, tier: tier.name };
+      }
+    }
+
+    const png = await render();
+    await this.write(this.tiers, key, png);
+    return { png, cacheHit: false, tier: null };
+  }
+
+  private async write(
+    tiers: readonly RenderCacheTier[],
+    key: string,
+    png: Uint8Array
+  ): Promise<void> {
+    if (tiers.length === 0) return;
+
+    const writes = Promise.all(
+      tiers.map((tier) =>
+        tier.put(key, png).catch((error: unknown) => {
+          console.error(`[RenderCache] ${tier.name} write failed:`, error);
+        })
+      )
+    );
+
+    if (this.options.waitUntil) {
+      this.options.waitUntil(writes);
+    } else {
+      await writes;
+    }
+  }
+}
+
+/**
+ * Build a render cache from whichever tiers are available.
+ *
+ * @param options.memory - Shared in-isolate LRU (module-level, reused across requests)
+ * @param options.edge - Cache API storage, usually `caches.default`
+ * @param options.origin - Origin used to build Cache API keys
+ * @param options.kv - The `OG_CACHE` binding, if configured
+ */
+export function createRenderCache(options: {
+  memory?: MemoryRenderCache;
+  edge?: Cache;
+  origin?: string;
+  kv?: KVNamespace;
+  waitUntil?: (promise: Promise<unknown>) => void;
+}): RenderCache {
+  const tiers: RenderCacheTier[] = [];
+
+  if (options.memory) tiers.push(options.memory);
+  if (options.edge && options.origin) tiers.push(new EdgeRenderCache(options.edge, options.origin));
+  if (options.kv) tiers.push(new KVRenderCache(options.kv));
+
+  return new RenderCache(tiers, { waitUntil: options.waitUntil });
+}
@@ -14,7 +14,8 @@ import { Resvg, initWasm } from '@resvg/resvg-wasm';
 // @ts-expect-error - WASM imports are handled by wrangler bundler
 import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
 
-import { getFontBuffers } from './fonts';
+import { getFontBuffersFor } from './fonts';
+import { createPngResponse, renderFailureResponse } from './image-response';
 
 // Track WASM initialization state
 let wasmInitialized = false;
@@ -65,12 +66,15 @@ export async function renderSvgToPng(
     scale?: number;
     /** Background color (default: transparent) */
     background?: string;
+    /** Static assets binding with the CJK fallback fonts (see fonts.ts) */
+    assets?: Fetcher;
   } = {}
 ): Promise<Uint8Array> {
   // Ensure WASM is initialized
   await initRenderer();
 
-  const { scale = 1, background } = options;
+  const { scale = 1, background, assets } = options;
+  const fontBuffers = await getFontBuffersFor(svgString, assets);
 
   try {
     const resvg = new Resvg(svgString, {
@@ -80,8 +84,8 @@ export async function renderSvgToPng(
       },
       background,
       font: {
-        // Load bundled font files for text rendering
-        fontBuffers: getFontBuffers(),
+        // Bundled brand fonts, plus any CJK fallback fonts the text needs
+        fontBuffers,
         // Default to Onest (body font) for any unspecified text
         defaultFontFamily: 'Onest',
       },
@@ -99,40 +103,39 @@ export async function renderSvgToPng(
   }
 }
 
+/**
+ * Renders an OG image SVG (1200x630) to PNG bytes with the theme background
+ *
+ * @param assets - Static assets binding with the CJK fallback fonts
+ */
+export function renderOGPng(svgString: string, assets?: Fetcher): Promise<Uint8Array> {
+  return renderSvgToPng(svgString, {
+    scale: 1, // 1200x630 is already full resolution
+    background: '#1a1a2e', // Match theme background
+    assets,
+  });
+}
+
 /**
  * Renders an OG image SVG to a PNG response
  *
  * @param svgString - SVG content (should be 1200x630)
  * @param cacheMaxAge - Cache duration in seconds (default: 24 hours)
+ * @param assets - Static assets binding with the CJK fallback fonts
  * @returns Response with PNG image and appropriate headers
  */
 export async function renderOGImage(
   svgString: string,
-  cacheMaxAge: number = 86400
+  cacheMaxAge: number = 86400,
+  assets?: Fetcher
 ): Promise<Response> {
   try {
-    const pngBuffer = await renderSvgToPng(svgString, {
-      scale: 1, // 1200x630 is already full resolution
-      background: '#1a1a2e', // Match theme background
-    });
-
-    return new Response(pngBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': 'image/png',
-        'Cache-Control': `public, max-age=${cacheMaxAge}, s-maxage=${cacheMaxAge * 7}`,
-        'CDN-Cache-Control': `max-age=${cacheMaxAge * 7}`,
-      },
-    });
+    const pngBuffer = await renderOGPng(svgString, assets);
+    return createPngResponse(pngBuffer, cacheMaxAge);
   } catch (error) {
     console.error('[Renderer] OG image generation failed:', error);
 
     // Return a fallback error response
-    return new Response('Image generation failed', {
-      status: 500,
-      headers: {
-        'Content-Type': 'text/plain',
-      },
-    });
+    return renderFailureResponse();
   }
 }
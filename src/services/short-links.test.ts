@@ -0,0 +1,335 @@
+/**
+ * Tests for Short Share Links
+ *
+ * @module services/short-links.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_SHORT_LINK_TTL,
+  MAX_SHORT_LINK_TTL,
+  MIN_SHORT_LINK_TTL,
+  SHORT_CODE_LENGTH,
+  DurableObjectShortCodeRegistry,
+  ShortCodeDurableObject,
+  ShortLinkError,
+  ShortLinkStore,
+  generateShortCode,
+  isShortCode,
+  parseCreateShortLinkRequest,
+  shortLinkCorsHeaders,
+  toShortLinkResponse,
+} from './short-links';
+import { MemoryKV } from '../test-utils/memory-kv';
+import { MemoryDurableObjectNamespace } from '../test-utils/memory-durable-object';
+import type { Env, ShareParams } from '../types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const SWATCH: ShareParams = {
+  tool: 'swatch',
+  color: '8B4513',
+  limit: 5,
+  sheet: 'hairColors',
+  race: 'SeekerOfTheSun',
+  gender: 'Female',
+  algo: 'oklab',
+};
+
+/** Short code objects held in memory */
+function codeObjects(): MemoryDurableObjectNamespace {
+  return new MemoryDurableObjectNamespace((state) => new ShortCodeDurableObject(state));
+}
+
+/** A code registry over fresh (or the given) in-memory code objects */
+function registry(objects = codeObjects()): DurableObjectShortCodeRegistry {
+  return new DurableObjectShortCodeRegistry(objects.asBinding());
+}
+
+/** A code generator that hands out the given codes in order */
+function codes(...values: string[]): () => string {
+  return vi.fn(() => values.shift() ?? 'zzzzzzz');
+}
+
+describe('short-links', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('generateShortCode', () => {
+    it('should generate alphanumeric codes of the configured length', () => {
+      for (let i = 0; i < 100; i++) {
+        const code = generateShortCode();
+        expect(code).toHaveLength(SHORT_CODE_LENGTH);
+        expect(isShortCode(code)).toBe(true);
+      }
+    });
+
+    it('should not repeat codes', () => {
+      const generated = new Set(Array.from({ length: 1000 }, () => generateShortCode()));
+
+      expect(generated.size).toBe(1000);
+    });
+  });
+
+  describe('isShortCode', () => {
+    it.each(['aZ3kQ9x', '0000000'])('should accept %s', (code) => {
+      expect(isShortCode(code)).toBe(true);
+    });
+
+    it.each(['', 'abc', 'aZ3kQ9xy', 'aZ3-Q9x', '../../x'])('should reject %j', (code) => {
+      expect(isShortCode(code)).toBe(false);
+    });
+  });
+
+  describe('parseCreateShortLinkRequest', () => {
+    it('should parse and normalize the share link', () => {
+      const { share, ttl } = parseCreateShortLinkRequest({
+        url: 'https://xivdyetools.app/gradient/?start=1&end=2&steps=99&algo=OKLAB&v=1',
+      });
+
+      expect(share).toEqual({ tool: 'gradient', start: 1, end: 2, steps: 10, algo: 'oklab' });
+      expect(ttl).toBe(DEFAULT_SHORT_LINK_TTL);
+    });
+
+    it('should clamp the ttl into the range KV accepts', () => {
+      const url = 'https://xivdyetools.app/comparison/?dyes=1,2';
+
+      expect(parseCreateShortLinkRequest({ url, ttl: 1 }).ttl).toBe(MIN_SHORT_LINK_TTL);
+      expect(parseCreateShortLinkRequest({ url, ttl: 1e12 }).ttl).toBe(MAX_SHORT_LINK_TTL);
+      expect(parseCreateShortLinkRequest({ url, ttl: 3600 }).ttl).toBe(3600);
+    });
+
+    it.each([
+      [null, 'Missing url'],
+      [{}, 'Missing url'],
+      [{ url: 42 }, 'Missing url'],
+      [{ url: 'https://xivdyetools.app/' }, 'Not a shareable XIV Dye Tools link'],
+      [{ url: 'https://xivdyetools.app/harmony/?dye=abc' }, 'Invalid harmony parameters'],
+      [{ url: 'https://xivdyetools.app/comparison/?dyes=1', ttl: '60' }, 'ttl must be'],
+      [{ url: 'https://xivdyetools.app/comparison/?dyes=1', ttl: 1.5 }, 'ttl must be'],
+    ])('should reject %j with a 400', (body, message) => {
+      let error: unknown;
+      try {
+        parseCreateShortLinkRequest(body);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ShortLinkError);
+      expect((error as ShortLinkError).status).toBe(400);
+      expect((error as ShortLinkError).message).toContain(message);
+    });
+  });
+
+  describe('ShortLinkError', () => {
+    it('should serialize with an error code per status', () => {
+      expect(new ShortLinkError(400, 'bad').toJSON()).toEqual({
+        error: 'invalid_request',
+        message: 'bad',
+      });
+      expect(new ShortLinkError(503, 'busy').toJSON().error).toBe('unavailable');
+    });
+  });
+
+  describe('ShortCodeDurableObject', () => {
+    const claim = (objects: MemoryDurableObjectNamespace, expiresAt: number, now: number) =>
+      registry(objects).claim('aZ3kQ9x', expiresAt, now);
+
+    it('should refuse a code until its claim expires', async () => {
+      const objects = codeObjects();
+
+      expect(await claim(objects, 10_000, 0)).toBe(true);
+      expect(await claim(objects, 20_000, 5_000)).toBe(false);
+      expect(await claim(objects, 30_000, 10_000)).toBe(true);
+    });
+
+    it('should drop the claim when its alarm fires', async () => {
+      const objects = codeObjects();
+      await claim(objects, 10_000, 0);
+
+      await objects.runAlarms(10_000);
+
+      expect(await claim(objects, 20_000, 0)).toBe(true);
+    });
+
+    it('should surface failed object calls', async () => {
+      const namespace = {
+        idFromName: (name: string) => name,
+        get: () => ({ fetch: async () => new Response('boom', { status: 500 }) }),
+      } as unknown as DurableObjectNamespace;
+
+      await expect(
+        new DurableObjectShortCodeRegistry(namespace).claim('aZ3kQ9x', 1, 0)
+      ).rejects.toThrow('500');
+    });
+  });
+
+  describe('ShortLinkStore', () => {
+    it('should store and resolve a share', async () => {
+      const store = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(),
+        now: () => 1000,
+      });
+
+      const link = await store.create(SWATCH);
+
+      expect(link).toEqual({
+        code: link.code,
+        share: SWATCH,
+        createdAt: 1000,
+        expiresAt: 1000 + DEFAULT_SHORT_LINK_TTL * 1000,
+      });
+      expect(await store.resolve(link.code)).toEqual(link);
+    });
+
+    it('should normalize shares before storing them', async () => {
+      const store = new ShortLinkStore(new MemoryKV().asBinding(), { codes: registry() });
+
+      const link = await store.create({ tool: 'mixer', dyeA: 1, dyeB: 2, ratio: 900 });
+
+      expect(link.share).toEqual({ tool: 'mixer', dyeA: 1, dyeB: 2, ratio: 100 });
+    });
+
+    it('should keep keys under a prefix', async () => {
+      const kv = new MemoryKV();
+      const store = new ShortLinkStore(kv.asBinding(), {
+        codes: registry(),
+        generateCode: codes('aZ3kQ9x'),
+      });
+
+      await store.create(SWATCH);
+
+      expect(kv.keys()).toEqual(['s:aZ3kQ9x']);
+    });
+
+    it('should retry on a collision', async () => {
+      const store = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(),
+        generateCode: codes('aaaaaaa', 'aaaaaaa', 'bbbbbbb'),
+      });
+
+      const first = await store.create(SWATCH);
+      const second = await store.create({ tool: 'comparison', dyes: [1] });
+
+      expect(first.code).toBe('aaaaaaa');
+      expect(second.code).toBe('bbbbbbb');
+      expect((await store.resolve('aaaaaaa'))?.share).toEqual(SWATCH);
+    });
+
+    it('should not hand out a claimed code that KV does not show yet', async () => {
+      // Two isolates whose KV reads haven't caught up with each other
+      const objects = codeObjects();
+      const a = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(objects),
+        generateCode: codes('aaaaaaa'),
+      });
+      const b = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(objects),
+        generateCode: codes('aaaaaaa', 'bbbbbbb'),
+      });
+
+      const [first, second] = await Promise.all([a.create(SWATCH), b.create(SWATCH)]);
+
+      expect(first.code).toBe('aaaaaaa');
+      expect(second.code).toBe('bbbbbbb');
+    });
+
+    it('should give up when every code is taken', async () => {
+      const generateCode = vi.fn(() => 'aaaaaaa');
+      const store = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(),
+        generateCode,
+      });
+      await store.create(SWATCH);
+      generateCode.mockClear();
+
+      await expect(store.create(SWATCH)).rejects.toMatchObject({ status: 503 });
+      expect(generateCode).toHaveBeenCalledTimes(5);
+    });
+
+    it('should refuse to create links without a code registry', async () => {
+      const store = new ShortLinkStore(new MemoryKV().asBinding());
+
+      await expect(store.create(SWATCH)).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should expire links after their ttl', async () => {
+      let now = 1_700_000_000_000;
+      const clock = () => now;
+      const store = new ShortLinkStore(new MemoryKV(clock).asBinding(), {
+        codes: registry(),
+        now: clock,
+      });
+
+      const link = await store.create(SWATCH, 3600);
+      expect(link.expiresAt).toBe(now + 3600 * 1000);
+      expect(await store.resolve(link.code)).not.toBeNull();
+
+      now += 3600 * 1000;
+      expect(await store.resolve(link.code)).toBeNull();
+    });
+
+    it('should not serve links past their expiry before KV drops them', async () => {
+      let now = 0;
+      const store = new ShortLinkStore(new MemoryKV().asBinding(), {
+        codes: registry(),
+        now: () => now,
+      });
+
+      const link = await store.create(SWATCH, 60);
+      now = 61_000;
+
+      expect(await store.resolve(link.code)).toBeNull();
+    });
+
+    it('should return null for unknown and malformed codes', async () => {
+      const kv = new MemoryKV();
+      const store = new ShortLinkStore(kv.asBinding());
+
+      expect(await store.resolve('aZ3kQ9x')).toBeNull();
+      expect(await store.resolve('../etc')).toBeNull();
+      expect(kv.calls.get).toBe(1);
+    });
+
+    it('should return null for entries that no longer validate', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const kv = new MemoryKV();
+      await kv.put('s:aZ3kQ9x', JSON.stringify({ share: { tool: 'harmony', dye: 0 } }));
+
+      expect(await new ShortLinkStore(kv.asBinding()).resolve('aZ3kQ9x')).toBeNull();
+    });
+  });
+
+  describe('toShortLinkResponse', () => {
+    it('should describe the short and full links', () => {
+      const response = toShortLinkResponse(
+        { code: 'aZ3kQ9x', share: SWATCH, createdAt: 0, expiresAt: 86_400_000 },
+        env
+      );
+
+      expect(response).toEqual({
+        code: 'aZ3kQ9x',
+        url: 'https://xivdyetools.app/s/aZ3kQ9x',
+        shareUrl:
+          'https://xivdyetools.app/swatch/?color=8B4513&limit=5&sheet=hairColors' +
+          '&race=SeekerOfTheSun&gender=Female&algo=oklab&v=1',
+        share: SWATCH,
+        expiresAt: '1970-01-02T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('shortLinkCorsHeaders', () => {
+    it('should allow posts from the app origin', () => {
+      const headers = shortLinkCorsHeaders({ ...env, APP_BASE_URL: 'https://xivdyetools.app/' });
+
+      expect(headers['Access-Control-Allow-Origin']).toBe('https://xivdyetools.app');
+      expect(headers['Access-Control-Allow-Methods']).toContain('POST');
+      expect(headers['Access-Control-Allow-Headers']).toBe('Content-Type');
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Short Share Links
+ *
+ * Stores share params in KV under a compact code, so a long share link like
+ * `/swatch/?color=8B4513&limit=5&sheet=hairColors&race=…&v=1` can be pasted
+ * as `/s/aZ3kQ9x`:
+ *
+ *   POST /s  { "url": "https://xivdyetools.app/swatch/?color=8B4513…", "ttl": 86400 }
+ *   GET  /s/aZ3kQ9x  → crawler OG HTML, or a redirect to the full share link
+ *
+ * Params are normalized before they are stored and again when they are read,
+ * so old links keep resolving as validation evolves.
+ *
+ * Creating a link is an unauthenticated write, so it is bounded three ways:
+ * every link expires (after `DEFAULT_SHORT_LINK_TTL` unless asked otherwise),
+ * each client may create `SHORT_LINK_CREATE_POLICY` links, and codes are
+ * claimed atomically. KV has no conditional writes, so a random code is
+ * first claimed in its own `ShortCodeDurableObject`, which refuses codes
+ * that are already taken; only then is the link written to KV.
+ *
+ * @module services/short-links
+ */
+
+import type { Env, ShareParams } from '../types';
+import type { TokenBucketPolicy } from './rate-limit';
+import { buildShareUrl, normalizeShareParams, parseShareUrl } from '../share-urls';
+import { ValidationError } from '../validation';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Path short links are created at and served under */
+export const SHORT_LINK_PATH = '/s';
+
+/** Characters a code is drawn from */
+const CODE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Code length: 62^7 ≈ 3.5e12 codes, so collisions stay rare */
+export const SHORT_CODE_LENGTH = 7;
+
+const SHORT_CODE_PATTERN = new RegExp(`^[0-9A-Za-z]{${SHORT_CODE_LENGTH}}$`);
+
+/** Codes tried before giving up on a create */
+const MAX_CREATE_ATTEMPTS = 5;
+
+/** Shortest expiry KV accepts, in seconds */
+export const MIN_SHORT_LINK_TTL = 60;
+
+/** Longest expiry a link may ask for, in seconds (one year) */
+export const MAX_SHORT_LINK_TTL = 365 * 24 * 60 * 60;
+
+/** Expiry of links that don't ask for one, in seconds (90 days) */
+export const DEFAULT_SHORT_LINK_TTL = 90 * 24 * 60 * 60;
+
+/**
+ * Links one client may create: a burst of 20, then 20 a day. Spent from
+ * its own buckets (see `SHORT_LINK_RATE_LIMIT_SCOPE`), not the image budget.
+ */
+export const SHORT_LINK_CREATE_POLICY: TokenBucketPolicy = {
+  capacity: 20,
+  refillPerSecond: 20 / (24 * 60 * 60),
+};
+
+/** Rate limiter scope of the create quota */
+export const SHORT_LINK_RATE_LIMIT_SCOPE = 'short-links';
+
+/** KV key prefix, so the namespace can be shared */
+const KEY_PREFIX = 's:';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A short link as stored in KV
+ */
+export interface ShortLink {
+  code: string;
+  share: ShareParams;
+  /** Epoch milliseconds */
+  createdAt: number;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Body of a create request
+ */
+export interface CreateShortLinkRequest {
+  /** Share link to shorten */
+  url: string;
+  /** Seconds until the link expires (default `DEFAULT_SHORT_LINK_TTL`) */
+  ttl?: number;
+}
+
+/**
+ * Body of a create response
+ */
+export interface ShortLinkResponse {
+  code: string;
+  /** The short link to paste */
+  url: string;
+  /** The full share link it redirects to */
+  shareUrl: string;
+  share: ShareParams;
+  /** ISO 8601 */
+  expiresAt: string;
+}
+
+/**
+ * Short link request error, with its HTTP status
+ */
+export class ShortLinkError extends Error {
+  constructor(
+    readonly status: 400 | 404 | 503,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ShortLinkError';
+  }
+
+  toJSON(): { error: string; message: string } {
+    const error = { 400: 'invalid_request', 404: 'not_found', 503: 'unavailable' }[this.status];
+    return { error, message: this.message };
+  }
+}
+
+// ============================================================================
+// Codes
+// ============================================================================
+
+/**
+ * Generate a random code, uniformly over the alphabet
+ */
+export function generateShortCode(length: number = SHORT_CODE_LENGTH): string {
+  // Rejection sampling: 248 is the largest multiple of 62 that fits in a byte
+  const limit = 256 - (256 % CODE_ALPHABET.length);
+  let code = '';
+
+  while (code.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte >= limit || code.length === length) continue;
+      code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+    }
+  }
+  return code;
+}
+
+/**
+ * Whether a string has the shape of a short code
+ */
+export function isShortCode(code: string): boolean {
+  return SHORT_CODE_PATTERN.test(code);
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * Validate a create request body and normalize the share it points at.
+ * The ttl defaults to `DEFAULT_SHORT_LINK_TTL` and is clamped to the range
+ * KV accepts, up to `MAX_SHORT_LINK_TTL`.
+ */
+export function parseCreateShortLinkRequest(body: unknown): { share: ShareParams; ttl: number } {
+  const request = (typeof body === 'object' && body !== null ? body : {}) as Partial<
+    Record<keyof CreateShortLinkRequest, unknown>
+  >;
+
+  if (typeof request.url !== 'string') {
+    throw new ShortLinkError(400, 'Missing url');
+  }
+
+  let share: ShareParams | null;
+  try {
+    share = parseShareUrl(request.url);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new ShortLinkError(400, error.message);
+  }
+  if (!share) {
+    throw new ShortLinkError(400, 'Not a shareable XIV Dye Tools link');
+  }
+
+  if (request.ttl === undefined) return { share, ttl: DEFAULT_SHORT_LINK_TTL };
+  if (typeof request.ttl !== 'number' || !Number.isInteger(request.ttl)) {
+    throw new ShortLinkError(400, 'ttl must be a whole number of seconds');
+  }
+  return {
+    share,
+    ttl: Math.min(Math.max(request.ttl, MIN_SHORT_LINK_TTL), MAX_SHORT_LINK_TTL),
+  };
+}
+
+/**
+ * Public URL of a short link, on the app's origin
+ */
+export function shortLinkUrl(env: Env, code: string): string {
+  return `${new URL(env.APP_BASE_URL).origin}${SHORT_LINK_PATH}/${code}`;
+}
+
+/**
+ * Describe a stored link for a create response
+ */
+export function toShortLinkResponse(link: ShortLink, env: Env): ShortLinkResponse {
+  return {
+    code: link.code,
+    url: shortLinkUrl(env, link.code),
+    shareUrl: buildShareUrl(link.share, env.APP_BASE_URL),
+    share: link.share,
+    expiresAt: new Date(link.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * CORS headers allowing the app's origin to create short links
+ */
+export function shortLinkCorsHeaders(env: Env): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': new URL(env.APP_BASE_URL).origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+// ============================================================================
+// Code Claims
+// ============================================================================
+
+/**
+ * Reserves codes so two creates can never write the same one
+ */
+export interface ShortCodeRegistry {
+  /**
+   * Claim a code until `expiresAt` (epoch ms)
+   *
+   * @returns false when the code is already claimed
+   */
+  claim(code: string, expiresAt: number, now: number): Promise<boolean>;
+}
+
+/**
+ * Body of a claim request sent to `ShortCodeDurableObject`
+ */
+interface ClaimRequest {
+  expiresAt: number;
+  now: number;
+}
+
+/**
+ * Durable Object-backed registry: one `ShortCodeDurableObject` per code,
+ * so a claim is a single serialized check-and-set
+ */
+export class DurableObjectShortCodeRegistry implements ShortCodeRegistry {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async claim(code: string, expiresAt: number, now: number): Promise<boolean> {
+    const stub = this.namespace.get(this.namespace.idFromName(code));
+    const body: ClaimRequest = { expiresAt, now };
+    const response = await stub.fetch('https://short-codes/claim', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    if (response.status === 409) return false;
+    if (!response.ok) {
+      throw new Error(`Short code object returned ${response.status}`);
+    }
+    return true;
+  }
+}
+
+/**
+ * Durable Object holding one code's claim. Bind it as `SHORT_CODES` (see
+ * wrangler.toml); requests to a single object are serialized, so the check
+ * and the write can't interleave with another create. The claim is dropped
+ * by an alarm once the link has expired, freeing the code.
+ */
+export class ShortCodeDurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { expiresAt, now } = await request.json<ClaimRequest>();
+    const claimedUntil = await this.state.storage.get<number>('claimedUntil');
+    if (claimedUntil !== undefined && claimedUntil > now) {
+      return new Response(null, { status: 409 });
+    }
+
+    await this.state.storage.put('claimedUntil', expiresAt);
+    await this.state.storage.setAlarm(expiresAt);
+    return new Response(null, { status: 201 });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Short links in a KV namespace. Creating links also needs a code
+ * registry; resolving them only reads KV.
+ */
+export class ShortLinkStore {
+  private readonly codes?: ShortCodeRegistry;
+  private readonly now: () => number;
+  private readonly generateCode: () => string;
+
+  constructor(
+    private readonly kv: KVNamespace,
+    options: { codes?: ShortCodeRegistry; now?: () => number; generateCode?: () => string } = {}
+  ) {
+    this.codes = options.codes;
+    this.now = options.now ?? Date.now;
+    this.generateCode = options.generateCode ?? (() => generateShortCode());
+  }
+
+  /**
+   * Store a share under a fresh code, claimed in the registry first so a
+   * concurrent create can't overwrite it
+   *
+   * @param ttl - Seconds until the link expires
+   * @throws ShortLinkError (503) without a registry, or when no free code was found
+   */
+  async create(share: ShareParams, ttl: number = DEFAULT_SHORT_LINK_TTL): Promise<ShortLink> {
+    if (!this.codes) {
+      throw new ShortLinkError(503, 'Short link codes are not configured');
+    }
+
+    const createdAt = this.now();
+    const link: Omit<ShortLink, 'code'> = {
+      share: normalizeShareParams(share),
+      createdAt,
+      expiresAt: createdAt + ttl * 1000,
+    };
+
+    for (let attempt = 0; attempt < MAX_CREATE_ATTEMPTS; attempt++) {
+      const code = this.generateCode();
+      if (!(await this.codes.claim(code, link.expiresAt, createdAt))) continue;
+
+      await this.kv.put(KEY_PREFIX + code, JSON.stringify(link), { expirationTtl: ttl });
+      return { code, ...link };
+    }
+
+    throw new ShortLinkError(503, 'Could not allocate a short code');
+  }
+
+  /**
+   * Look up a code.
+   * Returns null for unknown or expired codes, and for entries whose
+   * params no longer validate.
+   */
+  async resolve(code: string): Promise<ShortLink | null> {
+    if (!isShortCode(code)) return null;
+
+    const stored = (await this.kv.get(KEY_PREFIX + code, 'json')) as Omit<
+      ShortLink,
+      'code'
+    > | null;
+    if (!stored) return null;
+
+    // KV expiry is eventually consistent; don't serve a link past its time
+    if (stored.expiresAt <= this.now()) return null;
+
+    try {
+      return { ...stored, code, share: normalizeShareParams(stored.share) };
+    } catch (error) {
+      console.error(`[ShortLinks] stored params for ${code} no longer validate:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Tests for SPA OG Tag Injection
+ *
+ * @module services/spa-injector.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  fetchSpaPage,
+  injectOGTags,
+  isSpaInjectionEnabled,
+  respondWithSpaPage,
+} from './spa-injector';
+import { StringHTMLRewriter } from '../test-utils/html-rewriter';
+import type { Env } from '../types';
+
+const SPA_INDEX = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>XIV Dye Tools</title>
+  <meta name="description" content="Default description">
+  <meta property="og:title" content="XIV Dye Tools">
+  <meta property="og:image" content="https://xivdyetools.app/og.png">
+  <meta name="twitter:card" content="summary">
+  <meta name="theme-color" content="#000000">
+  <link rel="canonical" href="https://xivdyetools.app/">
+  <link rel="alternate" type="application/json+oembed" href="https://xivdyetools.app/oembed">
+  <link rel="alternate" hreflang="ja" href="https://xivdyetools.app/ja/">
+  <script type="module" src="/assets/index.js"></script>
+</head>
+<body><div id="app"></div></body>
+</html>`;
+
+const TAGS = [
+  '<title>Snow White - Triadic</title>',
+  '<meta property="og:title" content="Snow White">',
+].join('\n  ');
+
+const baseEnv: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+function html(body = SPA_INDEX, init: ResponseInit = {}): Response {
+  return new Response(body, {
+    ...init,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', ...init.headers },
+  });
+}
+
+describe('spa-injector', () => {
+  beforeEach(() => {
+    vi.stubGlobal('HTMLRewriter', StringHTMLRewriter);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('injectOGTags', () => {
+    it('should replace the SPA head tags with the injected ones', async () => {
+      const page = await injectOGTags(html(), TAGS).text();
+
+      expect(page).toContain('<title>Snow White - Triadic</title>');
+      expect(page).toContain('<meta property="og:title" content="Snow White">');
+      expect(page).not.toContain('Default description');
+      expect(page).not.toContain('https://xivdyetools.app/og.png');
+      expect(page).not.toContain('summary"');
+      expect(page).not.toContain('#000000');
+      expect(page.match(/<title>/g)).toHaveLength(1);
+    });
+
+    it('should replace an existing canonical and oEmbed link', async () => {
+      const tags = [
+        TAGS,
+        '<link rel="canonical" href="https://xivdyetools.app/harmony/?dye=5771&amp;v=1">',
+      ].join('\n  ');
+      const page = await injectOGTags(html(), tags).text();
+
+      expect(page.match(/rel="canonical"/g)).toHaveLength(1);
+      expect(page).toContain('href="https://xivdyetools.app/harmony/?dye=5771&amp;v=1"');
+      expect(page).not.toContain('https://xivdyetools.app/oembed');
+      expect(page).toContain('hreflang="ja"');
+    });
+
+    it('should keep the rest of the document', async () => {
+      const page = await injectOGTags(html(), TAGS).text();
+
+      expect(page).toContain('<meta charset="UTF-8">');
+      expect(page).toContain('<script type="module" src="/assets/index.js"></script>');
+      expect(page).toContain('<body><div id="app"></div></body>');
+    });
+
+    it('should put the tags inside the head', async () => {
+      const page = await injectOGTags(html(), TAGS).text();
+      const head = page.slice(page.indexOf('<head>'), page.indexOf('</head>'));
+
+      expect(head).toContain(TAGS);
+    });
+
+    it('should keep the status and headers', async () => {
+      const res = injectOGTags(html(SPA_INDEX, { headers: { 'X-Origin': 'spa' } }), TAGS);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('X-Origin')).toBe('spa');
+    });
+
+    it.each([
+      ['JSON', new Response('{}', { headers: { 'Content-Type': 'application/json' } })],
+      ['errors', html('<html><head></head></html>', { status: 404 })],
+      ['redirects', new Response(null, { status: 301, headers: { Location: '/harmony/' } })],
+    ])('should leave %s unchanged', (_, response) => {
+      expect(injectOGTags(response, TAGS)).toBe(response);
+    });
+  });
+
+  describe('isSpaInjectionEnabled', () => {
+    it('should be on with a service binding or an origin URL', () => {
+      const spa = { fetch: vi.fn() } as unknown as Fetcher;
+
+      expect(isSpaInjectionEnabled({ ...baseEnv, SPA: spa })).toBe(true);
+      expect(isSpaInjectionEnabled({ ...baseEnv, SPA_ORIGIN: 'https://spa.example' })).toBe(true);
+      expect(isSpaInjectionEnabled(baseEnv)).toBe(false);
+    });
+  });
+
+  describe('fetchSpaPage', () => {
+    const request = new Request('https://xivdyetools.app/harmony/?dye=5771', {
+      headers: { 'Accept-Language': 'de' },
+    });
+
+    it('should prefer the service binding', async () => {
+      const spaFetch = vi.fn(async (_: Request) => html());
+      const originFetch = vi.fn();
+      vi.stubGlobal('fetch', originFetch);
+
+      await fetchSpaPage(
+        { ...baseEnv, SPA: { fetch: spaFetch } as unknown as Fetcher, SPA_ORIGIN: 'https://x' },
+        request
+      );
+
+      const forwarded = spaFetch.mock.calls[0][0];
+      expect(new URL(forwarded.url).pathname).toBe('/harmony/');
+      expect(new URL(forwarded.url).search).toBe('?dye=5771');
+      expect(forwarded.headers.get('Accept-Language')).toBe('de');
+      expect(originFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the same path and query from the origin URL', async () => {
+      const originFetch = vi.fn(async (_: Request) => html());
+      vi.stubGlobal('fetch', originFetch);
+
+      await fetchSpaPage({ ...baseEnv, SPA_ORIGIN: 'https://spa.example/' }, request);
+
+      expect(originFetch.mock.calls[0][0].url).toBe('https://spa.example/harmony/?dye=5771');
+    });
+  });
+
+  describe('respondWithSpaPage', () => {
+    it('should pass the request through when the SPA is unreachable', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const passThrough = vi.fn(async () => new Response('pass-through'));
+      vi.stubGlobal('fetch', passThrough);
+      const spa = {
+        fetch: async () => {
+          throw new Error('connection refused');
+        },
+      } as unknown as Fetcher;
+      const request = new Request('https://xivdyetools.app/harmony/');
+
+      const res = await respondWithSpaPage({ ...baseEnv, SPA: spa }, request, TAGS);
+
+      expect(await res.text()).toBe('pass-through');
+      expect(passThrough).toHaveBeenCalledWith(request);
+      expect(console.error).toHaveBeenCalledWith(
+        '[SpaInjector] SPA fetch failed:',
+        expect.any(Error)
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * SPA OG Tag Injection
+ *
+ * Optional mode where non-crawler requests get the SPA's real `index.html`
+ * with the page's OpenGraph tags injected into its `<head>`, instead of a
+ * plain pass-through. Unrecognized bots, link-preview services and users
+ * without JavaScript then still see the right tags, so crawler detection
+ * only decides who gets the lighter synthetic page.
+ *
+ * The SPA comes from the `SPA` service binding or, failing that, the
+ * `SPA_ORIGIN` URL. With neither configured the mode is off.
+ *
+ * @module services/spa-injector
+ */
+
+import type { Env } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Tags in the SPA's head that the injected tags replace.
+ * One selector per `on()` call; each is removed before the new tags go in.
+ */
+const REPLACED_HEAD_SELECTORS = [
+  'title',
+  'meta[name="title"]',
+  'meta[name="description"]',
+  'meta[name="theme-color"]',
+  'meta[property^="og:"]',
+  'meta[name^="twitter:"]',
+  'link[rel="canonical"]',
+  'link[rel="alternate"][type="application/json+oembed"]',
+] as const;
+
+// ============================================================================
+// Origin
+// ============================================================================
+
+/**
+ * Whether an SPA source is configured
+ */
+export function isSpaInjectionEnabled(env: Env): boolean {
+  return Boolean(env.SPA || env.SPA_ORIGIN);
+}
+
+/**
+ * Fetch a page from the SPA, keeping the request's method and headers.
+ * Only the origin changes; the SPA serves its `index.html` for every
+ * client-side route.
+ */
+export async function fetchSpaPage(env: Env, request: Request): Promise<Response> {
+  const { pathname, search } = new URL(request.url);
+
+  if (env.SPA) {
+    return env.SPA.fetch(new Request(`https://spa${pathname}${search}`, request));
+  }
+  if (!env.SPA_ORIGIN) {
+    throw new Error('No SPA binding or SPA_ORIGIN configured');
+  }
+  return fetch(new Request(`${env.SPA_ORIGIN.replace(/\/+$/, '')}${pathname}${search}`, request));
+}
+
+// ============================================================================
+// Injection
+// ============================================================================
+
+/**
+ * Replace the title, description, OpenGraph, Twitter, theme-color,
+ * canonical and oEmbed discovery tags of an HTML response with `metaTags` (from `generateOGMetaTags`). Anything
+ * that is not a successful HTML response is returned unchanged.
+ */
+export function injectOGTags(response: Response, metaTags: string): Response {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (!response.ok || !contentType.includes('text/html')) {
+    return response;
+  }
+
+  let rewriter = new HTMLRewriter();
+  for (const selector of REPLACED_HEAD_SELECTORS) {
+    rewriter = rewriter.on(selector, {
+      element(element) {
+        element.remove();
+      },
+    });
+  }
+
+  return rewriter
+    .on('head', {
+      element(element) {
+        element.append(`\n  ${metaTags}\n`, { html: true });
+      },
+    })
+    .transform(response);
+}
+
+/**
+ * Serve a page from the SPA with `metaTags` injected.
+ * If the SPA can't be reached, falls back to passing the request through.
+ */
+export async function respondWithSpaPage(
+  env: Env,
+  request: Request,
+  metaTags: string
+): Promise<Response> {
+  try {
+    return injectOGTags(await fetchSpaPage(env, request), metaTags);
+  } catch (error) {
+    console.error('[SpaInjector] SPA fetch failed:', error);
+    return fetch(request);
+  }
+}
@@ -7,6 +7,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateAccessibilityOG } from './accessibility';
 import { dyeService } from './dye-helpers';
+import { icon } from './base';
 import type { VisionType } from '../../types';
 
 describe('accessibility SVG generator', () => {
@@ -66,7 +67,8 @@ describe('accessibility SVG generator', () => {
         visionType: 'protanopia',
       });
 
-      expect(result).toContain('→');
+      // Same path as the icon, wherever it is placed
+      expect(result).toContain(icon('arrowRight', 0, 0, 24, 'none').split(' fill=')[0]);
     });
 
     it('should include vision type info box', () => {
@@ -22,40 +22,24 @@
  */
 
 import { type Dye } from '@xivdyetools/core';
-import { rect, text, hexToRgb, rgbToHex, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { iconNode, hexToRgb, rgbToHex, THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { getDyeByItemId } from './dye-helpers';
-import type { VisionType } from '../../types';
+import { box, place, row } from './layout';
+import { h } from './vnode';
+import { nearestDyeNote, resolveDyeRef, swatchLabel } from './dye-helpers';
+import { truncateText } from '../text-layout';
+import { getMessages } from '../../i18n';
+import type { DyeRef, Locale, VisionType } from '../../types';
 
 export interface AccessibilityOGOptions {
-  /** Array of dye itemIDs (1-4) */
-  dyeIds: number[];
+  /** Dye itemIDs or custom colors (1-4) */
+  dyeIds: DyeRef[];
   /** Vision type to simulate */
   visionType?: VisionType;
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
-/**
- * Vision type display names
- */
-const VISION_NAMES: Record<VisionType, string> = {
-  normal: 'Normal Vision',
-  protanopia: 'Protanopia',
-  deuteranopia: 'Deuteranopia',
-  tritanopia: 'Tritanopia',
-  achromatopsia: 'Achromatopsia',
-};
-
-/**
- * Vision type descriptions
- */
-const VISION_DESCRIPTIONS: Record<VisionType, string> = {
-  normal: 'Full color vision',
-  protanopia: 'Red-blind (no red cones)',
-  deuteranopia: 'Green-blind (no green cones)',
-  tritanopia: 'Blue-blind (no blue cones)',
-  achromatopsia: 'Complete color blindness',
-};
-
 /**
  * Color vision simulation matrices
  * Based on Brettel, Viénot, and Mollon (1997) simulation
@@ -115,35 +99,38 @@ function simulateColorVision(hex: string, visionType: VisionType): string {
  * Generates the Accessibility tool OG image SVG
  */
 export function generateAccessibilityOG(options: AccessibilityOGOptions): string {
-  const { dyeIds, visionType = 'protanopia' } = options;
+  const { dyeIds, visionType = 'protanopia', lang } = options;
+  const t = getMessages(lang);
 
   // Look up all dyes
   const dyes: Dye[] = dyeIds
-    .map((id) => getDyeByItemId(id))
+    .map((id) => resolveDyeRef(id))
     .filter((d): d is Dye => d !== undefined)
     .slice(0, 4);
 
   if (dyes.length === 0) {
-    return generateFallbackAccessibilityOG(visionType);
+    return generateFallbackAccessibilityOG(visionType, lang);
   }
 
-  // Build content elements
-  const contentElements: string[] = [];
   const { contentTop, contentHeight, padding } = LAYOUT;
 
   // Calculate layout based on number of dyes
   const numDyes = dyes.length;
   const swatchSize = numDyes === 1 ? 140 : numDyes === 2 ? 120 : numDyes === 3 ? 100 : 85;
   const gap = numDyes <= 2 ? 20 : 15;
+  const labelWidth = swatchSize + gap - 4;
+  const nameStyle = {
+    fontSize: numDyes <= 2 ? 13 : 11,
+    fontFamily: FONTS.primary,
+    fontWeight: 500,
+  };
+  const noteStyle = { fontSize: 10, fontFamily: FONTS.primary };
 
   // Two columns: Original and Simulated
   const columnWidth = (OG_DIMENSIONS.width - padding * 3) / 2;
   const leftColumnX = padding;
   const rightColumnX = padding * 2 + columnWidth;
 
-  // Arrow position
-  const arrowX = OG_DIMENSIONS.width / 2;
-
   // Calculate total content height for vertical centering
   const labelHeight = 25;
   const labelToSwatchGap = 20;
@@ -151,228 +138,258 @@ export function generateAccessibilityOG(options: AccessibilityOGOptions): string
   const swatchToInfoGap = 25;
   const infoBoxHeight = 80;
 
-  const totalContentHeight = labelHeight + labelToSwatchGap + swatchSize + swatchLabelHeight + swatchToInfoGap + infoBoxHeight;
+  const totalContentHeight =
+    labelHeight +
+    labelToSwatchGap +
+    swatchSize +
+    swatchLabelHeight +
+    swatchToInfoGap +
+    infoBoxHeight;
   // Center content vertically with offset to account for header/footer visual weight
   const contentStartY = contentTop + (contentHeight - totalContentHeight) / 2 + 40;
+  const swatchY = contentStartY + labelHeight + labelToSwatchGap;
 
-  // "ORIGINAL COLORS" label
-  contentElements.push(
-    text(leftColumnX + columnWidth / 2, contentStartY + labelHeight / 2, 'ORIGINAL COLORS', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
+  // Original colors, each with its name
+  const originals = dyes.map((dye) =>
+    box(swatchSize, swatchSize + swatchLabelHeight, (x, y) => {
+      // Nearest dye of a custom color
+      const note = nearestDyeNote(dye, lang);
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: swatchSize,
+          height: swatchSize,
+          fill: dye.hex,
+          rx: 8,
+          stroke: THEME.border,
+          strokeWidth: 2,
+        }),
+        h(
+          'text',
+          {
+            ...nameStyle,
+            x: x + swatchSize / 2,
+            y: y + swatchSize + 18,
+            fill: THEME.text,
+            textAnchor: 'middle',
+          },
+          swatchLabel(dye, labelWidth, nameStyle, lang)
+        ),
+        note &&
+          h(
+            'text',
+            {
+              ...noteStyle,
+              x: x + swatchSize / 2,
+              y: y + swatchSize + 32,
+              fill: THEME.textMuted,
+              textAnchor: 'middle',
+            },
+            truncateText(note, labelWidth, noteStyle)
+          ),
+      ];
     })
   );
 
-  // "SIMULATED VIEW" label
-  contentElements.push(
-    text(rightColumnX + columnWidth / 2, contentStartY + labelHeight / 2, 'SIMULATED VIEW', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
+  // Simulated colors, each with its hex
+  const simulations = dyes.map((dye) =>
+    box(swatchSize, swatchSize + swatchLabelHeight, (x, y) => {
+      const simulatedHex = simulateColorVision(dye.hex, visionType);
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: swatchSize,
+          height: swatchSize,
+          fill: simulatedHex,
+          rx: 8,
+          stroke: THEME.border,
+          strokeWidth: 2,
+        }),
+        h(
+          'text',
+          {
+            x: x + swatchSize / 2,
+            y: y + swatchSize + 18,
+            fill: THEME.textMuted,
+            fontSize: numDyes <= 2 ? 11 : 9,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          simulatedHex.toUpperCase()
+        ),
+      ];
     })
   );
 
-  // Calculate swatch positioning
-  const totalSwatchWidth = numDyes * swatchSize + (numDyes - 1) * gap;
-  const swatchStartXLeft = leftColumnX + (columnWidth - totalSwatchWidth) / 2;
-  const swatchStartXRight = rightColumnX + (columnWidth - totalSwatchWidth) / 2;
-  const swatchY = contentStartY + labelHeight + labelToSwatchGap;
-
-  // Draw original colors (left side)
-  dyes.forEach((dye, index) => {
-    const x = swatchStartXLeft + index * (swatchSize + gap);
-
-    // Original color swatch
-    contentElements.push(
-      rect(x, swatchY, swatchSize, swatchSize, dye.hex, {
-        rx: 8,
-        stroke: THEME.border,
-        strokeWidth: 2,
-      })
-    );
-
-    // Dye name
-    const truncatedName = dye.name.length > 10 ? dye.name.slice(0, 8) + '..' : dye.name;
-    contentElements.push(
-      text(x + swatchSize / 2, swatchY + swatchSize + 18, truncatedName, {
-        fill: THEME.text,
-        fontSize: numDyes <= 2 ? 13 : 11,
-        fontFamily: FONTS.primary,
-        fontWeight: 500,
-        textAnchor: 'middle',
-      })
-    );
-  });
-
-  // Draw arrow between columns
-  const arrowY = swatchY + swatchSize / 2;
-  contentElements.push(
-    text(arrowX, arrowY, '→', {
-      fill: THEME.accent,
-      fontSize: 48,
-      fontFamily: FONTS.primary,
-      fontWeight: 700,
-      textAnchor: 'middle',
-      dominantBaseline: 'middle',
-    })
-  );
-
-  // Draw simulated colors (right side)
-  dyes.forEach((dye, index) => {
-    const x = swatchStartXRight + index * (swatchSize + gap);
-    const simulatedHex = simulateColorVision(dye.hex, visionType);
-
-    // Simulated color swatch
-    contentElements.push(
-      rect(x, swatchY, swatchSize, swatchSize, simulatedHex, {
-        rx: 8,
-        stroke: THEME.border,
-        strokeWidth: 2,
-      })
-    );
-
-    // Simulated hex
-    contentElements.push(
-      text(x + swatchSize / 2, swatchY + swatchSize + 18, simulatedHex.toUpperCase(), {
+  // Swatches are centered in their column
+  const swatchArea = (x: number) => ({ x, y: swatchY, width: columnWidth, height: swatchSize });
+  const columnLabel = (x: number, label: string) =>
+    h(
+      'text',
+      {
+        x: x + columnWidth / 2,
+        y: contentStartY + labelHeight / 2,
         fill: THEME.textMuted,
-        fontSize: numDyes <= 2 ? 11 : 9,
-        fontFamily: FONTS.mono,
+        fontSize: 14,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
         textAnchor: 'middle',
-      })
+      },
+      label
     );
-  });
 
   // Vision type info box at bottom (positioned relative to centered content)
   const infoBoxY = swatchY + swatchSize + swatchLabelHeight + swatchToInfoGap;
   const infoBoxWidth = 500;
-  const infoBoxX = (OG_DIMENSIONS.width - infoBoxWidth) / 2;
+  const centerX = OG_DIMENSIONS.width / 2;
+
+  const content = [
+    columnLabel(leftColumnX, t.image.originalColors),
+    columnLabel(rightColumnX, t.image.simulatedView),
+
+    ...place(row(originals, { gap }), swatchArea(leftColumnX), { justify: 'center' }),
 
-  // Info box background
-  contentElements.push(
-    rect(infoBoxX, infoBoxY, infoBoxWidth, infoBoxHeight, THEME.backgroundCard, {
+    // Arrow between columns
+    iconNode('arrowRight', centerX, swatchY + swatchSize / 2, 40, THEME.accent),
+
+    ...place(row(simulations, { gap }), swatchArea(rightColumnX), { justify: 'center' }),
+
+    // Info box background
+    h('rect', {
+      x: (OG_DIMENSIONS.width - infoBoxWidth) / 2,
+      y: infoBoxY,
+      width: infoBoxWidth,
+      height: infoBoxHeight,
+      fill: THEME.backgroundCard,
       rx: 12,
       stroke: THEME.border,
       strokeWidth: 1,
-    })
-  );
+    }),
 
-  // Vision type name
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, infoBoxY + 30, VISION_NAMES[visionType], {
-      fill: THEME.text,
-      fontSize: 22,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+    // Vision type name
+    h(
+      'text',
+      {
+        x: centerX,
+        y: infoBoxY + 30,
+        fill: THEME.text,
+        fontSize: 22,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.visions[visionType]
+    ),
 
-  // Vision type description
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, infoBoxY + 58, VISION_DESCRIPTIONS[visionType], {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.primary,
-      textAnchor: 'middle',
-    })
-  );
+    // Vision type description
+    h(
+      'text',
+      {
+        x: centerX,
+        y: infoBoxY + 58,
+        fill: THEME.textMuted,
+        fontSize: 14,
+        fontFamily: FONTS.primary,
+        textAnchor: 'middle',
+      },
+      t.visionDetails[visionType]
+    ),
+  ];
 
   return generateOGCard({
-    toolName: 'Accessibility',
-    subtitle: VISION_NAMES[visionType],
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.accessibility,
+    subtitle: t.visions[visionType],
+    content,
+    lang,
   });
 }
 
 /**
  * Generates a fallback OG image when no dyes are provided
  */
-function generateFallbackAccessibilityOG(visionType: VisionType): string {
-  const contentElements: string[] = [];
+function generateFallbackAccessibilityOG(visionType: VisionType, lang?: Locale): string {
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
+  const centerX = OG_DIMENSIONS.width / 2;
+
+  // Example showing vision type simulations
+  const exampleColors = ['#ef4444', '#22c55e', '#3b82f6', '#eab308'];
+  const swatchSize = 50;
+  const exampleRow = (colors: string[]) =>
+    row(
+      colors.map((fill) =>
+        box(swatchSize, swatchSize, (x, y) =>
+          h('rect', { x, y, width: swatchSize, height: swatchSize, fill, rx: 6 })
+        )
+      ),
+      { gap: 15 }
+    );
+  const original = exampleRow(exampleColors);
+  const simulated = exampleRow(
+    exampleColors.map((color) => simulateColorVision(color, visionType))
+  );
+
+  // Rows are centered, with their labels to the left
+  const startX = (OG_DIMENSIONS.width - original.width) / 2;
+  const originalY = contentTop + contentHeight / 2 + 70;
+  const simulatedY = originalY + swatchSize + 20;
+  const rowLabel = (y: number, label: string) =>
+    h(
+      'text',
+      {
+        x: startX - 100,
+        y: y + swatchSize / 2,
+        fill: THEME.textMuted,
+        fontSize: 14,
+        fontFamily: FONTS.primary,
+        textAnchor: 'end',
+        dominantBaseline: 'middle',
+      },
+      label
+    );
 
-  // Centered message
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 - 40,
-      'Color Vision Accessibility',
+  const content = [
+    // Centered message
+    h(
+      'text',
       {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 40,
         fill: THEME.text,
         fontSize: 32,
         fontFamily: FONTS.header,
         fontWeight: 600,
         textAnchor: 'middle',
-      }
-    )
-  );
-
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 10,
-      'See how your dye choices appear to colorblind players',
+      },
+      t.image.accessibilityHeadline
+    ),
+    h(
+      'text',
       {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 10,
         fill: THEME.textMuted,
         fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      }
-    )
-  );
-
-  // Example showing vision type simulations
-  const exampleColors = ['#ef4444', '#22c55e', '#3b82f6', '#eab308'];
-  const swatchSize = 50;
-  const gap = 15;
-
-  // Original row
-  const totalWidth = exampleColors.length * swatchSize + (exampleColors.length - 1) * gap;
-  const startX = (OG_DIMENSIONS.width - totalWidth) / 2;
-  const originalY = contentTop + contentHeight / 2 + 70;
-
-  contentElements.push(
-    text(startX - 100, originalY + swatchSize / 2, 'Original:', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.primary,
-      textAnchor: 'end',
-      dominantBaseline: 'middle',
-    })
-  );
-
-  exampleColors.forEach((color, i) => {
-    const x = startX + i * (swatchSize + gap);
-    contentElements.push(rect(x, originalY, swatchSize, swatchSize, color, { rx: 6 }));
-  });
-
-  // Simulated row
-  const simulatedY = originalY + swatchSize + 20;
+      },
+      t.image.accessibilityTagline
+    ),
 
-  contentElements.push(
-    text(startX - 100, simulatedY + swatchSize / 2, `${VISION_NAMES[visionType]}:`, {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.primary,
-      textAnchor: 'end',
-      dominantBaseline: 'middle',
-    })
-  );
-
-  exampleColors.forEach((color, i) => {
-    const x = startX + i * (swatchSize + gap);
-    const simulated = simulateColorVision(color, visionType);
-    contentElements.push(rect(x, simulatedY, swatchSize, swatchSize, simulated, { rx: 6 }));
-  });
+    rowLabel(originalY, t.image.original),
+    ...original.draw(startX, originalY),
+    rowLabel(simulatedY, `${t.visions[visionType]}:`),
+    ...simulated.draw(startX, simulatedY),
+  ];
 
   return generateOGCard({
-    toolName: 'Accessibility',
-    subtitle: VISION_NAMES[visionType],
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.accessibility,
+    subtitle: t.visions[visionType],
+    content,
+    lang,
   });
 }
@@ -16,12 +16,20 @@ import {
   circle,
   line,
   text,
+  icon,
+  iconNode,
+  ICON_NAMES,
   group,
   linearGradient,
+  linearGradientNode,
+  safeColor,
+  safeId,
   THEME,
   FONTS,
   OG_DIMENSIONS,
 } from './base';
+import { renderSvg } from './vnode';
+import { HOSTILE_INPUTS, findUnsafeTags } from '../../test-utils/hostile-inputs';
 
 describe('base SVG utilities', () => {
   describe('escapeXml', () => {
@@ -268,6 +276,17 @@ describe('base SVG utilities', () => {
       expect(result).toContain('font-weight="bold"');
     });
 
+    it('should append a fallback font for CJK text', () => {
+      expect(text(0, 0, 'スノウホワイト', { fontFamily: 'Onest' })).toContain(
+        'font-family="Onest, Noto Sans JP"'
+      );
+      expect(text(0, 0, '스노우 화이트')).toContain('font-family="Onest, Noto Sans KR"');
+    });
+
+    it('should leave Latin text without a font-family', () => {
+      expect(text(0, 0, 'Snow White')).not.toContain('font-family');
+    });
+
     it('should set text anchor', () => {
       const result = text(0, 0, 'Test', { textAnchor: 'middle' });
       expect(result).toContain('text-anchor="middle"');
@@ -284,6 +303,36 @@ describe('base SVG utilities', () => {
     });
   });
 
+  describe('icon', () => {
+    it('should center the icon on the given point', () => {
+      const result = icon('sparkle', 50, 40, 12, '#FFFFFF');
+      expect(result).toMatch(/^<path d="M[^"]+Z" /);
+      expect(result).toContain('fill="#FFFFFF"');
+      expect(result).toContain('transform="translate(44 34) scale(0.5)"');
+    });
+
+    it('should cut holes with the even-odd rule', () => {
+      expect(icon('palette', 0, 0, 24, '#000')).toContain('fill-rule="evenodd"');
+    });
+
+    it('should set opacity', () => {
+      expect(icon('eye', 0, 0, 24, '#000', { opacity: 0.6 })).toContain('opacity="0.6"');
+    });
+
+    it('should reject unsafe fills', () => {
+      expect(icon('check', 0, 0, 24, '"/><script>')).toContain('fill="none"');
+    });
+
+    it('should build the same path as an element node', () => {
+      expect(renderSvg(iconNode('eye', 10, 10, 20, '#000'))).toBe(icon('eye', 10, 10, 20, '#000'));
+    });
+
+    it.each(ICON_NAMES)('should draw %s as a closed path', (name) => {
+      const d = /d="([^"]+)"/.exec(icon(name, 0, 0, 24, '#000'))![1];
+      expect(d).toMatch(/^M[\d.\s,A-Za-z-]+Z$/);
+    });
+  });
+
   describe('group', () => {
     it('should create basic group', () => {
       const result = group('<rect/>');
@@ -323,6 +372,11 @@ describe('base SVG utilities', () => {
       expect(result).toContain('y2="100%"');
     });
 
+    it('should build the same gradient as an element node', () => {
+      const stops = [{ offset: '0%', color: '#FF0000' }];
+      expect(renderSvg(linearGradientNode('grad', stops))).toBe(linearGradient('grad', stops));
+    });
+
     it('should create gradient with multiple stops', () => {
       const result = linearGradient('multiGrad', [
         { offset: '0%', color: '#FF0000' },
@@ -335,6 +389,68 @@ describe('base SVG utilities', () => {
     });
   });
 
+  describe('safeColor', () => {
+    it.each([
+      '#FFF',
+      '#ffffff',
+      '#ffffff80',
+      'rgb(1, 2, 3)',
+      'rgba(45, 45, 61, 0.8)',
+      'url(#bgGradient)',
+      'none',
+      'currentColor',
+      'white',
+    ])('should accept %s', (color) => {
+      expect(safeColor(color)).toBe(color);
+    });
+
+    it.each(HOSTILE_INPUTS)('should replace %j with the fallback', (color) => {
+      expect(safeColor(color)).toBe('none');
+      expect(safeColor(color, '#000000')).toBe('#000000');
+    });
+  });
+
+  describe('safeId', () => {
+    it('should keep safe IDs unchanged', () => {
+      expect(safeId('header-Gradient_2')).toBe('header-Gradient_2');
+    });
+
+    it('should replace unsafe characters', () => {
+      expect(safeId('a" onload="x')).toBe('a__onload__x');
+    });
+
+    it('should not start with a digit or hyphen', () => {
+      expect(safeId('1grad')).toBe('_1grad');
+      expect(safeId('-grad')).toBe('_-grad');
+    });
+  });
+
+  describe('hostile inputs', () => {
+    it('should detect markup that escaped its attribute', () => {
+      // Guard the oracle itself: unescaped interpolation must be caught
+      expect(findUnsafeTags(`<rect fill="${HOSTILE_INPUTS[0]}"/>`)).not.toEqual([]);
+      expect(findUnsafeTags(`<rect fill="${HOSTILE_INPUTS[2]}"/>`)).not.toEqual([]);
+    });
+
+    it.each(HOSTILE_INPUTS)('should keep %j inside its attribute or text node', (input) => {
+      const markup = [
+        rect(0, 0, 1, 1, input, { stroke: input }),
+        circle(0, 0, 1, input, { stroke: input }),
+        line(0, 0, 1, 1, input, 1, { dashArray: input }),
+        text(0, 0, input, { fill: input, fontFamily: input, fontWeight: input }),
+        group('', input),
+        linearGradient(input, [{ offset: input, color: input }], {
+          x1: input,
+          y1: input,
+          x2: input,
+          y2: input,
+        }),
+      ].join('');
+
+      expect(findUnsafeTags(createSvgDocument(100, 100, markup))).toEqual([]);
+    });
+  });
+
   describe('Constants', () => {
     describe('THEME', () => {
       it('should have all required colors', () => {
@@ -3,19 +3,15 @@
  *
  * Core utilities for generating SVG graphics as strings.
  * These SVGs are later converted to PNG using resvg-wasm.
+ *
+ * The element helpers are thin wrappers over the element tree (see
+ * vnode.ts) for code that needs markup strings; the image generators build
+ * trees directly.
  */
 
-/**
- * XML-escapes a string for safe SVG inclusion
- */
-export function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
+import { h, raw, renderSvg, svgDocument, type SvgElement } from './vnode';
+
+export { escapeXml, safeColor, safeId } from './vnode';
 
 /**
  * Converts a hex color to RGB components
@@ -65,9 +61,7 @@ export function createSvgDocument(
   height: number,
   content: string
 ): string {
-  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-${content}
-</svg>`;
+  return renderSvg(svgDocument(width, height, raw(content)));
 }
 
 /**
@@ -87,21 +81,20 @@ export function rect(
     opacity?: number;
   } = {}
 ): string {
-  const attrs = [
-    `x="${x}"`,
-    `y="${y}"`,
-    `width="${width}"`,
-    `height="${height}"`,
-    `fill="${fill}"`,
-  ];
-
-  if (options.rx) attrs.push(`rx="${options.rx}"`);
-  if (options.ry) attrs.push(`ry="${options.ry}"`);
-  if (options.stroke) attrs.push(`stroke="${options.stroke}"`);
-  if (options.strokeWidth) attrs.push(`stroke-width="${options.strokeWidth}"`);
-  if (options.opacity !== undefined) attrs.push(`opacity="${options.opacity}"`);
-
-  return `<rect ${attrs.join(' ')}/>`;
+  return renderSvg(
+    h('rect', {
+      x,
+      y,
+      width,
+      height,
+      fill,
+      rx: options.rx || undefined,
+      ry: options.ry || undefined,
+      stroke: options.stroke || undefined,
+      strokeWidth: options.strokeWidth || undefined,
+      opacity: options.opacity,
+    })
+  );
 }
 
 /**
@@ -118,13 +111,17 @@ export function circle(
     opacity?: number;
   } = {}
 ): string {
-  const attrs = [`cx="${cx}"`, `cy="${cy}"`, `r="${r}"`, `fill="${fill}"`];
-
-  if (options.stroke) attrs.push(`stroke="${options.stroke}"`);
-  if (options.strokeWidth) attrs.push(`stroke-width="${options.strokeWidth}"`);
-  if (options.opacity !== undefined) attrs.push(`opacity="${options.opacity}"`);
-
-  return `<circle ${attrs.join(' ')}/>`;
+  return renderSvg(
+    h('circle', {
+      cx,
+      cy,
+      r,
+      fill,
+      stroke: options.stroke || undefined,
+      strokeWidth: options.strokeWidth || undefined,
+      opacity: options.opacity,
+    })
+  );
 }
 
 /**
@@ -142,23 +139,23 @@ export function line(
     dashArray?: string;
   } = {}
 ): string {
-  const attrs = [
-    `x1="${x1}"`,
-    `y1="${y1}"`,
-    `x2="${x2}"`,
-    `y2="${y2}"`,
-    `stroke="${stroke}"`,
-    `stroke-width="${strokeWidth}"`,
-  ];
-
-  if (options.opacity !== undefined) attrs.push(`opacity="${options.opacity}"`);
-  if (options.dashArray) attrs.push(`stroke-dasharray="${options.dashArray}"`);
-
-  return `<line ${attrs.join(' ')}/>`;
+  return renderSvg(
+    h('line', {
+      x1,
+      y1,
+      x2,
+      y2,
+      stroke,
+      strokeWidth,
+      opacity: options.opacity,
+      strokeDasharray: options.dashArray || undefined,
+    })
+  );
 }
 
 /**
- * Creates a text element
+ * Creates a text element. Text in a script the brand fonts lack gets a
+ * fallback font appended to its family (see services/font-fallback).
  */
 export function text(
   x: number,
@@ -174,28 +171,130 @@ export function text(
     opacity?: number;
   } = {}
 ): string {
-  const attrs = [`x="${x}"`, `y="${y}"`];
+  return renderSvg(
+    h(
+      'text',
+      {
+        x,
+        y,
+        fill: options.fill || undefined,
+        fontSize: options.fontSize || undefined,
+        fontFamily: options.fontFamily || undefined,
+        fontWeight: options.fontWeight || undefined,
+        textAnchor: options.textAnchor,
+        dominantBaseline: options.dominantBaseline,
+        opacity: options.opacity,
+      },
+      content
+    )
+  );
+}
+
+/**
+ * Built-in vector icons, as paths on a 24x24 grid. The bundled fonts have
+ * no emoji or dingbats, so icons are drawn as shapes rather than text.
+ * Holes are cut with the even-odd fill rule.
+ */
+export type IconName =
+  | 'sparkle'
+  | 'palette'
+  | 'arrowRight'
+  | 'arrowDown'
+  | 'caretDown'
+  | 'check'
+  | 'warning'
+  | 'eye';
+
+const ICON_PATHS: Record<IconName, string> = {
+  sparkle: 'M12 0C13 7 17 11 24 12C17 13 13 17 12 24C11 17 7 13 0 12C7 11 11 7 12 0Z',
+  palette:
+    'M12 2C6.5 2 2 6.1 2 11.2S6.3 20.5 11.5 20.5C13 20.5 13.6 19.6 13.6 18.7' +
+    'C13.6 17.5 12.8 17.1 12.8 16S13.7 14.2 14.9 14.2H17C19.8 14.2 22 12.1 22 9.4' +
+    'C22 5.2 17.5 2 12 2Z' +
+    'M5 12.5a1.5 1.5 0 1 0 3 0a1.5 1.5 0 1 0-3 0Z' +
+    'M7 7.5a1.5 1.5 0 1 0 3 0a1.5 1.5 0 1 0-3 0Z' +
+    'M12 6a1.5 1.5 0 1 0 3 0a1.5 1.5 0 1 0-3 0Z' +
+    'M16.5 9a1.5 1.5 0 1 0 3 0a1.5 1.5 0 1 0-3 0Z',
+  arrowRight: 'M2 10.5H16.5L11 5L13 3L22 12L13 21L11 19L16.5 13.5H2Z',
+  arrowDown: 'M10.5 2V16.5L5 11L3 13L12 22L21 13L19 11L13.5 16.5V2Z',
+  caretDown: 'M3 6H21L12 20Z',
+  check: 'M9 16.2L4.8 12L3.4 13.4L9 19L21 7L19.6 5.6Z',
+  warning: 'M12 2L23 21H1Z' + 'M11 9H13V15H11Z' + 'M11 17H13V19H11Z',
+  eye:
+    'M12 5C6.5 5 2.5 9 1 12C2.5 15 6.5 19 12 19S21.5 15 23 12C21.5 9 17.5 5 12 5Z' +
+    'M16.5 12A4.5 4.5 0 1 0 7.5 12A4.5 4.5 0 1 0 16.5 12Z' +
+    'M14 12A2 2 0 1 0 10 12A2 2 0 1 0 14 12Z',
+};
+
+/** Every built-in icon */
+export const ICON_NAMES = Object.keys(ICON_PATHS) as IconName[];
 
-  if (options.fill) attrs.push(`fill="${options.fill}"`);
-  if (options.fontSize) attrs.push(`font-size="${options.fontSize}"`);
-  if (options.fontFamily) attrs.push(`font-family="${options.fontFamily}"`);
-  if (options.fontWeight) attrs.push(`font-weight="${options.fontWeight}"`);
-  if (options.textAnchor) attrs.push(`text-anchor="${options.textAnchor}"`);
-  if (options.dominantBaseline)
-    attrs.push(`dominant-baseline="${options.dominantBaseline}"`);
-  if (options.opacity !== undefined) attrs.push(`opacity="${options.opacity}"`);
+/**
+ * Creates a vector icon element, `size` pixels square and centered on (cx, cy)
+ */
+export function iconNode(
+  name: IconName,
+  cx: number,
+  cy: number,
+  size: number,
+  fill: string,
+  options: {
+    opacity?: number;
+  } = {}
+): SvgElement<'path'> {
+  const scale = Number((size / 24).toFixed(4));
+  return h('path', {
+    d: ICON_PATHS[name],
+    fill,
+    fillRule: 'evenodd',
+    transform: `translate(${cx - size / 2} ${cy - size / 2}) scale(${scale})`,
+    opacity: options.opacity,
+  });
+}
 
-  return `<text ${attrs.join(' ')}>${escapeXml(content)}</text>`;
+/**
+ * Creates a vector icon, `size` pixels square and centered on (cx, cy)
+ */
+export function icon(
+  name: IconName,
+  cx: number,
+  cy: number,
+  size: number,
+  fill: string,
+  options: {
+    opacity?: number;
+  } = {}
+): string {
+  return renderSvg(iconNode(name, cx, cy, size, fill, options));
 }
 
 /**
  * Creates a group element
  */
 export function group(content: string, transform?: string): string {
-  if (transform) {
-    return `<g transform="${transform}">${content}</g>`;
-  }
-  return `<g>${content}</g>`;
+  return renderSvg(h('g', { transform: transform || undefined }, raw(content)));
+}
+
+/**
+ * Creates a linear gradient definition element. Documents rendered from a
+ * tree move it into their `<defs>`.
+ */
+export function linearGradientNode(
+  id: string,
+  stops: Array<{ offset: string; color: string }>,
+  options: {
+    x1?: string;
+    y1?: string;
+    x2?: string;
+    y2?: string;
+  } = {}
+): SvgElement<'linearGradient'> {
+  const { x1 = '0%', y1 = '0%', x2 = '100%', y2 = '0%' } = options;
+  return h(
+    'linearGradient',
+    { id, x1, y1, x2, y2 },
+    stops.map((s) => h('stop', { offset: s.offset, stopColor: s.color }))
+  );
 }
 
 /**
@@ -211,13 +310,7 @@ export function linearGradient(
     y2?: string;
   } = {}
 ): string {
-  const { x1 = '0%', y1 = '0%', x2 = '100%', y2 = '0%' } = options;
-
-  const stopElements = stops
-    .map((s) => `<stop offset="${s.offset}" stop-color="${s.color}"/>`)
-    .join('');
-
-  return `<linearGradient id="${id}" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stopElements}</linearGradient>`;
+  return renderSvg(linearGradientNode(id, stops, options));
 }
 
 /**
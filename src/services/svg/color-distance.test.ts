@@ -0,0 +1,105 @@
+/**
+ * Tests for Color Distance Metrics
+ *
+ * @module color-distance.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  hexToLab,
+  deltaE2000,
+  getDeltaE2000,
+  getEuclideanDistance,
+} from './color-distance';
+
+describe('color-distance', () => {
+  describe('hexToLab', () => {
+    it('should convert white to L=100 with neutral a/b', () => {
+      const lab = hexToLab('#FFFFFF');
+      expect(lab.L).toBeCloseTo(100, 1);
+      expect(lab.a).toBeCloseTo(0, 1);
+      expect(lab.b).toBeCloseTo(0, 1);
+    });
+
+    it('should convert black to L=0', () => {
+      const lab = hexToLab('#000000');
+      expect(lab.L).toBeCloseTo(0, 5);
+      expect(lab.a).toBeCloseTo(0, 5);
+      expect(lab.b).toBeCloseTo(0, 5);
+    });
+
+    it('should convert pure red to the expected Lab value', () => {
+      const lab = hexToLab('#FF0000');
+      expect(lab.L).toBeCloseTo(53.24, 1);
+      expect(lab.a).toBeCloseTo(80.09, 1);
+      expect(lab.b).toBeCloseTo(67.2, 1);
+    });
+
+    it('should accept hex without # prefix', () => {
+      expect(hexToLab('FF0000')).toEqual(hexToLab('#FF0000'));
+    });
+  });
+
+  describe('deltaE2000', () => {
+    // Reference pairs from Sharma, Wu & Dalal (2005), Table 1
+    const referencePairs: Array<[[number, number, number], [number, number, number], number]> = [
+      [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+      [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+      [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+      [[50, -1.3802, -84.2814], [50, 0, -82.7485], 1.0],
+      [[50, 0, 0], [50, -1, 2], 2.3669],
+      [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+      [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+      [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+      [[90.8027, -2.0831, 1.441], [91.1528, -1.6435, 0.0447], 1.4441],
+      [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+    ];
+
+    it.each(referencePairs)('should match reference value for %j vs %j', (a, b, expected) => {
+      const result = deltaE2000(
+        { L: a[0], a: a[1], b: a[2] },
+        { L: b[0], a: b[1], b: b[2] }
+      );
+      expect(result).toBeCloseTo(expected, 4);
+    });
+
+    it('should be symmetric', () => {
+      const lab1 = { L: 60.2574, a: -34.0099, b: 36.2677 };
+      const lab2 = { L: 60.4626, a: -34.1751, b: 39.4387 };
+      expect(deltaE2000(lab1, lab2)).toBeCloseTo(deltaE2000(lab2, lab1), 10);
+    });
+  });
+
+  describe('getDeltaE2000', () => {
+    it('should return 0 for identical colors', () => {
+      expect(getDeltaE2000('#8B4513', '#8B4513')).toBe(0);
+    });
+
+    it('should return ~100 for black vs white', () => {
+      expect(getDeltaE2000('#000000', '#FFFFFF')).toBeCloseTo(100, 0);
+    });
+
+    it('should rank a near color closer than a distant one', () => {
+      const near = getDeltaE2000('#8B4513', '#8C4614');
+      const far = getDeltaE2000('#8B4513', '#1E90FF');
+      expect(near).toBeLessThan(far);
+      expect(near).toBeLessThan(1);
+    });
+  });
+
+  describe('getEuclideanDistance', () => {
+    it('should return 0 for identical colors', () => {
+      expect(getEuclideanDistance('#123456', '#123456')).toBe(0);
+    });
+
+    it('should return the RGB diagonal for black vs white', () => {
+      expect(getEuclideanDistance('#000000', '#FFFFFF')).toBeCloseTo(441.67, 2);
+    });
+
+    it('should measure single-channel differences exactly', () => {
+      expect(getEuclideanDistance('#000000', '#0A0000')).toBe(10);
+      expect(getEuclideanDistance('#000000', '#000A00')).toBe(10);
+      expect(getEuclideanDistance('#000000', '#00000A')).toBe(10);
+    });
+  });
+});
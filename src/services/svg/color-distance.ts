@@ -0,0 +1,150 @@
+/**
+ * Color Distance Metrics
+ *
+ * Pure implementations of the color difference formulas offered by the
+ * `algo` share parameter. OKLAB distances come from the core library's
+ * ColorConverter; CIEDE2000 and Euclidean are implemented here so every
+ * metric can be selected without depending on core internals.
+ */
+
+import { hexToRgb } from './base';
+
+/**
+ * CIE L*a*b* color (D65 white point)
+ */
+export interface LabColor {
+  L: number;
+  a: number;
+  b: number;
+}
+
+/** D65 reference white */
+const D65 = { x: 95.047, y: 100.0, z: 108.883 } as const;
+
+/**
+ * Converts an sRGB channel (0-255) to linear light (0-1)
+ */
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Converts a hex color to CIE L*a*b* (D65)
+ */
+export function hexToLab(hex: string): LabColor {
+  const { r, g, b } = hexToRgb(hex);
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  // Linear sRGB → XYZ (scaled to 0-100)
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) * 100;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) * 100;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) * 100;
+
+  const f = (t: number): number =>
+    t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+  const fx = f(x / D65.x);
+  const fy = f(y / D65.y);
+  const fz = f(z / D65.z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+const toDegrees = (rad: number): number => (rad * 180) / Math.PI;
+
+/**
+ * CIEDE2000 color difference between two L*a*b* colors.
+ *
+ * Follows Sharma, Wu & Dalal (2005) with kL = kC = kH = 1.
+ * A difference below ~2.3 is generally considered imperceptible.
+ */
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar = (c1 + c2) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + g) * lab1.a;
+  const a2p = (1 + g) * lab2.a;
+  const c1p = Math.hypot(a1p, lab1.b);
+  const c2p = Math.hypot(a2p, lab2.b);
+
+  const hueAngle = (b: number, ap: number): number => {
+    if (b === 0 && ap === 0) return 0;
+    const h = toDegrees(Math.atan2(b, ap));
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(lab1.b, a1p);
+  const h2p = hueAngle(lab2.b, a2p);
+
+  const deltaLp = lab2.L - lab1.L;
+  const deltaCp = c2p - c1p;
+
+  let deltahp = 0;
+  if (c1p * c2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) deltahp -= 360;
+    else if (deltahp < -180) deltahp += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltahp / 2));
+
+  const lBarP = (lab1.L + lab2.L) / 2;
+  const cBarP = (c1p + c2p) / 2;
+
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarP = (h1p + h2p + 360) / 2;
+    else hBarP = (h1p + h2p - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hBarP - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBarP)) +
+    0.32 * Math.cos(toRadians(3 * hBarP + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBarP - 63));
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarP - 275) / 25, 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const lBarP50 = Math.pow(lBarP - 50, 2);
+  const sl = 1 + (0.015 * lBarP50) / Math.sqrt(20 + lBarP50);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaLp / sl, 2) +
+      Math.pow(deltaCp / sc, 2) +
+      Math.pow(deltaHp / sh, 2) +
+      rt * (deltaCp / sc) * (deltaHp / sh)
+  );
+}
+
+/**
+ * CIEDE2000 color difference between two hex colors
+ */
+export function getDeltaE2000(hexA: string, hexB: string): number {
+  return deltaE2000(hexToLab(hexA), hexToLab(hexB));
+}
+
+/**
+ * Straight-line distance between two colors in RGB space (0-441.67)
+ */
+export function getEuclideanDistance(hexA: string, hexB: string): number {
+  const a = hexToRgb(hexA);
+  const b = hexToRgb(hexB);
+  return Math.sqrt(
+    Math.pow(a.r - b.r, 2) + Math.pow(a.g - b.g, 2) + Math.pow(a.b - b.b, 2)
+  );
+}
@@ -81,6 +81,14 @@ describe('comparison SVG generator', () => {
       expect(result).toContain(testDye.category);
     });
 
+    it('should show the nearest dye of custom colors in place of the category', () => {
+      const result = generateComparisonOG({ dyeIds: ['hex:8B4513'] });
+
+      expect(result).toContain('Custom colour');
+      expect(result).toContain('≈ ');
+      expect(result).not.toContain('>Custom<');
+    });
+
     it('should scale swatch size based on count', () => {
       // 1 dye = 220px, uses largest swatch
       const result1 = generateComparisonOG({ dyeIds: getValidDyeIds(1) });
@@ -23,185 +23,228 @@
  */
 
 import { type Dye } from '@xivdyetools/core';
-import { rect, text, getContrastTextColor, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { getContrastTextColor, THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { getDyeByItemId } from './dye-helpers';
+import { box, place, row } from './layout';
+import { h } from './vnode';
+import { dyeCategory, dyeName, nearestDyeNote, resolveDyeRef } from './dye-helpers';
+import { fitText, truncateText } from '../text-layout';
+import { formatPlural, getMessages } from '../../i18n';
+import type { DyeRef, Locale } from '../../types';
 
 export interface ComparisonOGOptions {
-  /** Array of dye itemIDs (1-4) */
-  dyeIds: number[];
+  /** Dye itemIDs or custom colors (1-4) */
+  dyeIds: DyeRef[];
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
 /**
  * Generates the Comparison tool OG image SVG
  */
 export function generateComparisonOG(options: ComparisonOGOptions): string {
-  const { dyeIds } = options;
+  const { dyeIds, lang } = options;
+  const t = getMessages(lang);
 
   // Look up all dyes
   const dyes: Dye[] = dyeIds
-    .map((id) => getDyeByItemId(id))
+    .map((id) => resolveDyeRef(id))
     .filter((d): d is Dye => d !== undefined)
     .slice(0, 4); // Max 4 dyes
 
   if (dyes.length === 0) {
-    return generateFallbackComparisonOG();
+    return generateFallbackComparisonOG(lang);
   }
 
-  // Build content elements
-  const contentElements: string[] = [];
-  const { contentTop, contentHeight, padding } = LAYOUT;
+  const { contentTop, contentHeight } = LAYOUT;
 
   // Calculate swatch sizes based on number of dyes
   const numDyes = dyes.length;
   const swatchSize = numDyes === 1 ? 220 : numDyes === 2 ? 180 : numDyes === 3 ? 150 : 130;
   const gap = numDyes <= 2 ? 50 : numDyes === 3 ? 35 : 25;
 
-  // Total width of all swatches
-  const totalWidth = numDyes * swatchSize + (numDyes - 1) * gap;
-  const startX = (OG_DIMENSIONS.width - totalWidth) / 2;
-
-  // Vertical centering: swatch + labels (~70px below)
-  const totalVisualHeight = swatchSize + 90;
-  const startY = contentTop + (contentHeight - totalVisualHeight) / 2;
-
-  dyes.forEach((dye, index) => {
-    const x = startX + index * (swatchSize + gap);
-    const centerX = x + swatchSize / 2;
-
-    // Color swatch with white border
-    contentElements.push(
-      rect(x, startY, swatchSize, swatchSize, dye.hex, {
-        rx: 12,
-        stroke: '#ffffff',
-        strokeWidth: 3,
-      })
-    );
-
-    // Hex code inside the swatch (for large swatches)
-    if (swatchSize >= 150) {
-      const textColor = getContrastTextColor(dye.hex);
-      contentElements.push(
-        text(centerX, startY + swatchSize / 2, dye.hex.toUpperCase(), {
-          fill: textColor,
-          fontSize: swatchSize >= 180 ? 18 : 14,
-          fontFamily: FONTS.mono,
-          fontWeight: 500,
-          textAnchor: 'middle',
-          dominantBaseline: 'middle',
-        })
-      );
-    }
-
-    // Dye name below swatch
-    const truncatedName =
-      dye.name.length > 14 ? dye.name.slice(0, 12) + '..' : dye.name;
-    contentElements.push(
-      text(centerX, startY + swatchSize + 28, truncatedName, {
-        fill: THEME.text,
-        fontSize: numDyes <= 2 ? 20 : numDyes === 3 ? 17 : 15,
-        fontFamily: FONTS.header,
-        fontWeight: 600,
-        textAnchor: 'middle',
-      })
-    );
-
-    // Hex code below name (for smaller swatches)
-    if (swatchSize < 150) {
-      contentElements.push(
-        text(centerX, startY + swatchSize + 50, dye.hex.toUpperCase(), {
-          fill: THEME.textMuted,
-          fontSize: 12,
-          fontFamily: FONTS.mono,
-          textAnchor: 'middle',
-        })
-      );
-    }
-
-    // Category below
-    contentElements.push(
-      text(
-        centerX,
-        startY + swatchSize + (swatchSize < 150 ? 70 : 52),
-        dye.category,
-        {
-          fill: THEME.textMuted,
-          fontSize: numDyes <= 2 ? 14 : 12,
-          fontFamily: FONTS.primary,
-          textAnchor: 'middle',
-        }
-      )
-    );
-  });
+  // Labels may use the gap between swatches
+  const labelWidth = swatchSize + gap - 10;
+  const nameStyle = {
+    fontSize: numDyes <= 2 ? 20 : numDyes === 3 ? 17 : 15,
+    fontFamily: FONTS.header,
+    fontWeight: 600,
+  };
+  const detailStyle = { fontSize: numDyes <= 2 ? 14 : 12, fontFamily: FONTS.primary };
+
+  // Each card is the swatch plus its labels (~90px below)
+  const cards = dyes.map((dye) =>
+    box(swatchSize, swatchSize + 90, (x, y) => {
+      const centerX = x + swatchSize / 2;
+      const name = fitText(dyeName(dye, lang), labelWidth, nameStyle, 13);
+      // Category below, or the nearest dye of a custom color
+      const detail = nearestDyeNote(dye, lang) ?? dyeCategory(dye, lang);
+
+      return [
+        // Color swatch with white border
+        h('rect', {
+          x,
+          y,
+          width: swatchSize,
+          height: swatchSize,
+          fill: dye.hex,
+          rx: 12,
+          stroke: '#ffffff',
+          strokeWidth: 3,
+        }),
+
+        // Hex code inside the swatch (for large swatches)
+        swatchSize >= 150 &&
+          h(
+            'text',
+            {
+              x: centerX,
+              y: y + swatchSize / 2,
+              fill: getContrastTextColor(dye.hex),
+              fontSize: swatchSize >= 180 ? 18 : 14,
+              fontFamily: FONTS.mono,
+              fontWeight: 500,
+              textAnchor: 'middle',
+              dominantBaseline: 'middle',
+            },
+            dye.hex.toUpperCase()
+          ),
+
+        // Dye name below swatch, shrunk (then cut) to the label width
+        h(
+          'text',
+          {
+            ...nameStyle,
+            x: centerX,
+            y: y + swatchSize + 28,
+            fill: THEME.text,
+            fontSize: name.fontSize,
+            textAnchor: 'middle',
+          },
+          name.content
+        ),
+
+        // Hex code below name (for smaller swatches)
+        swatchSize < 150 &&
+          h(
+            'text',
+            {
+              x: centerX,
+              y: y + swatchSize + 50,
+              fill: THEME.textMuted,
+              fontSize: 12,
+              fontFamily: FONTS.mono,
+              textAnchor: 'middle',
+            },
+            dye.hex.toUpperCase()
+          ),
+
+        h(
+          'text',
+          {
+            ...detailStyle,
+            x: centerX,
+            y: y + swatchSize + (swatchSize < 150 ? 70 : 52),
+            fill: THEME.textMuted,
+            textAnchor: 'middle',
+          },
+          truncateText(detail, labelWidth, detailStyle)
+        ),
+      ];
+    })
+  );
+
+  // Centered in the content area
+  const content = place(
+    row(cards, { gap }),
+    { x: 0, y: contentTop, width: OG_DIMENSIONS.width, height: contentHeight },
+    { justify: 'center', align: 'center' }
+  );
 
   return generateOGCard({
-    toolName: 'Comparison',
-    subtitle: `${dyes.length} ${dyes.length === 1 ? 'Dye' : 'Dyes'} Compared`,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.comparison,
+    subtitle: formatPlural(t.image.dyesCompared, dyes.length, lang),
+    content,
+    lang,
   });
 }
 
 /**
  * Generates a fallback OG image when no dyes are provided
  */
-function generateFallbackComparisonOG(): string {
-  const contentElements: string[] = [];
+function generateFallbackComparisonOG(lang?: Locale): string {
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
-
-  // Centered message
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, contentTop + contentHeight / 2 - 20, 'Compare Dyes Side-by-Side', {
-      fill: THEME.text,
-      fontSize: 32,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
-
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 30,
-      'Select up to 4 dyes to compare colors and details',
-      {
-        fill: THEME.textMuted,
-        fontSize: 18,
-        fontFamily: FONTS.primary,
-        textAnchor: 'middle',
-      }
-    )
-  );
+  const centerX = OG_DIMENSIONS.width / 2;
 
   // Example comparison swatches
   const colors = [
-    { hex: '#F2F2F2', name: 'White' },
-    { hex: '#8A2A37', name: 'Red' },
-    { hex: '#252A42', name: 'Blue' },
-    { hex: '#C8B374', name: 'Yellow' },
+    { hex: '#F2F2F2', name: t.image.colors.white },
+    { hex: '#8A2A37', name: t.image.colors.red },
+    { hex: '#252A42', name: t.image.colors.blue },
+    { hex: '#C8B374', name: t.image.colors.yellow },
   ];
 
   const swatchSize = 80;
-  const gap = 30;
-  const totalWidth = colors.length * swatchSize + (colors.length - 1) * gap;
-  const startX = (OG_DIMENSIONS.width - totalWidth) / 2;
+  const swatches = row(
+    colors.map((color) =>
+      box(swatchSize, swatchSize + 20, (x, y) => [
+        h('rect', { x, y, width: swatchSize, height: swatchSize, fill: color.hex, rx: 8 }),
+        h(
+          'text',
+          {
+            x: x + swatchSize / 2,
+            y: y + swatchSize + 20,
+            fill: THEME.textMuted,
+            fontSize: 12,
+            fontFamily: FONTS.primary,
+            textAnchor: 'middle',
+          },
+          color.name
+        ),
+      ])
+    ),
+    { gap: 30 }
+  );
   const swatchY = contentTop + contentHeight / 2 + 90;
 
-  colors.forEach((color, i) => {
-    const x = startX + i * (swatchSize + gap);
-    contentElements.push(rect(x, swatchY, swatchSize, swatchSize, color.hex, { rx: 8 }));
-    contentElements.push(
-      text(x + swatchSize / 2, swatchY + swatchSize + 20, color.name, {
+  const content = [
+    // Centered message
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 20,
+        fill: THEME.text,
+        fontSize: 32,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.comparisonHeadline
+    ),
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 30,
         fill: THEME.textMuted,
-        fontSize: 12,
+        fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      })
-    );
-  });
+      },
+      t.image.comparisonTagline
+    ),
+    ...place(
+      swatches,
+      { x: 0, y: swatchY, width: OG_DIMENSIONS.width, height: swatches.height },
+      { justify: 'center' }
+    ),
+  ];
 
   return generateOGCard({
-    toolName: 'Comparison',
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.comparison,
+    content,
+    lang,
   });
 }
@@ -10,9 +10,16 @@ import {
   characterColorService,
   findCharacterColorByHex,
   findClosestDyesWithDistance,
+  getColorDistance,
   getDyeByItemId,
   getCharacterColorFromSheet,
+  nearestDyeNote,
+  nearestDyeOf,
+  resolveDyeRef,
+  swatchLabel,
+  CUSTOM_COLOR_LABEL,
 } from './dye-helpers';
+import { measureText } from '../text-layout';
 
 describe('dye-helpers', () => {
   describe('dyeService', () => {
@@ -129,6 +136,118 @@ describe('dye-helpers', () => {
 
       expect(result.length).toBeGreaterThan(0);
     });
+
+    it.each(['oklab', 'ciede2000', 'euclidean'] as const)(
+      'should report distances using the %s algorithm',
+      (algorithm) => {
+        const result = findClosestDyesWithDistance('#8B4513', { limit: 3, algorithm });
+
+        for (const match of result) {
+          expect(match.distance).toBeCloseTo(
+            getColorDistance('#8B4513', match.dye.hex, algorithm),
+            10
+          );
+        }
+      }
+    );
+
+    it('should sort by the chosen algorithm', () => {
+      const result = findClosestDyesWithDistance('#8B4513', {
+        limit: 10,
+        algorithm: 'euclidean',
+      });
+
+      for (let i = 1; i < result.length; i++) {
+        expect(result[i].distance).toBeGreaterThanOrEqual(result[i - 1].distance);
+      }
+    });
+
+    it('should produce different distances for different algorithms', () => {
+      const oklab = findClosestDyesWithDistance('#8B4513', { limit: 1, algorithm: 'oklab' });
+      const euclidean = findClosestDyesWithDistance('#8B4513', {
+        limit: 1,
+        algorithm: 'euclidean',
+      });
+
+      expect(oklab[0].distance).not.toBe(euclidean[0].distance);
+    });
+  });
+
+  describe('getColorDistance', () => {
+    it('should return 0 for identical colors with every algorithm', () => {
+      for (const algorithm of ['oklab', 'ciede2000', 'euclidean'] as const) {
+        expect(getColorDistance('#8B4513', '#8B4513', algorithm)).toBeCloseTo(0, 10);
+      }
+    });
+
+    it('should default to oklab', () => {
+      expect(getColorDistance('#FF0000', '#00FF00')).toBe(
+        getColorDistance('#FF0000', '#00FF00', 'oklab')
+      );
+    });
+
+    it('should use RGB distance for euclidean', () => {
+      expect(getColorDistance('#000000', '#0A0000', 'euclidean')).toBe(10);
+    });
+
+    it('should use CIEDE2000 for ciede2000', () => {
+      expect(getColorDistance('#000000', '#FFFFFF', 'ciede2000')).toBeCloseTo(100, 0);
+    });
+  });
+
+  describe('resolveDyeRef', () => {
+    it('should resolve itemIDs to dyes', () => {
+      const knownDye = dyeService.getAllDyes()[0];
+
+      expect(resolveDyeRef(knownDye.itemID)).toEqual(knownDye);
+      expect(nearestDyeOf(knownDye)).toBeUndefined();
+    });
+
+    it('should resolve custom colors with their nearest dye', () => {
+      const custom = resolveDyeRef('hex:8B4513');
+      const [closest] = findClosestDyesWithDistance('#8B4513', { limit: 1 });
+
+      expect(custom?.name).toBe(CUSTOM_COLOR_LABEL);
+      expect(custom?.hex).toBe('#8B4513');
+      expect(custom && nearestDyeOf(custom)).toEqual(closest.dye);
+    });
+
+    it('should match custom colors with the given algorithm', () => {
+      const custom = resolveDyeRef('hex:8B4513', 'euclidean');
+      const [closest] = findClosestDyesWithDistance('#8B4513', {
+        limit: 1,
+        algorithm: 'euclidean',
+      });
+
+      expect(custom && nearestDyeOf(custom)).toEqual(closest.dye);
+    });
+  });
+
+  describe('swatchLabel', () => {
+    const style = { fontSize: 12, fontFamily: 'Onest' };
+
+    it('should cut long dye names to the width', () => {
+      const dye = { ...dyeService.getAllDyes()[0], name: 'Pastel Blue Dye' };
+
+      expect(swatchLabel(dye, 60, style)).toMatch(/^Pastel.*…$/);
+      expect(measureText(swatchLabel(dye, 60, style), style)).toBeLessThanOrEqual(60);
+      expect(swatchLabel(dye, 200, style)).toBe('Pastel Blue Dye');
+    });
+
+    it('should label custom colors', () => {
+      const custom = resolveDyeRef('hex:8B4513')!;
+
+      expect(swatchLabel(custom, 200, style)).toBe(CUSTOM_COLOR_LABEL);
+    });
+  });
+
+  describe('nearestDyeNote', () => {
+    it('should name the nearest dye of custom colors only', () => {
+      const custom = resolveDyeRef('hex:8B4513')!;
+
+      expect(nearestDyeNote(custom)).toBe(`≈ ${nearestDyeOf(custom)?.name}`);
+      expect(nearestDyeNote(dyeService.getAllDyes()[0])).toBeNull();
+    });
   });
 
   describe('findCharacterColorByHex', () => {
@@ -10,10 +10,23 @@ import {
   dyeDatabase,
   ColorConverter,
   CharacterColorService,
+  LocalizationService,
   type Dye,
   type SubRace,
   type Gender,
 } from '@xivdyetools/core';
+import { getDeltaE2000, getEuclideanDistance } from './color-distance';
+import { computeDataVersion } from '../content-hash';
+import { truncateText, type TextStyle } from '../text-layout';
+import { customColorHex, isCustomColor } from '../../dye-refs';
+import { DEFAULT_LOCALE, formatMessage, getMessages } from '../../i18n';
+import type {
+  ColorSheetCategory,
+  DyeRef,
+  Locale,
+  MatchingAlgorithm,
+  Subrace,
+} from '../../types';
 
 // Shared service instances
 export const dyeService = new DyeService(dyeDatabase);
@@ -23,6 +36,8 @@ export const characterColorService = new CharacterColorService();
  * Result of looking up a character color by hex
  */
 export interface CharacterColorLookup {
+  /** The color sheet the color is on */
+  sheet: ColorSheetCategory;
   /** Display name of the category (e.g., "Eye Colors") */
   categoryName: string;
   /** The index within the category (0-based) */
@@ -94,6 +109,7 @@ export async function findCharacterColorByHex(hex: string): Promise<CharacterCol
       const row = Math.floor(found.index / 8) + 1;
 
       return {
+        sheet: category,
         categoryName: SHARED_CATEGORY_NAMES[category] || category,
         index: found.index,
         row,
@@ -112,6 +128,7 @@ export async function findCharacterColorByHex(hex: string): Promise<CharacterCol
         const col = (foundHair.index % 8) + 1;
         const row = Math.floor(foundHair.index / 8) + 1;
         return {
+          sheet: 'hairColors',
           categoryName: `Hair Colors`,
           index: foundHair.index,
           row,
@@ -126,6 +143,7 @@ export async function findCharacterColorByHex(hex: string): Promise<CharacterCol
         const col = (foundSkin.index % 8) + 1;
         const row = Math.floor(foundSkin.index / 8) + 1;
         return {
+          sheet: 'skinColors',
           categoryName: `Skin Colors`,
           index: foundSkin.index,
           row,
@@ -146,6 +164,34 @@ export interface DyeMatch {
   distance: number;
 }
 
+/**
+ * Calculate the distance between two colors using the given matching algorithm.
+ *
+ * - `oklab`: Delta E in OKLAB space (perceptually uniform, default)
+ * - `ciede2000`: CIEDE2000 Delta E in CIE L*a*b*
+ * - `euclidean`: Straight-line distance in RGB space
+ *
+ * @param hexA - First color in hex format
+ * @param hexB - Second color in hex format
+ * @param algorithm - Matching algorithm to use
+ * @returns Distance value (0 = identical)
+ */
+export function getColorDistance(
+  hexA: string,
+  hexB: string,
+  algorithm: MatchingAlgorithm = 'oklab'
+): number {
+  switch (algorithm) {
+    case 'ciede2000':
+      return getDeltaE2000(hexA, hexB);
+    case 'euclidean':
+      return getEuclideanDistance(hexA, hexB);
+    case 'oklab':
+    default:
+      return ColorConverter.getDeltaE_Oklab(hexA, hexB);
+  }
+}
+
 /**
  * Find multiple closest dyes to a given hex color, with their distances.
  *
@@ -161,25 +207,39 @@ export function findClosestDyesWithDistance(
   options: {
     limit?: number;
     excludeIds?: number[];
+    algorithm?: MatchingAlgorithm;
   } = {}
 ): DyeMatch[] {
-  const { limit = 5, excludeIds = [] } = options;
+  const { limit = 5, excludeIds = [], algorithm = 'oklab' } = options;
   const excludeSet = new Set(excludeIds);
 
   // Get all dyes and filter
   const allDyes = dyeService.getAllDyes();
   const candidates = allDyes.filter((dye) => !excludeSet.has(dye.id));
 
-  // Calculate distances using OKLAB (perceptually uniform)
+  // Calculate distances using the requested matching algorithm
   const withDistances = candidates.map((dye) => ({
     dye,
-    distance: ColorConverter.getDeltaE_Oklab(hex, dye.hex),
+    distance: getColorDistance(hex, dye.hex, algorithm),
   }));
 
   // Sort by distance and return top matches
   return withDistances.sort((a, b) => a.distance - b.distance).slice(0, limit);
 }
 
+let dyeDataVersion: string | null = null;
+
+/**
+ * Version fingerprint of the bundled dye database.
+ * Computed once per isolate; changes whenever a dye is added, renamed or recolored.
+ */
+export function getDyeDataVersion(): string {
+  if (!dyeDataVersion) {
+    dyeDataVersion = computeDataVersion(dyeService.getAllDyes());
+  }
+  return dyeDataVersion;
+}
+
 /**
  * Get a single dye by its itemID
  */
@@ -188,6 +248,105 @@ export function getDyeByItemId(itemId: number): Dye | undefined {
   return allDyes.find((d) => d.itemID === itemId);
 }
 
+/** Label drawn in place of a dye name for custom colors (in English) */
+export const CUSTOM_COLOR_LABEL = getMessages().customColor;
+
+/**
+ * A custom color shaped like a dye, so the image generators can draw it.
+ * Fields other than its name, hex, IDs and category are its nearest dye's.
+ */
+export type CustomColorDye = Dye & { nearest: Dye };
+
+/**
+ * Resolve a dye reference: a dye by itemID, or a custom color with its
+ * nearest dye under the given matching algorithm
+ */
+export function resolveDyeRef(
+  ref: DyeRef,
+  algorithm: MatchingAlgorithm = 'oklab'
+): Dye | undefined {
+  if (!isCustomColor(ref)) return getDyeByItemId(ref);
+
+  const hex = customColorHex(ref);
+  const [match] = findClosestDyesWithDistance(hex, { limit: 1, algorithm });
+  if (!match) return undefined;
+
+  const custom: CustomColorDye = {
+    ...match.dye,
+    id: -1,
+    itemID: 0,
+    name: CUSTOM_COLOR_LABEL,
+    hex,
+    category: 'Custom',
+    nearest: match.dye,
+  };
+  return custom;
+}
+
+/**
+ * The nearest dye of a resolved custom color, or undefined for dyes
+ */
+export function nearestDyeOf(dye: Dye): Dye | undefined {
+  return (dye as Partial<CustomColorDye>).nearest;
+}
+
+/** Dye names in languages other than English, once loaded */
+const dyeNameCatalogs = new Map<Locale, LocalizationService>();
+
+/**
+ * Load the core library's dye names for a language, once per isolate.
+ * Until they load (or if loading fails), dyes keep their English names.
+ */
+export async function loadDyeNames(locale: Locale = DEFAULT_LOCALE): Promise<void> {
+  if (locale === DEFAULT_LOCALE || dyeNameCatalogs.has(locale)) return;
+  try {
+    const catalog = new LocalizationService();
+    await catalog.setLocale(locale);
+    dyeNameCatalogs.set(locale, catalog);
+  } catch (error) {
+    console.error(`[DyeNames] ${locale} dye names failed to load:`, error);
+  }
+}
+
+/**
+ * A dye's name in a language (see `loadDyeNames`); custom colors get the
+ * custom color label
+ */
+export function dyeName(dye: Dye, locale: Locale = DEFAULT_LOCALE): string {
+  if (nearestDyeOf(dye)) return getMessages(locale).customColor;
+  return dyeNameCatalogs.get(locale)?.getDyeName(dye.itemID) ?? dye.name;
+}
+
+/**
+ * A dye's category name in a language (see `loadDyeNames`)
+ */
+export function dyeCategory(dye: Dye, locale: Locale = DEFAULT_LOCALE): string {
+  return dyeNameCatalogs.get(locale)?.getCategory(dye.category) ?? dye.category;
+}
+
+/**
+ * A dye's name, truncated with an ellipsis to fit under a swatch
+ *
+ * @param maxWidth - Space for the label, in pixels
+ * @param style - Font the label is drawn in
+ */
+export function swatchLabel(
+  dye: Dye,
+  maxWidth: number,
+  style: TextStyle,
+  locale?: Locale
+): string {
+  return truncateText(dyeName(dye, locale), maxWidth, style);
+}
+
+/**
+ * Nearest-dye annotation drawn under a custom color's label, or null for dyes
+ */
+export function nearestDyeNote(dye: Dye, locale?: Locale): string | null {
+  const nearest = nearestDyeOf(dye);
+  return nearest ? `≈ ${dyeName(nearest, locale)}` : null;
+}
+
 /**
  * Extended character color lookup result with full context
  */
@@ -197,7 +356,7 @@ export interface CharacterColorContext extends CharacterColorLookup {
   /** Whether this is a race-specific color sheet */
   isRaceSpecific: boolean;
   /** The subrace if race-specific */
-  subrace?: string;
+  subrace?: Subrace;
   /** The gender if race-specific */
   gender?: 'Male' | 'Female';
 }
@@ -214,8 +373,8 @@ export interface CharacterColorContext extends CharacterColorLookup {
  */
 export async function getCharacterColorFromSheet(
   hex: string,
-  sheet: string,
-  subrace?: string,
+  sheet: ColorSheetCategory,
+  subrace?: Subrace,
   gender?: Gender
 ): Promise<CharacterColorContext | null> {
   const normalizedHex = hex.startsWith('#') ? hex.toUpperCase() : `#${hex.toUpperCase()}`;
@@ -252,9 +411,11 @@ export async function getCharacterColorFromSheet(
 
       // Format display name like "Female Wildwood Hair Colors"
       const sheetDisplayName = sheet === 'hairColors' ? 'Hair Colors' : 'Skin Colors';
-      const fullName = `${gender} ${formatSubraceName(subrace)} ${sheetDisplayName}`;
+      const race = getMessages(DEFAULT_LOCALE).subraces[subrace];
+      const fullName = `${gender} ${race} ${sheetDisplayName}`;
 
       return {
+        sheet,
         categoryName: sheetDisplayName,
         fullName,
         index: found.index,
@@ -287,6 +448,7 @@ export async function getCharacterColorFromSheet(
     const categoryName = SHARED_CATEGORY_NAMES[sheet] || sheet;
 
     return {
+      sheet: sharedCategory,
       categoryName,
       fullName: categoryName,
       index: found.index,
@@ -300,21 +462,16 @@ export async function getCharacterColorFromSheet(
 }
 
 /**
- * Format subrace name for display (add spaces to camelCase)
+ * Display name of the sheet a character color is on, in a language:
+ * "Eye Colors", or "Female Wildwood Hair Colors" for race-specific sheets.
  */
-function formatSubraceName(subrace: string): string {
-  // Handle special cases
-  const specialCases: Record<string, string> = {
-    SeekerOfTheSun: "Seeker of the Sun",
-    KeeperOfTheMoon: "Keeper of the Moon",
-    SeaWolf: "Sea Wolf",
-    TheLost: "The Lost",
-  };
-
-  if (specialCases[subrace]) {
-    return specialCases[subrace];
-  }
-
-  // Simple names like "Midlander", "Wildwood" stay as-is
-  return subrace;
+export function characterSheetName(info: CharacterColorContext, locale?: Locale): string {
+  const messages = getMessages(locale);
+  const sheet = messages.sheets[info.sheet];
+  if (!info.subrace || !info.gender) return sheet;
+  return formatMessage(messages.image.raceSheet, {
+    gender: messages.genders[info.gender],
+    race: messages.subraces[info.subrace],
+    sheet,
+  });
 }
@@ -100,6 +100,18 @@ describe('gradient SVG generator', () => {
       expect(result).toContain('id="gradientBar"');
     });
 
+    it("should define the gradient bar in the card's defs", () => {
+      const { start, end } = getValidDyeIds();
+      const result = generateGradientOG({
+        startDyeId: start,
+        endDyeId: end,
+        steps: 5,
+      });
+
+      expect(result.match(/<defs>/g)).toHaveLength(1);
+      expect(result.indexOf('id="gradientBar"')).toBeLessThan(result.indexOf('</defs>'));
+    });
+
     it('should include dye names in summary', () => {
       const allDyes = dyeService.getAllDyes();
       const startDye = allDyes[0];
@@ -22,20 +22,32 @@
  */
 
 import { type Dye } from '@xivdyetools/core';
-import { rect, text, line, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { linearGradientNode, THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { dyeService, findClosestDyesWithDistance, getDyeByItemId } from './dye-helpers';
-import type { MatchingAlgorithm } from '../../types';
+import { box, row } from './layout';
+import { h } from './vnode';
+import {
+  dyeName,
+  dyeService,
+  findClosestDyesWithDistance,
+  nearestDyeNote,
+  resolveDyeRef,
+} from './dye-helpers';
+import { fitText, truncateText } from '../text-layout';
+import { formatMessage, formatPlural, getMessages } from '../../i18n';
+import type { DyeRef, Locale, MatchingAlgorithm } from '../../types';
 
 export interface GradientOGOptions {
-  /** Start dye itemID */
-  startDyeId: number;
-  /** End dye itemID */
-  endDyeId: number;
+  /** Start dye itemID or custom color */
+  startDyeId: DyeRef;
+  /** End dye itemID or custom color */
+  endDyeId: DyeRef;
   /** Number of steps (including start and end) */
   steps: number;
   /** Matching algorithm */
   algorithm?: MatchingAlgorithm;
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
 /**
@@ -66,7 +78,8 @@ function interpolateColor(color1: string, color2: string, ratio: number): string
 function generateGradientSteps(
   startHex: string,
   endHex: string,
-  stepCount: number
+  stepCount: number,
+  algorithm: MatchingAlgorithm
 ): Array<{ hex: string; matchedDye?: Dye; delta?: number }> {
   const steps: Array<{ hex: string; matchedDye?: Dye; delta?: number }> = [];
 
@@ -75,7 +88,7 @@ function generateGradientSteps(
     const hex = interpolateColor(startHex, endHex, ratio);
 
     // Find closest matching dye
-    const matches = findClosestDyesWithDistance(hex, { limit: 1 });
+    const matches = findClosestDyesWithDistance(hex, { limit: 1, algorithm });
     const match = matches[0];
 
     steps.push({
@@ -92,143 +105,163 @@ function generateGradientSteps(
  * Generates the Gradient tool OG image SVG
  */
 export function generateGradientOG(options: GradientOGOptions): string {
-  const { startDyeId, endDyeId, steps: stepCount, algorithm = 'oklab' } = options;
+  const { startDyeId, endDyeId, steps: stepCount, algorithm = 'oklab', lang } = options;
+  const t = getMessages(lang);
 
   // Look up the dyes
-  const startDye = getDyeByItemId(startDyeId);
-  const endDye = getDyeByItemId(endDyeId);
+  const startDye = resolveDyeRef(startDyeId, algorithm);
+  const endDye = resolveDyeRef(endDyeId, algorithm);
 
   if (!startDye || !endDye) {
-    return generateFallbackGradientOG(stepCount, algorithm);
+    return generateFallbackGradientOG(stepCount, algorithm, lang);
   }
 
   // Generate gradient steps
-  const gradientSteps = generateGradientSteps(startDye.hex, endDye.hex, stepCount);
+  const gradientSteps = generateGradientSteps(startDye.hex, endDye.hex, stepCount, algorithm);
 
-  // Build content elements
-  const contentElements: string[] = [];
-  const { contentTop, contentHeight, padding, contentWidth } = LAYOUT;
+  const { contentTop, contentHeight, contentWidth } = LAYOUT;
 
   // Calculate swatch layout (larger swatches)
   const maxSwatches = Math.min(stepCount, 7); // Max 7 for readability
   const swatchSize = 110;
   const minGap = 18;
-  const totalSwatchWidth = maxSwatches * swatchSize + (maxSwatches - 1) * minGap;
-  const startX = (OG_DIMENSIONS.width - totalSwatchWidth) / 2;
+  const barHeight = 8;
+  const barOffset = swatchSize + 20; // Gradient bar, below the swatches
+
+  // Each card is a swatch, its connection to the bar and its labels
+  const cards = gradientSteps.slice(0, maxSwatches).map((step, i) =>
+    box(swatchSize, barOffset + barHeight + 50, (x, y) => {
+      const centerX = x + swatchSize / 2;
+      const isEndpoint = i === 0 || i === gradientSteps.length - 1;
+
+      // Dye name (or "Step N"); custom color endpoints show their nearest dye
+      const labelY = y + barOffset + barHeight + 30;
+      const endpointNote = isEndpoint ? nearestDyeNote(i === 0 ? startDye : endDye, lang) : null;
+      const label = endpointNote ?? (step.matchedDye && dyeName(step.matchedDye, lang));
+      const labelStyle = {
+        fontSize: 12,
+        fontFamily: FONTS.primary,
+        fontWeight: isEndpoint ? 600 : 400,
+      };
+      const stepLabel = label
+        ? truncateText(label, swatchSize + minGap - 6, labelStyle)
+        : formatMessage(t.image.step, { step: i + 1 });
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: swatchSize,
+          height: swatchSize,
+          fill: step.hex,
+          rx: 8,
+          stroke: isEndpoint ? '#ffffff' : THEME.border,
+          strokeWidth: isEndpoint ? 3 : 1,
+        }),
+
+        // Connection line to gradient bar
+        h('line', {
+          x1: centerX,
+          y1: y + swatchSize,
+          x2: centerX,
+          y2: y + barOffset,
+          stroke: THEME.border,
+          strokeWidth: 1,
+        }),
+
+        h(
+          'text',
+          { ...labelStyle, x: centerX, y: labelY, fill: THEME.text, textAnchor: 'middle' },
+          stepLabel
+        ),
+
+        // Hex code
+        h(
+          'text',
+          {
+            x: centerX,
+            y: labelY + 20,
+            fill: THEME.textMuted,
+            fontSize: 11,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          step.hex.toUpperCase()
+        ),
+      ];
+    })
+  );
+  const swatches = row(cards, { gap: minGap });
+  const startX = (OG_DIMENSIONS.width - swatches.width) / 2;
 
   // Vertical centering: labels above (20px) + swatches + bar area (28px) + labels below (50px)
   const totalVisualHeight = 20 + swatchSize + 28 + 50;
   const swatchY = contentTop + (contentHeight - totalVisualHeight) / 2 + 20;
 
-  // START label
-  contentElements.push(
-    text(startX + swatchSize / 2, swatchY - 20, 'START', {
-      fill: THEME.textMuted,
-      fontSize: 12,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
-
-  // END label
-  contentElements.push(
-    text(startX + totalSwatchWidth - swatchSize / 2, swatchY - 20, 'END', {
-      fill: THEME.textMuted,
-      fontSize: 12,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Draw gradient bar across the top
-  const barY = swatchY + swatchSize + 20;
-  const barHeight = 8;
+  // Gradient bar through every step, under the swatches
+  const barStops = gradientSteps.map((step, i) => ({
+    offset: `${(i / (gradientSteps.length - 1)) * 100}%`,
+    color: step.hex,
+  }));
 
-  // Create gradient stops
-  contentElements.push(`
-    <defs>
-      <linearGradient id="gradientBar" x1="0%" y1="0%" x2="100%" y2="0%">
-        ${gradientSteps.map((step, i) => `<stop offset="${(i / (gradientSteps.length - 1)) * 100}%" stop-color="${step.hex}"/>`).join('')}
-      </linearGradient>
-    </defs>
-  `);
-
-  contentElements.push(
-    rect(startX, barY, totalSwatchWidth, barHeight, 'url(#gradientBar)', { rx: 4 })
+  // Summary text
+  const summaryStyle = { fontSize: 20, fontFamily: FONTS.header, fontWeight: 500 };
+  const summary = fitText(
+    `${dyeName(startDye, lang)} → ${dyeName(endDye, lang)}`,
+    contentWidth,
+    summaryStyle,
+    14
   );
 
-  // Draw swatches
-  gradientSteps.slice(0, maxSwatches).forEach((step, i) => {
-    const x = startX + i * (swatchSize + minGap);
-    const isEndpoint = i === 0 || i === gradientSteps.length - 1;
-
-    // Swatch
-    contentElements.push(
-      rect(x, swatchY, swatchSize, swatchSize, step.hex, {
-        rx: 8,
-        stroke: isEndpoint ? '#ffffff' : THEME.border,
-        strokeWidth: isEndpoint ? 3 : 1,
-      })
-    );
-
-    // Connection line to gradient bar
-    contentElements.push(
-      line(x + swatchSize / 2, swatchY + swatchSize, x + swatchSize / 2, barY, THEME.border, 1)
-    );
-
-    // Dye name (or "Step N")
-    const labelY = barY + barHeight + 30;
-    const dyeName = step.matchedDye
-      ? step.matchedDye.name.length > 10
-        ? step.matchedDye.name.slice(0, 9) + '..'
-        : step.matchedDye.name
-      : `Step ${i + 1}`;
-
-    contentElements.push(
-      text(x + swatchSize / 2, labelY, dyeName, {
-        fill: THEME.text,
-        fontSize: 12,
-        fontFamily: FONTS.primary,
-        fontWeight: isEndpoint ? 600 : 400,
-        textAnchor: 'middle',
-      })
-    );
-
-    // Hex code
-    contentElements.push(
-      text(x + swatchSize / 2, labelY + 20, step.hex.toUpperCase(), {
-        fill: THEME.textMuted,
-        fontSize: 11,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      })
-    );
-  });
-
-  // Summary text
-  const summaryY = contentTop + contentHeight - 60;
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      summaryY,
-      `${startDye.name} → ${endDye.name}`,
+  const endpointLabelStyle = {
+    y: swatchY - 20,
+    fill: THEME.textMuted,
+    fontSize: 12,
+    fontFamily: FONTS.header,
+    fontWeight: 600,
+    textAnchor: 'middle' as const,
+  };
+  const content = [
+    // START and END labels
+    h('text', { ...endpointLabelStyle, x: startX + swatchSize / 2 }, t.image.start),
+    h(
+      'text',
+      { ...endpointLabelStyle, x: startX + swatches.width - swatchSize / 2 },
+      t.image.end
+    ),
+
+    linearGradientNode('gradientBar', barStops),
+    h('rect', {
+      x: startX,
+      y: swatchY + barOffset,
+      width: swatches.width,
+      height: barHeight,
+      fill: 'url(#gradientBar)',
+      rx: 4,
+    }),
+
+    ...swatches.draw(startX, swatchY),
+
+    h(
+      'text',
       {
+        ...summaryStyle,
+        x: OG_DIMENSIONS.width / 2,
+        y: contentTop + contentHeight - 60,
         fill: THEME.text,
-        fontSize: 20,
-        fontFamily: FONTS.header,
-        fontWeight: 500,
+        fontSize: summary.fontSize,
         textAnchor: 'middle',
-      }
-    )
-  );
+      },
+      summary.content
+    ),
+  ];
 
   return generateOGCard({
-    toolName: 'Gradient Builder',
-    subtitle: `${stepCount} Steps`,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.gradient,
+    subtitle: formatPlural(t.image.steps, stepCount, lang),
+    content,
     algorithm,
+    lang,
   });
 }
 
@@ -237,60 +270,65 @@ export function generateGradientOG(options: GradientOGOptions): string {
  */
 function generateFallbackGradientOG(
   steps: number,
-  algorithm: MatchingAlgorithm
+  algorithm: MatchingAlgorithm,
+  lang?: Locale
 ): string {
-  const contentElements: string[] = [];
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
+  const centerX = OG_DIMENSIONS.width / 2;
 
-  // Centered message
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, contentTop + contentHeight / 2 - 20, 'Create Color Gradients', {
-      fill: THEME.text,
-      fontSize: 32,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  // Example gradient bar
+  const barWidth = 600;
+  const barHeight = 40;
 
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 30,
-      'Build smooth transitions between FFXIV dyes',
+  const content = [
+    // Centered message
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 20,
+        fill: THEME.text,
+        fontSize: 32,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.gradientHeadline
+    ),
+    h(
+      'text',
       {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 30,
         fill: THEME.textMuted,
         fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      }
-    )
-  );
-
-  // Example gradient bar
-  const barWidth = 600;
-  const barHeight = 40;
-  const barX = (OG_DIMENSIONS.width - barWidth) / 2;
-  const barY = contentTop + contentHeight / 2 + 80;
-
-  contentElements.push(`
-    <defs>
-      <linearGradient id="exampleGradient" x1="0%" y1="0%" x2="100%" y2="0%">
-        <stop offset="0%" stop-color="#ef4444"/>
-        <stop offset="50%" stop-color="#eab308"/>
-        <stop offset="100%" stop-color="#22c55e"/>
-      </linearGradient>
-    </defs>
-  `);
-
-  contentElements.push(
-    rect(barX, barY, barWidth, barHeight, 'url(#exampleGradient)', { rx: 8 })
-  );
+      },
+      t.image.gradientTagline
+    ),
+
+    linearGradientNode('exampleGradient', [
+      { offset: '0%', color: '#ef4444' },
+      { offset: '50%', color: '#eab308' },
+      { offset: '100%', color: '#22c55e' },
+    ]),
+    h('rect', {
+      x: (OG_DIMENSIONS.width - barWidth) / 2,
+      y: contentTop + contentHeight / 2 + 80,
+      width: barWidth,
+      height: barHeight,
+      fill: 'url(#exampleGradient)',
+      rx: 8,
+    }),
+  ];
 
   return generateOGCard({
-    toolName: 'Gradient Builder',
-    subtitle: `${steps} Steps`,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.gradient,
+    subtitle: formatPlural(t.image.steps, steps, lang),
+    content,
     algorithm,
+    lang,
   });
 }
@@ -28,6 +28,17 @@ describe('harmony SVG generator', () => {
       expect(result).toContain('HARMONY EXPLORER');
     });
 
+    it('should label custom colors with their nearest dye', () => {
+      const result = generateHarmonyOG({
+        dyeId: 'hex:8B4513',
+        harmonyType: 'triadic',
+      });
+
+      expect(result).toContain('Custom colour');
+      expect(result).toContain('#8B4513');
+      expect(result).toContain('Nearest dye:');
+    });
+
     it('should include harmony type in output', () => {
       const dyeId = getValidDyeId();
       const result = generateHarmonyOG({
@@ -138,6 +149,30 @@ describe('harmony SVG generator', () => {
       expect(result).toContain('OKLAB');
     });
 
+    it('should show the requested algorithm in the footer', () => {
+      const dyeId = getValidDyeId();
+      const result = generateHarmonyOG({
+        dyeId,
+        harmonyType: 'tetradic',
+        algorithm: 'ciede2000',
+      });
+
+      expect(result).toContain('Algorithm: CIEDE2000');
+    });
+
+    it('should compute delta values with the requested algorithm', () => {
+      const dyeId = getValidDyeId();
+      const oklab = generateHarmonyOG({ dyeId, harmonyType: 'monochromatic', algorithm: 'oklab' });
+      const euclidean = generateHarmonyOG({
+        dyeId,
+        harmonyType: 'monochromatic',
+        algorithm: 'euclidean',
+      });
+
+      const deltas = (svg: string) => svg.match(/Δ[\d.]+/g);
+      expect(deltas(oklab)).not.toEqual(deltas(euclidean));
+    });
+
     it('should show delta values for matches', () => {
       const dyeId = getValidDyeId();
       const result = generateHarmonyOG({
@@ -25,36 +25,43 @@
  * └──────────────────────────────────────────────────────┘
  */
 
-import { ColorService, ColorConverter, type Dye } from '@xivdyetools/core';
-import {
-  rect,
-  text,
-  circle,
-  getContrastTextColor,
-  THEME,
-  FONTS,
-  OG_DIMENSIONS,
-} from './base';
+import { ColorService, type Dye } from '@xivdyetools/core';
+import { THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { dyeService, findClosestDyesWithDistance, getDyeByItemId } from './dye-helpers';
-import type { HarmonyType, MatchingAlgorithm } from '../../types';
+import { box, place, row } from './layout';
+import { fragment, h } from './vnode';
+import {
+  dyeCategory,
+  dyeName,
+  dyeService,
+  findClosestDyesWithDistance,
+  getColorDistance,
+  nearestDyeOf,
+  resolveDyeRef,
+  swatchLabel,
+} from './dye-helpers';
+import { fitText, truncateText } from '../text-layout';
+import { formatDelta, formatMessage, getMessages } from '../../i18n';
+import type { DyeRef, HarmonyType, Locale, MatchingAlgorithm } from '../../types';
 
 export interface HarmonyOGOptions {
-  /** Dye itemID */
-  dyeId: number;
+  /** Dye itemID or custom color */
+  dyeId: DyeRef;
   /** Harmony type */
   harmonyType: HarmonyType;
   /** Matching algorithm */
   algorithm?: MatchingAlgorithm;
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
 /**
  * Gets harmony match dyes for a given dye
  */
-function getHarmonyMatches(
+export function getHarmonyMatches(
   dye: Dye,
   harmonyType: HarmonyType,
-  _algorithm: MatchingAlgorithm = 'oklab'
+  algorithm: MatchingAlgorithm = 'oklab'
 ): Array<{ dye: Dye; delta: number }> {
   // Generate harmony colors using ColorService (static methods)
   const baseColor = ColorService.hexToLab(dye.hex);
@@ -84,23 +91,27 @@ function getHarmonyMatches(
       break;
     case 'monochromatic':
       // For monochromatic, find similar dyes with different lightness
-      return findClosestDyesWithDistance(dye.hex, { limit: 4, excludeIds: [dye.id] }).map(
-        (match) => ({
-          dye: match.dye,
-          delta: match.distance,
-        })
-      );
+      return findClosestDyesWithDistance(dye.hex, {
+        limit: 4,
+        excludeIds: [dye.id],
+        algorithm,
+      }).map((match) => ({
+        dye: match.dye,
+        delta: match.distance,
+      }));
     case 'compound':
       targetHues = [baseHue + 30, baseHue + 150, baseHue - 150, baseHue - 30];
       break;
     case 'shades':
       // Similar to monochromatic
-      return findClosestDyesWithDistance(dye.hex, { limit: 4, excludeIds: [dye.id] }).map(
-        (match) => ({
-          dye: match.dye,
-          delta: match.distance,
-        })
-      );
+      return findClosestDyesWithDistance(dye.hex, {
+        limit: 4,
+        excludeIds: [dye.id],
+        algorithm,
+      }).map((match) => ({
+        dye: match.dye,
+        delta: match.distance,
+      }));
     default:
       targetHues = [baseHue + 180]; // Default to complementary
   }
@@ -130,7 +141,7 @@ function getHarmonyMatches(
       if (hueDiff > 180) hueDiff = 360 - hueDiff;
 
       // Calculate color distance for delta display
-      const delta = ColorConverter.getDeltaE_Oklab(dye.hex, candidateDye.hex);
+      const delta = getColorDistance(dye.hex, candidateDye.hex, algorithm);
 
       if (hueDiff < bestHueDiff) {
         bestHueDiff = hueDiff;
@@ -150,20 +161,19 @@ function getHarmonyMatches(
  * Generates the Harmony tool OG image SVG
  */
 export function generateHarmonyOG(options: HarmonyOGOptions): string {
-  const { dyeId, harmonyType, algorithm = 'oklab' } = options;
+  const { dyeId, harmonyType, algorithm = 'oklab', lang } = options;
+  const t = getMessages(lang);
 
   // Look up the dye
-  const dye = getDyeByItemId(dyeId);
+  const dye = resolveDyeRef(dyeId, algorithm);
 
   if (!dye) {
-    return generateFallbackHarmonyOG(harmonyType, algorithm);
+    return generateFallbackHarmonyOG(harmonyType, algorithm, lang);
   }
 
   // Get harmony matches
   const matches = getHarmonyMatches(dye, harmonyType, algorithm);
 
-  // Build content elements
-  const contentElements: string[] = [];
   const { contentTop, contentHeight, padding } = LAYOUT;
 
   // Left side: Input dye card (vertically centered)
@@ -171,181 +181,229 @@ export function generateHarmonyOG(options: HarmonyOGOptions): string {
   const leftCardWidth = 350;
   const leftCardHeight = contentHeight - 60;
   const leftCardY = contentTop + (contentHeight - leftCardHeight) / 2;
-
-  // Card background
-  contentElements.push(
-    rect(leftCardX, leftCardY, leftCardWidth, leftCardHeight, THEME.backgroundCard, {
-      rx: 16,
-      stroke: THEME.border,
-      strokeWidth: 1,
-    })
-  );
-
-  // "INPUT" label
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, leftCardY + 30, 'INPUT', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  const leftCenterX = leftCardX + leftCardWidth / 2;
 
   // Large color swatch
   const swatchSize = 160;
   const swatchX = leftCardX + (leftCardWidth - swatchSize) / 2;
   const swatchY = leftCardY + 60;
-  contentElements.push(
-    rect(swatchX, swatchY, swatchSize, swatchSize, dye.hex, {
-      rx: 12,
-      stroke: '#ffffff',
-      strokeWidth: 3,
-    })
-  );
 
-  // Dye name
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, swatchY + swatchSize + 40, dye.name, {
-      fill: THEME.text,
-      fontSize: 24,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Hex code
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, swatchY + swatchSize + 70, dye.hex.toUpperCase(), {
-      fill: THEME.textMuted,
-      fontSize: 16,
-      fontFamily: FONTS.mono,
-      textAnchor: 'middle',
-    })
-  );
+  // Dye name, shrunk (then cut) to the card width
+  const cardTextWidth = leftCardWidth - 40;
+  const nameStyle = { fontSize: 24, fontFamily: FONTS.header, fontWeight: 600 };
+  const name = fitText(dyeName(dye, lang), cardTextWidth, nameStyle, 16);
 
   // RGB values
   const r = parseInt(dye.hex.slice(1, 3), 16);
   const g = parseInt(dye.hex.slice(3, 5), 16);
   const b = parseInt(dye.hex.slice(5, 7), 16);
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, swatchY + swatchSize + 95, `RGB(${r}, ${g}, ${b})`, {
-      fill: THEME.textMuted,
-      fontSize: 12,
-      fontFamily: FONTS.mono,
-      textAnchor: 'middle',
-    })
-  );
 
-  // Category info
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, swatchY + swatchSize + 120, `Category: ${dye.category}`, {
-      fill: THEME.text,
-      fontSize: 13,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
+  // Category info, or the nearest dye of a custom color
+  const nearest = nearestDyeOf(dye);
+  const detail = nearest
+    ? formatMessage(t.image.nearestDye, { name: dyeName(nearest, lang) })
+    : formatMessage(t.image.category, { name: dyeCategory(dye, lang) });
+  const detailStyle = { fontSize: 13, fontFamily: FONTS.primary, fontWeight: 500 };
+
+  const inputCard = [
+    // Card background
+    h('rect', {
+      x: leftCardX,
+      y: leftCardY,
+      width: leftCardWidth,
+      height: leftCardHeight,
+      fill: THEME.backgroundCard,
+      rx: 16,
+      stroke: THEME.border,
+      strokeWidth: 1,
+    }),
+
+    // "INPUT" label
+    h(
+      'text',
+      {
+        x: leftCenterX,
+        y: leftCardY + 30,
+        fill: THEME.textMuted,
+        fontSize: 14,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.input
+    ),
+
+    h('rect', {
+      x: swatchX,
+      y: swatchY,
+      width: swatchSize,
+      height: swatchSize,
+      fill: dye.hex,
+      rx: 12,
+      stroke: '#ffffff',
+      strokeWidth: 3,
+    }),
+
+    h(
+      'text',
+      {
+        ...nameStyle,
+        x: leftCenterX,
+        y: swatchY + swatchSize + 40,
+        fill: THEME.text,
+        fontSize: name.fontSize,
+        textAnchor: 'middle',
+      },
+      name.content
+    ),
+
+    // Hex code
+    h(
+      'text',
+      {
+        x: leftCenterX,
+        y: swatchY + swatchSize + 70,
+        fill: THEME.textMuted,
+        fontSize: 16,
+        fontFamily: FONTS.mono,
+        textAnchor: 'middle',
+      },
+      dye.hex.toUpperCase()
+    ),
+
+    h(
+      'text',
+      {
+        x: leftCenterX,
+        y: swatchY + swatchSize + 95,
+        fill: THEME.textMuted,
+        fontSize: 12,
+        fontFamily: FONTS.mono,
+        textAnchor: 'middle',
+      },
+      `RGB(${r}, ${g}, ${b})`
+    ),
+
+    h(
+      'text',
+      {
+        ...detailStyle,
+        x: leftCenterX,
+        y: swatchY + swatchSize + 120,
+        fill: THEME.text,
+        textAnchor: 'middle',
+      },
+      truncateText(detail, cardTextWidth, detailStyle)
+    ),
+  ];
 
   // Right side: Harmony matches
   const rightStartX = leftCardX + leftCardWidth + 40;
   const rightWidth = OG_DIMENSIONS.width - rightStartX - padding;
-
-  // "HARMONY MATCHES" label
-  contentElements.push(
-    text(rightStartX + rightWidth / 2, contentTop + 40, 'HARMONY MATCHES', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  const rightCenterX = rightStartX + rightWidth / 2;
 
   // Match swatches (always single row, larger sizes)
   const maxMatches = Math.min(matches.length, 4);
   const matchSwatchSize = maxMatches <= 2 ? 140 : maxMatches === 3 ? 120 : 110;
   const matchGap = maxMatches <= 2 ? 25 : 18;
+  const matchNameStyle = { fontSize: 14, fontFamily: FONTS.primary, fontWeight: 500 };
+  const matchLabelWidth = matchSwatchSize + matchGap - 6;
+
+  // Each card is the swatch plus its name and delta (70px below)
+  const matchCards = matches.slice(0, maxMatches).map((match) =>
+    box(matchSwatchSize, matchSwatchSize + 70, (x, y) => {
+      // Delta value with color coding
+      const deltaColor =
+        match.delta < 5 ? THEME.success : match.delta < 10 ? THEME.warning : THEME.error;
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: matchSwatchSize,
+          height: matchSwatchSize,
+          fill: match.dye.hex,
+          rx: 10,
+          stroke: THEME.border,
+          strokeWidth: 2,
+        }),
+
+        // Match name (truncated)
+        h(
+          'text',
+          {
+            ...matchNameStyle,
+            x: x + matchSwatchSize / 2,
+            y: y + matchSwatchSize + 25,
+            fill: THEME.text,
+            textAnchor: 'middle',
+          },
+          swatchLabel(match.dye, matchLabelWidth, matchNameStyle, lang)
+        ),
+
+        h(
+          'text',
+          {
+            x: x + matchSwatchSize / 2,
+            y: y + matchSwatchSize + 48,
+            fill: deltaColor,
+            fontSize: 13,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          formatDelta(match.delta, lang)
+        ),
+      ];
+    })
+  );
 
-  const totalMatchWidth = maxMatches * matchSwatchSize + (maxMatches - 1) * matchGap;
-  const matchStartX = rightStartX + (rightWidth - totalMatchWidth) / 2;
-  const matchStartY = contentTop + (contentHeight - matchSwatchSize - 70) / 2;
-
-  matches.slice(0, maxMatches).forEach((match, index) => {
-    const x = matchStartX + index * (matchSwatchSize + matchGap);
-    const y = matchStartY;
-
-    // Match swatch
-    contentElements.push(
-      rect(x, y, matchSwatchSize, matchSwatchSize, match.dye.hex, {
-        rx: 10,
-        stroke: THEME.border,
-        strokeWidth: 2,
-      })
-    );
-
-    // Match name (truncated)
-    const truncatedName =
-      match.dye.name.length > 14 ? match.dye.name.slice(0, 12) + '..' : match.dye.name;
-    contentElements.push(
-      text(x + matchSwatchSize / 2, y + matchSwatchSize + 25, truncatedName, {
-        fill: THEME.text,
-        fontSize: 14,
-        fontFamily: FONTS.primary,
-        fontWeight: 500,
-        textAnchor: 'middle',
-      })
-    );
-
-    // Delta value with color coding
-    const deltaColor =
-      match.delta < 5
-        ? THEME.success
-        : match.delta < 10
-          ? THEME.warning
-          : THEME.error;
-    contentElements.push(
-      text(x + matchSwatchSize / 2, y + matchSwatchSize + 48, `Δ${match.delta.toFixed(1)}`, {
-        fill: deltaColor,
-        fontSize: 13,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      })
-    );
-  });
+  const content = [
+    ...inputCard,
 
-  // If no matches found, show a message
-  if (matches.length === 0) {
-    contentElements.push(
-      text(rightStartX + rightWidth / 2, contentTop + contentHeight / 2, 'No matches found', {
+    // "HARMONY MATCHES" label
+    h(
+      'text',
+      {
+        x: rightCenterX,
+        y: contentTop + 40,
         fill: THEME.textMuted,
-        fontSize: 18,
-        fontFamily: FONTS.primary,
+        fontSize: 14,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
         textAnchor: 'middle',
-      })
-    );
-  }
-
-  // Harmony type name mapping
-  const harmonyNames: Record<HarmonyType, string> = {
-    complementary: 'Complementary',
-    analogous: 'Analogous',
-    triadic: 'Triadic',
-    'split-complementary': 'Split-Complementary',
-    tetradic: 'Tetradic',
-    square: 'Square',
-    monochromatic: 'Monochromatic',
-    compound: 'Compound',
-    shades: 'Shades',
-  };
+      },
+      t.image.harmonyMatches
+    ),
+
+    // Centered in the right column
+    ...place(
+      row(matchCards, { gap: matchGap }),
+      { x: rightStartX, y: contentTop, width: rightWidth, height: contentHeight },
+      { justify: 'center', align: 'center' }
+    ),
+
+    // If no matches found, show a message
+    matches.length === 0 &&
+      h(
+        'text',
+        {
+          x: rightCenterX,
+          y: contentTop + contentHeight / 2,
+          fill: THEME.textMuted,
+          fontSize: 18,
+          fontFamily: FONTS.primary,
+          textAnchor: 'middle',
+        },
+        t.image.noMatches
+      ),
+  ];
 
   return generateOGCard({
-    toolName: 'Harmony Explorer',
-    subtitle: harmonyNames[harmonyType] || harmonyType,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.harmony,
+    subtitle: t.harmonies[harmonyType] || harmonyType,
+    content: fragment(content),
     algorithm,
+    lang,
   });
 }
 
@@ -354,62 +412,76 @@ export function generateHarmonyOG(options: HarmonyOGOptions): string {
  */
 function generateFallbackHarmonyOG(
   harmonyType: HarmonyType,
-  algorithm: MatchingAlgorithm
+  algorithm: MatchingAlgorithm,
+  lang?: Locale
 ): string {
-  const harmonyNames: Record<HarmonyType, string> = {
-    complementary: 'Complementary',
-    analogous: 'Analogous',
-    triadic: 'Triadic',
-    'split-complementary': 'Split-Complementary',
-    tetradic: 'Tetradic',
-    square: 'Square',
-    monochromatic: 'Monochromatic',
-    compound: 'Compound',
-    shades: 'Shades',
-  };
-
-  const contentElements: string[] = [];
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
+  const centerX = OG_DIMENSIONS.width / 2;
 
-  // Centered message
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, contentTop + contentHeight / 2 - 20, 'Explore Color Harmonies', {
-      fill: THEME.text,
-      fontSize: 32,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
+  // Decorative color circles
+  const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7'];
+  const circleSize = 50;
+  const circleSpacing = 80; // Center to center
+  const circles = row(
+    colors.map((color) =>
+      box(circleSize, circleSize, (x, y) =>
+        h('circle', {
+          cx: x + circleSize / 2,
+          cy: y + circleSize / 2,
+          r: circleSize / 2,
+          fill: color,
+        })
+      )
+    ),
+    { gap: circleSpacing - circleSize }
   );
+  const circleY = contentTop + contentHeight / 2 + 100;
 
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 30,
-      'Find matching dyes for your FFXIV glamour',
+  const content = [
+    // Centered message
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 20,
+        fill: THEME.text,
+        fontSize: 32,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.harmonyHeadline
+    ),
+    h(
+      'text',
       {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 30,
         fill: THEME.textMuted,
         fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      }
-    )
-  );
-
-  // Decorative color circles
-  const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7'];
-  const circleY = contentTop + contentHeight / 2 + 100;
-  const circleSpacing = 80;
-  const startX = (OG_DIMENSIONS.width - (colors.length - 1) * circleSpacing) / 2;
-
-  colors.forEach((color, i) => {
-    contentElements.push(circle(startX + i * circleSpacing, circleY, 25, color));
-  });
+      },
+      t.image.harmonyTagline
+    ),
+    ...place(
+      circles,
+      {
+        x: 0,
+        y: circleY - circleSize / 2,
+        width: OG_DIMENSIONS.width,
+        height: circleSize,
+      },
+      { justify: 'center' }
+    ),
+  ];
 
   return generateOGCard({
-    toolName: 'Harmony Explorer',
-    subtitle: harmonyNames[harmonyType] || harmonyType,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.harmony,
+    subtitle: t.harmonies[harmonyType] || harmonyType,
+    content,
     algorithm,
+    lang,
   });
 }
@@ -7,7 +7,7 @@
 export { generateOGCard, LAYOUT } from './og-card';
 export type { OGCardOptions } from './og-card';
 
-export { generateHarmonyOG } from './harmony';
+export { generateHarmonyOG, getHarmonyMatches } from './harmony';
 export type { HarmonyOGOptions } from './harmony';
 
 export { generateGradientOG } from './gradient';
@@ -28,5 +28,25 @@ export type { AccessibilityOGOptions } from './accessibility';
 // Base utilities
 export * from './base';
 
+// Element tree and layout
+export { h, fragment, raw, svgDocument, renderSvg } from './vnode';
+export type {
+  PresentationAttributes,
+  SvgAttributes,
+  SvgChild,
+  SvgElement,
+  SvgNode,
+  SvgRaw,
+  SvgTag,
+  SvgText,
+} from './vnode';
+export * from './layout';
+
 // Dye helpers
 export * from './dye-helpers';
+
+// Color distance metrics
+export * from './color-distance';
+
+// Share palettes
+export * from './palette';
@@ -0,0 +1,131 @@
+/**
+ * Tests for SVG Layout
+ *
+ * @module layout.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { box, column, grid, place, row, spacer, type Box } from './layout';
+import { h, type SvgElement } from './vnode';
+
+/** A box that draws a rect of its own size */
+const block = (width: number, height: number): Box =>
+  box(width, height, (x, y) => h('rect', { x, y, width, height }));
+
+/** Top-left corners of the rects a box draws at (x, y) */
+function corners(content: Box, x = 0, y = 0): Array<[number, number]> {
+  return content
+    .draw(x, y)
+    .map((node) => (node as SvgElement<'rect'>).attrs)
+    .map((attrs) => [attrs.x, attrs.y]);
+}
+
+describe('layout', () => {
+  describe('box', () => {
+    it('should flatten what it draws into nodes', () => {
+      const pair = box(10, 10, (x, y) => [h('circle', { cx: x, cy: y, r: 1 }), [false, 'label']]);
+
+      expect(pair.draw(0, 0)).toHaveLength(2);
+    });
+
+    it('should draw nothing for a spacer', () => {
+      expect(spacer(20).draw(0, 0)).toEqual([]);
+    });
+  });
+
+  describe('row', () => {
+    it('should size itself to its children and gaps', () => {
+      const result = row([block(10, 20), block(30, 40), block(5, 5)], { gap: 4 });
+
+      expect(result.width).toBe(53);
+      expect(result.height).toBe(40);
+    });
+
+    it('should place children left to right', () => {
+      const result = row([block(10, 20), spacer(6), block(30, 40)], { gap: 4 });
+
+      expect(corners(result, 100, 50)).toEqual([
+        [100, 50],
+        [124, 50],
+      ]);
+    });
+
+    it('should align children on the cross axis', () => {
+      const children = [block(10, 20), block(10, 40)];
+
+      expect(corners(row(children, { align: 'center' }))[0]).toEqual([0, 10]);
+      expect(corners(row(children, { align: 'end' }))[0]).toEqual([0, 20]);
+    });
+
+    it('should be empty without children', () => {
+      const result = row([], { gap: 10 });
+
+      expect([result.width, result.height]).toEqual([0, 0]);
+    });
+  });
+
+  describe('column', () => {
+    it('should place children top to bottom', () => {
+      const result = column([block(10, 20), block(30, 40)], { gap: 5, align: 'center' });
+
+      expect([result.width, result.height]).toEqual([30, 65]);
+      expect(corners(result)).toEqual([
+        [10, 0],
+        [0, 25],
+      ]);
+    });
+  });
+
+  describe('grid', () => {
+    it('should lay children out in equal cells', () => {
+      const result = grid([block(10, 10), block(20, 10), block(10, 30)], {
+        columns: 2,
+        gap: 4,
+        rowGap: 8,
+      });
+
+      expect([result.width, result.height]).toEqual([44, 68]);
+      expect(corners(result)).toEqual([
+        [0, 0],
+        [24, 0],
+        [0, 38],
+      ]);
+    });
+
+    it('should align children in their cells', () => {
+      const result = grid([block(10, 10), block(20, 30)], {
+        columns: 2,
+        justify: 'center',
+        align: 'end',
+      });
+
+      expect(corners(result)).toEqual([
+        [5, 20],
+        [20, 0],
+      ]);
+    });
+
+    it('should only be as wide as the columns it uses', () => {
+      expect(grid([block(10, 10)], { columns: 4, gap: 10 }).width).toBe(10);
+    });
+  });
+
+  describe('place', () => {
+    const area = { x: 100, y: 50, width: 200, height: 100 };
+
+    it('should place a box at the top left by default', () => {
+      expect(place(block(20, 10), area)).toEqual([
+        h('rect', { x: 100, y: 50, width: 20, height: 10 }),
+      ]);
+    });
+
+    it('should align a box within the area', () => {
+      expect(place(block(20, 10), area, { justify: 'center', align: 'center' })).toEqual([
+        h('rect', { x: 190, y: 95, width: 20, height: 10 }),
+      ]);
+      expect(place(block(20, 10), area, { justify: 'end', align: 'end' })).toEqual([
+        h('rect', { x: 280, y: 140, width: 20, height: 10 }),
+      ]);
+    });
+  });
+});
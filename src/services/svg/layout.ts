@@ -0,0 +1,171 @@
+/**
+ * SVG Layout
+ *
+ * Row, column and grid layout for the element tree (see vnode.ts), so
+ * generators place things by size and gap instead of computing every x/y
+ * by hand:
+ *
+ *   const cards = row(dyes.map(dyeCard), { gap: 25 });
+ *   place(cards, contentArea, { justify: 'center', align: 'center' });
+ *
+ * A layout is a box of known size that draws itself at a given top-left
+ * corner. Boxes nest, so a row can hold columns and a grid can hold rows.
+ * Alignment follows CSS: `align` is the cross axis of rows and columns
+ * (vertical in a row), `justify` the horizontal placement in grids and areas.
+ *
+ * @module services/svg/layout
+ */
+
+import { fragment, type SvgChild, type SvgNode } from './vnode';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Align = 'start' | 'center' | 'end';
+
+/**
+ * Content of a known size, drawn with its top-left corner at (x, y)
+ */
+export interface Box {
+  width: number;
+  height: number;
+  draw(x: number, y: number): SvgNode[];
+}
+
+/** A rectangle to place a box in */
+export interface Area {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StackOptions {
+  /** Space between children */
+  gap?: number;
+  /** Cross-axis alignment of children smaller than the stack */
+  align?: Align;
+}
+
+export interface GridOptions {
+  columns: number;
+  /** Space between columns, and between rows unless `rowGap` is set */
+  gap?: number;
+  rowGap?: number;
+  /** Horizontal alignment of each child in its cell */
+  justify?: Align;
+  /** Vertical alignment of each child in its cell */
+  align?: Align;
+}
+
+export interface PlaceOptions {
+  justify?: Align;
+  align?: Align;
+}
+
+// ============================================================================
+// Layouts
+// ============================================================================
+
+/**
+ * Offset of content within `free` spare space
+ */
+function alignOffset(free: number, align: Align = 'start'): number {
+  if (align === 'center') return free / 2;
+  if (align === 'end') return free;
+  return 0;
+}
+
+/**
+ * Creates a box from a size and a draw function
+ */
+export function box(
+  width: number,
+  height: number,
+  draw: (x: number, y: number) => SvgChild
+): Box {
+  return { width, height, draw: (x, y) => fragment(draw(x, y)) };
+}
+
+/**
+ * Empty space, for padding out rows and columns
+ */
+export function spacer(width: number, height: number = 0): Box {
+  return box(width, height, () => null);
+}
+
+/**
+ * Lays children out left to right
+ */
+export function row(children: Box[], options: StackOptions = {}): Box {
+  const { gap = 0, align } = options;
+  const width =
+    children.reduce((sum, child) => sum + child.width, 0) +
+    gap * Math.max(0, children.length - 1);
+  const height = Math.max(0, ...children.map((child) => child.height));
+
+  return box(width, height, (x, y) => {
+    let offset = x;
+    return children.map((child) => {
+      const nodes = child.draw(offset, y + alignOffset(height - child.height, align));
+      offset += child.width + gap;
+      return nodes;
+    });
+  });
+}
+
+/**
+ * Lays children out top to bottom
+ */
+export function column(children: Box[], options: StackOptions = {}): Box {
+  const { gap = 0, align } = options;
+  const width = Math.max(0, ...children.map((child) => child.width));
+  const height =
+    children.reduce((sum, child) => sum + child.height, 0) +
+    gap * Math.max(0, children.length - 1);
+
+  return box(width, height, (x, y) => {
+    let offset = y;
+    return children.map((child) => {
+      const nodes = child.draw(x + alignOffset(width - child.width, align), offset);
+      offset += child.height + gap;
+      return nodes;
+    });
+  });
+}
+
+/**
+ * Lays children out in rows of `columns` equal cells, each the size of
+ * the largest child
+ */
+export function grid(children: Box[], options: GridOptions): Box {
+  const { columns, gap = 0, rowGap = gap, justify, align } = options;
+  const cellWidth = Math.max(0, ...children.map((child) => child.width));
+  const cellHeight = Math.max(0, ...children.map((child) => child.height));
+  const usedColumns = Math.min(columns, children.length);
+  const rows = Math.ceil(children.length / columns);
+  const width = usedColumns * cellWidth + gap * Math.max(0, usedColumns - 1);
+  const height = rows * cellHeight + rowGap * Math.max(0, rows - 1);
+
+  return box(width, height, (x, y) =>
+    children.map((child, i) => {
+      const cellX = x + (i % columns) * (cellWidth + gap);
+      const cellY = y + Math.floor(i / columns) * (cellHeight + rowGap);
+      return child.draw(
+        cellX + alignOffset(cellWidth - child.width, justify),
+        cellY + alignOffset(cellHeight - child.height, align)
+      );
+    })
+  );
+}
+
+/**
+ * Draws a box aligned within an area
+ */
+export function place(content: Box, area: Area, options: PlaceOptions = {}): SvgNode[] {
+  return content.draw(
+    area.x + alignOffset(area.width - content.width, options.justify),
+    area.y + alignOffset(area.height - content.height, options.align)
+  );
+}
@@ -7,6 +7,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateMixerOG } from './mixer';
 import { dyeService } from './dye-helpers';
+import { icon } from './base';
 
 describe('mixer SVG generator', () => {
   // Get valid dye IDs for testing
@@ -190,7 +191,7 @@ describe('mixer SVG generator', () => {
           ratio: 50,
         });
 
-        expect(result).toContain('▼');
+        expect(result).toContain(icon('caretDown', 0, 0, 24, 'none').split(' fill=')[0]);
       });
 
       it('should fall back to 2-dye mix if dyeC not found', () => {
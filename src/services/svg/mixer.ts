@@ -23,22 +23,34 @@
  */
 
 import { type Dye } from '@xivdyetools/core';
-import { rect, text, line, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { iconNode, THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { findClosestDyesWithDistance, getDyeByItemId } from './dye-helpers';
-import type { MatchingAlgorithm } from '../../types';
+import { box, column, place, row, type Box } from './layout';
+import { h } from './vnode';
+import {
+  dyeName,
+  findClosestDyesWithDistance,
+  nearestDyeNote,
+  resolveDyeRef,
+  swatchLabel,
+} from './dye-helpers';
+import { truncateText } from '../text-layout';
+import { formatDelta, formatMessage, getMessages } from '../../i18n';
+import type { DyeRef, Locale, MatchingAlgorithm } from '../../types';
 
 export interface MixerOGOptions {
-  /** First dye itemID */
-  dyeAId: number;
-  /** Second dye itemID */
-  dyeBId: number;
-  /** Third dye itemID (optional) */
-  dyeCId?: number;
+  /** First dye itemID or custom color */
+  dyeAId: DyeRef;
+  /** Second dye itemID or custom color */
+  dyeBId: DyeRef;
+  /** Third dye itemID or custom color (optional) */
+  dyeCId?: DyeRef;
   /** Mix ratio (0-100, percentage of dyeA) */
   ratio: number;
   /** Matching algorithm */
   algorithm?: MatchingAlgorithm;
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
 /**
@@ -90,246 +102,260 @@ function mixThreeColors(color1: string, color2: string, color3: string): string
   return rgbToHex(r, g, b);
 }
 
+/**
+ * Color of a match's delta: green when close, amber, then red
+ */
+function deltaColor(delta: number): string {
+  return delta < 5 ? THEME.success : delta < 10 ? THEME.warning : THEME.error;
+}
+
 /**
  * Generates the Mixer tool OG image SVG
  */
 export function generateMixerOG(options: MixerOGOptions): string {
-  const { dyeAId, dyeBId, dyeCId, ratio, algorithm = 'oklab' } = options;
+  const { dyeAId, dyeBId, dyeCId, ratio, algorithm = 'oklab', lang } = options;
 
   // Look up the dyes
-  const dyeA = getDyeByItemId(dyeAId);
-  const dyeB = getDyeByItemId(dyeBId);
-  const dyeC = dyeCId ? getDyeByItemId(dyeCId) : null;
+  const dyeA = resolveDyeRef(dyeAId, algorithm);
+  const dyeB = resolveDyeRef(dyeBId, algorithm);
+  const dyeC = dyeCId ? resolveDyeRef(dyeCId, algorithm) : null;
 
   if (!dyeA || !dyeB) {
-    return generateFallbackMixerOG(ratio, algorithm, !!dyeC);
+    return generateFallbackMixerOG(ratio, algorithm, !!dyeC, lang);
   }
 
   // If dyeC was requested but not found, proceed with 2-dye mix
   if (dyeCId && !dyeC) {
-    return generateTwoDyeMixerOG(dyeA, dyeB, ratio, algorithm);
+    return generateTwoDyeMixerOG(dyeA, dyeB, ratio, algorithm, lang);
   }
 
   // Route to appropriate generator
   if (dyeC) {
-    return generateThreeDyeMixerOG(dyeA, dyeB, dyeC, algorithm);
+    return generateThreeDyeMixerOG(dyeA, dyeB, dyeC, algorithm, lang);
   }
 
-  return generateTwoDyeMixerOG(dyeA, dyeB, ratio, algorithm);
+  return generateTwoDyeMixerOG(dyeA, dyeB, ratio, algorithm, lang);
 }
 
 /**
  * Generates OG image for 2-dye mix
  */
 function generateTwoDyeMixerOG(
-  dyeA: ReturnType<typeof getDyeByItemId>,
-  dyeB: ReturnType<typeof getDyeByItemId>,
+  dyeA: ReturnType<typeof resolveDyeRef>,
+  dyeB: ReturnType<typeof resolveDyeRef>,
   ratio: number,
-  algorithm: MatchingAlgorithm
+  algorithm: MatchingAlgorithm,
+  lang?: Locale
 ): string {
-  if (!dyeA || !dyeB) return generateFallbackMixerOG(ratio, algorithm, false);
+  if (!dyeA || !dyeB) return generateFallbackMixerOG(ratio, algorithm, false, lang);
+  const t = getMessages(lang);
 
   // Calculate mixed color
   const mixedHex = mixColors(dyeA.hex, dyeB.hex, ratio);
 
   // Find closest matching dye
-  const matches = findClosestDyesWithDistance(mixedHex, { limit: 1 });
+  const matches = findClosestDyesWithDistance(mixedHex, { limit: 1, algorithm });
   const closestMatch = matches[0];
 
-  // Build content elements
-  const contentElements: string[] = [];
   const { contentTop, contentHeight } = LAYOUT;
-  const centerX = OG_DIMENSIONS.width / 2;
 
   // Layout: centered equation [DyeA] + [DyeB] = [Result]
   const swatchSize = 120;
   const operatorGap = 35;
 
-  // Calculate total width: swatch + gap + "+" + gap + swatch + gap + "=" + gap + swatch
-  const totalWidth = swatchSize * 3 + operatorGap * 4;
-  const startX = centerX - totalWidth / 2;
-
-  // Vertical centering: account for label above (15px) and info below (~60px)
-  const totalVisualHeight = 15 + swatchSize + 60; // 175px total
-  const swatchY = contentTop + (contentHeight - totalVisualHeight) / 2 + 15;
-
-  // Positions
-  const dyeAX = startX;
-  const plusX = dyeAX + swatchSize + operatorGap;
-  const dyeBX = plusX + operatorGap;
-  const equalsX = dyeBX + swatchSize + operatorGap;
-  const resultX = equalsX + operatorGap;
-
-  // Dye A swatch
-  contentElements.push(
-    rect(dyeAX, swatchY, swatchSize, swatchSize, dyeA.hex, {
-      rx: 10,
-      stroke: '#ffffff',
-      strokeWidth: 2,
-    })
-  );
-
-  // Dye A percentage label (above)
-  contentElements.push(
-    text(dyeAX + swatchSize / 2, swatchY - 15, `${ratio}%`, {
-      fill: THEME.accent,
-      fontSize: 16,
-      fontFamily: FONTS.header,
-      fontWeight: 700,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Dye A name (below)
-  const dyeAName = dyeA.name.length > 12 ? dyeA.name.slice(0, 10) + '..' : dyeA.name;
-  contentElements.push(
-    text(dyeAX + swatchSize / 2, swatchY + swatchSize + 22, dyeAName, {
-      fill: THEME.text,
-      fontSize: 13,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Dye A hex (below name)
-  contentElements.push(
-    text(dyeAX + swatchSize / 2, swatchY + swatchSize + 40, dyeA.hex.toUpperCase(), {
-      fill: THEME.textMuted,
-      fontSize: 11,
-      fontFamily: FONTS.mono,
-      textAnchor: 'middle',
-    })
-  );
-
-  // "+" operator
-  contentElements.push(
-    text(plusX, swatchY + swatchSize / 2 + 8, '+', {
-      fill: THEME.textMuted,
-      fontSize: 36,
-      fontFamily: FONTS.header,
-      fontWeight: 300,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Dye B swatch
-  contentElements.push(
-    rect(dyeBX, swatchY, swatchSize, swatchSize, dyeB.hex, {
-      rx: 10,
-      stroke: '#ffffff',
-      strokeWidth: 2,
-    })
-  );
-
-  // Dye B percentage label (above)
-  contentElements.push(
-    text(dyeBX + swatchSize / 2, swatchY - 15, `${100 - ratio}%`, {
-      fill: THEME.accent,
-      fontSize: 16,
-      fontFamily: FONTS.header,
-      fontWeight: 700,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Dye B name (below)
-  const dyeBName = dyeB.name.length > 12 ? dyeB.name.slice(0, 10) + '..' : dyeB.name;
-  contentElements.push(
-    text(dyeBX + swatchSize / 2, swatchY + swatchSize + 22, dyeBName, {
-      fill: THEME.text,
-      fontSize: 13,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Dye B hex (below name)
-  contentElements.push(
-    text(dyeBX + swatchSize / 2, swatchY + swatchSize + 40, dyeB.hex.toUpperCase(), {
-      fill: THEME.textMuted,
-      fontSize: 11,
-      fontFamily: FONTS.mono,
-      textAnchor: 'middle',
-    })
-  );
-
-  // "=" operator
-  contentElements.push(
-    text(equalsX, swatchY + swatchSize / 2 + 8, '=', {
-      fill: THEME.textMuted,
-      fontSize: 36,
-      fontFamily: FONTS.header,
-      fontWeight: 300,
-      textAnchor: 'middle',
-    })
-  );
-
-  // Result swatch
-  contentElements.push(
-    rect(resultX, swatchY, swatchSize, swatchSize, mixedHex, {
-      rx: 10,
-      stroke: THEME.accent,
-      strokeWidth: 3,
-    })
-  );
+  // Each card has a label above (15px) and info below (~60px)
+  const labelHeight = 15;
+  const cardHeight = labelHeight + swatchSize + 60;
+
+  // Labels may use the operator gaps on either side
+  const labelWidth = swatchSize + operatorGap * 2 - 10;
+  const nameStyle = { fontSize: 13, fontFamily: FONTS.primary, fontWeight: 500 };
+  const noteStyle = { fontSize: 11, fontFamily: FONTS.primary };
+
+  // An input swatch with its share above, and its name and hex below
+  const inputCard = (dye: Dye, share: number): Box =>
+    box(swatchSize, cardHeight, (x, y) => {
+      const centerX = x + swatchSize / 2;
+      const swatchY = y + labelHeight;
+      // Nearest dye of a custom color (below hex)
+      const note = nearestDyeNote(dye, lang);
+
+      return [
+        h('rect', {
+          x,
+          y: swatchY,
+          width: swatchSize,
+          height: swatchSize,
+          fill: dye.hex,
+          rx: 10,
+          stroke: '#ffffff',
+          strokeWidth: 2,
+        }),
+        h(
+          'text',
+          {
+            x: centerX,
+            y,
+            fill: THEME.accent,
+            fontSize: 16,
+            fontFamily: FONTS.header,
+            fontWeight: 700,
+            textAnchor: 'middle',
+          },
+          `${share}%`
+        ),
+        h(
+          'text',
+          {
+            ...nameStyle,
+            x: centerX,
+            y: swatchY + swatchSize + 22,
+            fill: THEME.text,
+            textAnchor: 'middle',
+          },
+          swatchLabel(dye, labelWidth, nameStyle, lang)
+        ),
+        h(
+          'text',
+          {
+            x: centerX,
+            y: swatchY + swatchSize + 40,
+            fill: THEME.textMuted,
+            fontSize: 11,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          dye.hex.toUpperCase()
+        ),
+        note &&
+          h(
+            'text',
+            {
+              ...noteStyle,
+              x: centerX,
+              y: swatchY + swatchSize + 56,
+              fill: THEME.textMuted,
+              textAnchor: 'middle',
+            },
+            truncateText(note, labelWidth, noteStyle)
+          ),
+      ];
+    });
+
+  // "+" and "=" sit in the gaps between the cards
+  const operator = (symbol: string): Box =>
+    box(0, 0, (x, y) =>
+      h(
+        'text',
+        {
+          x,
+          y: y + labelHeight + swatchSize / 2 + 8,
+          fill: THEME.textMuted,
+          fontSize: 36,
+          fontFamily: FONTS.header,
+          fontWeight: 300,
+          textAnchor: 'middle',
+        },
+        symbol
+      )
+    );
 
-  // Result label (above)
-  contentElements.push(
-    text(resultX + swatchSize / 2, swatchY - 15, 'RESULT', {
-      fill: THEME.textMuted,
-      fontSize: 12,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  const resultCard = box(swatchSize, cardHeight, (x, y) => {
+    const centerX = x + swatchSize / 2;
+    const swatchY = y + labelHeight;
+
+    return [
+      h('rect', {
+        x,
+        y: swatchY,
+        width: swatchSize,
+        height: swatchSize,
+        fill: mixedHex,
+        rx: 10,
+        stroke: THEME.accent,
+        strokeWidth: 3,
+      }),
+
+      // Result label (above)
+      h(
+        'text',
+        {
+          x: centerX,
+          y,
+          fill: THEME.textMuted,
+          fontSize: 12,
+          fontFamily: FONTS.header,
+          fontWeight: 600,
+          textAnchor: 'middle',
+        },
+        t.image.result
+      ),
+
+      // Result hex (below swatch)
+      h(
+        'text',
+        {
+          x: centerX,
+          y: swatchY + swatchSize + 22,
+          fill: THEME.text,
+          fontSize: 13,
+          fontFamily: FONTS.mono,
+          fontWeight: 500,
+          textAnchor: 'middle',
+        },
+        mixedHex.toUpperCase()
+      ),
+
+      // Closest match info (below result)
+      closestMatch && [
+        h(
+          'text',
+          {
+            ...noteStyle,
+            x: centerX,
+            y: swatchY + swatchSize + 42,
+            fill: THEME.textMuted,
+            textAnchor: 'middle',
+          },
+          truncateText(`≈ ${dyeName(closestMatch.dye, lang)}`, labelWidth, noteStyle)
+        ),
+        h(
+          'text',
+          {
+            x: centerX,
+            y: swatchY + swatchSize + 60,
+            fill: deltaColor(closestMatch.distance),
+            fontSize: 11,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          formatDelta(closestMatch.distance, lang)
+        ),
+      ],
+    ];
+  });
 
-  // Result hex (below swatch)
-  contentElements.push(
-    text(resultX + swatchSize / 2, swatchY + swatchSize + 22, mixedHex.toUpperCase(), {
-      fill: THEME.text,
-      fontSize: 13,
-      fontFamily: FONTS.mono,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
+  const equation = row(
+    [
+      inputCard(dyeA, ratio),
+      operator('+'),
+      inputCard(dyeB, 100 - ratio),
+      operator('='),
+      resultCard,
+    ],
+    { gap: operatorGap }
   );
 
-  // Closest match info (below result)
-  if (closestMatch) {
-    contentElements.push(
-      text(resultX + swatchSize / 2, swatchY + swatchSize + 42, `≈ ${closestMatch.dye.name}`, {
-        fill: THEME.textMuted,
-        fontSize: 11,
-        fontFamily: FONTS.primary,
-        textAnchor: 'middle',
-      })
-    );
-
-    const deltaColor =
-      closestMatch.distance < 5
-        ? THEME.success
-        : closestMatch.distance < 10
-          ? THEME.warning
-          : THEME.error;
-
-    contentElements.push(
-      text(resultX + swatchSize / 2, swatchY + swatchSize + 60, `Δ${closestMatch.distance.toFixed(1)}`, {
-        fill: deltaColor,
-        fontSize: 11,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      })
-    );
-  }
-
   return generateOGCard({
-    toolName: 'Dye Mixer',
-    subtitle: `${ratio}/${100 - ratio} Blend`,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.mixer,
+    subtitle: formatMessage(t.image.blend, { ratioA: ratio, ratioB: 100 - ratio }),
+    content: place(
+      equation,
+      { x: 0, y: contentTop, width: OG_DIMENSIONS.width, height: contentHeight },
+      { justify: 'center', align: 'center' }
+    ),
     algorithm,
+    lang,
   });
 }
 
@@ -351,22 +377,22 @@ function generateTwoDyeMixerOG(
  * └──────────────────────────────────────────────────────┘
  */
 function generateThreeDyeMixerOG(
-  dyeA: NonNullable<ReturnType<typeof getDyeByItemId>>,
-  dyeB: NonNullable<ReturnType<typeof getDyeByItemId>>,
-  dyeC: NonNullable<ReturnType<typeof getDyeByItemId>>,
-  algorithm: MatchingAlgorithm
+  dyeA: NonNullable<ReturnType<typeof resolveDyeRef>>,
+  dyeB: NonNullable<ReturnType<typeof resolveDyeRef>>,
+  dyeC: NonNullable<ReturnType<typeof resolveDyeRef>>,
+  algorithm: MatchingAlgorithm,
+  lang?: Locale
 ): string {
+  const t = getMessages(lang);
+
   // Calculate mixed color (equal parts)
   const mixedHex = mixThreeColors(dyeA.hex, dyeB.hex, dyeC.hex);
 
   // Find closest matching dye
-  const matches = findClosestDyesWithDistance(mixedHex, { limit: 1 });
+  const matches = findClosestDyesWithDistance(mixedHex, { limit: 1, algorithm });
   const closestMatch = matches[0];
 
-  // Build content elements
-  const contentElements: string[] = [];
   const { contentTop, contentHeight } = LAYOUT;
-  const centerX = OG_DIMENSIONS.width / 2;
 
   // Layout constants
   const inputSwatchSize = 90;
@@ -376,247 +402,230 @@ function generateThreeDyeMixerOG(
   const arrowGapHeight = 55;
   const resultLabelHeight = 65;
 
-  // Calculate total visual height for vertical centering
-  const totalVisualHeight = inputSwatchSize + inputLabelHeight + arrowGapHeight + resultSwatchSize + resultLabelHeight;
-  // Center content vertically with offset to account for header/footer visual weight
-  const contentStartY = contentTop + (contentHeight - totalVisualHeight) / 2 + 3;
-
-  // Top row: 3 input swatches with + operators
-  // Total width: swatch + gap + "+" + gap + swatch + gap + "+" + gap + swatch
-  const topRowWidth = inputSwatchSize * 3 + operatorGap * 4;
-  const topRowStartX = centerX - topRowWidth / 2;
-  const inputSwatchY = contentStartY;
-
-  // Positions for input dyes
-  const dyeAX = topRowStartX;
-  const plus1X = dyeAX + inputSwatchSize + operatorGap;
-  const dyeBX = plus1X + operatorGap;
-  const plus2X = dyeBX + inputSwatchSize + operatorGap;
-  const dyeCX = plus2X + operatorGap;
-
-  // Result row position (below inputs)
-  const resultY = inputSwatchY + inputSwatchSize + inputLabelHeight + arrowGapHeight;
-  const resultX = centerX - resultSwatchSize / 2;
-
-  // ─── Input Dye A ───
-  contentElements.push(
-    rect(dyeAX, inputSwatchY, inputSwatchSize, inputSwatchSize, dyeA.hex, {
-      rx: 8,
-      stroke: '#ffffff',
-      strokeWidth: 2,
-    })
-  );
-
-  const dyeAName = dyeA.name.length > 10 ? dyeA.name.slice(0, 8) + '..' : dyeA.name;
-  contentElements.push(
-    text(dyeAX + inputSwatchSize / 2, inputSwatchY + inputSwatchSize + 18, dyeAName, {
-      fill: THEME.text,
-      fontSize: 12,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
-
-  // "+" operator 1
-  contentElements.push(
-    text(plus1X, inputSwatchY + inputSwatchSize / 2 + 6, '+', {
-      fill: THEME.textMuted,
-      fontSize: 28,
-      fontFamily: FONTS.header,
-      fontWeight: 300,
-      textAnchor: 'middle',
-    })
-  );
-
-  // ─── Input Dye B ───
-  contentElements.push(
-    rect(dyeBX, inputSwatchY, inputSwatchSize, inputSwatchSize, dyeB.hex, {
-      rx: 8,
-      stroke: '#ffffff',
-      strokeWidth: 2,
-    })
-  );
-
-  const dyeBName = dyeB.name.length > 10 ? dyeB.name.slice(0, 8) + '..' : dyeB.name;
-  contentElements.push(
-    text(dyeBX + inputSwatchSize / 2, inputSwatchY + inputSwatchSize + 18, dyeBName, {
-      fill: THEME.text,
-      fontSize: 12,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
-
-  // "+" operator 2
-  contentElements.push(
-    text(plus2X, inputSwatchY + inputSwatchSize / 2 + 6, '+', {
-      fill: THEME.textMuted,
-      fontSize: 28,
-      fontFamily: FONTS.header,
-      fontWeight: 300,
-      textAnchor: 'middle',
-    })
-  );
-
-  // ─── Input Dye C ───
-  contentElements.push(
-    rect(dyeCX, inputSwatchY, inputSwatchSize, inputSwatchSize, dyeC.hex, {
-      rx: 8,
-      stroke: '#ffffff',
-      strokeWidth: 2,
-    })
+  // Input labels may use the operator gaps on either side
+  const labelWidth = inputSwatchSize + operatorGap * 2 - 10;
+  const nameStyle = { fontSize: 12, fontFamily: FONTS.primary, fontWeight: 500 };
+  const noteStyle = { fontSize: 10, fontFamily: FONTS.primary };
+
+  // An input swatch with its name, and its nearest dye if it's a custom color
+  const inputCard = (dye: Dye): Box =>
+    box(inputSwatchSize, inputSwatchSize + inputLabelHeight, (x, y) => {
+      const centerX = x + inputSwatchSize / 2;
+      const note = nearestDyeNote(dye, lang);
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: inputSwatchSize,
+          height: inputSwatchSize,
+          fill: dye.hex,
+          rx: 8,
+          stroke: '#ffffff',
+          strokeWidth: 2,
+        }),
+        h(
+          'text',
+          {
+            ...nameStyle,
+            x: centerX,
+            y: y + inputSwatchSize + 18,
+            fill: THEME.text,
+            textAnchor: 'middle',
+          },
+          swatchLabel(dye, labelWidth, nameStyle, lang)
+        ),
+        note &&
+          h(
+            'text',
+            {
+              ...noteStyle,
+              x: centerX,
+              y: y + inputSwatchSize + 34,
+              fill: THEME.textMuted,
+              textAnchor: 'middle',
+            },
+            truncateText(note, labelWidth, noteStyle)
+          ),
+      ];
+    });
+
+  // "+" sits in the gaps between the inputs
+  const plus = box(0, 0, (x, y) =>
+    h(
+      'text',
+      {
+        x,
+        y: y + inputSwatchSize / 2 + 6,
+        fill: THEME.textMuted,
+        fontSize: 28,
+        fontFamily: FONTS.header,
+        fontWeight: 300,
+        textAnchor: 'middle',
+      },
+      '+'
+    )
   );
 
-  const dyeCName = dyeC.name.length > 10 ? dyeC.name.slice(0, 8) + '..' : dyeC.name;
-  contentElements.push(
-    text(dyeCX + inputSwatchSize / 2, inputSwatchY + inputSwatchSize + 18, dyeCName, {
-      fill: THEME.text,
-      fontSize: 12,
-      fontFamily: FONTS.primary,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
-  );
+  // Top row: 3 input swatches with + operators
+  const inputs = row([inputCard(dyeA), plus, inputCard(dyeB), plus, inputCard(dyeC)], {
+    gap: operatorGap,
+  });
 
-  // ─── Arrow pointing down ───
-  const arrowY = inputSwatchY + inputSwatchSize + inputLabelHeight + (arrowGapHeight / 2);
-  contentElements.push(
-    text(centerX, arrowY, '▼', {
-      fill: THEME.accent,
-      fontSize: 20,
-      fontFamily: FONTS.primary,
-      textAnchor: 'middle',
-    })
+  // Arrow pointing down to the result
+  const arrow = box(0, arrowGapHeight, (x, y) =>
+    iconNode('caretDown', x, y + arrowGapHeight / 2 - 7, 16, THEME.accent)
   );
 
-  // ─── Result swatch ───
-  contentElements.push(
-    rect(resultX, resultY, resultSwatchSize, resultSwatchSize, mixedHex, {
-      rx: 10,
-      stroke: THEME.accent,
-      strokeWidth: 3,
-    })
-  );
+  const result = box(resultSwatchSize, resultSwatchSize + resultLabelHeight, (x, y) => {
+    const centerX = x + resultSwatchSize / 2;
+    const matchStyle = { fontSize: 12, fontFamily: FONTS.primary };
+
+    return [
+      h('rect', {
+        x,
+        y,
+        width: resultSwatchSize,
+        height: resultSwatchSize,
+        fill: mixedHex,
+        rx: 10,
+        stroke: THEME.accent,
+        strokeWidth: 3,
+      }),
+
+      // Result hex (below swatch)
+      h(
+        'text',
+        {
+          x: centerX,
+          y: y + resultSwatchSize + 20,
+          fill: THEME.text,
+          fontSize: 14,
+          fontFamily: FONTS.mono,
+          fontWeight: 500,
+          textAnchor: 'middle',
+        },
+        mixedHex.toUpperCase()
+      ),
+
+      // Closest match info, which may be as wide as the inputs
+      closestMatch && [
+        h(
+          'text',
+          {
+            ...matchStyle,
+            x: centerX,
+            y: y + resultSwatchSize + 42,
+            fill: THEME.textMuted,
+            textAnchor: 'middle',
+          },
+          truncateText(`≈ ${dyeName(closestMatch.dye, lang)}`, inputs.width, matchStyle)
+        ),
+        h(
+          'text',
+          {
+            x: centerX,
+            y: y + resultSwatchSize + 60,
+            fill: deltaColor(closestMatch.distance),
+            fontSize: 12,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          formatDelta(closestMatch.distance, lang)
+        ),
+      ],
+    ];
+  });
 
-  // Result hex (inside or below swatch)
-  contentElements.push(
-    text(centerX, resultY + resultSwatchSize + 20, mixedHex.toUpperCase(), {
-      fill: THEME.text,
-      fontSize: 14,
-      fontFamily: FONTS.mono,
-      fontWeight: 500,
-      textAnchor: 'middle',
-    })
+  // Centered, with an offset to account for header/footer visual weight
+  const content = place(
+    column([inputs, arrow, result], { align: 'center' }),
+    { x: 0, y: contentTop + 3, width: OG_DIMENSIONS.width, height: contentHeight },
+    { justify: 'center', align: 'center' }
   );
 
-  // Closest match info
-  if (closestMatch) {
-    const matchName =
-      closestMatch.dye.name.length > 18
-        ? closestMatch.dye.name.slice(0, 16) + '..'
-        : closestMatch.dye.name;
-
-    contentElements.push(
-      text(centerX, resultY + resultSwatchSize + 42, `≈ ${matchName}`, {
-        fill: THEME.textMuted,
-        fontSize: 12,
-        fontFamily: FONTS.primary,
-        textAnchor: 'middle',
-      })
-    );
-
-    const deltaColor =
-      closestMatch.distance < 5
-        ? THEME.success
-        : closestMatch.distance < 10
-          ? THEME.warning
-          : THEME.error;
-
-    contentElements.push(
-      text(centerX, resultY + resultSwatchSize + 60, `Δ${closestMatch.distance.toFixed(1)}`, {
-        fill: deltaColor,
-        fontSize: 12,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      })
-    );
-  }
-
   return generateOGCard({
-    toolName: 'Dye Mixer',
-    subtitle: '3-Dye Blend',
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.mixer,
+    subtitle: t.image.threeDyeBlend,
+    content,
     algorithm,
+    lang,
   });
 }
 
 /**
  * Generates a fallback OG image when dyes are not found
  */
-function generateFallbackMixerOG(ratio: number, algorithm: MatchingAlgorithm, isThreeDye: boolean): string {
-  const contentElements: string[] = [];
+function generateFallbackMixerOG(
+  ratio: number,
+  algorithm: MatchingAlgorithm,
+  isThreeDye: boolean,
+  lang?: Locale
+): string {
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
+  const centerX = OG_DIMENSIONS.width / 2;
 
-  // Centered message
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, contentTop + contentHeight / 2 - 20, 'Mix Dye Colors', {
-      fill: THEME.text,
-      fontSize: 32,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  // Example mixing visualization
+  const exampleY = contentTop + contentHeight / 2 + 100;
+  const exampleSwatch = (x: number, fill: string) =>
+    h('rect', { x, y: exampleY, width: 60, height: 60, fill, rx: 8 });
+  const exampleOperator = (x: number, symbol: string) =>
+    h(
+      'text',
+      {
+        x,
+        y: exampleY + 35,
+        fill: THEME.textMuted,
+        fontSize: 30,
+        fontFamily: FONTS.header,
+        textAnchor: 'middle',
+      },
+      symbol
+    );
 
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 30,
-      'Blend two FFXIV dyes and find the closest match',
+  const content = [
+    // Centered message
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 20,
+        fill: THEME.text,
+        fontSize: 32,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.mixerHeadline
+    ),
+    h(
+      'text',
       {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 30,
         fill: THEME.textMuted,
         fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      }
-    )
-  );
+      },
+      t.image.mixerTagline
+    ),
 
-  // Example mixing visualization
-  const exampleY = contentTop + contentHeight / 2 + 100;
-  const centerX = OG_DIMENSIONS.width / 2;
-
-  // Left color
-  contentElements.push(rect(centerX - 200, exampleY, 60, 60, '#ef4444', { rx: 8 }));
-  // Plus sign
-  contentElements.push(
-    text(centerX - 120, exampleY + 35, '+', {
-      fill: THEME.textMuted,
-      fontSize: 30,
-      fontFamily: FONTS.header,
-      textAnchor: 'middle',
-    })
-  );
-  // Right color
-  contentElements.push(rect(centerX - 80, exampleY, 60, 60, '#3b82f6', { rx: 8 }));
-  // Equals sign
-  contentElements.push(
-    text(centerX + 10, exampleY + 35, '=', {
-      fill: THEME.textMuted,
-      fontSize: 30,
-      fontFamily: FONTS.header,
-      textAnchor: 'middle',
-    })
-  );
-  // Result color
-  contentElements.push(rect(centerX + 50, exampleY, 60, 60, '#9747ba', { rx: 8 }));
+    exampleSwatch(centerX - 200, '#ef4444'),
+    exampleOperator(centerX - 120, '+'),
+    exampleSwatch(centerX - 80, '#3b82f6'),
+    exampleOperator(centerX + 10, '='),
+    exampleSwatch(centerX + 50, '#9747ba'),
+  ];
 
   return generateOGCard({
-    toolName: 'Dye Mixer',
-    subtitle: isThreeDye ? '3-Dye Blend' : `${ratio}/${100 - ratio} Blend`,
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.mixer,
+    subtitle: isThreeDye
+      ? t.image.threeDyeBlend
+      : formatMessage(t.image.blend, { ratioA: ratio, ratioB: 100 - ratio }),
+    content,
     algorithm,
+    lang,
   });
 }
@@ -6,14 +6,15 @@
 
 import { describe, it, expect } from 'vitest';
 import { generateOGCard, LAYOUT } from './og-card';
-import { OG_DIMENSIONS } from './base';
+import { OG_DIMENSIONS, THEME, icon, linearGradientNode } from './base';
+import { h } from './vnode';
 
 describe('og-card', () => {
   describe('generateOGCard', () => {
     it('should generate valid SVG document', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '<rect/>',
+        content: [h('rect', { x: 0, y: 0, width: 10, height: 10, fill: '#000' })],
       });
 
       expect(result).toContain('<svg');
@@ -26,7 +27,7 @@ describe('og-card', () => {
     it('should include gradient definitions', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('<defs>');
@@ -39,7 +40,7 @@ describe('og-card', () => {
     it('should include branding in header', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('XIV DYE TOOLS');
@@ -48,7 +49,7 @@ describe('og-card', () => {
     it('should include tool name in header', () => {
       const result = generateOGCard({
         toolName: 'Harmony Explorer',
-        content: '',
+        content: [],
       });
 
       // Tool name should be uppercase
@@ -59,7 +60,7 @@ describe('og-card', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
         subtitle: 'Test Subtitle',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('TEST SUBTITLE');
@@ -68,7 +69,7 @@ describe('og-card', () => {
     it('should not include subtitle when not provided', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       // Should only have the tool name, not extra text
@@ -78,28 +79,51 @@ describe('og-card', () => {
     });
 
     it('should include content in main area', () => {
-      const customContent = '<rect id="custom-content" x="100" y="100"/>';
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: customContent,
+        content: [h('text', { x: 100, y: 100 }, 'Custom content')],
       });
 
-      expect(result).toContain('id="custom-content"');
+      expect(result).toContain('<text x="100" y="100">Custom content</text>');
+    });
+
+    it("should move content definitions into the card's defs", () => {
+      const result = generateOGCard({
+        toolName: 'Test Tool',
+        content: [
+          linearGradientNode('contentGradient', [{ offset: '0%', color: '#ff0000' }]),
+          h('rect', { x: 0, y: 0, width: 10, height: 10, fill: 'url(#contentGradient)' }),
+        ],
+      });
+
+      expect(result.match(/<defs>/g)).toHaveLength(1);
+      expect(result.indexOf('id="contentGradient"')).toBeLessThan(result.indexOf('</defs>'));
     });
 
     it('should include footer with website URL', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('xivdyetools.app');
     });
 
+    it('should draw the header and footer icons as paths', () => {
+      const result = generateOGCard({
+        toolName: 'Test Tool',
+        content: [],
+      });
+
+      expect(result).toContain(icon('sparkle', 48, 38, 16, THEME.text));
+      expect(result).toContain(icon('palette', 48, 610, 16, THEME.textMuted));
+      expect(result).not.toMatch(/[\u2600-\u27bf]|\p{Extended_Pictographic}/u);
+    });
+
     it('should include custom footer text when provided', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
         footerText: 'Custom Footer',
       });
 
@@ -109,7 +133,7 @@ describe('og-card', () => {
     it('should include algorithm when provided', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
         algorithm: 'oklab',
       });
 
@@ -119,7 +143,7 @@ describe('og-card', () => {
     it('should not include algorithm when not provided', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       expect(result).not.toContain('Algorithm:');
@@ -128,7 +152,7 @@ describe('og-card', () => {
     it('should create header bar with correct height', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       // Header bar should be 60px tall
@@ -138,7 +162,7 @@ describe('og-card', () => {
     it('should create footer bar', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       // Footer starts at height - 50
@@ -149,7 +173,7 @@ describe('og-card', () => {
     it('should include header divider line', () => {
       const result = generateOGCard({
         toolName: 'Test Tool',
-        content: '',
+        content: [],
       });
 
       // Divider at bottom of header (y=59 for 1px line at bottom of 60px header)
@@ -159,7 +183,7 @@ describe('og-card', () => {
     it('should uppercase tool name', () => {
       const result = generateOGCard({
         toolName: 'lowercase test',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('LOWERCASE TEST');
@@ -169,7 +193,7 @@ describe('og-card', () => {
       const result = generateOGCard({
         toolName: 'Test',
         subtitle: 'lowercase subtitle',
-        content: '',
+        content: [],
       });
 
       expect(result).toContain('LOWERCASE SUBTITLE');
@@ -178,7 +202,7 @@ describe('og-card', () => {
     it('should uppercase algorithm', () => {
       const result = generateOGCard({
         toolName: 'Test',
-        content: '',
+        content: [],
         algorithm: 'ciede2000',
       });
 
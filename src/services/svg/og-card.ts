@@ -9,139 +9,177 @@
  * Dimensions: 1200x630 (standard OG image size)
  */
 
-import {
-  createSvgDocument,
-  rect,
-  text,
-  linearGradient,
-  THEME,
-  FONTS,
-  OG_DIMENSIONS,
-} from './base';
+import { iconNode, linearGradientNode, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { h, renderSvg, svgDocument, type SvgNode } from './vnode';
+import { formatMessage, getMessages } from '../../i18n';
+import type { Locale } from '../../types';
 
 export interface OGCardOptions {
   /** Tool display name (e.g., "HARMONY EXPLORER") */
   toolName: string;
   /** Subtitle text (e.g., "TETRADIC HARMONY") */
   subtitle?: string;
-  /** Main content SVG elements */
-  content: string;
+  /** Main content, as element-tree nodes (see vnode.ts and layout.ts) */
+  content: SvgNode[];
   /** Footer text (optional, default shows website) */
   footerText?: string;
   /** Algorithm name to display (e.g., "OKLAB") */
   algorithm?: string;
+  /** Language of the card's own labels (default English) */
+  lang?: Locale;
 }
 
 /**
  * Generates a complete OG image SVG with standard layout
  */
 export function generateOGCard(options: OGCardOptions): string {
-  const { toolName, subtitle, content, footerText, algorithm } = options;
+  const { toolName, subtitle, content, footerText, algorithm, lang } = options;
   const { width, height } = OG_DIMENSIONS;
 
-  const elements: string[] = [];
-
-  // Definitions (gradients)
-  const defs = `
-    <defs>
-      ${linearGradient('headerGradient', [
-        { offset: '0%', color: '#1a1a2e' },
-        { offset: '100%', color: '#16213e' },
-      ])}
-      ${linearGradient('bgGradient', [
-        { offset: '0%', color: '#1a1a2e' },
-        { offset: '50%', color: '#16213e' },
-        { offset: '100%', color: '#1a1a2e' },
-      ], { x1: '0%', y1: '0%', x2: '100%', y2: '100%' })}
-    </defs>
-  `;
-  elements.push(defs);
-
-  // Background
-  elements.push(rect(0, 0, width, height, 'url(#bgGradient)'));
-
-  // Header bar (60px height)
+  // Header bar (60px height) and footer bar (50px height)
   const headerHeight = 60;
-  elements.push(rect(0, 0, width, headerHeight, 'url(#headerGradient)', { opacity: 0.9 }));
-
-  // Header divider line
-  elements.push(rect(0, headerHeight - 1, width, 1, THEME.border));
-
-  // Header content
-  // XIV DYE TOOLS branding on left
-  elements.push(
-    text(40, 38, '✦ XIV DYE TOOLS', {
-      fill: THEME.text,
-      fontSize: 18,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      dominantBaseline: 'middle',
-    })
-  );
-
-  // Tool name in center
-  elements.push(
-    text(width / 2, 38, toolName.toUpperCase(), {
-      fill: THEME.text,
-      fontSize: 22,
-      fontFamily: FONTS.header,
-      fontWeight: 700,
-      textAnchor: 'middle',
-      dominantBaseline: 'middle',
-    })
-  );
-
-  // Subtitle on right (if provided)
-  if (subtitle) {
-    elements.push(
-      text(width - 40, 38, subtitle.toUpperCase(), {
-        fill: THEME.accent,
-        fontSize: 16,
-        fontFamily: FONTS.header,
-        fontWeight: 500,
-        textAnchor: 'end',
-        dominantBaseline: 'middle',
-      })
-    );
-  }
-
-  // Main content area (between header and footer)
-  // Add the tool-specific content
-  elements.push(content);
-
-  // Footer bar (50px height)
   const footerHeight = 50;
   const footerY = height - footerHeight;
-  elements.push(rect(0, footerY, width, footerHeight, THEME.background, { opacity: 0.9 }));
-
-  // Footer divider line
-  elements.push(rect(0, footerY, width, 1, THEME.border));
-
-  // Footer content
-  // Website URL on left
-  elements.push(
-    text(40, footerY + 30, footerText || '🎨 xivdyetools.app', {
-      fill: THEME.textMuted,
-      fontSize: 16,
-      fontFamily: FONTS.primary,
-      dominantBaseline: 'middle',
-    })
-  );
 
-  // Algorithm on right (if provided)
-  if (algorithm) {
-    elements.push(
-      text(width - 40, footerY + 30, `Algorithm: ${algorithm.toUpperCase()}`, {
-        fill: THEME.textMuted,
-        fontSize: 14,
-        fontFamily: FONTS.primary,
-        textAnchor: 'end',
-        dominantBaseline: 'middle',
-      })
-    );
-  }
-
-  return createSvgDocument(width, height, elements.join('\n'));
+  const algorithmLabel = algorithm
+    ? formatMessage(getMessages(lang).image.algorithm, { name: algorithm.toUpperCase() })
+    : undefined;
+
+  return renderSvg(
+    svgDocument(
+      width,
+      height,
+
+      // Definitions (gradients)
+      h(
+        'defs',
+        {},
+        linearGradientNode('headerGradient', [
+          { offset: '0%', color: '#1a1a2e' },
+          { offset: '100%', color: '#16213e' },
+        ]),
+        linearGradientNode(
+          'bgGradient',
+          [
+            { offset: '0%', color: '#1a1a2e' },
+            { offset: '50%', color: '#16213e' },
+            { offset: '100%', color: '#1a1a2e' },
+          ],
+          { x1: '0%', y1: '0%', x2: '100%', y2: '100%' }
+        )
+      ),
+
+      // Background
+      h('rect', { x: 0, y: 0, width, height, fill: 'url(#bgGradient)' }),
+
+      // Header bar and divider line
+      h('rect', {
+        x: 0,
+        y: 0,
+        width,
+        height: headerHeight,
+        fill: 'url(#headerGradient)',
+        opacity: 0.9,
+      }),
+      h('rect', { x: 0, y: headerHeight - 1, width, height: 1, fill: THEME.border }),
+
+      // XIV DYE TOOLS branding on left
+      iconNode('sparkle', 48, 38, 16, THEME.text),
+      h(
+        'text',
+        {
+          x: 64,
+          y: 38,
+          fill: THEME.text,
+          fontSize: 18,
+          fontFamily: FONTS.header,
+          fontWeight: 600,
+          dominantBaseline: 'middle',
+        },
+        'XIV DYE TOOLS'
+      ),
+
+      // Tool name in center
+      h(
+        'text',
+        {
+          x: width / 2,
+          y: 38,
+          fill: THEME.text,
+          fontSize: 22,
+          fontFamily: FONTS.header,
+          fontWeight: 700,
+          textAnchor: 'middle',
+          dominantBaseline: 'middle',
+        },
+        toolName.toUpperCase()
+      ),
+
+      // Subtitle on right (if provided)
+      subtitle
+        ? h(
+            'text',
+            {
+              x: width - 40,
+              y: 38,
+              fill: THEME.accent,
+              fontSize: 16,
+              fontFamily: FONTS.header,
+              fontWeight: 500,
+              textAnchor: 'end',
+              dominantBaseline: 'middle',
+            },
+            subtitle.toUpperCase()
+          )
+        : null,
+
+      // Main content area (between header and footer)
+      content,
+
+      // Footer bar and divider line
+      h('rect', {
+        x: 0,
+        y: footerY,
+        width,
+        height: footerHeight,
+        fill: THEME.background,
+        opacity: 0.9,
+      }),
+      h('rect', { x: 0, y: footerY, width, height: 1, fill: THEME.border }),
+
+      // Website URL on left, or the custom footer text in its place
+      !footerText && iconNode('palette', 48, footerY + 30, 16, THEME.textMuted),
+      h(
+        'text',
+        {
+          x: footerText ? 40 : 64,
+          y: footerY + 30,
+          fill: THEME.textMuted,
+          fontSize: 16,
+          fontFamily: FONTS.primary,
+          dominantBaseline: 'middle',
+        },
+        footerText || 'xivdyetools.app'
+      ),
+
+      // Algorithm on right (if provided)
+      algorithmLabel
+        ? h(
+            'text',
+            {
+              x: width - 40,
+              y: footerY + 30,
+              fill: THEME.textMuted,
+              fontSize: 14,
+              fontFamily: FONTS.primary,
+              textAnchor: 'end',
+              dominantBaseline: 'middle',
+            },
+            algorithmLabel
+          )
+        : null
+    )
+  );
 }
 
 /**
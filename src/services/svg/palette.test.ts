@@ -0,0 +1,82 @@
+/**
+ * Tests for Share Palettes
+ *
+ * @module palette.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSharePalette } from './palette';
+import { dyeService } from './dye-helpers';
+
+describe('share palettes', () => {
+  // Get valid dyes for testing
+  const getValidDyes = (count: number) => dyeService.getAllDyes().slice(0, count);
+
+  describe('getSharePalette', () => {
+    it('should list the harmony dye first, then its matches', () => {
+      const [dye] = getValidDyes(1);
+
+      const palette = getSharePalette('harmony', { dye: dye.itemID, harmony: 'triadic' });
+
+      expect(palette[0]).toEqual({ name: dye.name, hex: dye.hex.toUpperCase() });
+      expect(palette.length).toBeGreaterThan(1);
+    });
+
+    it('should list the gradient end dyes', () => {
+      const [start, end] = getValidDyes(2);
+
+      const palette = getSharePalette('gradient', {
+        start: start.itemID,
+        end: end.itemID,
+        steps: 5,
+      });
+
+      expect(palette.map((entry) => entry.name)).toEqual([start.name, end.name]);
+    });
+
+    it('should list the third mixer dye only when set', () => {
+      const [a, b, c] = getValidDyes(3);
+      const twoDye = { dyeA: a.itemID, dyeB: b.itemID, ratio: 50 };
+
+      expect(getSharePalette('mixer', twoDye)).toHaveLength(2);
+      expect(getSharePalette('mixer', { ...twoDye, dyeC: c.itemID })).toHaveLength(3);
+    });
+
+    it('should list the swatch input color and its closest dyes', () => {
+      const palette = getSharePalette('swatch', { color: 'ff0000', limit: 3 });
+
+      expect(palette[0]).toEqual({ name: 'Input Color', hex: '#FF0000' });
+      expect(palette).toHaveLength(4);
+    });
+
+    it('should cap swatch matches at what the image shows', () => {
+      expect(getSharePalette('swatch', { color: '#00ff00', limit: 10 })).toHaveLength(5);
+    });
+
+    it('should list nothing for an invalid swatch color', () => {
+      expect(getSharePalette('swatch', { color: 'nothex', limit: 5 })).toEqual([]);
+    });
+
+    it('should cap comparison and accessibility dyes at 4', () => {
+      const ids = getValidDyes(6).map((dye) => dye.itemID);
+
+      expect(getSharePalette('comparison', { dyes: ids })).toHaveLength(4);
+      expect(getSharePalette('accessibility', { dyes: ids, vision: 'protanopia' })).toHaveLength(4);
+    });
+
+    it('should list custom colors with their nearest dye', () => {
+      const [entry] = getSharePalette('comparison', { dyes: ['hex:8B4513'] });
+
+      expect(entry).toEqual({ name: 'Custom colour', hex: '#8B4513', nearest: expect.any(String) });
+    });
+
+    it('should skip unknown dye IDs', () => {
+      const [dye] = getValidDyes(1);
+
+      expect(getSharePalette('comparison', { dyes: [999999, dye.itemID] })).toEqual([
+        { name: dye.name, hex: dye.hex.toUpperCase() },
+      ]);
+      expect(getSharePalette('harmony', { dye: 999999, harmony: 'triadic' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Share Palettes
+ *
+ * The dyes (and colors) shown on a share's image, as plain name/hex pairs
+ * for text listings next to the image, such as the embed widget.
+ * Each tool lists the same colors its image generator draws.
+ */
+
+import type { Dye } from '@xivdyetools/core';
+import {
+  dyeName,
+  findClosestDyesWithDistance,
+  nearestDyeOf,
+  resolveDyeRef,
+} from './dye-helpers';
+import { getHarmonyMatches } from './harmony';
+import { getMessages } from '../../i18n';
+import type { DyeRef, Locale, MatchingAlgorithm, ToolId, ToolParams } from '../../types';
+
+/**
+ * A named color of a share's palette
+ */
+export interface PaletteEntry {
+  name: string;
+  /** Uppercase hex with `#` prefix */
+  hex: string;
+  /** Name of the nearest dye, for custom colors */
+  nearest?: string;
+}
+
+/** Most dyes the comparison-style images show */
+const MAX_LISTED_DYES = 4;
+
+/**
+ * Convert a dye to a palette entry, with names in the given language
+ */
+function toEntry(dye: Dye, locale?: Locale): PaletteEntry {
+  const entry: PaletteEntry = { name: dyeName(dye, locale), hex: dye.hex.toUpperCase() };
+  const nearest = nearestDyeOf(dye);
+  if (nearest) entry.nearest = dyeName(nearest, locale);
+  return entry;
+}
+
+/**
+ * Resolve dyes and custom colors, skipping unknown IDs
+ */
+function dyeEntries(
+  refs: Array<DyeRef | undefined>,
+  locale?: Locale,
+  algo?: MatchingAlgorithm
+): PaletteEntry[] {
+  return refs
+    .map((ref) => (ref ? resolveDyeRef(ref, algo) : undefined))
+    .filter((dye): dye is Dye => dye !== undefined)
+    .map((dye) => toEntry(dye, locale));
+}
+
+const PALETTES: { [T in ToolId]: (params: ToolParams<T>) => PaletteEntry[] } = {
+  harmony: (params) => {
+    const dye = resolveDyeRef(params.dye, params.algo);
+    if (!dye) return [];
+    const matches = getHarmonyMatches(dye, params.harmony, params.algo);
+    return [
+      toEntry(dye, params.lang),
+      ...matches.map((match) => toEntry(match.dye, params.lang)),
+    ];
+  },
+  gradient: (params) => dyeEntries([params.start, params.end], params.lang, params.algo),
+  mixer: (params) =>
+    dyeEntries([params.dyeA, params.dyeB, params.dyeC], params.lang, params.algo),
+  swatch: (params) => {
+    const hex = `#${params.color.replace(/^#/, '')}`.toUpperCase();
+    if (!/^#[0-9A-F]{6}$/.test(hex)) return [];
+    const limit = Math.min(Math.max(params.limit ?? 5, 1), MAX_LISTED_DYES);
+    const matches = findClosestDyesWithDistance(hex, { limit, algorithm: params.algo });
+    const input = { name: getMessages(params.lang).inputColor, hex };
+    return [input, ...matches.map((match) => toEntry(match.dye, params.lang))];
+  },
+  comparison: (params) => dyeEntries(params.dyes.slice(0, MAX_LISTED_DYES), params.lang),
+  accessibility: (params) => dyeEntries(params.dyes.slice(0, MAX_LISTED_DYES), params.lang),
+};
+
+/**
+ * Get the palette of a share: its input dyes, plus the matched dyes for
+ * tools that find matches (harmony, swatch). Names are in the share's
+ * `lang`, so load its dye names first (see `loadDyeNames`).
+ */
+export function getSharePalette<T extends ToolId>(tool: T, params: ToolParams<T>): PaletteEntry[] {
+  const palette = PALETTES[tool] as (params: ToolParams<T>) => PaletteEntry[];
+  return palette(params);
+}
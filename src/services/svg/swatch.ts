@@ -25,10 +25,27 @@
  */
 
 import { type Dye } from '@xivdyetools/core';
-import { rect, text, getContrastTextColor, THEME, FONTS, OG_DIMENSIONS } from './base';
+import { getContrastTextColor, THEME, FONTS, OG_DIMENSIONS } from './base';
 import { generateOGCard, LAYOUT } from './og-card';
-import { findClosestDyesWithDistance, findCharacterColorByHex, getCharacterColorFromSheet, type CharacterColorContext } from './dye-helpers';
-import type { MatchingAlgorithm, ColorSheetCategory, CharacterGender } from '../../types';
+import { box, grid, place, row } from './layout';
+import { fragment, h } from './vnode';
+import {
+  characterSheetName,
+  findClosestDyesWithDistance,
+  findCharacterColorByHex,
+  getCharacterColorFromSheet,
+  swatchLabel,
+  type CharacterColorContext,
+} from './dye-helpers';
+import { fitText } from '../text-layout';
+import { formatDelta, formatMessage, formatPlural, getMessages } from '../../i18n';
+import type {
+  MatchingAlgorithm,
+  ColorSheetCategory,
+  CharacterGender,
+  Locale,
+  Subrace,
+} from '../../types';
 
 export interface SwatchOGOptions {
   /** Input color hex (without #) */
@@ -40,31 +57,32 @@ export interface SwatchOGOptions {
   /** Which color sheet this color is from */
   sheet?: ColorSheetCategory;
   /** Subrace for race-specific sheets (hairColors, skinColors) */
-  race?: string;
+  race?: Subrace;
   /** Gender for race-specific sheets */
   gender?: CharacterGender;
+  /** Language of the labels and dye names */
+  lang?: Locale;
 }
 
 /**
  * Generates the Swatch tool OG image SVG
  */
 export async function generateSwatchOG(options: SwatchOGOptions): Promise<string> {
-  const { color, limit = 5, algorithm = 'oklab', sheet, race, gender } = options;
+  const { color, limit = 5, algorithm = 'oklab', sheet, race, gender, lang } = options;
+  const t = getMessages(lang);
 
   // Ensure hex has # prefix
   const hexColor = color.startsWith('#') ? color : `#${color}`;
 
   // Validate hex color
   if (!/^#[0-9A-Fa-f]{6}$/.test(hexColor)) {
-    return generateFallbackSwatchOG(algorithm);
+    return generateFallbackSwatchOG(algorithm, lang);
   }
 
   // Find matching dyes (max 4 for cleaner layout)
   const matchLimit = Math.min(Math.max(limit, 1), 4);
-  const matches = findClosestDyesWithDistance(hexColor, { limit: matchLimit });
+  const matches = findClosestDyesWithDistance(hexColor, { limit: matchLimit, algorithm });
 
-  // Build content elements
-  const contentElements: string[] = [];
   const { contentTop, contentHeight, padding } = LAYOUT;
 
   // Left side: Input color card (vertically centered)
@@ -72,75 +90,17 @@ export async function generateSwatchOG(options: SwatchOGOptions): Promise<string
   const leftCardWidth = 320;
   const leftCardHeight = contentHeight - 100;
   const leftCardY = contentTop + (contentHeight - leftCardHeight) / 2;
-
-  // Card background
-  contentElements.push(
-    rect(leftCardX, leftCardY, leftCardWidth, leftCardHeight, THEME.backgroundCard, {
-      rx: 16,
-      stroke: THEME.border,
-      strokeWidth: 1,
-    })
-  );
-
-  // "INPUT COLOR" label
-  contentElements.push(
-    text(leftCardX + leftCardWidth / 2, leftCardY + 30, 'INPUT COLOR', {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  const leftCenterX = leftCardX + leftCardWidth / 2;
 
   // Large color swatch
   const inputSwatchSize = 180;
   const inputSwatchX = leftCardX + (leftCardWidth - inputSwatchSize) / 2;
   const inputSwatchY = leftCardY + 60;
 
-  contentElements.push(
-    rect(inputSwatchX, inputSwatchY, inputSwatchSize, inputSwatchSize, hexColor, {
-      rx: 12,
-      stroke: '#ffffff',
-      strokeWidth: 3,
-    })
-  );
-
-  // Hex code inside the swatch
-  const textColor = getContrastTextColor(hexColor);
-  contentElements.push(
-    text(
-      inputSwatchX + inputSwatchSize / 2,
-      inputSwatchY + inputSwatchSize / 2,
-      hexColor.toUpperCase(),
-      {
-        fill: textColor,
-        fontSize: 24,
-        fontFamily: FONTS.mono,
-        fontWeight: 600,
-        textAnchor: 'middle',
-        dominantBaseline: 'middle',
-      }
-    )
-  );
-
   // RGB values below
   const r = parseInt(hexColor.slice(1, 3), 16);
   const g = parseInt(hexColor.slice(3, 5), 16);
   const b = parseInt(hexColor.slice(5, 7), 16);
-  contentElements.push(
-    text(
-      leftCardX + leftCardWidth / 2,
-      inputSwatchY + inputSwatchSize + 30,
-      `RGB(${r}, ${g}, ${b})`,
-      {
-        fill: THEME.textMuted,
-        fontSize: 13,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      }
-    )
-  );
 
   // Show input color's position in character creator (if it's a known character color)
   // Use explicit sheet/race/gender params when available for more accurate display
@@ -154,219 +114,344 @@ export async function generateSwatchOG(options: SwatchOGOptions): Promise<string
       : null;
   }
 
-  if (characterColorInfo) {
-    contentElements.push(
-      text(leftCardX + leftCardWidth / 2, inputSwatchY + inputSwatchSize + 55, 'FROM', {
+  // e.g. "Female Wildwood Hair Colors" for race-specific sheets, "Eye Colors" for shared ones
+  const sheetStyle = { fontSize: 14, fontFamily: FONTS.primary, fontWeight: 500 };
+  const sheetName =
+    characterColorInfo &&
+    fitText(characterSheetName(characterColorInfo, lang), leftCardWidth - 40, sheetStyle, 11);
+
+  const inputCard = [
+    // Card background
+    h('rect', {
+      x: leftCardX,
+      y: leftCardY,
+      width: leftCardWidth,
+      height: leftCardHeight,
+      fill: THEME.backgroundCard,
+      rx: 16,
+      stroke: THEME.border,
+      strokeWidth: 1,
+    }),
+
+    // "INPUT COLOR" label
+    h(
+      'text',
+      {
+        x: leftCenterX,
+        y: leftCardY + 30,
         fill: THEME.textMuted,
-        fontSize: 10,
+        fontSize: 14,
         fontFamily: FONTS.header,
         fontWeight: 600,
         textAnchor: 'middle',
-      })
-    );
+      },
+      t.image.inputColor
+    ),
+
+    h('rect', {
+      x: inputSwatchX,
+      y: inputSwatchY,
+      width: inputSwatchSize,
+      height: inputSwatchSize,
+      fill: hexColor,
+      rx: 12,
+      stroke: '#ffffff',
+      strokeWidth: 3,
+    }),
 
-    // Use fullName for race-specific sheets (e.g., "Female Wildwood Hair Colors")
-    // or categoryName for shared sheets (e.g., "Eye Colors")
-    const displayName = characterColorInfo.fullName || characterColorInfo.categoryName;
-    const nameFontSize = displayName.length > 25 ? 11 : displayName.length > 18 ? 12 : 14;
+    // Hex code inside the swatch
+    h(
+      'text',
+      {
+        x: inputSwatchX + inputSwatchSize / 2,
+        y: inputSwatchY + inputSwatchSize / 2,
+        fill: getContrastTextColor(hexColor),
+        fontSize: 24,
+        fontFamily: FONTS.mono,
+        fontWeight: 600,
+        textAnchor: 'middle',
+        dominantBaseline: 'middle',
+      },
+      hexColor.toUpperCase()
+    ),
 
-    contentElements.push(
-      text(leftCardX + leftCardWidth / 2, inputSwatchY + inputSwatchSize + 75, displayName, {
-        fill: THEME.text,
-        fontSize: nameFontSize,
-        fontFamily: FONTS.primary,
-        fontWeight: 500,
+    h(
+      'text',
+      {
+        x: leftCenterX,
+        y: inputSwatchY + inputSwatchSize + 30,
+        fill: THEME.textMuted,
+        fontSize: 13,
+        fontFamily: FONTS.mono,
         textAnchor: 'middle',
-      })
-    );
-
-    contentElements.push(
-      text(
-        leftCardX + leftCardWidth / 2,
-        inputSwatchY + inputSwatchSize + 95,
-        `Row ${characterColorInfo.row}, Col ${characterColorInfo.col}`,
-        {
-          fill: THEME.textMuted,
-          fontSize: 12,
-          fontFamily: FONTS.mono,
-          textAnchor: 'middle',
-        }
-      )
-    );
-  }
+      },
+      `RGB(${r}, ${g}, ${b})`
+    ),
+
+    characterColorInfo &&
+      sheetName && [
+        h(
+          'text',
+          {
+            x: leftCenterX,
+            y: inputSwatchY + inputSwatchSize + 55,
+            fill: THEME.textMuted,
+            fontSize: 10,
+            fontFamily: FONTS.header,
+            fontWeight: 600,
+            textAnchor: 'middle',
+          },
+          t.image.from
+        ),
+        h(
+          'text',
+          {
+            ...sheetStyle,
+            x: leftCenterX,
+            y: inputSwatchY + inputSwatchSize + 75,
+            fill: THEME.text,
+            fontSize: sheetName.fontSize,
+            textAnchor: 'middle',
+          },
+          sheetName.content
+        ),
+        h(
+          'text',
+          {
+            x: leftCenterX,
+            y: inputSwatchY + inputSwatchSize + 95,
+            fill: THEME.textMuted,
+            fontSize: 12,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          formatMessage(t.image.gridPosition, {
+            row: characterColorInfo.row,
+            col: characterColorInfo.col,
+          })
+        ),
+      ],
+  ];
 
   // Right side: Matched dyes
   const rightStartX = leftCardX + leftCardWidth + 40;
   const rightWidth = OG_DIMENSIONS.width - rightStartX - padding;
-
-  // "TOP MATCHES" label
-  contentElements.push(
-    text(rightStartX + rightWidth / 2, contentTop + 60, `TOP ${matches.length} MATCHES`, {
-      fill: THEME.textMuted,
-      fontSize: 14,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
+  const rightCenterX = rightStartX + rightWidth / 2;
 
   // Match swatches (single row, vertically centered, larger size)
   const matchSwatchSize = 110;
   const matchGap = 18;
   const matchesPerRow = 4;
+  const matchLabelWidth = matchSwatchSize + matchGap - 6;
 
-  const totalMatchWidth = Math.min(matches.length, matchesPerRow) * matchSwatchSize +
-    (Math.min(matches.length, matchesPerRow) - 1) * matchGap;
-  const matchStartX = rightStartX + (rightWidth - totalMatchWidth) / 2;
-
-  // Vertical centering: swatch (90px) + labels below (40px) = 130px total
-  const matchVisualHeight = matchSwatchSize + 40;
-  const matchStartY = contentTop + (contentHeight - matchVisualHeight) / 2;
-
-  matches.forEach((match, index) => {
-    const row = Math.floor(index / matchesPerRow);
-    const col = index % matchesPerRow;
-    const x = matchStartX + col * (matchSwatchSize + matchGap);
-    const y = matchStartY + row * (matchSwatchSize + 65);
-
-    // Match swatch
-    contentElements.push(
-      rect(x, y, matchSwatchSize, matchSwatchSize, match.dye.hex, {
-        rx: 8,
-        stroke: index === 0 ? THEME.success : THEME.border,
-        strokeWidth: index === 0 ? 3 : 1,
-      })
-    );
-
-    // Rank badge for top match
-    if (index === 0) {
-      contentElements.push(
-        rect(x + matchSwatchSize - 25, y - 5, 30, 20, THEME.success, { rx: 4 })
-      );
-      contentElements.push(
-        text(x + matchSwatchSize - 10, y + 7, '#1', {
-          fill: '#000',
-          fontSize: 11,
-          fontFamily: FONTS.header,
-          fontWeight: 700,
-          textAnchor: 'middle',
-        })
-      );
-    }
-
-    // Match name (truncated)
-    const truncatedName =
-      match.dye.name.length > 10 ? match.dye.name.slice(0, 8) + '..' : match.dye.name;
-    contentElements.push(
-      text(x + matchSwatchSize / 2, y + matchSwatchSize + 18, truncatedName, {
-        fill: THEME.text,
+  // Each card is the swatch plus its name and delta (40px below)
+  const matchCards = matches.map((match, index) =>
+    box(matchSwatchSize, matchSwatchSize + 40, (x, y) => {
+      const isTop = index === 0;
+      const nameStyle = {
         fontSize: 12,
         fontFamily: FONTS.primary,
-        fontWeight: index === 0 ? 600 : 400,
-        textAnchor: 'middle',
-      })
-    );
-
-    // Delta value with color coding
-    const deltaColor =
-      match.distance < 3
-        ? THEME.success
-        : match.distance < 6
-          ? THEME.warning
-          : THEME.error;
-    contentElements.push(
-      text(x + matchSwatchSize / 2, y + matchSwatchSize + 38, `Δ${match.distance.toFixed(1)}`, {
-        fill: deltaColor,
-        fontSize: 11,
-        fontFamily: FONTS.mono,
-        textAnchor: 'middle',
-      })
-    );
-  });
+        fontWeight: isTop ? 600 : 400,
+      };
+
+      // Delta value with color coding
+      const deltaColor =
+        match.distance < 3 ? THEME.success : match.distance < 6 ? THEME.warning : THEME.error;
+
+      return [
+        h('rect', {
+          x,
+          y,
+          width: matchSwatchSize,
+          height: matchSwatchSize,
+          fill: match.dye.hex,
+          rx: 8,
+          stroke: isTop ? THEME.success : THEME.border,
+          strokeWidth: isTop ? 3 : 1,
+        }),
+
+        // Rank badge for top match
+        isTop && [
+          h('rect', {
+            x: x + matchSwatchSize - 25,
+            y: y - 5,
+            width: 30,
+            height: 20,
+            fill: THEME.success,
+            rx: 4,
+          }),
+          h(
+            'text',
+            {
+              x: x + matchSwatchSize - 10,
+              y: y + 7,
+              fill: '#000',
+              fontSize: 11,
+              fontFamily: FONTS.header,
+              fontWeight: 700,
+              textAnchor: 'middle',
+            },
+            '#1'
+          ),
+        ],
+
+        // Match name (truncated)
+        h(
+          'text',
+          {
+            ...nameStyle,
+            x: x + matchSwatchSize / 2,
+            y: y + matchSwatchSize + 18,
+            fill: THEME.text,
+            textAnchor: 'middle',
+          },
+          swatchLabel(match.dye, matchLabelWidth, nameStyle, lang)
+        ),
+
+        h(
+          'text',
+          {
+            x: x + matchSwatchSize / 2,
+            y: y + matchSwatchSize + 38,
+            fill: deltaColor,
+            fontSize: 11,
+            fontFamily: FONTS.mono,
+            textAnchor: 'middle',
+          },
+          formatDelta(match.distance, lang)
+        ),
+      ];
+    })
+  );
+
+  const content = fragment(
+    inputCard,
 
-  // If no matches found, show a message
-  if (matches.length === 0) {
-    contentElements.push(
-      text(rightStartX + rightWidth / 2, contentTop + contentHeight / 2, 'No matches found', {
+    // "TOP MATCHES" label
+    h(
+      'text',
+      {
+        x: rightCenterX,
+        y: contentTop + 60,
         fill: THEME.textMuted,
-        fontSize: 18,
-        fontFamily: FONTS.primary,
+        fontSize: 14,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
         textAnchor: 'middle',
-      })
-    );
-  }
+      },
+      formatPlural(t.image.topMatches, matches.length, lang)
+    ),
+
+    // Centered in the right column
+    place(
+      grid(matchCards, { columns: matchesPerRow, gap: matchGap, rowGap: 25 }),
+      { x: rightStartX, y: contentTop, width: rightWidth, height: contentHeight },
+      { justify: 'center', align: 'center' }
+    ),
+
+    // If no matches found, show a message
+    matches.length === 0 &&
+      h(
+        'text',
+        {
+          x: rightCenterX,
+          y: contentTop + contentHeight / 2,
+          fill: THEME.textMuted,
+          fontSize: 18,
+          fontFamily: FONTS.primary,
+          textAnchor: 'middle',
+        },
+        t.image.noMatches
+      )
+  );
 
   return generateOGCard({
-    toolName: 'Swatch Matcher',
+    toolName: t.image.tools.swatch,
     subtitle: hexColor.toUpperCase(),
-    content: contentElements.join('\n'),
+    content,
     algorithm,
+    lang,
   });
 }
 
 /**
  * Generates a fallback OG image when color is invalid
  */
-function generateFallbackSwatchOG(algorithm: MatchingAlgorithm): string {
-  const contentElements: string[] = [];
+function generateFallbackSwatchOG(algorithm: MatchingAlgorithm, lang?: Locale): string {
+  const t = getMessages(lang);
   const { contentTop, contentHeight } = LAYOUT;
-
-  // Centered message
-  contentElements.push(
-    text(OG_DIMENSIONS.width / 2, contentTop + contentHeight / 2 - 20, 'Match Any Color', {
-      fill: THEME.text,
-      fontSize: 32,
-      fontFamily: FONTS.header,
-      fontWeight: 600,
-      textAnchor: 'middle',
-    })
-  );
-
-  contentElements.push(
-    text(
-      OG_DIMENSIONS.width / 2,
-      contentTop + contentHeight / 2 + 30,
-      'Find FFXIV dyes that match your custom colors',
-      {
-        fill: THEME.textMuted,
-        fontSize: 18,
-        fontFamily: FONTS.primary,
-        textAnchor: 'middle',
-      }
-    )
-  );
+  const centerX = OG_DIMENSIONS.width / 2;
 
   // Example color swatches
   const colors = [
-    { hex: '#8B4513', name: 'Brown' },
-    { hex: '#4169E1', name: 'Blue' },
-    { hex: '#228B22', name: 'Green' },
-    { hex: '#DC143C', name: 'Red' },
-    { hex: '#FFD700', name: 'Gold' },
+    { hex: '#8B4513', name: t.image.colors.brown },
+    { hex: '#4169E1', name: t.image.colors.blue },
+    { hex: '#228B22', name: t.image.colors.green },
+    { hex: '#DC143C', name: t.image.colors.red },
+    { hex: '#FFD700', name: t.image.colors.gold },
   ];
 
   const swatchSize = 60;
-  const gap = 20;
-  const totalWidth = colors.length * swatchSize + (colors.length - 1) * gap;
-  const startX = (OG_DIMENSIONS.width - totalWidth) / 2;
+  const swatches = row(
+    colors.map((color) =>
+      box(swatchSize, swatchSize + 18, (x, y) => [
+        h('rect', { x, y, width: swatchSize, height: swatchSize, fill: color.hex, rx: 8 }),
+        h(
+          'text',
+          {
+            x: x + swatchSize / 2,
+            y: y + swatchSize + 18,
+            fill: THEME.textMuted,
+            fontSize: 11,
+            fontFamily: FONTS.primary,
+            textAnchor: 'middle',
+          },
+          color.name
+        ),
+      ])
+    ),
+    { gap: 20 }
+  );
   const swatchY = contentTop + contentHeight / 2 + 90;
 
-  colors.forEach((color, i) => {
-    const x = startX + i * (swatchSize + gap);
-    contentElements.push(rect(x, swatchY, swatchSize, swatchSize, color.hex, { rx: 8 }));
-    contentElements.push(
-      text(x + swatchSize / 2, swatchY + swatchSize + 18, color.name, {
+  const content = [
+    // Centered message
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 - 20,
+        fill: THEME.text,
+        fontSize: 32,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'middle',
+      },
+      t.image.swatchHeadline
+    ),
+    h(
+      'text',
+      {
+        x: centerX,
+        y: contentTop + contentHeight / 2 + 30,
         fill: THEME.textMuted,
-        fontSize: 11,
+        fontSize: 18,
         fontFamily: FONTS.primary,
         textAnchor: 'middle',
-      })
-    );
-  });
+      },
+      t.image.swatchTagline
+    ),
+    ...place(
+      swatches,
+      { x: 0, y: swatchY, width: OG_DIMENSIONS.width, height: swatches.height },
+      { justify: 'center' }
+    ),
+  ];
 
   return generateOGCard({
-    toolName: 'Swatch Matcher',
-    content: contentElements.join('\n'),
+    toolName: t.image.tools.swatch,
+    content,
     algorithm,
+    lang,
   });
 }
@@ -0,0 +1,160 @@
+/**
+ * Tests for the SVG Element Tree
+ *
+ * @module vnode.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fragment, h, raw, renderSvg, svgDocument } from './vnode';
+import { HOSTILE_INPUTS, findUnsafeTags } from '../../test-utils/hostile-inputs';
+
+const gradient = (id: string, color: string) =>
+  h('linearGradient', { id }, h('stop', { offset: '0%', stopColor: color }));
+
+describe('vnode', () => {
+  describe('h', () => {
+    it('should build an element node', () => {
+      expect(h('rect', { x: 0, y: 0, width: 10, height: 10 })).toEqual({
+        kind: 'element',
+        tag: 'rect',
+        attrs: { x: 0, y: 0, width: 10, height: 10 },
+        children: [],
+      });
+    });
+
+    it('should turn strings and numbers into text nodes', () => {
+      expect(h('text', { x: 0, y: 0 }, 'Dye ', 5).children).toEqual([
+        { kind: 'text', value: 'Dye ' },
+        { kind: 'text', value: '5' },
+      ]);
+    });
+  });
+
+  describe('fragment', () => {
+    it('should flatten nested children and skip empty ones', () => {
+      const circle = h('circle', { cx: 1, cy: 1, r: 1 });
+
+      expect(fragment([circle, [false, null]], undefined, [[circle]])).toEqual([circle, circle]);
+    });
+  });
+
+  describe('renderSvg', () => {
+    it('should write attributes in a fixed order', () => {
+      const a = h('rect', { fill: '#000', height: 2, width: 1, y: 4, x: 3, rx: 2 });
+      const b = h('rect', { x: 3, y: 4, width: 1, height: 2, rx: 2, fill: '#000' });
+
+      expect(renderSvg(a)).toBe('<rect x="3" y="4" width="1" height="2" fill="#000" rx="2"/>');
+      expect(renderSvg(a)).toBe(renderSvg(b));
+    });
+
+    it('should write camelCase attributes as SVG attributes', () => {
+      const result = renderSvg(
+        h('line', { x1: 0, y1: 0, x2: 1, y2: 1, strokeWidth: 2, strokeDasharray: '4 2' })
+      );
+
+      expect(result).toContain('stroke-width="2"');
+      expect(result).toContain('stroke-dasharray="4 2"');
+      expect(renderSvg(svgDocument(10, 20))).toContain('viewBox="0 0 10 20"');
+    });
+
+    it('should leave out unset attributes', () => {
+      expect(renderSvg(h('circle', { cx: 1, cy: 2, r: 3, opacity: undefined }))).toBe(
+        '<circle cx="1" cy="2" r="3"/>'
+      );
+    });
+
+    it('should escape text and attribute values', () => {
+      expect(renderSvg(h('text', { x: 0, y: 0, fontWeight: '"bold"' }, '<b>&</b>'))).toBe(
+        '<text x="0" y="0" font-weight="&quot;bold&quot;">&lt;b&gt;&amp;&lt;/b&gt;</text>'
+      );
+    });
+
+    it('should validate paints and IDs', () => {
+      expect(renderSvg(h('path', { d: 'M0 0Z', fill: 'red" onload="x' }))).toContain(
+        'fill="none"'
+      );
+      expect(renderSvg(gradient('a b', 'javascript:x'))).toBe(
+        '<linearGradient id="a_b"><stop offset="0%" stop-color="none"/></linearGradient>'
+      );
+    });
+
+    it('should append a fallback font for CJK text', () => {
+      expect(renderSvg(h('text', { x: 0, y: 0, fontFamily: 'Onest' }, 'スノウ'))).toContain(
+        'font-family="Onest, Noto Sans JP"'
+      );
+      expect(renderSvg(h('text', { x: 0, y: 0 }, 'Snow'))).not.toContain('font-family');
+    });
+
+    it('should pass raw markup through', () => {
+      expect(renderSvg(h('g', {}, raw('<rect/>')))).toBe('<g><rect/></g>');
+    });
+
+    it('should put each top-level element of a document on its own line', () => {
+      const doc = svgDocument(
+        10,
+        10,
+        h('rect', { x: 0, y: 0, width: 1, height: 1 }),
+        h('g', {}, h('circle', { cx: 0, cy: 0, r: 1 }))
+      );
+
+      expect(renderSvg(doc)).toBe(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 10 10">\n' +
+          '<rect x="0" y="0" width="1" height="1"/>\n' +
+          '<g><circle cx="0" cy="0" r="1"/></g>\n' +
+          '</svg>'
+      );
+    });
+  });
+
+  describe('definitions', () => {
+    it('should move definitions into one defs at the top', () => {
+      const doc = svgDocument(
+        10,
+        10,
+        h('rect', { x: 0, y: 0, width: 1, height: 1, fill: 'url(#a)' }),
+        h('defs', {}, gradient('a', '#000')),
+        h('g', {}, gradient('b', '#fff'))
+      );
+      const lines = renderSvg(doc).split('\n');
+
+      expect(lines[1]).toMatch(/^<defs><linearGradient id="a">.*id="b">.*<\/defs>$/);
+      expect(lines.slice(2).join('\n')).not.toContain('linearGradient');
+      expect(lines[3]).toBe('<g/>');
+    });
+
+    it('should write identical definitions once', () => {
+      const doc = svgDocument(10, 10, gradient('a', '#000'), h('g', {}, gradient('a', '#000')));
+
+      expect(renderSvg(doc).match(/<linearGradient/g)).toHaveLength(1);
+    });
+
+    it('should reject different definitions with the same ID', () => {
+      const doc = svgDocument(10, 10, gradient('a', '#000'), gradient('a', '#fff'));
+
+      expect(() => renderSvg(doc)).toThrow('Conflicting SVG definitions for #a');
+    });
+
+    it('should leave definitions outside a document in place', () => {
+      expect(renderSvg(h('g', {}, gradient('a', '#000')))).toMatch(/^<g><linearGradient/);
+    });
+  });
+
+  describe('hostile inputs', () => {
+    it.each(HOSTILE_INPUTS)('should keep %j inside its attribute or text node', (input) => {
+      const doc = svgDocument(
+        100,
+        100,
+        h('rect', { x: 0, y: 0, width: 1, height: 1, fill: input, stroke: input }),
+        h('path', { d: input, transform: input }),
+        h('text', { x: 0, y: 0, fill: input, fontFamily: input, fontWeight: input }, input),
+        h(
+          'linearGradient',
+          { id: input, x1: input },
+          h('stop', { offset: input, stopColor: input })
+        )
+      );
+
+      expect(findUnsafeTags(renderSvg(doc))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * SVG Element Tree
+ *
+ * A small virtual-node builder for the images. Elements are plain objects
+ * with typed attributes, serialised once when the image is done:
+ *
+ *   h('rect', { x: 0, y: 0, width: 100, height: 50, fill: dye.hex, rx: 8 })
+ *   h('text', { x: 50, y: 80, fontSize: 16, textAnchor: 'middle' }, name)
+ *
+ * The serialiser does the escaping the string helpers did by hand: text and
+ * attribute values are XML-escaped, paints go through `safeColor()` and IDs
+ * through `safeId()`, and `<text>` in a script the brand fonts lack gets its
+ * fallback font (see services/font-fallback). Attributes are written in a
+ * fixed order whatever order they were given in, so equal trees always
+ * serialise to equal strings.
+ *
+ * @module services/svg/vnode
+ */
+
+import { resolveFontFamily } from '../font-fallback';
+
+// ============================================================================
+// Escaping
+// ============================================================================
+
+/**
+ * XML-escapes a string for safe SVG inclusion
+ */
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * CSS color keywords accepted as paint values
+ */
+const COLOR_KEYWORD = /^[a-z]{3,20}$/i;
+
+/**
+ * Validates a paint value (fill, stroke, stop-color) against the color
+ * tokens the renderer uses: hex, rgb()/rgba(), `url(#id)` references and
+ * color keywords. Anything else is replaced by the fallback, so a hostile
+ * value can never break out of its attribute.
+ */
+export function safeColor(value: string, fallback: string = 'none'): string {
+  const color = value.trim();
+  if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) return color;
+  if (/^rgba?\(\s*\d{1,3}(?:\s*,\s*\d{1,3}){2}(?:\s*,\s*(?:0|1|0?\.\d+))?\s*\)$/.test(color)) {
+    return color;
+  }
+  const ref = /^url\(#([^)]*)\)$/.exec(color);
+  if (ref && ref[1] === safeId(ref[1])) return color;
+  if (COLOR_KEYWORD.test(color)) return color;
+  return fallback;
+}
+
+/**
+ * Restricts an element ID to characters that are safe in attributes and
+ * `url(#id)` references
+ */
+export function safeId(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Presentation attributes shared by the drawing elements
+ */
+export interface PresentationAttributes {
+  fill?: string;
+  fillRule?: 'nonzero' | 'evenodd';
+  stroke?: string;
+  strokeWidth?: number;
+  strokeDasharray?: string;
+  opacity?: number;
+  transform?: string;
+}
+
+/**
+ * Attributes of each supported element, keyed by tag. Keys are camelCase
+ * and written as the SVG attribute (`strokeWidth` → `stroke-width`).
+ */
+export interface SvgAttributes {
+  svg: { xmlns?: string; width: number; height: number; viewBox?: string };
+  g: PresentationAttributes;
+  defs: Record<string, never>;
+  rect: PresentationAttributes & {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rx?: number;
+    ry?: number;
+  };
+  circle: PresentationAttributes & { cx: number; cy: number; r: number };
+  line: PresentationAttributes & { x1: number; y1: number; x2: number; y2: number };
+  path: PresentationAttributes & { d: string };
+  text: PresentationAttributes & {
+    x: number;
+    y: number;
+    fontSize?: number;
+    /** Fallback fonts for CJK text are appended when serialised */
+    fontFamily?: string;
+    fontWeight?: number | string;
+    textAnchor?: 'start' | 'middle' | 'end';
+    dominantBaseline?: 'auto' | 'middle' | 'hanging';
+  };
+  linearGradient: { id: string; x1?: string; y1?: string; x2?: string; y2?: string };
+  stop: { offset: string; stopColor: string };
+}
+
+export type SvgTag = keyof SvgAttributes;
+
+export interface SvgElement<T extends SvgTag = SvgTag> {
+  kind: 'element';
+  tag: T;
+  attrs: SvgAttributes[T];
+  children: SvgNode[];
+}
+
+/** Character data, escaped when serialised */
+export interface SvgText {
+  kind: 'text';
+  value: string;
+}
+
+/** Markup passed through as is (see `raw()`) */
+export interface SvgRaw {
+  kind: 'raw';
+  markup: string;
+}
+
+export type SvgNode = SvgElement | SvgText | SvgRaw;
+
+/**
+ * Anything `h()` accepts as a child: nodes, strings and numbers (as text),
+ * nested arrays, and `false`/`null`/`undefined` (skipped) for conditionals
+ */
+export type SvgChild = SvgNode | string | number | false | null | undefined | SvgChild[];
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * Creates an element
+ */
+export function h<T extends SvgTag>(
+  tag: T,
+  attrs: SvgAttributes[T],
+  ...children: SvgChild[]
+): SvgElement<T> {
+  return { kind: 'element', tag, attrs, children: fragment(children) };
+}
+
+/**
+ * Flattens children into a list of nodes
+ */
+export function fragment(...children: SvgChild[]): SvgNode[] {
+  return children.flatMap((child): SvgNode[] => {
+    if (Array.isArray(child)) return fragment(...child);
+    if (child === false || child === null || child === undefined) return [];
+    if (typeof child === 'object') return [child];
+    return [{ kind: 'text', value: String(child) }];
+  });
+}
+
+/**
+ * Markup passed through unescaped: serialised definitions, and content
+ * from the string helpers in base.ts. Never for user input.
+ */
+export function raw(markup: string): SvgRaw {
+  return { kind: 'raw', markup };
+}
+
+/**
+ * Creates the root `<svg>` element of an image
+ */
+export function svgDocument(
+  width: number,
+  height: number,
+  ...children: SvgChild[]
+): SvgElement<'svg'> {
+  return h(
+    'svg',
+    { xmlns: 'http://www.w3.org/2000/svg', width, height, viewBox: `0 0 ${width} ${height}` },
+    ...children
+  );
+}
+
+// ============================================================================
+// Serialisation
+// ============================================================================
+
+/** Order attributes are written in; anything else follows alphabetically */
+const ATTRIBUTE_ORDER = [
+  'xmlns',
+  'id',
+  'x',
+  'y',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+  'cx',
+  'cy',
+  'r',
+  'width',
+  'height',
+  'viewBox',
+  'd',
+  'offset',
+  'fill',
+  'stopColor',
+  'fillRule',
+  'rx',
+  'ry',
+  'stroke',
+  'strokeWidth',
+  'fontSize',
+  'fontFamily',
+  'fontWeight',
+  'textAnchor',
+  'dominantBaseline',
+  'transform',
+  'opacity',
+  'strokeDasharray',
+];
+
+/** Attributes validated with `safeColor()` */
+const PAINT_ATTRIBUTES = new Set(['fill', 'stroke', 'stopColor']);
+
+/** Elements moved into the document's `<defs>` wherever they appear */
+const DEFINITION_TAGS = new Set<SvgTag>(['linearGradient']);
+
+function attributeRank(key: string): number {
+  const rank = ATTRIBUTE_ORDER.indexOf(key);
+  return rank === -1 ? ATTRIBUTE_ORDER.length : rank;
+}
+
+function attributeName(key: string): string {
+  return key === 'viewBox' ? key : key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function attributeValue(key: string, value: string | number): string {
+  if (PAINT_ATTRIBUTES.has(key)) return safeColor(String(value));
+  if (key === 'id') return safeId(String(value));
+  return escapeXml(String(value));
+}
+
+/**
+ * The text content of an element's own text children
+ */
+function textContent(element: SvgElement): string {
+  return element.children.map((child) => (child.kind === 'text' ? child.value : '')).join('');
+}
+
+function serializeAttributes(element: SvgElement): string {
+  const attrs: Record<string, string | number | undefined> = { ...element.attrs };
+  if (element.tag === 'text') {
+    attrs.fontFamily = resolveFontFamily(textContent(element), attrs.fontFamily as string);
+  }
+
+  return Object.entries(attrs)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .sort(([a], [b]) => attributeRank(a) - attributeRank(b) || a.localeCompare(b))
+    .map(([key, value]) => ` ${attributeName(key)}="${attributeValue(key, value)}"`)
+    .join('');
+}
+
+function serializeNode(node: SvgNode): string {
+  if (node.kind === 'text') return escapeXml(node.value);
+  if (node.kind === 'raw') return node.markup;
+
+  const open = `<${node.tag}${serializeAttributes(node)}`;
+  if (node.tag === 'svg') {
+    // One top-level element per line
+    const children = hoistDefinitions(node.children).map(serializeNode).join('\n');
+    return `${open}>\n${children}\n</svg>`;
+  }
+  if (node.children.length === 0) return `${open}/>`;
+  return `${open}>${node.children.map(serializeNode).join('')}</${node.tag}>`;
+}
+
+/**
+ * Moves every definition in a document (the contents of `<defs>`, and
+ * gradients anywhere) into a single `<defs>` at the top. Identical
+ * definitions are written once; two different ones with the same ID throw.
+ */
+function hoistDefinitions(children: SvgNode[]): SvgNode[] {
+  const definitions = new Map<string, string>();
+
+  const define = (node: SvgNode): void => {
+    const markup = serializeNode(node);
+    const id =
+      node.kind === 'element' && 'id' in node.attrs ? safeId(String(node.attrs.id)) : markup;
+    const existing = definitions.get(id);
+    if (existing !== undefined && existing !== markup) {
+      throw new Error(`Conflicting SVG definitions for #${id}`);
+    }
+    definitions.set(id, markup);
+  };
+
+  const collect = (nodes: SvgNode[]): SvgNode[] =>
+    nodes.flatMap((node): SvgNode[] => {
+      if (node.kind !== 'element') return [node];
+      if (node.tag === 'defs') {
+        node.children.forEach(define);
+        return [];
+      }
+      if (DEFINITION_TAGS.has(node.tag)) {
+        define(node);
+        return [];
+      }
+      return [{ ...node, children: collect(node.children) }];
+    });
+
+  const content = collect(children);
+  if (definitions.size === 0) return content;
+  return [h('defs', {}, [...definitions.values()].map(raw)), ...content];
+}
+
+/**
+ * Serialises nodes to SVG markup. A root `<svg>` element gets its
+ * definitions hoisted and de-duplicated.
+ */
+export function renderSvg(...children: SvgChild[]): string {
+  return fragment(children).map(serializeNode).join('');
+}
@@ -0,0 +1,170 @@
+/**
+ * Tests for Text Layout
+ *
+ * @module services/text-layout.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fitFontSize, fitText, measureText, truncateText, wrapText } from './text-layout';
+
+const body = { fontSize: 16, fontFamily: 'Onest' };
+const header = { fontSize: 24, fontFamily: 'Space Grotesk', fontWeight: 600 };
+
+describe('text-layout', () => {
+  describe('measureText', () => {
+    it('should measure with the font metrics', () => {
+      // Onest "AVATAR" is 3720 units at 1000 units per em
+      expect(measureText('AVATAR', body)).toBeCloseTo(3.72 * 16, 1);
+    });
+
+    it('should scale with the font size', () => {
+      expect(measureText('Snow White', { ...body, fontSize: 32 })).toBeCloseTo(
+        measureText('Snow White', body) * 2
+      );
+    });
+
+    it('should apply kerning', () => {
+      const pair = measureText('AV', body);
+
+      expect(pair).toBeLessThan(measureText('A', body) + measureText('V', body));
+    });
+
+    it('should widen text at heavier weights', () => {
+      expect(measureText('Dalamud Red', { ...body, fontWeight: 700 })).toBeGreaterThan(
+        measureText('Dalamud Red', { ...body, fontWeight: 400 })
+      );
+      expect(measureText('Dalamud Red', { ...body, fontWeight: 'bold' })).toBe(
+        measureText('Dalamud Red', { ...body, fontWeight: 700 })
+      );
+    });
+
+    it('should use the renderer default family when none is set', () => {
+      expect(measureText('Jet Black', { fontSize: 16 })).toBe(measureText('Jet Black', body));
+    });
+
+    it('should fall through the family list for missing characters', () => {
+      // Onest has no Δ; Habibi does
+      expect(measureText('Δ', { fontSize: 16, fontFamily: 'Onest, Habibi' })).toBeCloseTo(
+        measureText('Δ', { fontSize: 16, fontFamily: 'Habibi' })
+      );
+    });
+
+    it('should measure characters no brand font has as full-width', () => {
+      expect(measureText('スノウ', { fontSize: 20, fontFamily: 'Onest, Noto Sans JP' })).toBe(60);
+    });
+
+    it('should measure empty text as zero', () => {
+      expect(measureText('', body)).toBe(0);
+    });
+  });
+
+  describe('truncateText', () => {
+    it('should keep text that fits', () => {
+      expect(truncateText('Soot Black', 200, body)).toBe('Soot Black');
+    });
+
+    it('should cut text to the width with an ellipsis', () => {
+      const result = truncateText('Pastel Blue Dye', 80, body);
+
+      expect(result).toMatch(/^Pastel.*…$/);
+      expect(measureText(result, body)).toBeLessThanOrEqual(80);
+    });
+
+    it('should not leave a space before the ellipsis', () => {
+      expect(truncateText('Dalamud Red', measureText('Dalamud …', body), body)).toBe('Dalamud…');
+    });
+
+    it('should cut CJK text by character', () => {
+      const style = { fontSize: 10, fontFamily: 'Onest, Noto Sans JP' };
+
+      expect(truncateText('ピュアホワイト', 40, style)).toBe('ピュア…');
+    });
+
+    it('should fall back to a lone ellipsis', () => {
+      expect(truncateText('Snow White', 5, body)).toBe('…');
+    });
+  });
+
+  describe('fitFontSize', () => {
+    it('should keep the size of text that fits', () => {
+      expect(fitFontSize('Jet Black', 300, header, 12)).toBe(24);
+    });
+
+    it('should shrink text to fit the width', () => {
+      const size = fitFontSize('Turquoise Green', 150, header, 10);
+
+      expect(size).toBeLessThan(24);
+      expect(measureText('Turquoise Green', { ...header, fontSize: size })).toBeLessThanOrEqual(
+        150
+      );
+    });
+
+    it('should not shrink below the minimum', () => {
+      expect(fitFontSize('Turquoise Green', 20, header, 14)).toBe(14);
+    });
+
+    it('should not shrink without a minimum', () => {
+      expect(fitFontSize('Turquoise Green', 20, header)).toBe(24);
+    });
+  });
+
+  describe('fitText', () => {
+    it('should shrink before truncating', () => {
+      const result = fitText('Turquoise Green', 180, header, 16);
+
+      expect(result.content).toBe('Turquoise Green');
+      expect(result.fontSize).toBeLessThan(24);
+    });
+
+    it('should truncate at the minimum size', () => {
+      const result = fitText('Turquoise Green', 80, header, 16);
+
+      expect(result.fontSize).toBe(16);
+      expect(result.content).toMatch(/…$/);
+      expect(measureText(result.content, { ...header, fontSize: 16 })).toBeLessThanOrEqual(80);
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should keep text that fits on one line', () => {
+      expect(wrapText('Snow White', 200, body)).toEqual(['Snow White']);
+    });
+
+    it('should break at spaces', () => {
+      const lines = wrapText('Find matching dyes for your FFXIV glamour', 160, body);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.join(' ')).toBe('Find matching dyes for your FFXIV glamour');
+      for (const line of lines) expect(measureText(line, body)).toBeLessThanOrEqual(160);
+    });
+
+    it('should break words wider than a line', () => {
+      const lines = wrapText('Farbstoffkombinationen', 60, body);
+
+      expect(lines.join('')).toBe('Farbstoffkombinationen');
+      for (const line of lines) expect(measureText(line, body)).toBeLessThanOrEqual(60);
+    });
+
+    it('should break Chinese and Japanese text between characters', () => {
+      const style = { fontSize: 10, fontFamily: 'Onest, Noto Sans SC' };
+
+      expect(wrapText('为你的幻化找到搭配的染剂', 40, style)).toEqual([
+        '为你的幻',
+        '化找到搭',
+        '配的染剂',
+      ]);
+    });
+
+    it('should truncate the last line past maxLines', () => {
+      const lines = wrapText('Find matching dyes for your FFXIV glamour', 120, body, 2);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toMatch(/…$/);
+      expect(measureText(lines[1], body)).toBeLessThanOrEqual(120);
+    });
+
+    it('should return no lines for blank text', () => {
+      expect(wrapText('  ', 100, body)).toEqual([]);
+    });
+  });
+});
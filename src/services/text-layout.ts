@@ -0,0 +1,257 @@
+/**
+ * Text Layout
+ *
+ * Measures text with the metrics of the bundled fonts (advance widths,
+ * pair kerning and the variable weight axis; see font-metrics.ts), so
+ * generators can size, truncate and wrap labels to the space they have
+ * instead of guessing from character counts:
+ *
+ *   const label = fitText(name, swatchSize, { fontSize: 16, fontFamily: FONTS.header });
+ *   text(x, y, label.content, { fontSize: label.fontSize, ... });
+ *
+ * Widths are in pixels, as drawn by resvg. The CJK fallback fonts are only
+ * loaded at render time, so characters no brand font has are measured as
+ * full-width (1em), which matches Noto Sans CJK.
+ *
+ * @module services/text-layout
+ */
+
+import { getFontBuffers } from './fonts';
+import { FontMetrics } from './font-metrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Font settings of a text element, as passed to `text()`
+ */
+export interface TextStyle {
+  fontSize: number;
+  /** Comma-separated family list; the renderer default (Onest) when unset */
+  fontFamily?: string;
+  fontWeight?: number | string;
+}
+
+/** Text shrunk and truncated to fit a width */
+export interface FittedText {
+  content: string;
+  fontSize: number;
+}
+
+// ============================================================================
+// Fonts
+// ============================================================================
+
+/** The renderer's default family, for text without a `font-family` */
+const DEFAULT_FONT_FAMILY = 'Onest';
+
+/** Width of characters no brand font has, in em */
+const FALLBACK_ADVANCE = 1;
+
+/** Appended to truncated text; every brand font has it */
+const ELLIPSIS = '…';
+
+/** CSS weight keywords */
+const WEIGHT_KEYWORDS: Record<string, number> = { normal: 400, bold: 700 };
+
+// Parsed on first use, from the buffers the renderer loads
+let fontMetricsCache: Map<string, FontMetrics> | null = null;
+
+/**
+ * Metrics of the bundled fonts, keyed by family name
+ */
+function bundledFonts(): Map<string, FontMetrics> {
+  if (!fontMetricsCache) {
+    fontMetricsCache = new Map(
+      getFontBuffers().map((buffer) => {
+        const font = new FontMetrics(buffer);
+        return [font.family, font];
+      })
+    );
+  }
+  return fontMetricsCache;
+}
+
+/**
+ * The bundled fonts of a family list, in order; unknown families are skipped
+ */
+function fontsFor(fontFamily: string | undefined): FontMetrics[] {
+  const fonts = bundledFonts();
+  return (fontFamily ?? DEFAULT_FONT_FAMILY)
+    .split(',')
+    .map((family) => fonts.get(family.trim().replace(/^['"]|['"]$/g, '')))
+    .filter((font): font is FontMetrics => font !== undefined);
+}
+
+/**
+ * A `font-weight` value as a number, or undefined for the font's default
+ */
+function numericWeight(weight: number | string | undefined): number | undefined {
+  if (typeof weight === 'number') return weight;
+  if (weight === undefined) return undefined;
+  return WEIGHT_KEYWORDS[weight] ?? (Number.isFinite(Number(weight)) ? Number(weight) : undefined);
+}
+
+// ============================================================================
+// Measurement
+// ============================================================================
+
+/**
+ * Width of a text in pixels. Each character is measured with the first
+ * font of the family list that has it; kerning applies between characters
+ * of the same font.
+ */
+export function measureText(content: string, style: TextStyle): number {
+  const fonts = fontsFor(style.fontFamily);
+  const weight = numericWeight(style.fontWeight);
+
+  let width = 0;
+  let previous: { font: FontMetrics; glyph: number } | undefined;
+  for (const char of content) {
+    const codePoint = char.codePointAt(0)!;
+    const font = fonts.find((candidate) => candidate.glyphId(codePoint) !== 0);
+    if (!font) {
+      width += FALLBACK_ADVANCE * style.fontSize;
+      previous = undefined;
+      continue;
+    }
+
+    const glyph = font.glyphId(codePoint);
+    let units = font.advanceWidth(glyph, weight);
+    if (previous?.font === font) units += font.kern(previous.glyph, glyph);
+    width += (units / font.unitsPerEm) * style.fontSize;
+    previous = { font, glyph };
+  }
+  return width;
+}
+
+/**
+ * Cut a text to fit a width, ending it with an ellipsis when anything was
+ * cut. Text that fits is returned unchanged.
+ */
+export function truncateText(content: string, maxWidth: number, style: TextStyle): string {
+  if (measureText(content, style) <= maxWidth) return content;
+
+  const chars = [...content];
+  let low = 0;
+  let high = chars.length - 1;
+  // Longest prefix that fits with the ellipsis
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const candidate = chars.slice(0, mid).join('').trimEnd() + ELLIPSIS;
+    if (measureText(candidate, style) <= maxWidth) low = mid;
+    else high = mid - 1;
+  }
+  return chars.slice(0, low).join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * The largest font size, at most `style.fontSize`, at which a text fits a
+ * width. Never smaller than `minFontSize`, so the text may still overflow.
+ */
+export function fitFontSize(
+  content: string,
+  maxWidth: number,
+  style: TextStyle,
+  minFontSize: number = style.fontSize
+): number {
+  const width = measureText(content, style);
+  if (width <= maxWidth) return style.fontSize;
+  // Widths scale linearly with the font size
+  const size = Math.floor(((style.fontSize * maxWidth) / width) * 2) / 2;
+  return Math.max(minFontSize, size);
+}
+
+/**
+ * Shrink a text towards `minFontSize` to fit a width, then truncate it if
+ * it still does not fit
+ */
+export function fitText(
+  content: string,
+  maxWidth: number,
+  style: TextStyle,
+  minFontSize?: number
+): FittedText {
+  const fontSize = fitFontSize(content, maxWidth, style, minFontSize);
+  return { content: truncateText(content, maxWidth, { ...style, fontSize }), fontSize };
+}
+
+// ============================================================================
+// Wrapping
+// ============================================================================
+
+/** Characters a line may break between without a space (Chinese and Japanese) */
+const BREAK_ANYWHERE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+
+/**
+ * Split a text into the units lines are built from: words with their
+ * trailing spaces, and single Chinese or Japanese characters
+ */
+function breakUnits(content: string): string[] {
+  const units: string[] = [];
+  for (const word of content.match(/\s*\S+\s*/g) ?? []) {
+    let run = '';
+    for (const char of word) {
+      if (BREAK_ANYWHERE.test(char)) {
+        units.push(run + char);
+        run = '';
+      } else {
+        run += char;
+      }
+    }
+    if (!run) continue;
+    // Spaces after a CJK character belong to it
+    if (!run.trim() && units.length > 0) units[units.length - 1] += run;
+    else units.push(run);
+  }
+  return units;
+}
+
+/**
+ * Wrap a text into lines that each fit a width, breaking at spaces (or
+ * between Chinese and Japanese characters). Words wider than a line are
+ * broken where they overflow. With `maxLines`, the last line is truncated
+ * with an ellipsis.
+ */
+export function wrapText(
+  content: string,
+  maxWidth: number,
+  style: TextStyle,
+  maxLines: number = Infinity
+): string[] {
+  // Lines keep their trailing spaces until the end, so the text can be
+  // rejoined for the truncated last line
+  const lines: string[] = [];
+  let line = '';
+  const fits = (candidate: string): boolean =>
+    measureText(candidate.trim(), style) <= maxWidth;
+
+  for (const unit of breakUnits(content)) {
+    if (fits(line + unit)) {
+      line += unit;
+      continue;
+    }
+    if (line.trim()) lines.push(line);
+    line = '';
+    if (fits(unit)) {
+      line = unit;
+      continue;
+    }
+    // A single word wider than the line: break it by character
+    for (const char of unit) {
+      if (line.trim() && !fits(line + char)) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line.trim()) lines.push(line);
+
+  if (lines.length > maxLines) {
+    const rest = lines.splice(maxLines - 1).join('');
+    lines.push(truncateText(rest.trim(), maxWidth, style));
+  }
+  return lines.map((text) => text.trim());
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for Signed Image URLs
+ *
+ * @module services/url-signing.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseSigningKeys,
+  signImagePath,
+  verifyImageSignature,
+  checkImageSignature,
+  getPrimarySigningKey,
+  isSigningBypassed,
+  SIGNATURE_MAC_LENGTH,
+  type SigningKey,
+} from './url-signing';
+import type { Env } from '../types';
+
+const k1: SigningKey = { id: 'k1', secret: 'old-secret' };
+const k2: SigningKey = { id: 'k2', secret: 'new-secret' };
+const PATH = '/gradient/5771/5772/5.png?algo=oklab';
+const KEYS = 'k2:new-secret,k1:old-secret';
+
+function env(vars: Partial<Env> = {}): Env {
+  return {
+    APP_BASE_URL: 'https://xivdyetools.app',
+    OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+    ...vars,
+  };
+}
+
+describe('url-signing', () => {
+  describe('parseSigningKeys', () => {
+    it('should parse id:secret pairs in order', () => {
+      expect(parseSigningKeys('k2:new-secret, k1:old-secret')).toEqual([k2, k1]);
+    });
+
+    it('should keep colons inside secrets', () => {
+      expect(parseSigningKeys('k1:a:b:c')).toEqual([{ id: 'k1', secret: 'a:b:c' }]);
+    });
+
+    it('should skip malformed entries', () => {
+      expect(parseSigningKeys('nosecret,:x,k.1:y,k3:,k4:ok')).toEqual([
+        { id: 'k4', secret: 'ok' },
+      ]);
+    });
+
+    it('should return no keys when unset', () => {
+      expect(parseSigningKeys(undefined)).toEqual([]);
+      expect(parseSigningKeys('')).toEqual([]);
+    });
+  });
+
+  describe('signImagePath', () => {
+    it('should prefix the key ID to a truncated base64url MAC', () => {
+      const signature = signImagePath(PATH, k1);
+
+      expect(signature).toMatch(new RegExp(`^k1\\.[A-Za-z0-9_-]{${SIGNATURE_MAC_LENGTH}}$`));
+    });
+
+    it('should be deterministic', () => {
+      expect(signImagePath(PATH, k1)).toBe(signImagePath(PATH, k1));
+    });
+
+    it('should differ per path and per key', () => {
+      expect(signImagePath(PATH, k1)).not.toBe(signImagePath('/gradient/5771/5772/6.png', k1));
+      expect(signImagePath(PATH, k1).slice(3)).not.toBe(signImagePath(PATH, k2).slice(3));
+    });
+  });
+
+  describe('verifyImageSignature', () => {
+    it('should accept a signature from any active key', () => {
+      expect(verifyImageSignature(PATH, signImagePath(PATH, k1), [k2, k1])).toBe(true);
+      expect(verifyImageSignature(PATH, signImagePath(PATH, k2), [k2, k1])).toBe(true);
+    });
+
+    it('should reject signatures from retired keys', () => {
+      expect(verifyImageSignature(PATH, signImagePath(PATH, k1), [k2])).toBe(false);
+    });
+
+    it('should reject a signature for a different path', () => {
+      const signature = signImagePath('/gradient/5771/5772/5.png', k1);
+
+      expect(verifyImageSignature(PATH, signature, [k1])).toBe(false);
+    });
+
+    it('should reject a key ID paired with another key\'s MAC', () => {
+      const forged = `k1.${signImagePath(PATH, k2).slice(3)}`;
+
+      expect(verifyImageSignature(PATH, forged, [k1, k2])).toBe(false);
+    });
+
+    it.each(['', 'k1', 'k1.', '.abc', 'k1.short', 'k9.AAAAAAAAAAAAAAAAAAAAAA'])(
+      'should reject malformed signature %j',
+      (signature) => {
+        expect(verifyImageSignature(PATH, signature, [k1])).toBe(false);
+      }
+    );
+  });
+
+  describe('checkImageSignature', () => {
+    const keys = { OG_SIGNING_KEYS: KEYS };
+
+    it('should report valid signatures', () => {
+      expect(checkImageSignature(env(keys), PATH, signImagePath(PATH, k1))).toBe('valid');
+    });
+
+    it('should report missing signatures', () => {
+      expect(checkImageSignature(env(keys), PATH, undefined)).toBe('missing');
+    });
+
+    it('should report invalid signatures', () => {
+      expect(checkImageSignature(env(keys), PATH, 'k1.nope')).toBe('invalid');
+    });
+
+    it('should fail closed with a warning when no keys are configured', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const signature = signImagePath(PATH, k1);
+
+      expect(checkImageSignature(env(), PATH, signature)).toBe('unconfigured');
+      expect(checkImageSignature(env({ OG_SIGNING_KEYS: '' }), PATH, undefined)).toBe(
+        'unconfigured'
+      );
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('OG_SIGNING_KEYS');
+      warn.mockRestore();
+    });
+
+    it('should let the dev bypass through, with or without keys', () => {
+      expect(checkImageSignature(env({ OG_SIGNING_BYPASS: '1' }), PATH, undefined)).toBe(
+        'bypassed'
+      );
+      expect(checkImageSignature(env({ ...keys, OG_SIGNING_BYPASS: '1' }), PATH, 'x.y')).toBe(
+        'bypassed'
+      );
+    });
+  });
+
+  describe('isSigningBypassed', () => {
+    it('should only accept explicit values', () => {
+      expect(isSigningBypassed(env({ OG_SIGNING_BYPASS: 'true' }))).toBe(true);
+      expect(isSigningBypassed(env({ OG_SIGNING_BYPASS: '0' }))).toBe(false);
+      expect(isSigningBypassed(env())).toBe(false);
+    });
+  });
+
+  describe('getPrimarySigningKey', () => {
+    it('should sign with the first listed key', () => {
+      expect(getPrimarySigningKey(env({ OG_SIGNING_KEYS: KEYS }))).toEqual(k2);
+    });
+
+    it('should be undefined without keys', () => {
+      expect(getPrimarySigningKey(env())).toBeUndefined();
+    });
+  });
+});
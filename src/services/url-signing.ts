@@ -0,0 +1,142 @@
+/**
+ * Signed Image URLs
+ *
+ * `og:image` URLs carry an HMAC of their normalized image path, so only
+ * URLs this worker emitted trigger a fresh render. Anything else gets a
+ * cheap, cached fallback image instead of burning CPU on arbitrary params.
+ *
+ * Keys come from the `OG_SIGNING_KEYS` secret as `id:secret` pairs,
+ * comma-separated. The first key signs; every listed key verifies, so a
+ * new key can be rolled out ahead of the old one being removed:
+ *
+ *   OG_SIGNING_KEYS = "k2:new-secret,k1:old-secret"
+ *
+ * With no keys configured the worker fails closed: every non-default image
+ * request gets the fallback, and a warning is logged. A missing or mistyped
+ * secret must not turn it back into a free renderer; use the dev bypass
+ * (`OG_SIGNING_BYPASS`) to render unsigned URLs locally.
+ *
+ * Signatures are `<key id>.<base64url HMAC-SHA256>`, truncated.
+ *
+ * @module services/url-signing
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { Env } from '../types';
+
+/** Length of the encoded MAC in a signature (base64url characters, 128 bits) */
+export const SIGNATURE_MAC_LENGTH = 22;
+
+/**
+ * A signing key
+ */
+export interface SigningKey {
+  /** Short key ID embedded in signatures, so verification picks the right key */
+  id: string;
+  secret: string;
+}
+
+/**
+ * Outcome of checking an image request's signature
+ */
+export type SignatureStatus = 'valid' | 'missing' | 'invalid' | 'unconfigured' | 'bypassed';
+
+/** Whether this isolate has already warned about missing keys */
+let warnedNoKeys = false;
+
+/**
+ * Parse the `OG_SIGNING_KEYS` secret.
+ * Malformed entries are skipped.
+ */
+export function parseSigningKeys(raw: string | undefined): SigningKey[] {
+  if (!raw) return [];
+
+  const keys: SigningKey[] = [];
+  for (const entry of raw.split(',')) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator > 0 && /^[A-Za-z0-9_-]+$/.test(id) && secret) {
+      keys.push({ id, secret });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Whether the dev bypass is on (`OG_SIGNING_BYPASS=1` in `.dev.vars` for
+ * `wrangler dev`). Never set it in `wrangler.toml`.
+ */
+export function isSigningBypassed(env: Env): boolean {
+  return env.OG_SIGNING_BYPASS === '1' || env.OG_SIGNING_BYPASS === 'true';
+}
+
+function computeMac(path: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(path)
+    .digest('base64url')
+    .slice(0, SIGNATURE_MAC_LENGTH);
+}
+
+/**
+ * Sign a normalized image path (as built by the route registry, without `h`)
+ *
+ * @example
+ * signImagePath('/gradient/5771/5772/5.png', { id: 'k1', secret });
+ * // 'k1.Qm9nW3x0bTzq1pX8yL4e_A'
+ */
+export function signImagePath(path: string, key: SigningKey): string {
+  return `${key.id}.${computeMac(path, key.secret)}`;
+}
+
+/**
+ * Check a signature against every active key
+ */
+export function verifyImageSignature(
+  path: string,
+  signature: string,
+  keys: readonly SigningKey[]
+): boolean {
+  const dot = signature.indexOf('.');
+  if (dot <= 0) return false;
+
+  const key = keys.find((k) => k.id === signature.slice(0, dot));
+  if (!key) return false;
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(computeMac(path, key.secret));
+  const actual = encoder.encode(signature.slice(dot + 1));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check the signature of an image request.
+ * Without any configured key nothing verifies, so every request is
+ * `unconfigured` (and falls back) unless the dev bypass is on.
+ */
+export function checkImageSignature(
+  env: Env,
+  path: string,
+  signature: string | undefined
+): SignatureStatus {
+  if (isSigningBypassed(env)) return 'bypassed';
+
+  const keys = parseSigningKeys(env.OG_SIGNING_KEYS);
+  if (keys.length === 0) {
+    if (!warnedNoKeys) {
+      warnedNoKeys = true;
+      console.warn('[UrlSigning] OG_SIGNING_KEYS is not set; serving fallback images');
+    }
+    return 'unconfigured';
+  }
+
+  if (!signature) return 'missing';
+  return verifyImageSignature(path, signature, keys) ? 'valid' : 'invalid';
+}
+
+/**
+ * The key new URLs are signed with, if any
+ */
+export function getPrimarySigningKey(env: Env): SigningKey | undefined {
+  return parseSigningKeys(env.OG_SIGNING_KEYS)[0];
+}
@@ -0,0 +1,188 @@
+/**
+ * Tests for Compact Share State Codec
+ *
+ * @module share-codec.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SHARE_CODEC_TABLES,
+  ShareCodecError,
+  decodeShareState,
+  encodeShareState,
+  expandShareQuery,
+} from './share-codec';
+import {
+  CHARACTER_GENDERS,
+  COLOR_SHEETS,
+  HARMONY_TYPES,
+  LOCALES,
+  MATCHING_ALGORITHMS,
+  SUBRACES,
+  VISION_TYPES,
+  validateSearchParams,
+} from './validation';
+import { IMAGE_ROUTES } from './image-routes';
+import type { ShareParams, ToolId } from './types';
+
+/**
+ * Encoded states the format is frozen on. A change here breaks every
+ * compact link already shared.
+ */
+const GOLDEN_STATES: Array<[ShareParams, string]> = [
+  [{ tool: 'harmony', dye: 5771, harmony: 'triadic' }, 'AIstAw'],
+  [{ tool: 'harmony', dye: 5771, harmony: 'shades', algo: 'oklab', perceptual: true }, 'CIstGQ'],
+  [{ tool: 'gradient', start: 5771, end: 5772, steps: 7, algo: 'ciede2000' }, 'EYstjC0H'],
+  [
+    { tool: 'mixer', dyeA: 5771, dyeB: 5772, dyeC: 5773, ratio: 50, algo: 'euclidean' },
+    'GostjC2yjS0',
+  ],
+  [
+    {
+      tool: 'swatch',
+      color: '8B4513',
+      limit: 5,
+      sheet: 'hairColors',
+      race: 'SeekerOfTheSun',
+      gender: 'Female',
+      algo: 'oklab',
+    },
+    'C4tFEyUIBw',
+  ],
+  [{ tool: 'comparison', dyes: [5771, 5772, 5773, 5774] }, 'BIstjC2NLY4t'],
+  [{ tool: 'accessibility', dyes: [5771, 5772], vision: 'protanopia' }, 'BQKLLYwt'],
+];
+
+/**
+ * Decode a state and validate it like a page query
+ */
+function decode(tool: ToolId, state: string): ShareParams {
+  return { tool, ...validateSearchParams(tool, decodeShareState(tool, state)) } as ShareParams;
+}
+
+describe('share-codec', () => {
+  describe('SHARE_CODEC_TABLES', () => {
+    it('should cover every accepted value', () => {
+      const accepted = {
+        tools: Object.keys(IMAGE_ROUTES),
+        algorithms: MATCHING_ALGORITHMS,
+        harmonies: HARMONY_TYPES,
+        sheets: COLOR_SHEETS,
+        subraces: SUBRACES,
+        genders: CHARACTER_GENDERS,
+        visions: VISION_TYPES,
+        locales: LOCALES,
+      };
+
+      for (const [table, values] of Object.entries(accepted)) {
+        const wire: readonly string[] = SHARE_CODEC_TABLES[table as keyof typeof accepted];
+        expect(wire).toEqual(expect.arrayContaining([...values]));
+      }
+    });
+
+    it('should fit the bit fields they are packed into', () => {
+      expect(SHARE_CODEC_TABLES.tools.length).toBeLessThanOrEqual(8);
+      expect(SHARE_CODEC_TABLES.algorithms.length).toBeLessThanOrEqual(3);
+      expect(SHARE_CODEC_TABLES.locales.length).toBeLessThanOrEqual(7);
+      expect(SHARE_CODEC_TABLES.harmonies.length).toBeLessThanOrEqual(15);
+      expect(SHARE_CODEC_TABLES.genders.length).toBeLessThanOrEqual(15);
+    });
+  });
+
+  describe('encodeShareState', () => {
+    it.each(GOLDEN_STATES)('should encode %j as %s', (share, state) => {
+      expect(encodeShareState(share)).toBe(state);
+    });
+
+    it('should encode a custom color as a 0 itemID and its RGB bytes', () => {
+      expect(encodeShareState({ tool: 'harmony', dye: 'hex:8B4513', harmony: 'triadic' })).toBe(
+        'AACLRRMD'
+      );
+    });
+
+    it('should only use base64url characters', () => {
+      for (const [share] of GOLDEN_STATES) {
+        expect(encodeShareState(share)).toMatch(/^[A-Za-z0-9_-]+$/);
+      }
+    });
+
+    it('should reject values the format cannot represent', () => {
+      expect(() =>
+        encodeShareState({ tool: 'harmony', dye: 5771, harmony: 'pentadic' as 'triadic' })
+      ).toThrow(ShareCodecError);
+      expect(() => encodeShareState({ tool: 'comparison', dyes: [-1] })).toThrow(
+        ShareCodecError
+      );
+    });
+  });
+
+  describe('decodeShareState', () => {
+    it.each(GOLDEN_STATES)('should decode %j from %s', (share, state) => {
+      expect(decode(share.tool, state)).toEqual(share);
+    });
+
+    it.each([
+      { tool: 'harmony', dye: 'hex:8B4513', harmony: 'triadic' },
+      { tool: 'gradient', start: 'hex:000000', end: 5771, steps: 5 },
+      { tool: 'mixer', dyeA: 5771, dyeB: 'hex:FFFFFF', dyeC: 'hex:00FF7F', ratio: 20 },
+      { tool: 'comparison', dyes: [5771, 'hex:8B4513', 5772] },
+      { tool: 'accessibility', dyes: ['hex:0000FF'], vision: 'tritanopia' },
+    ] as ShareParams[])('should round-trip custom colors in %j', (share) => {
+      expect(decode(share.tool, encodeShareState(share))).toEqual(share);
+    });
+
+    it.each(LOCALES)('should round-trip lang=%s', (lang) => {
+      const share: ShareParams = { tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 50, lang };
+
+      expect(decode('mixer', encodeShareState(share))).toEqual(share);
+    });
+
+    it('should decode to v1 query params', () => {
+      expect(decodeShareState('swatch', 'C4tFEyUIBw').toString()).toBe(
+        'algo=oklab&color=8b4513&limit=5&gender=Female&sheet=hairColors&race=SeekerOfTheSun'
+      );
+    });
+
+    it('should reject state for another tool', () => {
+      expect(() => decodeShareState('gradient', 'AIstAw')).toThrow(/not for the gradient tool/);
+    });
+
+    it.each([
+      ['empty', ''],
+      ['not base64url', 'AIst+w=='],
+      ['too long', 'A'.repeat(65)],
+      ['truncated', 'AIs'],
+      ['trailing bytes', 'AIstAwA'],
+      ['an unknown tool', 'Bw'],
+      ['an unknown harmony', 'AIstDw'],
+      ['an oversized itemID', 'BP____8B'],
+    ])('should reject %s state', (_case, state) => {
+      const tool = state.startsWith('B') ? 'comparison' : 'harmony';
+
+      expect(() => decodeShareState(tool, state)).toThrow(ShareCodecError);
+    });
+  });
+
+  describe('expandShareQuery', () => {
+    it('should read links without a version, and v=1 links, as query params', () => {
+      const legacy = new URLSearchParams('dye=5771&harmony=triadic');
+      const v1 = new URLSearchParams('dye=5771&harmony=triadic&v=1');
+
+      expect(expandShareQuery('harmony', legacy)).toBe(legacy);
+      expect(expandShareQuery('harmony', v1)).toBe(v1);
+    });
+
+    it('should decode v=2 links, ignoring other params', () => {
+      const query = expandShareQuery('harmony', new URLSearchParams('s=AIstAw&v=2&dye=1'));
+
+      expect(query.get('dye')).toBe('5771');
+      expect(query.get('harmony')).toBe('triadic');
+    });
+
+    it('should reject v=2 links without state', () => {
+      expect(() => expandShareQuery('harmony', new URLSearchParams('v=2'))).toThrow(
+        ShareCodecError
+      );
+    });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Compact Share State Codec (v=2)
+ *
+ * Packs a tool's share params into a few bytes, sent base64url-encoded as
+ * `?s=…&v=2`, so long links fit in tweets and chat macros:
+ *
+ *   /swatch/?color=8B4513&limit=5&sheet=hairColors&race=SeekerOfTheSun&gender=Female&algo=oklab&v=1
+ *   /swatch/?s=C4tFEyUIBw&v=2
+ *
+ * Layout: a header byte (tool index in bits 0-2, algorithm in bits 3-4,
+ * language in bits 5-7), then the tool's fields. ItemIDs are unsigned
+ * LEB128 varints; a custom color in place of a dye is a 0 varint and three
+ * RGB bytes. Enums are 1-based
+ * indexes into the tables below, with 0 meaning "not set".
+ *
+ * Decoding yields v1-style query params, which then go through the normal
+ * validation, so v1 and v2 links can never disagree. Links without `v`, or
+ * with `v=1`, are read as plain query params.
+ *
+ * @module share-codec
+ */
+
+import type { DyeRef, ShareParams, ToolId } from './types';
+import { customColorHex, isCustomColor } from './dye-refs';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** `v` value of compact share links */
+export const COMPACT_SHARE_VERSION = 2;
+
+/** Longest accepted `s` value; the largest share packs into ~25 characters */
+const MAX_STATE_LENGTH = 64;
+
+/*
+ * Wire tables. Indexes are part of the format: only ever append.
+ */
+const TOOLS: readonly ToolId[] = [
+  'harmony',
+  'gradient',
+  'mixer',
+  'swatch',
+  'comparison',
+  'accessibility',
+];
+const ALGORITHMS = ['oklab', 'ciede2000', 'euclidean'] as const;
+const HARMONIES = [
+  'complementary',
+  'analogous',
+  'triadic',
+  'split-complementary',
+  'tetradic',
+  'square',
+  'monochromatic',
+  'compound',
+  'shades',
+] as const;
+const SHEETS = [
+  'eyeColors',
+  'highlightColors',
+  'lipColorsDark',
+  'lipColorsLight',
+  'tattooColors',
+  'facePaintColorsDark',
+  'facePaintColorsLight',
+  'hairColors',
+  'skinColors',
+] as const;
+const SUBRACES = [
+  'Midlander', 'Highlander', // Hyur
+  'Wildwood', 'Duskwight', // Elezen
+  'Plainsfolk', 'Dunesfolk', // Lalafell
+  'SeekerOfTheSun', 'KeeperOfTheMoon', // Miqo'te
+  'SeaWolf', 'Hellsguard', // Roegadyn
+  'Raen', 'Xaela', // Au Ra
+  'Rava', 'Veena', // Viera
+  'Helion', 'TheLost', // Hrothgar
+] as const;
+const GENDERS = ['Male', 'Female'] as const;
+const VISIONS = ['normal', 'protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'] as const;
+const LOCALES = ['en', 'ja', 'de', 'fr', 'ko', 'zh'] as const;
+
+/** The wire tables, for tests that check they cover every accepted value */
+export const SHARE_CODEC_TABLES = {
+  tools: TOOLS,
+  algorithms: ALGORITHMS,
+  harmonies: HARMONIES,
+  sheets: SHEETS,
+  subraces: SUBRACES,
+  genders: GENDERS,
+  visions: VISIONS,
+  locales: LOCALES,
+} as const;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown for share state that cannot be encoded or decoded
+ */
+export class ShareCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareCodecError';
+  }
+}
+
+// ============================================================================
+// Bytes
+// ============================================================================
+
+/**
+ * 1-based index of a value in a wire table, or 0 when unset
+ */
+function indexOf(table: readonly string[], value: string | undefined, name: string): number {
+  if (value === undefined) return 0;
+  const index = table.indexOf(value);
+  if (index === -1) throw new ShareCodecError(`Unknown ${name}: ${value}`);
+  return index + 1;
+}
+
+/**
+ * Append an unsigned LEB128 varint
+ */
+function writeVarint(bytes: number[], value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value >= 2 ** 28) {
+    throw new ShareCodecError(`Not an itemID: ${value}`);
+  }
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+/**
+ * Append a dye: its itemID, or 0 and the RGB bytes of a custom color
+ */
+function writeDyeRef(bytes: number[], ref: DyeRef): void {
+  if (!isCustomColor(ref)) {
+    if (ref === 0) throw new ShareCodecError('Not an itemID: 0');
+    writeVarint(bytes, ref);
+    return;
+  }
+  const rgb = parseInt(customColorHex(ref).slice(1), 16);
+  if (Number.isNaN(rgb)) throw new ShareCodecError(`Not a custom color: ${ref}`);
+  bytes.push(0, (rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff);
+}
+
+/**
+ * Lowercase hex digits of three RGB bytes
+ */
+function rgbHex(rgb: number[]): string {
+  return rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Sequential reader over decoded bytes
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.done) throw new ShareCodecError('Share state is truncated');
+    return this.bytes[this.offset++];
+  }
+
+  /** An unsigned LEB128 varint of at most 4 bytes */
+  varint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 28; shift += 7) {
+      const byte = this.byte();
+      value |= (byte & 0x7f) << shift;
+      if (byte < 0x80) return value;
+    }
+    throw new ShareCodecError('Share state has an oversized itemID');
+  }
+
+  /** A dye: an itemID, or `hex:` for a 0 varint and RGB bytes */
+  dyeRef(): string {
+    const id = this.varint();
+    if (id !== 0) return String(id);
+    return `hex:${rgbHex([this.byte(), this.byte(), this.byte()])}`;
+  }
+
+  /** Table value at a 1-based index, or undefined for 0 */
+  entry<T extends string>(table: readonly T[], index: number, name: string): T | undefined {
+    if (index === 0) return undefined;
+    const value = table[index - 1];
+    if (value === undefined) throw new ShareCodecError(`Share state has an unknown ${name}`);
+    return value;
+  }
+}
+
+/**
+ * Comma-separated dyes filling the rest of the state
+ */
+function readDyeList(reader: ByteReader): string {
+  const dyes: string[] = [];
+  while (!reader.done) dyes.push(reader.dyeRef());
+  return dyes.join(',');
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(state: string): Uint8Array {
+  if (state.length === 0 || state.length > MAX_STATE_LENGTH || !/^[\w-]+$/.test(state)) {
+    throw new ShareCodecError('Share state is not base64url');
+  }
+  try {
+    const binary = atob(state.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    throw new ShareCodecError('Share state is not base64url');
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Pack share params into a compact `s` value.
+ * Expects validated params (see `normalizeShareParams`): numbers must be in
+ * range and enums known.
+ *
+ * @throws ShareCodecError for values the format cannot represent
+ */
+export function encodeShareState(share: ShareParams): string {
+  const algo = 'algo' in share ? share.algo : undefined;
+  const bytes = [
+    TOOLS.indexOf(share.tool) |
+      (indexOf(ALGORITHMS, algo, 'algorithm') << 3) |
+      (indexOf(LOCALES, share.lang, 'language') << 5),
+  ];
+
+  switch (share.tool) {
+    case 'harmony':
+      writeDyeRef(bytes, share.dye);
+      bytes.push(indexOf(HARMONIES, share.harmony, 'harmony') | (share.perceptual ? 0x10 : 0));
+      break;
+    case 'gradient':
+      writeDyeRef(bytes, share.start);
+      writeDyeRef(bytes, share.end);
+      bytes.push(share.steps & 0xff);
+      break;
+    case 'mixer':
+      writeDyeRef(bytes, share.dyeA);
+      writeDyeRef(bytes, share.dyeB);
+      bytes.push((share.ratio & 0x7f) | (share.dyeC !== undefined ? 0x80 : 0));
+      if (share.dyeC !== undefined) writeDyeRef(bytes, share.dyeC);
+      break;
+    case 'swatch': {
+      const rgb = parseInt(share.color.replace(/^#/, ''), 16);
+      bytes.push((rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff);
+      bytes.push(
+        ((share.limit ?? 0) & 0x0f) | (indexOf(GENDERS, share.gender, 'gender') << 4)
+      );
+      // Sheet context is optional: trailing bytes are only written when set
+      const sheet = indexOf(SHEETS, share.sheet, 'sheet');
+      const race = indexOf(SUBRACES, share.race, 'race');
+      if (sheet || race) bytes.push(sheet);
+      if (race) bytes.push(race);
+      break;
+    }
+    case 'accessibility':
+      bytes.push(indexOf(VISIONS, share.vision, 'vision type'));
+      for (const dye of share.dyes) writeDyeRef(bytes, dye);
+      break;
+    case 'comparison':
+      for (const dye of share.dyes) writeDyeRef(bytes, dye);
+      break;
+  }
+
+  return toBase64Url(bytes);
+}
+
+/**
+ * Unpack an `s` value into the v1 query params it stands for
+ *
+ * @param tool - Tool of the page; must match the tool in the state
+ * @throws ShareCodecError for malformed state
+ */
+export function decodeShareState(tool: ToolId, state: string): URLSearchParams {
+  const reader = new ByteReader(fromBase64Url(state));
+  const header = reader.byte();
+  if (reader.entry(TOOLS, (header & 0x07) + 1, 'tool') !== tool) {
+    throw new ShareCodecError(`Share state is not for the ${tool} tool`);
+  }
+
+  const query: Record<string, string | number | undefined> = {
+    algo: reader.entry(ALGORITHMS, (header >> 3) & 0x03, 'algorithm'),
+    lang: reader.entry(LOCALES, header >> 5, 'language'),
+  };
+
+  switch (tool) {
+    case 'harmony': {
+      query.dye = reader.dyeRef();
+      const flags = reader.byte();
+      query.harmony = reader.entry(HARMONIES, flags & 0x0f, 'harmony');
+      query.perceptual = flags & 0x10 ? 1 : undefined;
+      break;
+    }
+    case 'gradient':
+      query.start = reader.dyeRef();
+      query.end = reader.dyeRef();
+      query.steps = reader.byte();
+      break;
+    case 'mixer': {
+      query.dyeA = reader.dyeRef();
+      query.dyeB = reader.dyeRef();
+      const flags = reader.byte();
+      query.ratio = flags & 0x7f;
+      query.dyeC = flags & 0x80 ? reader.dyeRef() : undefined;
+      break;
+    }
+    case 'swatch': {
+      query.color = rgbHex([reader.byte(), reader.byte(), reader.byte()]);
+      const flags = reader.byte();
+      query.limit = flags & 0x0f || undefined;
+      query.gender = reader.entry(GENDERS, flags >> 4, 'gender');
+      query.sheet = reader.done ? undefined : reader.entry(SHEETS, reader.byte(), 'sheet');
+      query.race = reader.done ? undefined : reader.entry(SUBRACES, reader.byte(), 'race');
+      break;
+    }
+    case 'accessibility':
+      query.vision = reader.entry(VISIONS, reader.byte(), 'vision type');
+      query.dyes = readDyeList(reader);
+      break;
+    case 'comparison':
+      query.dyes = readDyeList(reader);
+      break;
+  }
+
+  if (!reader.done) throw new ShareCodecError('Share state has trailing bytes');
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return params;
+}
+
+/**
+ * The v1 query params of a page query: decoded from `s` for `v=2` links,
+ * the query itself otherwise
+ *
+ * @throws ShareCodecError for `v=2` links with missing or malformed state
+ */
+export function expandShareQuery(tool: ToolId, searchParams: URLSearchParams): URLSearchParams {
+  if (searchParams.get('v') !== String(COMPACT_SHARE_VERSION)) return searchParams;
+  return decodeShareState(tool, searchParams.get('s') ?? '');
+}
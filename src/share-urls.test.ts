@@ -0,0 +1,468 @@
+/**
+ * Tests for Share URL Builders
+ *
+ * @module share-urls.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import {
+  buildCompactShareUrl,
+  buildOgImageUrl,
+  buildShareUrl,
+  canonicalSharePath,
+  canonicalizeShareParams,
+  isCompactShareQuery,
+  normalizeShareParams,
+  parseShareUrl,
+  toCompactShareUrl,
+  toolFromSharePath,
+  DEFAULT_OG_IMAGE_BASE_URL,
+} from './share-urls';
+import { registerImageRoutes, type ImageRouteMatch } from './image-routes';
+import {
+  COLOR_SHEETS,
+  HARMONY_TYPES,
+  MATCHING_ALGORITHMS,
+  VISION_TYPES,
+  ValidationError,
+} from './validation';
+import type { Env, ShareParams, Subrace, ToolId } from './types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ALGORITHMS = [undefined, ...MATCHING_ALGORITHMS];
+
+/**
+ * Every combination of enum-like share params per tool, in canonical
+ * (validated) form: defaults filled in, optional values absent when unset
+ */
+const ALL_SHARES: ShareParams[] = [
+  ...HARMONY_TYPES.flatMap((harmony) =>
+    ALGORITHMS.flatMap((algo) =>
+      [undefined, true].map(
+        (perceptual): ShareParams => ({
+          tool: 'harmony',
+          dye: 5771,
+          harmony,
+          ...(algo && { algo }),
+          ...(perceptual && { perceptual }),
+        })
+      )
+    )
+  ),
+  ...[2, 5, 10].flatMap((steps) =>
+    ALGORITHMS.map(
+      (algo): ShareParams => ({
+        tool: 'gradient',
+        start: 5771,
+        end: 5772,
+        steps,
+        ...(algo && { algo }),
+      })
+    )
+  ),
+  ...[undefined, 5773].flatMap((dyeC) =>
+    [0, 33, 50, 100].flatMap((ratio) =>
+      ALGORITHMS.map(
+        (algo): ShareParams => ({
+          tool: 'mixer',
+          dyeA: 5771,
+          dyeB: 5772,
+          ...(dyeC && { dyeC }),
+          ratio,
+          ...(algo && { algo }),
+        })
+      )
+    )
+  ),
+  ...[undefined, ...COLOR_SHEETS].flatMap((sheet) =>
+    [1, 5, 10].flatMap((limit) =>
+      ALGORITHMS.map(
+        (algo): ShareParams => ({
+          tool: 'swatch',
+          color: '8B4513',
+          limit,
+          ...(sheet && { sheet }),
+          ...((sheet === 'hairColors' || sheet === 'skinColors') && {
+            race: 'SeekerOfTheSun',
+            gender: 'Female' as const,
+          }),
+          ...(algo && { algo }),
+        })
+      )
+    )
+  ),
+  ...[[5771], [5771, 5772], [5771, 5772, 5773], [5771, 5772, 5773, 5774]].flatMap((dyes) => [
+    { tool: 'comparison', dyes } as ShareParams,
+    ...[undefined, ...VISION_TYPES].map(
+      (vision): ShareParams => ({ tool: 'accessibility', dyes, ...(vision && { vision }) })
+    ),
+  ]),
+  { tool: 'harmony', dye: 'hex:8B4513', harmony: 'tetradic' },
+  { tool: 'gradient', start: 'hex:000000', end: 'hex:FFFFFF', steps: 5 },
+  { tool: 'mixer', dyeA: 'hex:8B4513', dyeB: 5771, dyeC: 'hex:00FF7F', ratio: 50 },
+  { tool: 'comparison', dyes: [5771, 'hex:0000FF', 'hex:8B4513'] },
+  { tool: 'accessibility', dyes: ['hex:8B4513'], vision: 'protanopia' },
+];
+
+/**
+ * The params an image route resolves for a share. Images don't depend on
+ * `perceptual`, and an unset vision type is drawn as normal vision.
+ */
+function imageParams(share: ShareParams): object {
+  const { tool, ...params } = share;
+  if (tool === 'harmony') {
+    const { perceptual: _perceptual, ...rest } = params as Record<string, unknown>;
+    return rest;
+  }
+  if (tool === 'accessibility') return { ...params, vision: share.vision ?? 'normal' };
+  return params;
+}
+
+/**
+ * Resolve an image URL through the registered image routes
+ */
+async function resolveImageUrl(url: string): Promise<ImageRouteMatch | null> {
+  const app = new Hono<{ Bindings: Env }>();
+  registerImageRoutes(app, (c, match) => c.json(match));
+
+  const { pathname, search } = new URL(url);
+  const res = await app.request(`${pathname}${search}`);
+  return res.status === 200 ? ((await res.json()) as ImageRouteMatch) : null;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('share-urls', () => {
+  describe('buildShareUrl', () => {
+    it.each([
+      [
+        { tool: 'harmony', dye: 5771, harmony: 'triadic' },
+        'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&v=1',
+      ],
+      [
+        { tool: 'gradient', start: 5771, end: 5772, steps: 7, algo: 'ciede2000' },
+        'https://xivdyetools.app/gradient/?start=5771&end=5772&steps=7&algo=ciede2000&v=1',
+      ],
+      [
+        { tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 60 },
+        'https://xivdyetools.app/mixer/?dyeA=5771&dyeB=5772&ratio=60&v=1',
+      ],
+      [
+        { tool: 'swatch', color: '#8B4513', limit: 5, sheet: 'eyeColors' },
+        'https://xivdyetools.app/swatch/?color=8B4513&limit=5&sheet=eyeColors&v=1',
+      ],
+      [
+        { tool: 'comparison', dyes: [5771, 5772] },
+        'https://xivdyetools.app/comparison/?dyes=5771,5772&v=1',
+      ],
+      [
+        { tool: 'accessibility', dyes: [5771], vision: 'tritanopia' },
+        'https://xivdyetools.app/accessibility/?dyes=5771&vision=tritanopia&v=1',
+      ],
+    ] as Array<[ShareParams, string]>)('should build %j', (share, url) => {
+      expect(buildShareUrl(share)).toBe(url);
+    });
+
+    it('should put lang last, before the version', () => {
+      expect(buildShareUrl({ tool: 'harmony', dye: 5771, harmony: 'triadic', lang: 'ja' })).toBe(
+        'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&lang=ja&v=1'
+      );
+      expect(buildShareUrl({ tool: 'comparison', dyes: [5771], lang: 'de' })).toBe(
+        'https://xivdyetools.app/comparison/?dyes=5771&lang=de&v=1'
+      );
+    });
+
+    it('should keep custom colors readable', () => {
+      expect(buildShareUrl({ tool: 'harmony', dye: 'hex:8B4513', harmony: 'triadic' })).toBe(
+        'https://xivdyetools.app/harmony/?dye=hex:8B4513&harmony=triadic&v=1'
+      );
+    });
+
+    it('should use the given app origin', () => {
+      expect(
+        buildShareUrl({ tool: 'comparison', dyes: [5771] }, 'http://localhost:5173/')
+      ).toBe('http://localhost:5173/comparison/?dyes=5771&v=1');
+    });
+  });
+
+  describe('buildCompactShareUrl', () => {
+    it('should pack the params into s with v=2', () => {
+      expect(buildCompactShareUrl({ tool: 'harmony', dye: 5771, harmony: 'triadic' })).toBe(
+        'https://xivdyetools.app/harmony/?s=AIstAw&v=2'
+      );
+    });
+
+    it('should be shorter than the v1 link', () => {
+      const share: ShareParams = {
+        tool: 'swatch',
+        color: '8B4513',
+        limit: 5,
+        sheet: 'hairColors',
+        race: 'SeekerOfTheSun',
+        gender: 'Female',
+        algo: 'oklab',
+      };
+
+      expect(buildCompactShareUrl(share)).toBe('https://xivdyetools.app/swatch/?s=C4tFEyUIBw&v=2');
+      expect(buildCompactShareUrl(share).length).toBeLessThan(buildShareUrl(share).length / 2);
+    });
+
+    it('should normalize the params first', () => {
+      const url = buildCompactShareUrl({ tool: 'gradient', start: 1, end: 2, steps: 99 });
+
+      expect(parseShareUrl(url)).toEqual({ tool: 'gradient', start: 1, end: 2, steps: 10 });
+    });
+  });
+
+  describe('toCompactShareUrl', () => {
+    it('should rewrite a v1 link as the compact link for the same share', () => {
+      for (const share of ALL_SHARES) {
+        expect(toCompactShareUrl(buildShareUrl(share))).toBe(buildCompactShareUrl(share));
+      }
+    });
+
+    it('should keep the link origin', () => {
+      expect(toCompactShareUrl('http://localhost:5173/harmony/?dye=5771&harmony=triadic&v=1')).toBe(
+        'http://localhost:5173/harmony/?s=AIstAw&v=2'
+      );
+    });
+
+    it('should leave a bare tool page unchanged', () => {
+      expect(toCompactShareUrl('https://xivdyetools.app/swatch/')).toBe(
+        'https://xivdyetools.app/swatch/'
+      );
+    });
+  });
+
+  describe('isCompactShareQuery', () => {
+    it('should only match v=2 queries', () => {
+      expect(isCompactShareQuery(new URLSearchParams('s=AIstAw&v=2'))).toBe(true);
+      expect(isCompactShareQuery(new URLSearchParams('dye=5771&harmony=triadic&v=1'))).toBe(false);
+      expect(isCompactShareQuery(new URLSearchParams('dye=5771&harmony=triadic'))).toBe(false);
+    });
+  });
+
+  describe('buildOgImageUrl', () => {
+    it('should build the image route URL', () => {
+      expect(buildOgImageUrl({ tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 60 })).toBe(
+        `${DEFAULT_OG_IMAGE_BASE_URL}/og/mixer/5771/5772/60.png`
+      );
+    });
+
+    it.each(['http://localhost:8787', 'http://localhost:8787/og/'])(
+      'should mount the image path under /og for base %s',
+      (base) => {
+        expect(buildOgImageUrl({ tool: 'harmony', dye: 1, harmony: 'square' }, base)).toBe(
+          'http://localhost:8787/og/harmony/1/square.png'
+        );
+      }
+    );
+  });
+
+  describe('parseShareUrl', () => {
+    it('should read any origin', () => {
+      expect(parseShareUrl('http://localhost:5173/mixer?dyeA=1&dyeB=2&ratio=30')).toEqual({
+        tool: 'mixer',
+        dyeA: 1,
+        dyeB: 2,
+        ratio: 30,
+      });
+    });
+
+    it('should normalize like the worker does', () => {
+      const share = parseShareUrl(
+        new URL('https://xivdyetools.app/gradient/?start=1&end=2&steps=99&algo=OKLAB')
+      );
+
+      expect(share).toEqual({ tool: 'gradient', start: 1, end: 2, steps: 10, algo: 'oklab' });
+    });
+
+    it.each([
+      'not a url',
+      'https://xivdyetools.app/',
+      'https://xivdyetools.app/unknown/?dye=1',
+      'https://xivdyetools.app/harmony/extra?dye=1',
+    ])('should return null for %j', (url) => {
+      expect(parseShareUrl(url)).toBeNull();
+    });
+
+    it('should throw for malformed share params', () => {
+      expect(() => parseShareUrl('https://xivdyetools.app/harmony/?dye=abc')).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('normalizeShareParams', () => {
+    it('should clamp and normalize like share links', () => {
+      const race = 'raen' as Subrace;
+
+      expect(normalizeShareParams({ tool: 'swatch', color: '#8b4513', limit: 50, race })).toEqual(
+        { tool: 'swatch', color: '8B4513', limit: 10, race: 'Raen' }
+      );
+    });
+
+    it('should leave canonical params unchanged', () => {
+      for (const share of ALL_SHARES) {
+        expect(normalizeShareParams(share)).toEqual(share);
+      }
+    });
+
+    it('should throw for malformed params', () => {
+      expect(() => normalizeShareParams({ tool: 'harmony', dye: 0, harmony: 'square' })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('canonicalizeShareParams', () => {
+    it('should sort and dedupe dye sets', () => {
+      expect(canonicalizeShareParams({ tool: 'comparison', dyes: [5773, 5771, 5773] })).toEqual({
+        tool: 'comparison',
+        dyes: [5771, 5773],
+      });
+      expect(
+        canonicalizeShareParams({ tool: 'accessibility', dyes: [5772, 5771], vision: 'tritanopia' })
+      ).toEqual({ tool: 'accessibility', dyes: [5771, 5772], vision: 'tritanopia' });
+    });
+
+    it('should sort custom colors after itemIDs', () => {
+      expect(
+        canonicalizeShareParams({ tool: 'comparison', dyes: ['hex:8B4513', 5771, 'hex:0000FF'] })
+      ).toEqual({ tool: 'comparison', dyes: [5771, 'hex:0000FF', 'hex:8B4513'] });
+    });
+
+    it('should keep the order of dyes that changes the result', () => {
+      const mixer: ShareParams = { tool: 'mixer', dyeA: 5772, dyeB: 5771, ratio: 30 };
+      const gradient: ShareParams = { tool: 'gradient', start: 5772, end: 5771, steps: 5 };
+
+      expect(canonicalizeShareParams(mixer)).toEqual(mixer);
+      expect(canonicalizeShareParams(gradient)).toEqual(gradient);
+    });
+  });
+
+  describe('canonicalSharePath', () => {
+    const canonical = (tool: ToolId, query: string) =>
+      canonicalSharePath(tool, new URLSearchParams(query));
+
+    it.each([
+      ['enum casing', 'dye=5771&harmony=Tetradic'],
+      ['tracking params', 'utm_source=discord&dye=5771&harmony=tetradic&fbclid=abc'],
+      ['param order', 'harmony=tetradic&v=1&dye=5771'],
+    ])('should collapse %s onto one path', (_case, query) => {
+      expect(canonical('harmony', query)).toBe('/harmony/?dye=5771&harmony=tetradic&v=1');
+    });
+
+    it.each([
+      ['a compact link', 's=AIstBQ&v=2'],
+      ['tracking params', 'utm_source=discord&s=AIstBQ&v=2'],
+      ['param order', 'v=2&s=AIstBQ'],
+    ])('should keep %s in its canonical compact form', (_case, query) => {
+      expect(canonical('harmony', query)).toBe('/harmony/?s=AIstBQ&v=2');
+    });
+
+    it('should leave built compact links unchanged', () => {
+      for (const share of ALL_SHARES) {
+        const { pathname, search } = new URL(buildCompactShareUrl(share));
+        expect(canonical(share.tool, search)).toBe(`${pathname}${search}`);
+      }
+    });
+
+    it('should clamp values and sort dye sets', () => {
+      expect(canonical('gradient', 'start=5771&end=5772&steps=99')).toBe(
+        '/gradient/?start=5771&end=5772&steps=10&v=1'
+      );
+      expect(canonical('comparison', 'dyes=5773,5771,5771')).toBe(
+        '/comparison/?dyes=5771,5773&v=1'
+      );
+    });
+
+    it('should normalize custom colors', () => {
+      expect(canonical('comparison', 'dyes=hex:8b4513,5771,hex%3A8B4513')).toBe(
+        '/comparison/?dyes=5771,hex:8B4513&v=1'
+      );
+    });
+
+    it('should leave built share links unchanged', () => {
+      for (const share of ALL_SHARES) {
+        const { pathname, search } = new URL(buildShareUrl(share));
+        expect(canonical(share.tool, search)).toBe(`${pathname}${search}`);
+      }
+    });
+
+    it('should map a bare tool page to its trailing-slash path', () => {
+      expect(canonical('swatch', '')).toBe('/swatch/');
+    });
+
+    it('should return null for malformed params', () => {
+      expect(canonical('harmony', 'dye=abc&harmony=tetradic')).toBeNull();
+    });
+  });
+
+  describe('toolFromSharePath', () => {
+    it('should accept tool paths with and without a trailing slash', () => {
+      expect(toolFromSharePath('/swatch/')).toBe('swatch');
+      expect(toolFromSharePath('/swatch')).toBe('swatch');
+      expect(toolFromSharePath('/toString')).toBeNull();
+    });
+  });
+
+  describe('migration', () => {
+    it.each([
+      'https://xivdyetools.app/mixer/?dyeA=5771&dyeB=5772&ratio=60',
+      'https://xivdyetools.app/mixer/?dyeA=5771&dyeB=5772&ratio=60&v=1',
+      'https://xivdyetools.app/mixer/?s=AostjC08&v=2',
+    ])('should read %s as the same share', (url) => {
+      expect(parseShareUrl(url)).toEqual({ tool: 'mixer', dyeA: 5771, dyeB: 5772, ratio: 60 });
+    });
+
+    it('should read unknown versions as query params', () => {
+      expect(parseShareUrl('https://xivdyetools.app/comparison/?dyes=5771&v=9')).toEqual({
+        tool: 'comparison',
+        dyes: [5771],
+      });
+    });
+
+    it('should throw for v=2 links with malformed state', () => {
+      expect(() => parseShareUrl('https://xivdyetools.app/mixer/?s=AIstAw&v=2')).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('round-trip', () => {
+    it('should cover every tool', () => {
+      expect(new Set(ALL_SHARES.map((share) => share.tool)).size).toBe(6);
+    });
+
+    it.each(ALL_SHARES.map((share) => [buildShareUrl(share), share] as const))(
+      'should parse %s back to the same params',
+      (url, share) => {
+        expect(parseShareUrl(url)).toEqual(share);
+      }
+    );
+
+    it.each(ALL_SHARES.map((share) => [buildCompactShareUrl(share), share] as const))(
+      'should parse compact %s back to the same params',
+      (url, share) => {
+        expect(parseShareUrl(url)).toEqual(share);
+      }
+    );
+
+    it.each(ALL_SHARES.map((share) => [buildOgImageUrl(share), share] as const))(
+      'should resolve %s to the same params',
+      async (url, share) => {
+        const match = await resolveImageUrl(url);
+
+        expect(match?.tool).toBe(share.tool);
+        expect(match?.params).toEqual(imageParams(share));
+      }
+    );
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Share URL Builders
+ *
+ * Typed builders and parser for the two kinds of URL a share produces:
+ * the app link people paste (`/mixer/?dyeA=…&dyeB=…&ratio=…&v=1`) and
+ * its OG image (`/og/mixer/:a/:b/:ratio.png`). Built on the `ShareParams`
+ * union, the validation schemas and the image route registry, so every
+ * client that uses them produces URLs this worker understands.
+ *
+ * Has no runtime dependency on the worker or the dye database, so the
+ * Discord bot and the SPA can import it directly. It is published as the
+ * package's `./share-urls` export (`npm run build` emits it to `dist/`).
+ *
+ * @example
+ * buildShareUrl({ tool: 'harmony', dye: 5771, harmony: 'triadic' });
+ * // 'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&v=1'
+ *
+ * @module share-urls
+ */
+
+import type { DyeRef, ShareParams, ToolId, ToolParams } from './types';
+import { buildImagePath, imageBaseUrl, IMAGE_ROUTES } from './image-routes';
+import { validateSearchParams, ValidationError } from './validation';
+import { COMPACT_SHARE_VERSION, encodeShareState } from './share-codec';
+import { compareDyeRefs } from './dye-refs';
+
+// Re-exported for package consumers, who can't reach the worker's other modules
+export type { DyeRef, ShareParams, ToolId, ToolParams } from './types';
+export { ValidationError } from './validation';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Production app origin, used when no base URL is given */
+export const DEFAULT_APP_BASE_URL = 'https://xivdyetools.app';
+
+/** Production worker origin, used when no image base URL is given */
+export const DEFAULT_OG_IMAGE_BASE_URL = 'https://og.xivdyetools.app';
+
+/** Share link format version, sent as the `v` param (see share-codec.ts for v=2) */
+export const SHARE_URL_VERSION = 1;
+
+// ============================================================================
+// Query Builders
+// ============================================================================
+
+type QueryEntries = Array<[string, string | number | boolean | undefined]>;
+
+/**
+ * Share query entries per tool, in the order the app writes them.
+ * Optional values that are absent are skipped.
+ */
+const SHARE_QUERIES: { [T in ToolId]: (params: ToolParams<T>) => QueryEntries } = {
+  harmony: (params) => [
+    ['dye', params.dye],
+    ['harmony', params.harmony],
+    ['algo', params.algo],
+    ['perceptual', params.perceptual ? 1 : undefined],
+    ['lang', params.lang],
+  ],
+  gradient: (params) => [
+    ['start', params.start],
+    ['end', params.end],
+    ['steps', params.steps],
+    ['algo', params.algo],
+    ['lang', params.lang],
+  ],
+  mixer: (params) => [
+    ['dyeA', params.dyeA],
+    ['dyeB', params.dyeB],
+    ['dyeC', params.dyeC],
+    ['ratio', params.ratio],
+    ['algo', params.algo],
+    ['lang', params.lang],
+  ],
+  swatch: (params) => [
+    ['color', params.color.replace(/^#/, '')],
+    ['limit', params.limit],
+    ['sheet', params.sheet],
+    ['race', params.race],
+    ['gender', params.gender],
+    ['algo', params.algo],
+    ['lang', params.lang],
+  ],
+  comparison: (params) => [
+    ['dyes', params.dyes.join(',')],
+    ['lang', params.lang],
+  ],
+  accessibility: (params) => [
+    ['dyes', params.dyes.join(',')],
+    ['vision', params.vision],
+    ['lang', params.lang],
+  ],
+};
+
+/**
+ * Split the `tool` discriminant off share params
+ */
+function splitShareParams<T extends ToolId>(
+  share: ShareParams & { tool: T }
+): { tool: T; params: ToolParams<T> } {
+  const { tool, ...params } = share;
+  return { tool, params: params as unknown as ToolParams<T> };
+}
+
+/**
+ * Share query entries of a share, without the version
+ */
+function shareQuery(share: ShareParams): QueryEntries {
+  const { tool, params } = splitShareParams(share);
+  return (SHARE_QUERIES[tool] as (params: ToolParams<ToolId>) => QueryEntries)(params);
+}
+
+/**
+ * Sort and dedupe a dye list, so the same set of dyes has one link
+ */
+function canonicalDyeList(dyes: DyeRef[]): DyeRef[] {
+  return [...new Set(dyes)].sort(compareDyeRefs);
+}
+
+/**
+ * Serialize query entries, keeping the commas of dye lists and the colons
+ * of `hex:` colors readable
+ */
+function serializeQuery(entries: QueryEntries): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of entries) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  return query.toString().replace(/%2C/g, ',').replace(/%3A/g, ':');
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the app link for a share.
+ *
+ * @param share - Tool and share params
+ * @param appBaseUrl - App origin (defaults to production)
+ */
+export function buildShareUrl(
+  share: ShareParams,
+  appBaseUrl: string = DEFAULT_APP_BASE_URL
+): string {
+  return `${appBaseUrl.replace(/\/$/, '')}${sharePath(share)}`;
+}
+
+/**
+ * Path and query of the app link for a share: `/{tool}/?…&v=1`
+ */
+function sharePath(share: ShareParams): string {
+  const query = serializeQuery([...shareQuery(share), ['v', SHARE_URL_VERSION]]);
+  return `/${share.tool}/?${query}`;
+}
+
+/**
+ * Build the compact (`v=2`) app link for a share: `/{tool}/?s=…&v=2`.
+ * Params are normalized first, like share links.
+ *
+ * @param share - Tool and share params
+ * @param appBaseUrl - App origin (defaults to production)
+ * @throws ValidationError when any param is malformed
+ */
+export function buildCompactShareUrl(
+  share: ShareParams,
+  appBaseUrl: string = DEFAULT_APP_BASE_URL
+): string {
+  return `${appBaseUrl.replace(/\/$/, '')}${compactSharePath(normalizeShareParams(share))}`;
+}
+
+/**
+ * Path and query of the compact app link for normalized share params:
+ * `/{tool}/?s=…&v=2`
+ */
+function compactSharePath(share: ShareParams): string {
+  const query = serializeQuery([
+    ['s', encodeShareState(share)],
+    ['v', COMPACT_SHARE_VERSION],
+  ]);
+  return `/${share.tool}/?${query}`;
+}
+
+/**
+ * Rewrite a v1 app link in the compact (`v=2`) form. Links without share
+ * params (a bare tool page) are returned unchanged.
+ *
+ * @throws ValidationError when the link's params are malformed
+ */
+export function toCompactShareUrl(url: string): string {
+  const parsed = new URL(url);
+  const share = parsed.search === '' ? null : parseShareUrl(parsed);
+  return share ? `${parsed.origin}${compactSharePath(share)}` : url;
+}
+
+/**
+ * Whether a page query is a compact (`v=2`) link
+ */
+export function isCompactShareQuery(searchParams: URLSearchParams): boolean {
+  return searchParams.get('v') === String(COMPACT_SHARE_VERSION);
+}
+
+/**
+ * Build the OG image URL for a share.
+ *
+ * The URL is unsigned, so in production (where the worker has signing
+ * keys) it serves the tool's default image, never the share's. It is for
+ * local development and for naming an image, not for displaying one.
+ * Clients that need the rendered image must get it from the worker: the
+ * `og:image` URL from the preview API (`/api/og-data`), or the PNG bytes
+ * from the RPC entrypoint's `render()`.
+ *
+ * @param share - Tool and share params
+ * @param ogImageBaseUrl - The worker's URL; only its origin is used, the
+ *   `/og` mount is added (defaults to production)
+ */
+export function buildOgImageUrl(
+  share: ShareParams,
+  ogImageBaseUrl: string = DEFAULT_OG_IMAGE_BASE_URL
+): string {
+  const { tool, params } = splitShareParams(share);
+  return `${imageBaseUrl(ogImageBaseUrl)}${buildImagePath(tool, params)}`;
+}
+
+/**
+ * Run typed share params through the same validation as share links:
+ * out-of-range numbers are clamped and enum casing is normalized.
+ *
+ * @throws ValidationError when any param is malformed
+ */
+export function normalizeShareParams(share: ShareParams): ShareParams {
+  const query = new URLSearchParams(serializeQuery(shareQuery(share)));
+  return { tool: share.tool, ...validateSearchParams(share.tool, query) } as ShareParams;
+}
+
+/**
+ * Reduce normalized share params to the one form every equivalent share
+ * links to: dye sets (comparison, accessibility) are sorted and deduped.
+ * Mixer and gradient dyes keep their order, which changes the result.
+ */
+export function canonicalizeShareParams(share: ShareParams): ShareParams {
+  switch (share.tool) {
+    case 'comparison':
+    case 'accessibility':
+      return { ...share, dyes: canonicalDyeList(share.dyes) };
+    default:
+      return share;
+  }
+}
+
+/**
+ * Path and query of the canonical link for a page query (v1 or v2).
+ * Casing, unknown params, out-of-range values, param order, dye order and
+ * the trailing slash all collapse to one form. Compact links stay compact,
+ * so the short form people shared is the one previews show. A bare tool
+ * page is canonical at `/{tool}/`.
+ *
+ * @returns The canonical `/{tool}/?…&v=1` (or `?s=…&v=2` for compact links),
+ *   or null when params are malformed
+ */
+export function canonicalSharePath(tool: ToolId, searchParams: URLSearchParams): string | null {
+  if (searchParams.toString() === '') return `/${tool}/`;
+  try {
+    const share = { tool, ...validateSearchParams(tool, searchParams) } as ShareParams;
+    const canonical = canonicalizeShareParams(share);
+    return isCompactShareQuery(searchParams) ? compactSharePath(canonical) : sharePath(canonical);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return null;
+  }
+}
+
+/**
+ * The tool of a share link path (`/{tool}` or `/{tool}/`), if any
+ */
+export function toolFromSharePath(pathname: string): ToolId | null {
+  const tool = /^\/([a-z]+)\/?$/.exec(pathname)?.[1];
+  return tool && Object.hasOwn(IMAGE_ROUTES, tool) ? (tool as ToolId) : null;
+}
+
+/**
+ * Parse an app link (v1 or compact v2) back into share params.
+ * Any origin is accepted; only the path and query are read.
+ *
+ * @returns The share params, or null when the URL is not a tool link
+ * @throws ValidationError when the tool's params are malformed
+ */
+export function parseShareUrl(url: string | URL): ShareParams | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const tool = toolFromSharePath(parsed.pathname);
+  if (!tool) return null;
+
+  return { tool, ...validateSearchParams(tool, parsed.searchParams) } as ShareParams;
+}
@@ -0,0 +1,16 @@
+/**
+ * cloudflare:workers
+ *
+ * Local stand-in for the Workers runtime module, for tests. Provides
+ * `WorkerEntrypoint` with the `ctx` and `env` the runtime passes in; RPC
+ * methods are called directly on an instance. Aliased in vitest.config.ts.
+ *
+ * @module test-utils/cloudflare-workers
+ */
+
+export class WorkerEntrypoint<Env = unknown> {
+  constructor(
+    protected readonly ctx: ExecutionContext,
+    protected readonly env: Env
+  ) {}
+}
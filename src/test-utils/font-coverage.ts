@@ -0,0 +1,75 @@
+/**
+ * Glyph coverage of the renderer's fonts, for tests that check rendered text
+ * only uses characters the renderer can draw. Reads each TTF in src/fonts/
+ * (bundled) and assets/fonts/ (fetched on demand) with the renderer's own
+ * font parser.
+ *
+ * @module test-utils/font-coverage
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { FontMetrics } from '../services/font-metrics';
+
+/** Directories of the bundled brand fonts and the CJK fallback fonts */
+const FONT_DIRS = [join(__dirname, '..', 'fonts'), join(__dirname, '..', '..', 'assets', 'fonts')];
+
+/** Family the renderer uses for text without a `font-family` */
+const DEFAULT_FAMILY = 'Onest';
+
+/** Code points with a glyph, per font family */
+export type FontCoverage = Map<string, Set<number>>;
+
+/** A text element with characters none of its fonts can draw */
+export interface MissingGlyphs {
+  text: string;
+  fontFamily: string;
+  missing: string[];
+}
+
+/**
+ * Load the coverage of every font the renderer can use, keyed by family name
+ */
+export function loadFontCoverage(dirs: readonly string[] = FONT_DIRS): FontCoverage {
+  const coverage: FontCoverage = new Map();
+  for (const dir of dirs) {
+    for (const file of readdirSync(dir).filter((name) => name.endsWith('.ttf'))) {
+      const font = new FontMetrics(readFileSync(join(dir, file)));
+      coverage.set(font.family, font.codePoints());
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Undo the XML escaping `text()` applies
+ */
+function unescapeXml(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * The text elements of an SVG with characters that no font in their
+ * `font-family` list can draw
+ */
+export function findMissingGlyphs(svg: string, coverage: FontCoverage): MissingGlyphs[] {
+  const result: MissingGlyphs[] = [];
+  for (const [, attrs, content] of svg.matchAll(/<text([^>]*)>([^<]*)<\/text>/g)) {
+    const fontFamily = /font-family="([^"]*)"/.exec(attrs)?.[1] ?? DEFAULT_FAMILY;
+    const fonts = unescapeXml(fontFamily)
+      .split(',')
+      .map((family) => coverage.get(family.trim()));
+    const text = unescapeXml(content);
+
+    const missing = [...new Set(text)].filter(
+      (char) => !fonts.some((font) => font?.has(char.codePointAt(0)!))
+    );
+    if (missing.length > 0) result.push({ text, fontFamily, missing });
+  }
+  return result;
+}
@@ -0,0 +1,61 @@
+/**
+ * Hostile input corpus
+ *
+ * Values that try to break out of HTML/SVG attributes or element content.
+ * Shared by the output-escaping tests.
+ */
+
+export const HOSTILE_INPUTS: readonly string[] = [
+  '"><script>alert(1)</script>',
+  "'><img src=x onerror=alert(1)>",
+  '" onload="alert(1)',
+  "' onmouseover='alert(1)",
+  '#FFF" onclick="alert(1)',
+  'red"/><script>alert(1)</script><rect fill="',
+  'url(#x) " onload="alert(1)',
+  'url(javascript:alert(1))',
+  'url(https://evil.example/x.svg#a)',
+  'expression(alert(1))',
+  'javascript:alert(1)',
+  '</style><script>alert(1)</script>',
+  '</title><script>alert(1)</script>',
+  '<![CDATA[<script>alert(1)</script>]]>',
+  '<!--',
+  '&lt;script&gt;',
+  '&#x22; onload=&#x22;alert(1)',
+  '\u0000"\u0000',
+  'a\nb"\r\n<x>',
+  '%22%3E%3Cscript%3E',
+  '‮"><svg onload=alert(1)>',
+  '#'.repeat(512) + '"',
+];
+
+const SAFE_ATTRIBUTES = /^(?:\s+[a-zA-Z][\w:-]*="[^"<>]*")*\s*\/?$/;
+
+/**
+ * Find tags in HTML/SVG markup that a hostile input could have produced:
+ * script elements, event handler attributes, `javascript:` URLs, or
+ * attributes that are not cleanly quoted. Returns the offending tags
+ * (empty when the markup is safe).
+ */
+export function findUnsafeTags(markup: string): string[] {
+  const unsafe: string[] = [];
+  for (const match of markup.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*)>/g)) {
+    const [tag, closing, name, attributes] = match;
+    if (/^script$/i.test(name)) {
+      unsafe.push(tag);
+      continue;
+    }
+    if (closing) continue;
+    if (!SAFE_ATTRIBUTES.test(attributes)) {
+      unsafe.push(tag);
+      continue;
+    }
+    // Values are known to be quote-free here, so every `name="` is a real attribute
+    for (const [, attr, value] of attributes.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+      const isUrl = /^(?:href|src|action|xlink:href)$/i.test(attr);
+      if (/^on/i.test(attr) || (isUrl && /^\s*javascript:/i.test(value))) unsafe.push(tag);
+    }
+  }
+  return unsafe;
+}
@@ -0,0 +1,180 @@
+/**
+ * String HTMLRewriter
+ *
+ * Local stand-in for the Workers `HTMLRewriter` global, for tests. Buffers
+ * the whole document and supports the subset the worker uses: `tag`
+ * selectors with any number of `[attr="value"]` and `[attr^="value"]`
+ * conditions, and element
+ * `remove()`, `append()`, `prepend()` and `getAttribute()`. Install with
+ * `vi.stubGlobal('HTMLRewriter', StringHTMLRewriter)`.
+ *
+ * @module test-utils/html-rewriter
+ */
+
+interface AttributeCondition {
+  name: string;
+  operator: '=' | '^=';
+  value: string;
+}
+
+interface Selector {
+  tag: string;
+  attributes: AttributeCondition[];
+}
+
+interface ElementHandler {
+  element?(element: StringElement): void | Promise<void>;
+}
+
+type ContentOptions = { html?: boolean };
+
+const VOID_ELEMENTS = new Set(['base', 'br', 'hr', 'img', 'input', 'link', 'meta']);
+
+/** An attribute: name, then an optional double-quoted, single-quoted or bare value */
+const ATTRIBUTE_PATTERN = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/** Start tags (with attributes) and end tags, in document order */
+const TAG_PATTERN = new RegExp(
+  String.raw`<(\/?)([a-zA-Z][\w-]*)` +
+    String.raw`((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>`,
+  'g'
+);
+
+/** One `[attr="value"]` or `[attr^="value"]` condition */
+const CONDITION_PATTERN = /\[([\w:-]+)(=|\^=)"([^"]*)"\]/g;
+
+function parseSelector(selector: string): Selector {
+  const match = /^([a-z][\w-]*)((?:\[[\w:-]+\^?="[^"]*"\])*)$/i.exec(selector);
+  if (!match) {
+    throw new Error(`StringHTMLRewriter: unsupported selector ${selector}`);
+  }
+  const [, tag, conditions] = match;
+  return {
+    tag: tag.toLowerCase(),
+    attributes: [...conditions.matchAll(CONDITION_PATTERN)].map(([, name, operator, value]) => ({
+      name,
+      operator: operator as '=' | '^=',
+      value,
+    })),
+  };
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+class StringElement {
+  removed = false;
+  readonly prepended: string[] = [];
+  readonly appended: string[] = [];
+
+  constructor(
+    readonly tagName: string,
+    private readonly attributes: Map<string, string>
+  ) {}
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name.toLowerCase()) ?? null;
+  }
+
+  remove(): this {
+    this.removed = true;
+    return this;
+  }
+
+  prepend(content: string, options: ContentOptions = {}): this {
+    // Each prepend goes directly after the start tag, ahead of earlier ones
+    this.prepended.unshift(options.html ? content : escapeText(content));
+    return this;
+  }
+
+  append(content: string, options: ContentOptions = {}): this {
+    this.appended.push(options.html ? content : escapeText(content));
+    return this;
+  }
+
+  matches(selector: Selector): boolean {
+    if (selector.tag !== this.tagName) return false;
+
+    return selector.attributes.every(({ name, operator, value }) => {
+      const actual = this.getAttribute(name);
+      if (actual === null) return false;
+      return operator === '=' ? actual === value : actual.startsWith(value);
+    });
+  }
+}
+
+export class StringHTMLRewriter {
+  private readonly handlers: Array<[Selector, ElementHandler]> = [];
+
+  on(selector: string, handler: ElementHandler): this {
+    this.handlers.push([parseSelector(selector), handler]);
+    return this;
+  }
+
+  transform(response: Response): Response {
+    const headers = new Headers(response.headers);
+    headers.delete('Content-Length');
+    const init = { status: response.status, statusText: response.statusText, headers };
+
+    if (!response.body) return new Response(null, init);
+
+    const rewritten = response.text().then((html) => this.rewrite(html));
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode(await rewritten));
+        controller.close();
+      },
+    });
+    return new Response(body, init);
+  }
+
+  private async rewrite(html: string): Promise<string> {
+    let output = '';
+    let cursor = 0;
+    /** Open elements with content still to append before their end tag */
+    const open: StringElement[] = [];
+
+    for (const match of html.matchAll(TAG_PATTERN)) {
+      const [tag, slash, rawName, rawAttributes] = match;
+      const start = match.index;
+      if (start < cursor) continue; // Inside a removed element
+      const name = rawName.toLowerCase();
+
+      if (slash) {
+        let index = open.length - 1;
+        while (index >= 0 && open[index].tagName !== name) index--;
+        output += html.slice(cursor, start);
+        if (index >= 0) output += open.splice(index, 1)[0].appended.join('');
+        output += tag;
+        cursor = start + tag.length;
+        continue;
+      }
+
+      const attributes = new Map<string, string>();
+      for (const [, attr, double, single, bare] of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes.set(attr.toLowerCase(), double ?? single ?? bare ?? '');
+      }
+      const element = new StringElement(name, attributes);
+      for (const [selector, handler] of this.handlers) {
+        if (element.matches(selector)) await handler.element?.(element);
+      }
+
+      output += html.slice(cursor, start);
+      cursor = start + tag.length;
+
+      if (element.removed) {
+        if (!VOID_ELEMENTS.has(name)) {
+          const end = html.toLowerCase().indexOf(`</${name}>`, cursor);
+          cursor = end < 0 ? html.length : end + name.length + 3;
+        }
+        continue;
+      }
+
+      output += tag + element.prepended.join('');
+      if (!VOID_ELEMENTS.has(name)) open.push(element);
+    }
+
+    return output + html.slice(cursor);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * In-Memory Cache
+ *
+ * Minimal Cache API stand-in keyed by request URL, for tests.
+ *
+ * @module test-utils/memory-cache
+ */
+
+export class MemoryCache {
+  readonly store = new Map<string, Response>();
+
+  async match(request: Request): Promise<Response | undefined> {
+    return this.store.get(request.url)?.clone();
+  }
+
+  async put(request: Request, response: Response): Promise<void> {
+    this.store.set(request.url, response.clone());
+  }
+
+  asCache(): Cache {
+    return this as unknown as Cache;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * In-Memory Durable Object Namespace
+ *
+ * Local stand-in for a Durable Object namespace binding, for tests. Each
+ * name gets one instance of the object class, with in-memory storage that
+ * supports the subset of the storage API the worker uses: get, put,
+ * deleteAll and setAlarm. Like the runtime, an object handles one request
+ * at a time. Alarms only fire when `runAlarms()` is called.
+ *
+ * @module test-utils/memory-durable-object
+ */
+
+interface DurableObjectLike {
+  fetch(request: Request): Promise<Response>;
+  alarm?(): Promise<void>;
+}
+
+class MemoryStorage {
+  readonly data = new Map<string, unknown>();
+  /** Scheduled alarm, epoch milliseconds */
+  alarm: number | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.data.get(key) as T | undefined;
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async deleteAll(): Promise<void> {
+    this.data.clear();
+  }
+
+  async setAlarm(time: number): Promise<void> {
+    this.alarm = time;
+  }
+}
+
+interface MemoryObject {
+  object: DurableObjectLike;
+  storage: MemoryStorage;
+  /** Settles when the object's last request has been handled */
+  queue: Promise<unknown>;
+}
+
+export class MemoryDurableObjectNamespace {
+  private readonly objects = new Map<string, MemoryObject>();
+
+  constructor(private readonly create: (state: DurableObjectState) => DurableObjectLike) {}
+
+  get size(): number {
+    return this.objects.size;
+  }
+
+  /**
+   * Fire every alarm due by `now`, as the runtime would
+   */
+  async runAlarms(now: number): Promise<void> {
+    for (const { object, storage } of this.objects.values()) {
+      if (storage.alarm === null || storage.alarm > now) continue;
+      storage.alarm = null;
+      await object.alarm?.();
+    }
+  }
+
+  /**
+   * View this namespace as a DurableObjectNamespace binding
+   */
+  asBinding(): DurableObjectNamespace {
+    return {
+      idFromName: (name: string) => name,
+      get: (name: string) => ({
+        fetch: (input: RequestInfo, init?: RequestInit) => {
+          const entry = this.instance(name);
+          const response = entry.queue.then(() => entry.object.fetch(new Request(input, init)));
+          entry.queue = response.catch(() => undefined);
+          return response;
+        },
+      }),
+    } as unknown as DurableObjectNamespace;
+  }
+
+  private instance(name: string): MemoryObject {
+    let entry = this.objects.get(name);
+    if (!entry) {
+      const storage = new MemoryStorage();
+      const object = this.create({ storage } as unknown as DurableObjectState);
+      entry = { object, storage, queue: Promise.resolve() };
+      this.objects.set(name, entry);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * In-Memory KV Namespace
+ *
+ * Local stand-in for a Workers KV binding, for tests. Supports the subset
+ * of the KVNamespace API the worker uses: text/json/arrayBuffer reads,
+ * puts with `expirationTtl`/`expiration`, and deletes. Expiry is checked
+ * against an injectable clock so tests can advance time.
+ *
+ * @module test-utils/memory-kv
+ */
+
+interface StoredValue {
+  value: Uint8Array;
+  /** Expiry as epoch seconds */
+  expiresAt?: number;
+}
+
+type KVValue = string | ArrayBuffer | ArrayBufferView;
+type KVGetType = 'text' | 'json' | 'arrayBuffer';
+
+export class MemoryKV {
+  private readonly store = new Map<string, StoredValue>();
+
+  /** Number of get() and put() calls, for asserting tier behavior */
+  readonly calls = { get: 0, put: 0 };
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  get size(): number {
+    return this.store.size;
+  }
+
+  keys(): string[] {
+    return [...this.store.keys()];
+  }
+
+  async get(key: string, type: KVGetType = 'text'): Promise<unknown> {
+    this.calls.get++;
+    const entry = this.store.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt * 1000 <= this.now()) {
+      this.store.delete(key);
+      return null;
+    }
+
+    switch (type) {
+      case 'arrayBuffer':
+        return entry.value.slice().buffer;
+      case 'json':
+        return JSON.parse(new TextDecoder().decode(entry.value));
+      default:
+        return new TextDecoder().decode(entry.value);
+    }
+  }
+
+  async put(
+    key: string,
+    value: KVValue,
+    options: { expirationTtl?: number; expiration?: number } = {}
+  ): Promise<void> {
+    this.calls.put++;
+    const bytes =
+      typeof value === 'string'
+        ? new TextEncoder().encode(value)
+        : value instanceof ArrayBuffer
+          ? new Uint8Array(value.slice(0))
+          : new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+
+    const expiresAt =
+      options.expiration ??
+      (options.expirationTtl !== undefined
+        ? Math.floor(this.now() / 1000) + options.expirationTtl
+        : undefined);
+
+    this.store.set(key, { value: bytes, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  /**
+   * View this store as a KVNamespace binding
+   */
+  asBinding(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
@@ -13,13 +13,34 @@ import type { AnalyticsEngineDataset } from '@cloudflare/workers-types';
 export interface Env {
   // Environment variables
   APP_BASE_URL: string;
+  // The worker's public URL; only its origin is used (see image-routes)
   OG_IMAGE_BASE_URL: string;
 
   // Analytics Engine binding
   ANALYTICS?: AnalyticsEngineDataset;
 
-  // KV namespace for caching (optional, for future use)
+  // KV namespace for caching rendered OG images (optional, see services/render-cache)
   OG_CACHE?: KVNamespace;
+
+  // Image URL signing keys, `id:secret` pairs (secret, see services/url-signing)
+  OG_SIGNING_KEYS?: string;
+
+  // Skip image signature checks; for `wrangler dev` only
+  OG_SIGNING_BYPASS?: string;
+
+  // Rate limiter bucket storage (optional, see services/rate-limit)
+  RATE_LIMITER?: DurableObjectNamespace;
+
+  // Short share links and their code claims (optional, see services/short-links)
+  SHORT_LINKS?: KVNamespace;
+  SHORT_CODES?: DurableObjectNamespace;
+
+  // Static assets holding the CJK fallback fonts (see services/fonts)
+  ASSETS?: Fetcher;
+
+  // SPA to inject OG tags into for non-crawlers (optional, see services/spa-injector)
+  SPA?: Fetcher;
+  SPA_ORIGIN?: string;
 }
 
 // ============================================================================
@@ -54,6 +75,9 @@ export type VisionType =
   | 'tritanopia'
   | 'achromatopsia';
 
+/** Language of OG text and images (see i18n.ts) */
+export type Locale = 'en' | 'ja' | 'de' | 'fr' | 'ko' | 'zh';
+
 // ============================================================================
 // OpenGraph Data
 // ============================================================================
@@ -65,32 +89,45 @@ export interface OGData {
   imageUrl: string;
   siteName: string;
   themeColor?: string;
+  /** oEmbed endpoint for this page, advertised with a discovery link */
+  oembedUrl?: string;
+  /** Language the title, description and image are written in */
+  locale?: Locale;
 }
 
 // ============================================================================
 // Tool-Specific Share Parameters
 // ============================================================================
 
+/** A custom color used in place of a dye: `hex:` and six uppercase hex digits */
+export type CustomColorRef = `hex:${string}`;
+
+/** A dye itemID, or a custom color (see dye-refs.ts) */
+export type DyeRef = number | CustomColorRef;
+
 export interface HarmonyParams {
-  dye: number; // itemID
+  dye: DyeRef;
   harmony: HarmonyType;
   algo?: MatchingAlgorithm;
   perceptual?: boolean;
+  lang?: Locale;
 }
 
 export interface GradientParams {
-  start: number; // itemID
-  end: number; // itemID
+  start: DyeRef;
+  end: DyeRef;
   steps: number;
   algo?: MatchingAlgorithm;
+  lang?: Locale;
 }
 
 export interface MixerParams {
-  dyeA: number; // itemID
-  dyeB: number; // itemID
-  dyeC?: number; // itemID (optional third dye)
+  dyeA: DyeRef;
+  dyeB: DyeRef;
+  dyeC?: DyeRef; // optional third dye
   ratio: number; // 0-100
   algo?: MatchingAlgorithm;
+  lang?: Locale;
 }
 
 /** Color sheet category types */
@@ -108,6 +145,25 @@ export type ColorSheetCategory =
 /** Gender for race-specific color sheets */
 export type CharacterGender = 'Male' | 'Female';
 
+/** Subrace (clan) for race-specific color sheets */
+export type Subrace =
+  | 'Midlander'
+  | 'Highlander'
+  | 'Wildwood'
+  | 'Duskwight'
+  | 'Plainsfolk'
+  | 'Dunesfolk'
+  | 'SeekerOfTheSun'
+  | 'KeeperOfTheMoon'
+  | 'SeaWolf'
+  | 'Hellsguard'
+  | 'Raen'
+  | 'Xaela'
+  | 'Rava'
+  | 'Veena'
+  | 'Helion'
+  | 'TheLost';
+
 export interface SwatchParams {
   color: string; // hex without #
   algo?: MatchingAlgorithm;
@@ -115,20 +171,23 @@ export interface SwatchParams {
   /** Which color sheet this color is from */
   sheet?: ColorSheetCategory;
   /** Subrace for race-specific sheets (hairColors, skinColors) */
-  race?: string;
+  race?: Subrace;
   /** Gender for race-specific sheets */
   gender?: CharacterGender;
   /** Index within the color sheet (for calculating row/col) */
   index?: number;
+  lang?: Locale;
 }
 
 export interface ComparisonParams {
-  dyes: number[]; // array of itemIDs (1-4)
+  dyes: DyeRef[]; // 1-4 dyes
+  lang?: Locale;
 }
 
 export interface AccessibilityParams {
-  dyes: number[]; // array of itemIDs
+  dyes: DyeRef[];
   vision?: VisionType;
+  lang?: Locale;
 }
 
 export type ShareParams =
@@ -139,6 +198,9 @@ export type ShareParams =
   | ({ tool: 'comparison' } & ComparisonParams)
   | ({ tool: 'accessibility' } & AccessibilityParams);
 
+/** Share parameters for a single tool, without the `tool` discriminant */
+export type ToolParams<T extends ToolId> = Omit<Extract<ShareParams, { tool: T }>, 'tool'>;
+
 // ============================================================================
 // Crawler Detection
 // ============================================================================
@@ -165,7 +227,14 @@ export interface CrawlerInfo {
 // ============================================================================
 
 export interface AnalyticsEvent {
-  event: 'og_request' | 'og_image_request';
+  event:
+    | 'og_request'
+    | 'og_image_request'
+    | 'oembed_request'
+    | 'embed_request'
+    | 'preview_request'
+    | 'short_link_create'
+    | 'short_link_request';
   tool: ToolId;
   crawler: CrawlerType;
   cacheHit?: boolean;
@@ -0,0 +1,443 @@
+/**
+ * Tests for Share Parameter Validation
+ *
+ * @module validation.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateToolParams,
+  validateSearchParams,
+  ValidationError,
+  HARMONY_TYPES,
+  MATCHING_ALGORITHMS,
+  VISION_TYPES,
+  COLOR_SHEETS,
+  CHARACTER_GENDERS,
+  SUBRACES,
+  LOCALES,
+  PARAM_LIMITS,
+  type RawParams,
+} from './validation';
+import {
+  IMAGE_ROUTES,
+  IMAGE_ROUTE_PREFIX,
+  buildImagePath,
+  registerImageRoutes,
+} from './image-routes';
+import { Hono } from 'hono';
+import type { Env, ToolId } from './types';
+
+/**
+ * Validate and return the thrown error, failing if none was thrown
+ */
+function expectInvalid(tool: ToolId, raw: RawParams): ValidationError {
+  try {
+    validateToolParams(tool, raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return error as ValidationError;
+  }
+  throw new Error('Expected a ValidationError');
+}
+
+describe('validation', () => {
+  describe('item IDs', () => {
+    it('should parse positive integers', () => {
+      expect(validateToolParams('harmony', { dye: '5771' })).toEqual({
+        dye: 5771,
+        harmony: 'complementary',
+      });
+    });
+
+    it('should trim surrounding whitespace', () => {
+      expect(validateToolParams('harmony', { dye: ' 5771 ' }).dye).toBe(5771);
+    });
+
+    it('should require the dye', () => {
+      expect(expectInvalid('harmony', {}).issues).toEqual([
+        { param: 'dye', code: 'required', message: expect.any(String) },
+      ]);
+    });
+
+    it.each(['abc', '12abc', '1e3', '0x10', '1.5', '0', '-1', '999999999999'])(
+      'should reject %s',
+      (dye) => {
+        expect(expectInvalid('harmony', { dye }).issues[0]).toMatchObject({
+          param: 'dye',
+          code: 'invalid_id',
+          received: dye,
+        });
+      }
+    );
+
+    it('should leave an absent optional ID undefined', () => {
+      const params = validateToolParams('mixer', { dyeA: '1', dyeB: '2', dyeC: '' });
+
+      expect(params).not.toHaveProperty('dyeC');
+    });
+
+    it('should still reject a malformed optional ID', () => {
+      expect(
+        expectInvalid('mixer', { dyeA: '1', dyeB: '2', dyeC: 'x' }).issues[0].param
+      ).toBe('dyeC');
+    });
+  });
+
+  describe('custom colors', () => {
+    it('should accept hex: colors in place of an itemID', () => {
+      expect(validateToolParams('harmony', { dye: 'hex:8b4513' }).dye).toBe('hex:8B4513');
+      expect(validateToolParams('gradient', { start: 'hex:#8B4513', end: '5771' })).toMatchObject(
+        { start: 'hex:8B4513', end: 5771 }
+      );
+    });
+
+    it.each(['hex:', 'hex:8B451', 'hex:GGGGGG', 'hex:#'])('should reject %s', (dye) => {
+      expect(expectInvalid('harmony', { dye }).issues[0]).toMatchObject({
+        param: 'dye',
+        code: 'invalid_hex',
+      });
+    });
+
+    it('should mix itemIDs and colors in lists', () => {
+      expect(validateToolParams('comparison', { dyes: '5771,hex:8b4513,hex:x' }).dyes).toEqual([
+        5771,
+        'hex:8B4513',
+      ]);
+    });
+  });
+
+  describe('clamped integers', () => {
+    it('should apply defaults', () => {
+      expect(validateToolParams('gradient', { start: '1', end: '2' }).steps).toBe(5);
+      expect(validateToolParams('mixer', { dyeA: '1', dyeB: '2' }).ratio).toBe(50);
+      expect(validateToolParams('swatch', {}).limit).toBe(5);
+    });
+
+    it('should clamp to the allowed range', () => {
+      expect(validateToolParams('gradient', { start: '1', end: '2', steps: '-3' }).steps).toBe(2);
+      expect(validateToolParams('gradient', { start: '1', end: '2', steps: '900' }).steps).toBe(
+        10
+      );
+      expect(validateToolParams('mixer', { dyeA: '1', dyeB: '2', ratio: '900' }).ratio).toBe(100);
+      expect(validateToolParams('swatch', { limit: '10000' }).limit).toBe(10);
+    });
+
+    it('should reject non-integers', () => {
+      expect(expectInvalid('swatch', { limit: 'five' }).issues[0]).toMatchObject({
+        param: 'limit',
+        code: 'invalid_integer',
+      });
+    });
+  });
+
+  describe('enums', () => {
+    it('should match case-insensitively and return canonical casing', () => {
+      const params = validateToolParams('swatch', {
+        sheet: 'HAIRCOLORS',
+        race: 'seekerofthesun',
+        gender: 'female',
+        algo: 'CIEDE2000',
+      });
+
+      expect(params).toMatchObject({
+        sheet: 'hairColors',
+        race: 'SeekerOfTheSun',
+        gender: 'Female',
+        algo: 'ciede2000',
+      });
+    });
+
+    it('should default the harmony type', () => {
+      expect(validateToolParams('harmony', { dye: '1', harmony: '' }).harmony).toBe(
+        'complementary'
+      );
+    });
+
+    it('should reject unknown values and list the allowed ones', () => {
+      const issue = expectInvalid('accessibility', { dyes: '1', vision: 'blurry' }).issues[0];
+
+      expect(issue).toMatchObject({ param: 'vision', code: 'invalid_enum', received: 'blurry' });
+      expect(issue.allowed).toEqual(VISION_TYPES);
+    });
+
+    it.each(LOCALES)('should accept lang=%s on every tool', (lang) => {
+      expect(validateToolParams('comparison', { dyes: '1', lang: lang.toUpperCase() }).lang).toBe(
+        lang
+      );
+      expect(validateToolParams('swatch', { color: 'FF0000', lang }).lang).toBe(lang);
+    });
+
+    it('should reject unsupported languages', () => {
+      const issue = expectInvalid('harmony', { dye: '1', lang: 'es' }).issues[0];
+
+      expect(issue).toMatchObject({ param: 'lang', code: 'invalid_enum', received: 'es' });
+      expect(issue.allowed).toEqual(LOCALES);
+    });
+  });
+
+  describe('hex colors', () => {
+    it('should normalize to uppercase without #', () => {
+      expect(validateToolParams('swatch', { color: '#8b4513' }).color).toBe('8B4513');
+    });
+
+    it('should default to white', () => {
+      expect(validateToolParams('swatch', {}).color).toBe('FFFFFF');
+    });
+
+    it.each(['8B451', '8B45133', 'GGGGGG', '#', 'red'])('should reject %s', (color) => {
+      expect(expectInvalid('swatch', { color }).issues[0].code).toBe('invalid_hex');
+    });
+  });
+
+  describe('ID lists', () => {
+    it('should drop malformed entries', () => {
+      expect(validateToolParams('comparison', { dyes: '5771,invalid,,0,5772' }).dyes).toEqual([
+        5771, 5772,
+      ]);
+    });
+
+    it('should truncate to the most dyes a card can show', () => {
+      const dyes = Array.from({ length: 500 }, (_, i) => i + 1).join(',');
+
+      expect(validateToolParams('comparison', { dyes }).dyes).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should reject a list with no valid IDs', () => {
+      expect(expectInvalid('comparison', { dyes: 'a,b' }).issues[0].code).toBe('invalid_list');
+    });
+
+    it('should require the list', () => {
+      expect(expectInvalid('accessibility', {}).issues[0].code).toBe('required');
+    });
+  });
+
+  describe('ValidationError', () => {
+    it('should report every invalid param', () => {
+      const error = expectInvalid('gradient', { start: 'x', end: '', steps: 'y', algo: 'rgb' });
+
+      expect(error.tool).toBe('gradient');
+      expect(error.issues.map((i) => i.param)).toEqual(['start', 'end', 'steps', 'algo']);
+      expect(error.message).toContain('start (invalid_id)');
+    });
+
+    it('should serialize to a machine-readable body', () => {
+      const error = expectInvalid('harmony', { dye: 'x' });
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        error: 'invalid_params',
+        tool: 'harmony',
+        issues: [
+          { param: 'dye', code: 'invalid_id', message: expect.any(String), received: 'x' },
+        ],
+      });
+    });
+  });
+
+  describe('validateSearchParams', () => {
+    it('should read the schema params from a query string', () => {
+      const query = new URLSearchParams('dyeA=1&dyeB=2&dyeC=3&ratio=30&algo=oklab&extra=1');
+
+      expect(validateSearchParams('mixer', query)).toEqual({
+        dyeA: 1,
+        dyeB: 2,
+        dyeC: 3,
+        ratio: 30,
+        algo: 'oklab',
+      });
+    });
+
+    it('should only set perceptual for perceptual=1', () => {
+      expect(
+        validateSearchParams('harmony', new URLSearchParams('dye=1&perceptual=1')).perceptual
+      ).toBe(true);
+      expect(
+        validateSearchParams('harmony', new URLSearchParams('dye=1&perceptual=yes'))
+      ).not.toHaveProperty('perceptual');
+    });
+  });
+
+  describe('compact v=2 links', () => {
+    it('should decode the state before validating', () => {
+      const query = new URLSearchParams('s=AIstAw&v=2');
+
+      expect(validateSearchParams('harmony', query)).toEqual({ dye: 5771, harmony: 'triadic' });
+    });
+
+    it('should reject malformed state as an invalid s param', () => {
+      let error: unknown;
+      try {
+        validateSearchParams('harmony', new URLSearchParams('s=%%%&v=2'));
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues).toEqual([
+        expect.objectContaining({ param: 's', code: 'invalid_state', received: '%%%' }),
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // Property tests
+  // ==========================================================================
+
+  describe('properties', () => {
+    const RUNS = 300;
+
+    /**
+     * Small deterministic PRNG (mulberry32) so failures are reproducible
+     */
+    function createRandom(seed: number) {
+      let state = seed >>> 0;
+      const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+      const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+      const pick = <T>(values: readonly T[]): T => values[int(0, values.length - 1)];
+      return { next, int, pick };
+    }
+
+    type Random = ReturnType<typeof createRandom>;
+
+    const JUNK = [
+      ...['', ' ', 'abc', '-1', '0', '1e3', '0x1f', '1.5'],
+      ...['NaN', '<script>', '%00', '🎨'],
+    ];
+
+    /**
+     * A raw value that is sometimes valid, sometimes hostile
+     */
+    function rawValue(random: Random, valid: () => string): string | undefined {
+      const roll = random.next();
+      if (roll < 0.15) return undefined;
+      if (roll < 0.55) return valid();
+      if (roll < 0.75) return random.pick(JUNK);
+      return String(random.int(-1_000_000_000, 1_000_000_000));
+    }
+
+    function rawParams(random: Random, tool: ToolId): RawParams {
+      const hex = () =>
+        Array.from({ length: 6 }, () => '0123456789abcdefABCDEF'[random.int(0, 21)]).join('');
+      const id = () => (random.next() < 0.2 ? `hex:${hex()}` : String(random.int(1, 60_000)));
+      const anyOf = (values: readonly string[]) => () => {
+        const value = random.pick(values);
+        return random.next() < 0.3 ? value.toUpperCase() : value;
+      };
+      const int = () => String(random.int(-50, 500));
+      const list = () =>
+        Array.from({ length: random.int(1, 8) }, () => rawValue(random, id) ?? '').join(',');
+
+      const generators: Record<ToolId, Record<string, () => string>> = {
+        harmony: { dye: id, harmony: anyOf(HARMONY_TYPES), algo: anyOf(MATCHING_ALGORITHMS) },
+        gradient: { start: id, end: id, steps: int, algo: anyOf(MATCHING_ALGORITHMS) },
+        mixer: { dyeA: id, dyeB: id, dyeC: id, ratio: int, algo: anyOf(MATCHING_ALGORITHMS) },
+        swatch: {
+          color: hex,
+          limit: int,
+          algo: anyOf(MATCHING_ALGORITHMS),
+          sheet: anyOf(COLOR_SHEETS),
+          race: anyOf(SUBRACES),
+          gender: anyOf(CHARACTER_GENDERS),
+        },
+        comparison: { dyes: list },
+        accessibility: { dyes: list, vision: anyOf(VISION_TYPES) },
+      };
+
+      const raw: RawParams = {};
+      for (const [param, valid] of Object.entries(generators[tool])) {
+        raw[param] = rawValue(random, valid);
+      }
+      return raw;
+    }
+
+    const TOOLS = Object.keys(IMAGE_ROUTES) as ToolId[];
+    const inRange = (value: number, limits: { min: number; max: number }) =>
+      Number.isInteger(value) && value >= limits.min && value <= limits.max;
+    const isDyeRef = (value: unknown) =>
+      typeof value === 'number'
+        ? inRange(value, { min: 1, max: PARAM_LIMITS.maxItemId })
+        : /^hex:[0-9A-F]{6}$/.test(String(value));
+
+    it.each(TOOLS)('should return in-range %s params or throw ValidationError', (tool) => {
+      const random = createRandom(tool.length * 7919);
+
+      for (let run = 0; run < RUNS; run++) {
+        const raw = rawParams(random, tool);
+        let params: Record<string, unknown>;
+        try {
+          params = validateToolParams(tool, raw) as Record<string, unknown>;
+        } catch (error) {
+          expect(error, JSON.stringify(raw)).toBeInstanceOf(ValidationError);
+          expect((error as ValidationError).issues.length).toBeGreaterThan(0);
+          continue;
+        }
+
+        for (const key of ['dye', 'start', 'end', 'dyeA', 'dyeB', 'dyeC']) {
+          if (key in params) expect(isDyeRef(params[key]), JSON.stringify(raw)).toBe(true);
+        }
+        if ('dyes' in params) {
+          const dyes = params.dyes as unknown[];
+          expect(dyes.length).toBeGreaterThan(0);
+          expect(dyes.length).toBeLessThanOrEqual(PARAM_LIMITS.maxDyes);
+          expect(dyes.every(isDyeRef)).toBe(true);
+        }
+        if ('steps' in params) {
+          expect(inRange(params.steps as number, PARAM_LIMITS.steps)).toBe(true);
+        }
+        if ('ratio' in params) {
+          expect(inRange(params.ratio as number, PARAM_LIMITS.ratio)).toBe(true);
+        }
+        if ('limit' in params) {
+          expect(inRange(params.limit as number, PARAM_LIMITS.limit)).toBe(true);
+        }
+        if ('color' in params) expect(params.color).toMatch(/^[0-9A-F]{6}$/);
+        if ('harmony' in params) expect(HARMONY_TYPES).toContain(params.harmony);
+        if ('algo' in params) expect(MATCHING_ALGORITHMS).toContain(params.algo);
+        if ('vision' in params) expect(VISION_TYPES).toContain(params.vision);
+        if ('sheet' in params) expect(COLOR_SHEETS).toContain(params.sheet);
+        if ('race' in params) expect(SUBRACES).toContain(params.race);
+        if ('gender' in params) expect(CHARACTER_GENDERS).toContain(params.gender);
+      }
+    });
+
+    it.each(TOOLS)('should be idempotent through %s image paths', async (tool) => {
+      const app = new Hono<{ Bindings: Env }>();
+      registerImageRoutes(app, (c, match) => c.json(match));
+      const random = createRandom(tool.length * 104729);
+      let checked = 0;
+
+      const resolve = async (path: string) => {
+        const res = await app.request(`${IMAGE_ROUTE_PREFIX}${path}`);
+        expect(res.status, path).toBe(200);
+        return (await res.json()) as { params: unknown; path: string };
+      };
+
+      for (let run = 0; run < RUNS && checked < 50; run++) {
+        let params;
+        try {
+          params = validateToolParams(tool, rawParams(random, tool));
+        } catch {
+          continue;
+        }
+
+        // One trip through the route may fill in defaults; after that the path is a fixed point
+        const path = buildImagePath(tool, params);
+        const first = await resolve(path);
+        const second = await resolve(first.path);
+
+        expect(first.path, path).toBe(path);
+        expect(second.params, path).toEqual(first.params);
+        expect(second.path).toBe(path);
+        checked++;
+      }
+
+      expect(checked).toBeGreaterThan(0);
+    });
+  });
+});
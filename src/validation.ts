@@ -0,0 +1,446 @@
+/**
+ * Share Parameter Validation
+ *
+ * Schema-based parsing of raw share parameters into typed `ToolParams`.
+ * Used by both `generateOGDataForTool` (page query strings) and the `/og/*`
+ * image routes, so the two can never disagree about what is valid.
+ *
+ * - Out-of-range numbers (steps, ratio, limit) are clamped
+ * - Dyes are itemIDs or `hex:RRGGBB` custom colors (see dye-refs.ts)
+ * - ID lists drop malformed entries and are truncated to what the cards can show
+ * - Malformed values (non-integer IDs, unknown enums, bad hex) are rejected
+ *   with a `ValidationError` listing every offending parameter
+ *
+ * @module validation
+ */
+
+import type {
+  ToolId,
+  ToolParams,
+  HarmonyType,
+  MatchingAlgorithm,
+  VisionType,
+  ColorSheetCategory,
+  CharacterGender,
+  DyeRef,
+  Locale,
+  Subrace,
+} from './types';
+import { expandShareQuery, ShareCodecError } from './share-codec';
+import { CUSTOM_COLOR_PREFIX, parseCustomColor } from './dye-refs';
+
+// ============================================================================
+// Allowed Values
+// ============================================================================
+
+export const HARMONY_TYPES: readonly HarmonyType[] = [
+  'complementary',
+  'analogous',
+  'triadic',
+  'split-complementary',
+  'tetradic',
+  'square',
+  'monochromatic',
+  'compound',
+  'shades',
+];
+
+export const MATCHING_ALGORITHMS: readonly MatchingAlgorithm[] = [
+  'oklab',
+  'ciede2000',
+  'euclidean',
+];
+
+export const VISION_TYPES: readonly VisionType[] = [
+  'normal',
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+export const COLOR_SHEETS: readonly ColorSheetCategory[] = [
+  'eyeColors',
+  'highlightColors',
+  'lipColorsDark',
+  'lipColorsLight',
+  'tattooColors',
+  'facePaintColorsDark',
+  'facePaintColorsLight',
+  'hairColors',
+  'skinColors',
+];
+
+export const CHARACTER_GENDERS: readonly CharacterGender[] = ['Male', 'Female'];
+
+/** Languages of OG text and images (see i18n.ts) */
+export const LOCALES: readonly Locale[] = ['en', 'ja', 'de', 'fr', 'ko', 'zh'];
+
+/** Subraces accepted for race-specific color sheets */
+export const SUBRACES: readonly Subrace[] = [
+  'Midlander', 'Highlander', // Hyur
+  'Wildwood', 'Duskwight', // Elezen
+  'Plainsfolk', 'Dunesfolk', // Lalafell
+  'SeekerOfTheSun', 'KeeperOfTheMoon', // Miqo'te
+  'SeaWolf', 'Hellsguard', // Roegadyn
+  'Raen', 'Xaela', // Au Ra
+  'Rava', 'Veena', // Viera
+  'Helion', 'TheLost', // Hrothgar
+];
+
+/** Numeric limits; values outside are clamped */
+export const PARAM_LIMITS = {
+  /** Largest accepted itemID */
+  maxItemId: 99_999_999,
+  steps: { min: 2, max: 10, default: 5 },
+  ratio: { min: 0, max: 100, default: 50 },
+  limit: { min: 1, max: 10, default: 5 },
+  /** Most dyes shown by the comparison and accessibility cards */
+  maxDyes: 4,
+} as const;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_integer'
+  | 'invalid_id'
+  | 'invalid_enum'
+  | 'invalid_hex'
+  | 'invalid_list'
+  | 'invalid_state';
+
+/**
+ * A single rejected parameter
+ */
+export interface ValidationIssue {
+  /** Share parameter name (e.g. `dye`, `harmony`) */
+  param: string;
+  code: ValidationErrorCode;
+  message: string;
+  /** The raw value that was rejected */
+  received?: string;
+  /** Accepted values, for enum params */
+  allowed?: readonly string[];
+}
+
+/**
+ * Machine-readable body of a 400 response
+ */
+export interface ValidationErrorBody {
+  error: 'invalid_params';
+  tool: ToolId;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Thrown when share parameters fail validation
+ */
+export class ValidationError extends Error {
+  constructor(
+    readonly tool: ToolId,
+    readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid ${tool} parameters: ${issues.map((i) => `${i.param} (${i.code})`).join(', ')}`
+    );
+    this.name = 'ValidationError';
+  }
+
+  toJSON(): ValidationErrorBody {
+    return { error: 'invalid_params', tool: this.tool, issues: this.issues };
+  }
+}
+
+/**
+ * Issue raised by a single field parser
+ */
+class FieldIssue {
+  constructor(readonly issue: Omit<ValidationIssue, 'param'>) {}
+}
+
+// ============================================================================
+// Field Parsers
+// ============================================================================
+
+/** Raw parameter values keyed by share param name */
+export type RawParams = Record<string, string | null | undefined>;
+
+type FieldParser<T> = (raw: string | undefined) => T;
+
+const isBlank = (raw: string | undefined): raw is undefined | '' =>
+  raw === undefined || raw.trim() === '';
+
+/**
+ * Parse a strict base-10 integer ("12", "-3"; not "12abc" or "1e3")
+ */
+function parseStrictInt(raw: string): number | null {
+  const trimmed = raw.trim();
+  if (!/^-?\d{1,12}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 10);
+}
+
+/**
+ * A dye itemID, or `null` when the value is not a positive integer in range
+ */
+function parseItemId(raw: string): number | null {
+  const id = parseStrictInt(raw);
+  return id !== null && id >= 1 && id <= PARAM_LIMITS.maxItemId ? id : null;
+}
+
+/**
+ * A dye: a positive integer itemID or a `hex:RRGGBB` custom color
+ */
+function dyeRef(): FieldParser<DyeRef> {
+  return (raw) => {
+    if (isBlank(raw)) {
+      throw new FieldIssue({ code: 'required', message: 'A dye itemID is required' });
+    }
+    if (raw.trim().toLowerCase().startsWith(CUSTOM_COLOR_PREFIX)) {
+      const color = parseCustomColor(raw);
+      if (!color) {
+        throw new FieldIssue({
+          code: 'invalid_hex',
+          message: 'Expected a custom color as hex:RRGGBB',
+          received: raw,
+        });
+      }
+      return color;
+    }
+    const id = parseItemId(raw);
+    if (id === null) {
+      throw new FieldIssue({
+        code: 'invalid_id',
+        message: 'Expected a positive integer itemID or a hex:RRGGBB color',
+        received: raw,
+      });
+    }
+    return id;
+  };
+}
+
+/**
+ * An optional dye
+ */
+function optionalDyeRef(): FieldParser<DyeRef | undefined> {
+  const parse = dyeRef();
+  return (raw) => (isBlank(raw) ? undefined : parse(raw));
+}
+
+/**
+ * An integer clamped to `[min, max]`, with a default when absent
+ */
+function clampedInt(limits: { min: number; max: number; default: number }): FieldParser<number> {
+  return (raw) => {
+    if (isBlank(raw)) return limits.default;
+    const value = parseStrictInt(raw);
+    if (value === null) {
+      throw new FieldIssue({
+        code: 'invalid_integer',
+        message: 'Expected an integer',
+        received: raw,
+      });
+    }
+    return Math.min(limits.max, Math.max(limits.min, value));
+  };
+}
+
+/**
+ * One of a fixed set of values, matched case-insensitively and
+ * returned in its canonical casing
+ */
+function oneOf<T extends string>(allowed: readonly T[]): FieldParser<T | undefined> {
+  return (raw) => {
+    if (isBlank(raw)) return undefined;
+    const needle = raw.trim().toLowerCase();
+    const match = allowed.find((value) => value.toLowerCase() === needle);
+    if (!match) {
+      throw new FieldIssue({
+        code: 'invalid_enum',
+        message: `Expected one of: ${allowed.join(', ')}`,
+        received: raw,
+        allowed,
+      });
+    }
+    return match;
+  };
+}
+
+/**
+ * Like `oneOf`, with a default when absent
+ */
+function oneOfOrDefault<T extends string>(allowed: readonly T[], fallback: T): FieldParser<T> {
+  const parse = oneOf(allowed);
+  return (raw) => parse(raw) ?? fallback;
+}
+
+/**
+ * A 6-digit hex color (with or without `#`), normalized to uppercase without `#`
+ */
+function hexColor(fallback: string): FieldParser<string> {
+  return (raw) => {
+    if (isBlank(raw)) return fallback;
+    const hex = raw.trim().replace(/^#/, '');
+    if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+      throw new FieldIssue({
+        code: 'invalid_hex',
+        message: 'Expected a 6-digit hex color',
+        received: raw,
+      });
+    }
+    return hex.toUpperCase();
+  };
+}
+
+/**
+ * A comma-separated list of dyes (itemIDs or `hex:` colors). Entries that
+ * are neither are dropped and the list is truncated to `max`; it must keep
+ * at least one dye.
+ */
+function dyeRefList(max: number): FieldParser<DyeRef[]> {
+  return (raw) => {
+    if (isBlank(raw)) {
+      throw new FieldIssue({ code: 'required', message: 'At least one dye itemID is required' });
+    }
+
+    const dyes: DyeRef[] = [];
+    for (const token of raw.split(',')) {
+      const dye = parseItemId(token) ?? parseCustomColor(token);
+      if (dye !== null) dyes.push(dye);
+      if (dyes.length === max) break;
+    }
+
+    if (dyes.length === 0) {
+      throw new FieldIssue({
+        code: 'invalid_list',
+        message: 'Expected a comma-separated list of positive integer itemIDs or hex:RRGGBB colors',
+        received: raw,
+      });
+    }
+    return dyes;
+  };
+}
+
+// ============================================================================
+// Tool Schemas
+// ============================================================================
+
+type Schema<T> = { [K in keyof T]-?: FieldParser<T[K]> };
+
+/**
+ * Parser for every share param of every tool
+ */
+const TOOL_SCHEMAS: { [T in ToolId]: Schema<ToolParams<T>> } = {
+  harmony: {
+    dye: dyeRef(),
+    harmony: oneOfOrDefault(HARMONY_TYPES, 'complementary'),
+    algo: oneOf(MATCHING_ALGORITHMS),
+    perceptual: (raw) => (raw === '1' ? true : undefined),
+    lang: oneOf(LOCALES),
+  },
+  gradient: {
+    start: dyeRef(),
+    end: dyeRef(),
+    steps: clampedInt(PARAM_LIMITS.steps),
+    algo: oneOf(MATCHING_ALGORITHMS),
+    lang: oneOf(LOCALES),
+  },
+  mixer: {
+    dyeA: dyeRef(),
+    dyeB: dyeRef(),
+    dyeC: optionalDyeRef(),
+    ratio: clampedInt(PARAM_LIMITS.ratio),
+    algo: oneOf(MATCHING_ALGORITHMS),
+    lang: oneOf(LOCALES),
+  },
+  swatch: {
+    color: hexColor('FFFFFF'),
+    algo: oneOf(MATCHING_ALGORITHMS),
+    limit: clampedInt(PARAM_LIMITS.limit),
+    sheet: oneOf(COLOR_SHEETS),
+    race: oneOf(SUBRACES),
+    gender: oneOf(CHARACTER_GENDERS),
+    index: () => undefined, // Not part of share URLs
+    lang: oneOf(LOCALES),
+  },
+  comparison: {
+    dyes: dyeRefList(PARAM_LIMITS.maxDyes),
+    lang: oneOf(LOCALES),
+  },
+  accessibility: {
+    dyes: dyeRefList(PARAM_LIMITS.maxDyes),
+    vision: oneOf(VISION_TYPES),
+    lang: oneOf(LOCALES),
+  },
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate raw share params for a tool.
+ *
+ * Every field is checked before failing, so the error lists all problems.
+ * Optional fields that are absent are left undefined.
+ *
+ * @param tool - Tool the params belong to
+ * @param raw - Raw values keyed by share param name (`dye`, `harmony`, …)
+ * @throws ValidationError when any param is malformed
+ *
+ * @example
+ * validateToolParams('gradient', { start: '5771', end: '5772', steps: '900' });
+ * // { start: 5771, end: 5772, steps: 10, algo: undefined }
+ */
+export function validateToolParams<T extends ToolId>(tool: T, raw: RawParams): ToolParams<T> {
+  const schema = TOOL_SCHEMAS[tool] as Record<string, FieldParser<unknown>>;
+  const result: Record<string, unknown> = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const [param, parse] of Object.entries(schema)) {
+    try {
+      const value = parse(raw[param] ?? undefined);
+      if (value !== undefined) result[param] = value;
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      issues.push({ param, ...error.issue });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(tool, issues);
+  }
+  return result as ToolParams<T>;
+}
+
+/**
+ * Validate a tool's params from a page query string.
+ * Compact `v=2` links are decoded first (see share-codec.ts).
+ */
+export function validateSearchParams<T extends ToolId>(
+  tool: T,
+  searchParams: URLSearchParams
+): ToolParams<T> {
+  let query: URLSearchParams;
+  try {
+    query = expandShareQuery(tool, searchParams);
+  } catch (error) {
+    if (!(error instanceof ShareCodecError)) throw error;
+    throw new ValidationError(tool, [
+      {
+        param: 's',
+        code: 'invalid_state',
+        message: error.message,
+        received: searchParams.get('s') ?? undefined,
+      },
+    ]);
+  }
+
+  const raw: RawParams = {};
+  for (const param of Object.keys(TOOL_SCHEMAS[tool])) {
+    raw[param] = query.get(param);
+  }
+  return validateToolParams(tool, raw);
+}
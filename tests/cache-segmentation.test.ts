@@ -0,0 +1,131 @@
+/**
+ * Integration tests for crawler/user cache segmentation
+ *
+ * A tool page URL serves OG HTML to crawlers and the SPA to users. Whichever
+ * is requested first, the other must not be served from its cache entry.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { crawlerCacheKey } from '../src/services/crawler-cache';
+import { MemoryCache } from '../src/test-utils/memory-cache';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const PAGE = 'https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic&v=1';
+const SPA_HTML = '<!doctype html><div id="app"></div>';
+
+const crawler = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+const user = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36' },
+};
+
+describe('cache segmentation', () => {
+  let edge: MemoryCache;
+  const originFetch = vi.fn(
+    async () =>
+      new Response(SPA_HTML, {
+        headers: { 'Content-Type': 'text/html', 'Cache-Control': 'public, max-age=600' },
+      })
+  );
+
+  beforeEach(() => {
+    edge = new MemoryCache();
+    originFetch.mockClear();
+    vi.stubGlobal('caches', { default: edge.asCache() });
+    vi.stubGlobal('fetch', originFetch);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const isOgHtml = (html: string) => html.includes('og:image');
+
+  it('should serve users the SPA after a crawler has been served', async () => {
+    const crawlerRes = await app.request(PAGE, crawler, env);
+    const userRes = await app.request(PAGE, user, env);
+
+    expect(isOgHtml(await crawlerRes.text())).toBe(true);
+    expect(await userRes.text()).toBe(SPA_HTML);
+    expect(originFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve crawlers OG HTML after a user has been served', async () => {
+    const userRes = await app.request(PAGE, user, env);
+    const crawlerRes = await app.request(PAGE, crawler, env);
+
+    expect(await userRes.text()).toBe(SPA_HTML);
+    expect(isOgHtml(await crawlerRes.text())).toBe(true);
+    expect(originFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never store pass-through responses', async () => {
+    await app.request(PAGE, user, env);
+
+    expect(edge.store.size).toBe(0);
+  });
+
+  it('should cache crawler HTML under the crawler key only', async () => {
+    await app.request(PAGE, crawler, env);
+
+    expect([...edge.store.keys()]).toEqual([crawlerCacheKey(PAGE).url]);
+  });
+
+  it('should serve repeat crawler requests from the crawler key', async () => {
+    const first = await (await app.request(PAGE, crawler, env)).text();
+    await edge.put(
+      crawlerCacheKey(PAGE),
+      new Response(first.replace('</head>', '<!-- cached --></head>'))
+    );
+
+    const res = await app.request(PAGE, crawler, env);
+
+    expect(await res.text()).toContain('<!-- cached -->');
+    expect(res.headers.get('Content-Security-Policy')).toContain("default-src 'none'");
+  });
+
+  it('should keep crawler HTML out of the CDN and vary it on User-Agent and language', async () => {
+    const res = await app.request(PAGE, crawler, env);
+    const revalidated = await app.request(
+      PAGE,
+      { headers: { ...crawler.headers, 'If-None-Match': res.headers.get('ETag')! } },
+      env
+    );
+
+    for (const response of [res, revalidated]) {
+      expect(response.headers.get('Vary')).toBe('User-Agent, Accept-Language');
+      expect(response.headers.get('CDN-Cache-Control')).toBe('no-store');
+    }
+    expect(revalidated.status).toBe(304);
+  });
+
+  it('should vary pass-through responses on User-Agent', async () => {
+    const res = await app.request(PAGE, user, env);
+
+    expect(res.headers.get('Vary')).toBe('User-Agent');
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=600');
+  });
+
+  it.each(['/', '/unknown-page'])('should segment %s the same way', async (path) => {
+    const crawlerRes = await app.request(path, crawler, env);
+    const userRes = await app.request(path, user, env);
+
+    expect(crawlerRes.headers.get('CDN-Cache-Control')).toBe('no-store');
+    expect(crawlerRes.headers.get('Vary')).toBe('User-Agent, Accept-Language');
+    expect(userRes.headers.get('Vary')).toBe('User-Agent');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Integration tests for canonical share URLs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const DISCORD = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+
+const CANONICAL = 'https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic&v=1';
+
+describe('canonical URLs', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    ['enum casing', '/harmony/?dye=5771&harmony=Tetradic&v=1'],
+    ['tracking params', '/harmony/?dye=5771&harmony=tetradic&utm_source=discord&v=1'],
+    ['param order', '/harmony/?v=1&harmony=tetradic&dye=5771'],
+    ['no trailing slash', '/harmony?dye=5771&harmony=tetradic&v=1'],
+    ['no version', '/harmony/?dye=5771&harmony=tetradic'],
+  ])('should 301 crawlers from %s to the canonical link', async (_case, path) => {
+    const res = await app.request(`https://xivdyetools.app${path}`, DISCORD, env);
+
+    expect(res.status).toBe(301);
+    expect(res.headers.get('Location')).toBe(CANONICAL);
+    expect(res.headers.get('Vary')).toContain('User-Agent');
+  });
+
+  it('should keep compact links in their own canonical form', async () => {
+    const compact = 'https://xivdyetools.app/harmony/?s=AIstBQ&v=2';
+
+    const redirect = await app.request(
+      'https://xivdyetools.app/harmony?utm_source=discord&s=AIstBQ&v=2',
+      DISCORD,
+      env
+    );
+    const res = await app.request(compact, DISCORD, env);
+
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get('Location')).toBe(compact);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain(
+      `<link rel="canonical" href="${compact.replace(/&/g, '&amp;')}">`
+    );
+  });
+
+  it('should redirect crawlers to sorted dye sets', async () => {
+    const res = await app.request('/comparison/?dyes=5772,5771', DISCORD, env);
+
+    expect(res.headers.get('Location')).toBe('http://localhost/comparison/?dyes=5771,5772&v=1');
+  });
+
+  it('should serve the canonical link with a canonical tag', async () => {
+    const res = await app.request(CANONICAL, DISCORD, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain(`<link rel="canonical" href="${CANONICAL.replace(/&/g, '&amp;')}">`);
+  });
+
+  it('should not redirect malformed links', async () => {
+    const res = await app.request('/harmony/?dye=abc&harmony=tetradic', DISCORD, env);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should not redirect people', async () => {
+    const origin = vi.fn(async () => new Response('<!doctype html>'));
+    vi.stubGlobal('fetch', origin);
+
+    const res = await app.request('/harmony/?dye=5771&harmony=Tetradic', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(origin).toHaveBeenCalled();
+  });
+});
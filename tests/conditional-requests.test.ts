@@ -0,0 +1,214 @@
+/**
+ * Integration tests for conditional requests and HEAD support
+ *
+ * Revalidating crawlers must get a 304 without a render, and every
+ * `/og/*` and tool route must answer HEAD.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { renderOGPng } from '../src/services/renderer';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+  // Request paths are built by hand here; signing is covered in url-signing.test.ts
+  OG_SIGNING_BYPASS: '1',
+};
+
+const DISCORD_UA = 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)';
+
+describe('conditional requests', () => {
+  beforeEach(() => {
+    vi.mocked(renderOGPng).mockClear();
+  });
+
+  describe('images', () => {
+    it('should send a strong ETag and Last-Modified', async () => {
+      const res = await app.request('/og/harmony/5771/square.png', {}, env);
+
+      expect(res.headers.get('ETag')).toMatch(/^"[0-9a-f]{12}"$/);
+      expect(res.headers.get('Last-Modified')).toMatch(/GMT$/);
+    });
+
+    it('should answer a matching If-None-Match with 304 without rendering', async () => {
+      // Different params from other tests so the render cache starts cold
+      const path = '/og/gradient/5771/5780/9.png';
+      const etag = (await app.request(path, { method: 'HEAD' }, env)).headers.get('ETag')!;
+      vi.mocked(renderOGPng).mockClear();
+
+      const res = await app.request(path, { headers: { 'If-None-Match': etag } }, env);
+
+      expect(res.status).toBe(304);
+      expect(res.headers.get('ETag')).toBe(etag);
+      expect(res.headers.get('Cache-Control')).toContain('max-age=');
+      expect(await res.text()).toBe('');
+      expect(renderOGPng).not.toHaveBeenCalled();
+    });
+
+    it('should compute the ETag before rendering', async () => {
+      const first = await app.request('/og/mixer/5771/5772/30.png', {}, env);
+      const etag = first.headers.get('ETag')!;
+      vi.mocked(renderOGPng).mockClear();
+
+      const res = await app.request(
+        '/og/mixer/5771/5772/30.png',
+        { headers: { 'If-None-Match': `"other", ${etag}` } },
+        env
+      );
+
+      expect(res.status).toBe(304);
+      expect(renderOGPng).not.toHaveBeenCalled();
+    });
+
+    it('should give different images different ETags', async () => {
+      const a = await app.request('/og/comparison/5771,5772.png', {}, env);
+      const b = await app.request('/og/comparison/5772,5771.png', {}, env);
+
+      expect(a.headers.get('ETag')).not.toBe(b.headers.get('ETag'));
+    });
+
+    it('should return 200 for a stale If-None-Match', async () => {
+      const res = await app.request(
+        '/og/harmony/5771/square.png',
+        { headers: { 'If-None-Match': '"000000000000"' } },
+        env
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should honor If-Modified-Since', async () => {
+      const res = await app.request(
+        '/og/harmony/5771/square.png',
+        { headers: { 'If-Modified-Since': new Date(Date.now() + 86400000).toUTCString() } },
+        env
+      );
+
+      expect(res.status).toBe(304);
+    });
+
+    it('should answer 304 for the site default image', async () => {
+      const etag = (await app.request('/og/default.png', {}, env)).headers.get('ETag')!;
+
+      const res = await app.request('/og/default.png', { headers: { 'If-None-Match': etag } }, env);
+
+      expect(res.status).toBe(304);
+    });
+  });
+
+  describe('HTML', () => {
+    const crawler = { 'User-Agent': DISCORD_UA };
+
+    it('should send an ETag on crawler HTML', async () => {
+      const res = await app.request(
+        '/harmony/?dye=5771&harmony=triadic&v=1',
+        { headers: crawler },
+        env
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toMatch(/^"[0-9a-f]{16}"$/);
+      expect(res.headers.get('Last-Modified')).toMatch(/GMT$/);
+    });
+
+    it('should answer a matching If-None-Match with 304', async () => {
+      const url = '/harmony/?dye=5771&harmony=triadic&v=1';
+      const etag = (await app.request(url, { headers: crawler }, env)).headers.get('ETag')!;
+
+      const res = await app.request(url, { headers: { ...crawler, 'If-None-Match': etag } }, env);
+
+      expect(res.status).toBe(304);
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=3600, s-maxage=86400');
+    });
+
+    it('should change the ETag when the share params change', async () => {
+      const page = (harmony: string) => `/harmony/?dye=5771&harmony=${harmony}&v=1`;
+      const a = await app.request(page('triadic'), { headers: crawler }, env);
+      const b = await app.request(page('square'), { headers: crawler }, env);
+
+      expect(a.headers.get('ETag')).not.toBe(b.headers.get('ETag'));
+    });
+
+    it('should support conditional requests on the root route', async () => {
+      const etag = (await app.request('/', { headers: crawler }, env)).headers.get('ETag')!;
+
+      const res = await app.request('/', { headers: { ...crawler, 'If-None-Match': etag } }, env);
+
+      expect(res.status).toBe(304);
+    });
+  });
+
+  describe('HEAD', () => {
+    const originFetch = vi.fn(
+      async (request: Request) =>
+        new Response(null, { headers: { 'X-Origin-Method': request.method } })
+    );
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', originFetch);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it.each([
+      '/og/harmony/5771/triadic.png',
+      '/og/gradient/5771/5772/5.png',
+      '/og/mixer/5771/5772/50.png',
+      '/og/mixer/5771/5772/5773/50.png',
+      '/og/swatch/8B4513/4.png',
+      '/og/comparison/5771,5772.png',
+      '/og/accessibility/5771,5772/protanopia.png',
+      '/og/harmony/default.png',
+      '/og/default.png',
+    ])('should answer HEAD %s with headers and no body', async (path) => {
+      const res = await app.request(path, { method: 'HEAD' }, env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/png');
+      expect(res.headers.get('ETag')).toBeTruthy();
+      expect(res.body).toBeNull();
+      expect(renderOGPng).not.toHaveBeenCalled();
+    });
+
+    it('should send the same validators for HEAD as for GET', async () => {
+      const path = '/og/harmony/5771/tetradic.png';
+      const head = await app.request(path, { method: 'HEAD' }, env);
+      const get = await app.request(path, {}, env);
+
+      expect(head.headers.get('ETag')).toBe(get.headers.get('ETag'));
+      expect(head.headers.get('Cache-Control')).toBe(get.headers.get('Cache-Control'));
+    });
+
+    it.each(['harmony', 'gradient', 'mixer', 'swatch', 'comparison', 'accessibility'])(
+      'should answer HEAD on the %s tool route for crawlers',
+      async (tool) => {
+        const res = await app.request(
+          `/${tool}/`,
+          { method: 'HEAD', headers: { 'User-Agent': DISCORD_UA } },
+          env
+        );
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+        expect(res.headers.get('ETag')).toBeTruthy();
+        expect(res.body).toBeNull();
+      }
+    );
+
+    it('should pass HEAD through to the origin for regular users', async () => {
+      const res = await app.request('/harmony/', { method: 'HEAD' }, env);
+
+      expect(originFetch).toHaveBeenCalled();
+      expect(res.headers.get('X-Origin-Method')).toBe('HEAD');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Integration tests for the embed widget routes
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { renderOGPng } from '../src/services/renderer';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+describe('embed widget routes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    '/embed/harmony/?dye=5771&harmony=triadic',
+    '/embed/gradient/?start=5771&end=5772&steps=5',
+    '/embed/mixer/?dyeA=5771&dyeB=5772&ratio=50',
+    '/embed/swatch/?color=FF0000&limit=3',
+    '/embed/comparison/?dyes=5771,5772',
+    '/embed/accessibility/?dyes=5771,5772&vision=protanopia',
+  ])('should serve a widget for %s', async (path) => {
+    const res = await app.request(path, {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/html');
+    expect(html).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(html).toContain('<ul class="palette">');
+    expect(html).toContain('Open in XIV Dye Tools');
+  });
+
+  it('should link back to the share page', async () => {
+    const res = await app.request('/embed/harmony?dye=5771&harmony=triadic', {}, env);
+
+    expect(await res.text()).toContain(
+      '<a href="https://xivdyetools.app/harmony/?dye=5771&amp;harmony=triadic'
+    );
+  });
+
+  it('should inline the SVG without rendering a PNG', async () => {
+    await app.request('/embed/harmony/?dye=5771&harmony=triadic', {}, env);
+
+    expect(renderOGPng).not.toHaveBeenCalled();
+  });
+
+  it('should be frameable and cacheable for everyone', async () => {
+    const res = await app.request('/embed/harmony/?dye=5771&harmony=triadic', {}, env);
+
+    expect(res.headers.get('Content-Security-Policy')).toContain('frame-ancestors *');
+    expect(res.headers.get('Cache-Control')).toContain('public');
+    expect(res.headers.get('Vary')).toBeNull();
+  });
+
+  it('should fall back to the default card for malformed params', async () => {
+    const res = await app.request('/embed/gradient/?start=abc&steps=999', {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('<a href="https://xivdyetools.app/gradient/"');
+  });
+
+  it('should answer conditional requests with 304', async () => {
+    const path = '/embed/mixer/?dyeA=5771&dyeB=5772&ratio=50';
+    const first = await app.request(path, {}, env);
+
+    const res = await app.request(
+      path,
+      { headers: { 'If-None-Match': first.headers.get('ETag')! } },
+      env
+    );
+
+    expect(res.status).toBe(304);
+  });
+});
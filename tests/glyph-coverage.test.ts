@@ -0,0 +1,61 @@
+/**
+ * Every character drawn on an OG image must exist in the fonts the renderer
+ * loads; resvg draws anything else as a missing glyph or drops it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderToolSvg } from '../src/image-renderers';
+import { defaultImageMatch, resolveShareParams } from '../src/image-routes';
+import { FALLBACK_FONT_FAMILIES } from '../src/services/font-fallback';
+import { generateOGCard } from '../src/services/svg';
+import { findMissingGlyphs, loadFontCoverage } from '../src/test-utils/font-coverage';
+import { LOCALES } from '../src/validation';
+import type { ToolId } from '../src/types';
+
+const coverage = loadFontCoverage();
+
+/** A populated share for each tool */
+const SHARES: Record<ToolId, string> = {
+  harmony: 'dye=5771&harmony=tetradic',
+  gradient: 'start=5771&end=5772&steps=5',
+  mixer: 'dyeA=5771&dyeB=5772&dyeC=5773&ratio=50',
+  swatch: 'color=8B4513&sheet=hairColors&race=SeekerOfTheSun&gender=Female',
+  comparison: 'dyes=5771,5772,hex:8B4513',
+  accessibility: 'dyes=5771,5772&vision=deuteranopia',
+};
+
+const TOOLS = Object.keys(SHARES) as ToolId[];
+
+describe('glyph coverage', () => {
+  it('should load the bundled brand and fallback fonts', () => {
+    expect([...coverage.keys()]).toEqual(
+      expect.arrayContaining([
+        'Space Grotesk',
+        'Onest',
+        'Habibi',
+        ...Object.values(FALLBACK_FONT_FAMILIES),
+      ])
+    );
+  });
+
+  it('should draw the card chrome with font glyphs only', () => {
+    const svg = generateOGCard({ toolName: 'Harmony', content: '', algorithm: 'oklab' });
+
+    expect(findMissingGlyphs(svg, coverage)).toEqual([]);
+  });
+
+  describe.each(LOCALES)('%s', (lang) => {
+    it.each(TOOLS)('should draw the %s default image', async (tool) => {
+      const svg = await renderToolSvg(defaultImageMatch(tool, lang));
+
+      expect(findMissingGlyphs(svg, coverage)).toEqual([]);
+    });
+
+    it.each(TOOLS)('should draw a %s share image', async (tool) => {
+      const params = resolveShareParams(tool, new URLSearchParams(`${SHARES[tool]}&lang=${lang}`));
+      const svg = await renderToolSvg({ tool, params } as Parameters<typeof renderToolSvg>[0]);
+
+      expect(findMissingGlyphs(svg, coverage)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Every UI string of every language must be drawable with the fonts the
+ * renderer uses, including the CJK fallback subsets in assets/fonts/.
+ * Unlike glyph-coverage.test.ts this needs no dye data, so it also guards
+ * the subsets when the core library is not installed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getMessages } from '../src/i18n';
+import { FALLBACK_FONT_FAMILIES } from '../src/services/font-fallback';
+import { FONTS, text } from '../src/services/svg/base';
+import { findMissingGlyphs, loadFontCoverage } from '../src/test-utils/font-coverage';
+import { LOCALES } from '../src/validation';
+
+const coverage = loadFontCoverage();
+
+/**
+ * The strings of a message table, however deeply nested
+ */
+function strings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (value && typeof value === 'object') return Object.values(value).flatMap(strings);
+  return [];
+}
+
+describe('locale glyph coverage', () => {
+  it('should load the CJK fallback fonts', () => {
+    expect([...coverage.keys()]).toEqual(
+      expect.arrayContaining(Object.values(FALLBACK_FONT_FAMILIES))
+    );
+  });
+
+  it.each(LOCALES)('should draw every %s string', (lang) => {
+    const svg = strings(getMessages(lang))
+      .flatMap((str) =>
+        [FONTS.header, FONTS.primary].map((fontFamily) => text(0, 0, str, { fontFamily }))
+      )
+      .join('');
+
+    expect(findMissingGlyphs(svg, coverage)).toEqual([]);
+  });
+});
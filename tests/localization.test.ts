@@ -0,0 +1,114 @@
+/**
+ * Integration tests for localised crawler pages and images
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { getMessages } from '../src/i18n';
+import { crawlerCacheKey } from '../src/services/crawler-cache';
+import { MemoryCache } from '../src/test-utils/memory-cache';
+import { LOCALES } from '../src/validation';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const DISCORD_UA = 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)';
+
+const PAGE = 'https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic&v=1';
+
+/**
+ * A crawler request, optionally with an Accept-Language header
+ */
+function crawler(acceptLanguage?: string): RequestInit {
+  return {
+    headers: {
+      'User-Agent': DISCORD_UA,
+      ...(acceptLanguage ? { 'Accept-Language': acceptLanguage } : {}),
+    },
+  };
+}
+
+describe('localization', () => {
+  let edge: MemoryCache;
+
+  beforeEach(() => {
+    edge = new MemoryCache();
+    vi.stubGlobal('caches', { default: edge.asCache() });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each(LOCALES)('should serve lang=%s links in that language', async (locale) => {
+    const res = await app.request(
+      `https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic&lang=${locale}&v=1`,
+      crawler(),
+      env
+    );
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain(`<html lang="${locale}">`);
+    expect(html).toContain(`content="${getMessages(locale).ogLocale}"`);
+    expect(html).toContain(getMessages(locale).harmonies.tetradic);
+  });
+
+  it('should fall back to the crawler Accept-Language', async () => {
+    const html = await (await app.request(PAGE, crawler('de-DE,de;q=0.9,en;q=0.8'), env)).text();
+
+    expect(html).toContain('<html lang="de">');
+    expect(html).toContain('<meta property="og:locale" content="de_DE">');
+    expect(html).toContain('lang=de');
+  });
+
+  it('should prefer the link lang over Accept-Language', async () => {
+    const html = await (
+      await app.request(
+        'https://xivdyetools.app/harmony/?dye=5771&harmony=tetradic&lang=ja&v=1',
+        crawler('fr'),
+        env
+      )
+    ).text();
+
+    expect(html).toContain('<html lang="ja">');
+  });
+
+  it('should serve English for unsupported languages', async () => {
+    const html = await (await app.request(PAGE, crawler('es-ES, pt-BR'), env)).text();
+
+    expect(html).toContain('<html lang="en">');
+  });
+
+  it('should cache each crawler language under its own key', async () => {
+    await app.request(PAGE, crawler('ko'), env);
+    await app.request(PAGE, crawler(), env);
+
+    expect([...edge.store.keys()].sort()).toEqual(
+      [crawlerCacheKey(PAGE, 'ko').url, crawlerCacheKey(PAGE).url].sort()
+    );
+  });
+
+  it('should vary crawler pages on Accept-Language', async () => {
+    const res = await app.request(PAGE, crawler('ja'), env);
+
+    expect(res.headers.get('Vary')).toContain('Accept-Language');
+  });
+
+  it.each(LOCALES)('should render the %s default image', async (locale) => {
+    const res = await app.request(`/og/harmony/default.png?lang=${locale}`, {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('image/png');
+  });
+});
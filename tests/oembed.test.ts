@@ -0,0 +1,91 @@
+/**
+ * Integration tests for the oEmbed endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const SHARE_URL = 'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic';
+
+const DISCORD = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+
+function oembed(query: Record<string, string>): Promise<Response> {
+  return Promise.resolve(app.request(`/oembed?${new URLSearchParams(query)}`, {}, env));
+}
+
+describe('oEmbed endpoint', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should describe a share link as a photo', async () => {
+    const res = await oembed({ url: SHARE_URL, format: 'json' });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('application/json');
+    expect(body).toMatchObject({
+      version: '1.0',
+      type: 'photo',
+      provider_name: 'XIV Dye Tools',
+      width: 1200,
+      height: 630,
+    });
+    expect(body.url).toMatch(/^https:\/\/og\.xivdyetools\.app\/og\/harmony\/5771\/triadic\.png/);
+  });
+
+  it('should be readable cross-origin and cacheable', async () => {
+    const res = await oembed({ url: SHARE_URL });
+
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(res.headers.get('Cache-Control')).toContain('public');
+  });
+
+  it('should serve rich HTML framing the embed widget', async () => {
+    const res = await oembed({ url: SHARE_URL, type: 'rich', maxwidth: '600' });
+    const body = await res.json();
+
+    expect(body.type).toBe('rich');
+    expect(body.width).toBe(600);
+    expect(body.html).toContain('<iframe src="https://og.xivdyetools.app/embed/harmony/');
+  });
+
+  it.each([
+    [404, { url: 'https://example.com/harmony/' }, 'not_found'],
+    [501, { url: SHARE_URL, format: 'xml' }, 'unsupported_format'],
+    [400, {}, 'invalid_request'],
+  ])('should answer with %i for %j', async (status, query, error) => {
+    const res = await oembed(query);
+
+    expect(res.status).toBe(status);
+    expect(await res.json()).toMatchObject({ error });
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  it('should advertise the endpoint on crawler pages', async () => {
+    const res = await app.request('/harmony/?dye=5771&harmony=triadic&v=1', DISCORD, env);
+    const html = await res.text();
+
+    expect(html).toContain(
+      '<link rel="alternate" type="application/json+oembed" ' +
+        'href="https://og.xivdyetools.app/oembed?url=https%3A%2F%2Fxivdyetools.app%2Fharmony%2F'
+    );
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Integration tests for the OG image routes
+ *
+ * Exercises the Hono app end to end with the resvg renderer stubbed out,
+ * covering content-addressed URLs and the render cache.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { renderOGPng } from '../src/services/renderer';
+import { generateOGDataForTool, siteDefaultImageUrl } from '../src/og-data-generator';
+import { MemoryKV } from '../src/test-utils/memory-kv';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+  // Request paths are built by hand here; signing is covered in url-signing.test.ts
+  OG_SIGNING_BYPASS: '1',
+};
+
+const DISCORD_UA = 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)';
+
+/**
+ * Turn an absolute og:image URL into a worker-relative request path
+ */
+function toRequestPath(imageUrl: string): string {
+  const url = new URL(imageUrl);
+  return `${url.pathname}${url.search}`;
+}
+
+describe('OG image routes', () => {
+  beforeEach(() => {
+    vi.mocked(renderOGPng).mockClear();
+  });
+
+  describe('content-addressed URLs', () => {
+    it('should serve hashed URLs as immutable', async () => {
+      const { imageUrl } = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=triadic'),
+        env
+      );
+
+      const res = await app.request(toRequestPath(imageUrl), {}, env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/png');
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+    });
+
+    it('should redirect mismatched hashes to the current URL', async () => {
+      const { imageUrl } = await generateOGDataForTool(
+        'gradient',
+        new URLSearchParams('start=5771&end=5772&steps=5'),
+        env
+      );
+
+      const res = await app.request('/og/gradient/5771/5772/5.png?h=000000000000', {}, env);
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe(toRequestPath(imageUrl));
+      expect(renderOGPng).not.toHaveBeenCalled();
+    });
+
+    it('should redirect to the normalized path', async () => {
+      const { imageUrl } = await generateOGDataForTool(
+        'harmony',
+        new URLSearchParams('dye=5771&harmony=tetradic'),
+        env
+      );
+
+      const res = await app.request('/og/harmony/5771/Tetradic.png?h=stale', {}, env);
+
+      expect(res.headers.get('Location')).toBe(toRequestPath(imageUrl));
+    });
+
+    it('should keep short caching for unhashed legacy URLs', async () => {
+      const res = await app.request('/og/mixer/5771/5772/40.png', {}, env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=86400, s-maxage=604800');
+    });
+
+    it('should serve the hashed site default image as immutable', async () => {
+      const res = await app.request(toRequestPath(siteDefaultImageUrl(env)), {}, env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Cache-Control')).toContain('immutable');
+    });
+  });
+
+  describe('render cache', () => {
+    it('should render once and serve repeats from memory', async () => {
+      const first = await app.request('/og/comparison/5771,5772,5773.png', {}, env);
+      const second = await app.request('/og/comparison/5771,5772,5773.png', {}, env);
+
+      expect(first.headers.get('X-Render-Cache')).toBe('MISS');
+      expect(second.headers.get('X-Render-Cache')).toBe('HIT; tier=memory');
+      expect(renderOGPng).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store renders in the OG_CACHE KV binding when bound', async () => {
+      const kv = new MemoryKV();
+
+      await app.request(
+        '/og/accessibility/5771,5772/protanopia.png',
+        {},
+        { ...env, OG_CACHE: kv.asBinding() }
+      );
+
+      expect(kv.size).toBe(1);
+      expect(kv.keys()[0]).toMatch(/^og:r\d+:d[0-9a-f]{8}:accessibility:/);
+    });
+
+    it('should report cache hits truthfully in analytics', async () => {
+      const writeDataPoint = vi.fn();
+      const analyticsEnv = { ...env, ANALYTICS: { writeDataPoint } } as unknown as Env;
+
+      await app.request('/og/swatch/8B4513/3.png', {}, analyticsEnv);
+      await app.request('/og/swatch/8B4513/3.png', {}, analyticsEnv);
+
+      const cacheHits = writeDataPoint.mock.calls.map(([point]) => point.doubles[1]);
+      expect(cacheHits).toEqual([0, 1]);
+    });
+  });
+
+  describe('parameter validation', () => {
+    it('should answer malformed params with a 400 JSON body without rendering', async () => {
+      const res = await app.request('/og/harmony/5771/foo.png', {}, env);
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        error: 'invalid_params',
+        tool: 'harmony',
+        issues: [{ param: 'harmony', code: 'invalid_enum', received: 'foo' }],
+      });
+      expect(renderOGPng).not.toHaveBeenCalled();
+    });
+
+    it('should serve the generic tool card to crawlers for malformed page params', async () => {
+      const res = await app.request(
+        '/harmony/?dye=abc&harmony=triadic',
+        { headers: { 'User-Agent': DISCORD_UA } },
+        env
+      );
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('/og/harmony/default.png');
+    });
+  });
+});
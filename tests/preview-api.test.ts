@@ -0,0 +1,89 @@
+/**
+ * Integration tests for the share preview API
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const DISCORD = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+
+function preview(url?: string, init: RequestInit = {}): Promise<Response> {
+  const query = url === undefined ? '' : `?${new URLSearchParams({ url })}`;
+  return Promise.resolve(app.request(`/api/og-data${query}`, init, env));
+}
+
+describe('share preview API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the OG data crawlers get for the link', async () => {
+    const path = '/harmony/?dye=5771&harmony=triadic&v=1';
+    const res = await preview(`https://xivdyetools.app${path}`);
+    const body = await res.json();
+
+    const crawlerHtml = await (await app.request(path, DISCORD, env)).text();
+
+    expect(res.status).toBe(200);
+    expect(body.tool).toBe('harmony');
+    expect(crawlerHtml).toContain(`<meta property="og:title" content="${body.ogData.title}">`);
+    expect(crawlerHtml).toContain(body.ogData.imageUrl);
+  });
+
+  it('should list the dyes drawn on the image', async () => {
+    const res = await preview('https://xivdyetools.app/comparison/?dyes=5771,5772');
+    const { dyes } = await res.json();
+
+    expect(dyes).toHaveLength(2);
+    expect(dyes[0]).toEqual({ name: expect.any(String), hex: expect.stringMatching(/^#/) });
+  });
+
+  it('should use the crawler defaults for malformed params', async () => {
+    const res = await preview('https://xivdyetools.app/gradient/?start=abc');
+    const body = await res.json();
+
+    expect(body.ogData.title).toBe('Gradient Builder | XIV Dye Tools');
+    expect(body.ogData.imageUrl).toContain('/og/gradient/default.png');
+    expect(body.dyes).toEqual([]);
+  });
+
+  it('should be readable from the app origin', async () => {
+    const res = await preview('https://xivdyetools.app/mixer/?dyeA=5771&dyeB=5772');
+
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('https://xivdyetools.app');
+  });
+
+  it('should answer CORS preflights', async () => {
+    const res = await app.request('/api/og-data', { method: 'OPTIONS' }, env);
+
+    expect(res.status).toBe(204);
+    expect(res.headers.get('Access-Control-Allow-Methods')).toContain('GET');
+  });
+
+  it.each([
+    [400, undefined],
+    [404, 'https://example.com/harmony/?dye=5771'],
+  ])('should answer with %i for %j', async (status, url) => {
+    const res = await preview(url);
+
+    expect(res.status).toBe(status);
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('https://xivdyetools.app');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Integration tests for image route rate limiting
+ *
+ * Each test uses its own client IP, since the in-memory buckets live for
+ * the whole file. The clock is faked so refills are deterministic.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { renderOGPng } from '../src/services/renderer';
+import { RATE_LIMIT_POLICIES } from '../src/services/rate-limit';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+  OG_SIGNING_BYPASS: '1',
+};
+
+const DISCORD_UA = 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)';
+const IMAGE_PATH = '/og/harmony/5771/triadic.png';
+
+function requestFrom(ip: string, userAgent?: string, path = IMAGE_PATH) {
+  const headers: Record<string, string> = { 'CF-Connecting-IP': ip };
+  if (userAgent) headers['User-Agent'] = userAgent;
+  return app.request(path, { headers }, env);
+}
+
+/**
+ * Spend a client's whole burst and return the first refused response
+ */
+async function exhaust(ip: string, userAgent?: string): Promise<Response> {
+  for (;;) {
+    const res = await requestFrom(ip, userAgent);
+    if (res.headers.get('X-OG-Rate-Limit')) return res;
+  }
+}
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2025, 0, 1));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(renderOGPng).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should answer browsers over the limit with 429 and Retry-After', async () => {
+    for (let i = 0; i < RATE_LIMIT_POLICIES.default.capacity; i++) {
+      expect((await requestFrom('198.51.100.1')).status).toBe(200);
+    }
+
+    const res = await requestFrom('198.51.100.1');
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('5');
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(await res.json()).toEqual({ error: 'rate_limited', retryAfter: 5 });
+  });
+
+  it('should serve crawlers over the limit the uncached site default image', async () => {
+    const res = await exhaust('198.51.100.2', DISCORD_UA);
+    const fallback = await requestFrom('198.51.100.20', undefined, '/og/default.png');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('image/png');
+    expect(res.headers.get('ETag')).toBe(fallback.headers.get('ETag'));
+    expect(res.headers.get('Retry-After')).toBe('1');
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(res.headers.get('CDN-Cache-Control')).toBeNull();
+  });
+
+  it('should give crawlers a larger budget than browsers', async () => {
+    let allowed = 0;
+    while (!(await requestFrom('198.51.100.3', DISCORD_UA)).headers.has('X-OG-Rate-Limit')) {
+      allowed++;
+    }
+
+    expect(allowed).toBe(RATE_LIMIT_POLICIES.crawler.capacity);
+  });
+
+  it('should not render for refused requests', async () => {
+    await exhaust('198.51.100.4');
+    vi.mocked(renderOGPng).mockClear();
+
+    await requestFrom('198.51.100.4');
+
+    expect(renderOGPng).not.toHaveBeenCalled();
+  });
+
+  it('should allow requests again after Retry-After', async () => {
+    const refused = await exhaust('198.51.100.5');
+
+    vi.setSystemTime(Date.now() + Number(refused.headers.get('Retry-After')) * 1000);
+
+    expect((await requestFrom('198.51.100.5')).status).toBe(200);
+  });
+
+  it('should limit each client separately', async () => {
+    await exhaust('198.51.100.6');
+
+    expect((await requestFrom('198.51.100.7')).status).toBe(200);
+  });
+
+  it('should share one budget when an IP alternates User-Agents', async () => {
+    let allowed = 0;
+    for (;;) {
+      const res = await requestFrom('198.51.100.9', allowed % 2 ? DISCORD_UA : undefined);
+      if (res.headers.has('X-OG-Rate-Limit')) break;
+      allowed++;
+    }
+
+    expect(allowed).toBe(RATE_LIMIT_POLICIES.default.capacity);
+    expect((await requestFrom('198.51.100.9', DISCORD_UA)).headers.get('X-OG-Rate-Limit')).toBe(
+      'exceeded'
+    );
+  });
+
+  it('should not limit tool pages', async () => {
+    await exhaust('198.51.100.8', DISCORD_UA);
+
+    const res = await app.request(
+      '/harmony/?dye=5771&harmony=triadic&v=1',
+      { headers: { 'CF-Connecting-IP': '198.51.100.8', 'User-Agent': DISCORD_UA } },
+      env
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/html');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Integration tests for output hardening
+ *
+ * Hostile share params must never reach crawler HTML unescaped, and
+ * HTML responses carry a strict set of security headers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { HOSTILE_INPUTS, findUnsafeTags } from '../src/test-utils/hostile-inputs';
+import type { Env } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+};
+
+const crawler = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+
+describe('security', () => {
+  describe('HTML security headers', () => {
+    it.each(['/', '/harmony/?dye=5771&harmony=triadic&v=1', '/unknown-page'])(
+      'should send security headers on %s',
+      async (path) => {
+        const res = await app.request(path, crawler, env);
+
+        expect(res.headers.get('Content-Security-Policy')).toContain("default-src 'none'");
+        expect(res.headers.get('Content-Security-Policy')).toContain("frame-ancestors 'none'");
+        expect(res.headers.get('X-Content-Type-Options')).toBe('nosniff');
+        expect(res.headers.get('Referrer-Policy')).toBe('strict-origin-when-cross-origin');
+      }
+    );
+  });
+
+  describe('hostile share params', () => {
+    const pages = (input: string) => {
+      const value = encodeURIComponent(input);
+      return [
+        `/swatch/?color=${value}`,
+        `/swatch/?color=8B4513&sheet=${value}&race=${value}&gender=${value}`,
+        `/harmony/?dye=${value}&harmony=${value}&algo=${value}`,
+        `/mixer/?dyeA=5771&dyeB=5772&ratio=${value}`,
+        `/comparison/?dyes=${value}`,
+        `/accessibility/?dyes=5771&vision=${value}`,
+      ];
+    };
+
+    it.each(HOSTILE_INPUTS)('should keep %j out of crawler HTML markup', async (input) => {
+      for (const path of pages(input)) {
+        const res = await app.request(path, crawler, env);
+        const html = await res.text();
+
+        expect(res.status, path).toBe(200);
+        expect(findUnsafeTags(html), path).toEqual([]);
+      }
+    });
+
+    it.each(HOSTILE_INPUTS)('should reject %j in image routes', async (input) => {
+      const res = await app.request(`/og/swatch/${encodeURIComponent(input)}/5.png`, {}, env);
+
+      expect([400, 404]).toContain(res.status);
+      expect(res.headers.get('Content-Type')).not.toContain('image/png');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Integration tests for short share links
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { MemoryKV } from '../src/test-utils/memory-kv';
+import { MemoryDurableObjectNamespace } from '../src/test-utils/memory-durable-object';
+import { ShortCodeDurableObject, SHORT_LINK_CREATE_POLICY } from '../src/services/short-links';
+import type { Env } from '../src/types';
+
+const DISCORD_UA = 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)';
+
+const SHARE_URL =
+  'https://xivdyetools.app/swatch/?color=8B4513&limit=5&sheet=hairColors' +
+  '&race=SeekerOfTheSun&gender=Female&algo=oklab&v=1';
+
+let env: Env;
+
+function create(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return Promise.resolve(
+    app.request(
+      '/s',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      },
+      env
+    )
+  );
+}
+
+async function createCode(url: string = SHARE_URL): Promise<string> {
+  return ((await (await create({ url })).json()) as { code: string }).code;
+}
+
+describe('short links', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    env = {
+      APP_BASE_URL: 'https://xivdyetools.app',
+      OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+      SHORT_LINKS: new MemoryKV().asBinding(),
+      SHORT_CODES: new MemoryDurableObjectNamespace(
+        (state) => new ShortCodeDurableObject(state)
+      ).asBinding(),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /s', () => {
+    it('should create a short link for a share link', async () => {
+      const res = await create({ url: SHARE_URL });
+      const body = await res.json();
+
+      expect(res.status).toBe(201);
+      expect(body.url).toBe(`https://xivdyetools.app/s/${body.code}`);
+      expect(body.shareUrl).toBe(SHARE_URL);
+      expect(body.share.tool).toBe('swatch');
+      expect(res.headers.get('Cache-Control')).toBe('no-store');
+    });
+
+    it('should expire links after 90 days by default', async () => {
+      const before = Date.now();
+      const body = await (await create({ url: SHARE_URL })).json();
+
+      expect(Date.parse(body.expiresAt) - before).toBeGreaterThanOrEqual(90 * 86_400_000 - 1000);
+      expect(Date.parse(body.expiresAt) - before).toBeLessThanOrEqual(90 * 86_400_000 + 1000);
+    });
+
+    it('should report the expiry of expiring links', async () => {
+      const res = await create({ url: SHARE_URL, ttl: 3600 });
+
+      expect(Date.parse((await res.json()).expiresAt)).toBeLessThanOrEqual(Date.now() + 3_600_000);
+    });
+
+    it('should reject links that are not shares', async () => {
+      const res = await create({ url: 'https://example.com/harmony/?dye=5771' });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('invalid_request');
+    });
+
+    it('should reject bodies that are not JSON', async () => {
+      const res = await app.request('/s', { method: 'POST', body: 'url=nope' }, env);
+
+      expect(res.status).toBe(400);
+    });
+
+    it.each(['SHORT_LINKS', 'SHORT_CODES'] as const)(
+      'should be unavailable without the %s binding',
+      async (binding) => {
+        delete env[binding];
+
+        const res = await create({ url: SHARE_URL });
+
+        expect(res.status).toBe(503);
+      }
+    );
+
+    it('should cap the links each client can create', async () => {
+      const headers = { 'CF-Connecting-IP': '203.0.113.77' };
+      const statuses: number[] = [];
+      for (let i = 0; i <= SHORT_LINK_CREATE_POLICY.capacity; i++) {
+        statuses.push((await create({ url: SHARE_URL }, headers)).status);
+      }
+
+      expect(statuses.filter((status) => status === 201)).toHaveLength(
+        SHORT_LINK_CREATE_POLICY.capacity
+      );
+      expect(statuses.at(-1)).toBe(429);
+    });
+
+    it('should not spend the client image budget on creates', async () => {
+      const headers = { 'CF-Connecting-IP': '203.0.113.78' };
+      for (let i = 0; i < SHORT_LINK_CREATE_POLICY.capacity; i++) {
+        await create({ url: SHARE_URL }, headers);
+      }
+
+      const image = await app.request('/og/harmony/default.png', { headers }, env);
+
+      expect(image.status).toBe(200);
+    });
+
+    it('should answer CORS preflights from the app', async () => {
+      const res = await app.request('/s', { method: 'OPTIONS' }, env);
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBe('https://xivdyetools.app');
+    });
+  });
+
+  describe('GET /s/:code', () => {
+    it('should redirect people to the full share link', async () => {
+      const code = await createCode();
+
+      const res = await app.request(`/s/${code}`, {}, env);
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe(SHARE_URL);
+      expect(res.headers.get('Vary')).toContain('User-Agent');
+    });
+
+    it('should serve crawlers the OG HTML of the share', async () => {
+      const code = await createCode();
+      const crawler = { headers: { 'User-Agent': DISCORD_UA } };
+      const { pathname, search } = new URL(SHARE_URL);
+
+      const res = await app.request(`/s/${code}`, crawler, env);
+      const html = await res.text();
+      const direct = await (await app.request(`${pathname}${search}`, crawler, env)).text();
+
+      expect(res.status).toBe(200);
+      expect(html).toBe(direct);
+    });
+
+    it('should 404 crawlers for unknown codes', async () => {
+      const res = await app.request('/s/aZ3kQ9x', { headers: { 'User-Agent': DISCORD_UA } }, env);
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get('CDN-Cache-Control')).toBe('no-store');
+      expect(res.headers.get('Vary')).toContain('User-Agent');
+    });
+
+    it('should send people to the app for unknown codes', async () => {
+      const res = await app.request('/s/aZ3kQ9x', {}, env);
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe('https://xivdyetools.app/');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Integration tests for SPA OG tag injection
+ *
+ * Runs against a local stand-in for the SPA origin that serves the same
+ * `index.html` for every route, like the real static site.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { StringHTMLRewriter } from '../src/test-utils/html-rewriter';
+import type { Env } from '../src/types';
+
+const SPA_INDEX = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>XIV Dye Tools</title>
+  <meta property="og:title" content="XIV Dye Tools">
+  <meta property="og:image" content="https://xivdyetools.app/static-preview.png">
+  <script type="module" src="/assets/index.js"></script>
+</head>
+<body><div id="app"></div></body>
+</html>`;
+
+const PAGE = '/harmony/?dye=5771&harmony=triadic&v=1';
+
+const UNKNOWN_BOT = { headers: { 'User-Agent': 'NewPreviewService/0.1 (+https://example.com)' } };
+const DISCORD = {
+  headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)' },
+};
+
+/** Stand-in SPA origin: the static site behind a service binding */
+const spaOrigin = vi.fn(
+  async (request: Request) =>
+    new Response(request.method === 'HEAD' ? null : SPA_INDEX, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    })
+);
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+  SPA: { fetch: spaOrigin } as unknown as Fetcher,
+};
+
+describe('SPA OG tag injection', () => {
+  const passThrough = vi.fn(async (_: Request) => new Response('pass-through'));
+
+  beforeEach(() => {
+    spaOrigin.mockClear();
+    passThrough.mockClear();
+    vi.stubGlobal('HTMLRewriter', StringHTMLRewriter);
+    vi.stubGlobal('fetch', passThrough);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should give unrecognized bots the SPA with the share link OG tags', async () => {
+    const res = await app.request(PAGE, UNKNOWN_BOT, env);
+    const html = await res.text();
+
+    expect(html).toContain('<div id="app"></div>');
+    expect(html).toContain(
+      '<meta property="og:image" content="https://og.xivdyetools.app/og/harmony/5771/triadic.png'
+    );
+    expect(html).not.toContain('static-preview.png');
+    expect(html.match(/<title>/g)).toHaveLength(1);
+  });
+
+  it('should fetch the same route from the SPA', async () => {
+    await app.request(PAGE, UNKNOWN_BOT, env);
+
+    const forwarded = spaOrigin.mock.calls[0][0];
+    expect(new URL(forwarded.url).pathname + new URL(forwarded.url).search).toBe(PAGE);
+    expect(passThrough).not.toHaveBeenCalled();
+  });
+
+  it('should keep the SPA free of crawler-page extras', async () => {
+    const res = await app.request(PAGE, UNKNOWN_BOT, env);
+    const html = await res.text();
+
+    expect(html).not.toContain('http-equiv="refresh"');
+    expect(res.headers.get('Content-Security-Policy')).toBeNull();
+    expect(res.headers.get('Vary')).toBe('User-Agent');
+  });
+
+  it('should still give known crawlers the synthetic page', async () => {
+    const res = await app.request(PAGE, DISCORD, env);
+
+    expect(await res.text()).toContain('http-equiv="refresh"');
+    expect(spaOrigin).not.toHaveBeenCalled();
+  });
+
+  it('should inject the site tags on unknown routes', async () => {
+    const res = await app.request('/harmony/some/deep/link', UNKNOWN_BOT, env);
+    const html = await res.text();
+
+    expect(html).toContain('<title>XIV Dye Tools</title>');
+    expect(html).toContain('https://og.xivdyetools.app/og/default.png');
+  });
+
+  it('should use the origin URL when there is no service binding', async () => {
+    const originEnv = { ...env, SPA: undefined, SPA_ORIGIN: 'https://xivdyetools.pages.dev' };
+    passThrough.mockImplementationOnce(
+      async () => new Response(SPA_INDEX, { headers: { 'Content-Type': 'text/html' } })
+    );
+
+    const res = await app.request(PAGE, UNKNOWN_BOT, originEnv);
+
+    expect(passThrough.mock.calls[0]).toEqual([
+      expect.objectContaining({ url: `https://xivdyetools.pages.dev${PAGE}` }),
+    ]);
+    expect(await res.text()).toContain('/og/harmony/5771/triadic.png');
+  });
+
+  it('should pass requests through unchanged when not configured', async () => {
+    const res = await app.request(PAGE, UNKNOWN_BOT, { ...env, SPA: undefined });
+
+    expect(await res.text()).toBe('pass-through');
+    expect(spaOrigin).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integration tests for signed image URLs
+ *
+ * Only URLs emitted by the worker may trigger a render; everything else
+ * gets the tool's cached default image.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/renderer', () => ({
+  renderOGPng: vi.fn(async () => new Uint8Array([137, 80, 78, 71])),
+}));
+
+import app from '../src/index';
+import { renderOGPng } from '../src/services/renderer';
+import { generateOGDataForTool } from '../src/og-data-generator';
+import type { Env, ToolId } from '../src/types';
+
+const env: Env = {
+  APP_BASE_URL: 'https://xivdyetools.app',
+  OG_IMAGE_BASE_URL: 'https://og.xivdyetools.app/og',
+  OG_SIGNING_KEYS: 'k2:new-secret,k1:old-secret',
+};
+
+/**
+ * Request path of the og:image URL the worker emits for a share link
+ */
+async function signedImagePath(
+  tool: ToolId,
+  query: string,
+  signingEnv: Env = env
+): Promise<string> {
+  const { imageUrl } = await generateOGDataForTool(tool, new URLSearchParams(query), signingEnv);
+  const url = new URL(imageUrl);
+  return `${url.pathname}${url.search}`;
+}
+
+describe('signed image URLs', () => {
+  beforeEach(() => {
+    vi.mocked(renderOGPng).mockClear();
+  });
+
+  it('should sign emitted og:image URLs', async () => {
+    expect(await signedImagePath('harmony', 'dye=5771&harmony=triadic')).toMatch(
+      /\?h=[0-9a-f]{12}&sig=k2\.[\w-]{22}$/
+    );
+  });
+
+  it('should render signed URLs', async () => {
+    const path = await signedImagePath('gradient', 'start=5771&end=5772&steps=8');
+
+    const res = await app.request(path, {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-OG-Signature')).toBeNull();
+    expect(res.headers.get('Cache-Control')).toContain('immutable');
+    expect(renderOGPng).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve the cached tool default for unsigned URLs', async () => {
+    const fallback = await app.request('/og/comparison/default.png', {}, env);
+    vi.mocked(renderOGPng).mockClear();
+
+    for (const dyes of ['5771', '5771,5772', '5771,5772,5773', '5771,5772,5773,5774']) {
+      const res = await app.request(`/og/comparison/${dyes}.png`, {}, env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/png');
+      expect(res.headers.get('X-OG-Signature')).toBe('missing');
+      expect(res.headers.get('ETag')).toBe(fallback.headers.get('ETag'));
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=3600, s-maxage=25200');
+    }
+    expect(renderOGPng).not.toHaveBeenCalled();
+  });
+
+  it('should serve the fallback for tampered signatures', async () => {
+    const signed = await signedImagePath('mixer', 'dyeA=5771&dyeB=5772&ratio=40');
+    const tampered = signed.replace('/40.png', '/41.png');
+
+    const res = await app.request(tampered, {}, env);
+
+    expect(res.headers.get('X-OG-Signature')).toBe('invalid');
+    expect(res.headers.get('Cache-Control')).not.toContain('immutable');
+  });
+
+  it('should keep accepting URLs signed with an older active key', async () => {
+    const oldEnv = { ...env, OG_SIGNING_KEYS: 'k1:old-secret' };
+    const path = await signedImagePath('harmony', 'dye=5772&harmony=square', oldEnv);
+
+    const res = await app.request(path, {}, env);
+
+    expect(path).toContain('sig=k1.');
+    expect(res.headers.get('X-OG-Signature')).toBeNull();
+  });
+
+  it('should reject URLs signed with a retired key', async () => {
+    const path = await signedImagePath('harmony', 'dye=5772&harmony=square', env);
+
+    const res = await app.request(path, {}, { ...env, OG_SIGNING_KEYS: 'k3:newest-secret' });
+
+    expect(res.headers.get('X-OG-Signature')).toBe('invalid');
+  });
+
+  it('should keep the signature when redirecting a stale content hash', async () => {
+    const signed = await signedImagePath('accessibility', 'dyes=5771,5772&vision=tritanopia');
+    const stale = signed.replace(/h=[0-9a-f]{12}/, 'h=000000000000');
+
+    const res = await app.request(stale, {}, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe(signed);
+  });
+
+  it('should not require signatures on default images', async () => {
+    const res = await app.request('/og/harmony/default.png', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-OG-Signature')).toBeNull();
+  });
+
+  it('should render unsigned URLs with the dev bypass', async () => {
+    const res = await app.request(
+      '/og/swatch/8B4513/2.png',
+      {},
+      { ...env, OG_SIGNING_BYPASS: '1' }
+    );
+
+    expect(res.headers.get('X-OG-Signature')).toBeNull();
+    expect(renderOGPng).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve the fallback for every share when no keys are configured', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const productionEnv = { ...env, OG_SIGNING_KEYS: undefined };
+    const fallback = await app.request('/og/harmony/default.png', {}, productionEnv);
+    vi.mocked(renderOGPng).mockClear();
+
+    const path = await signedImagePath('harmony', 'dye=5771&harmony=triadic', productionEnv);
+    const res = await app.request(path, {}, productionEnv);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-OG-Signature')).toBe('unconfigured');
+    expect(res.headers.get('ETag')).toBe(fallback.headers.get('ETag'));
+    expect(renderOGPng).not.toHaveBeenCalled();
+    vi.mocked(console.warn).mockRestore();
+  });
+});
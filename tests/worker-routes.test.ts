@@ -0,0 +1,45 @@
+/**
+ * Tests for the custom-domain routes in wrangler.toml
+ *
+ * Requests only reach the worker on xivdyetools.app if a route pattern
+ * matches them, so every path the worker serves there must be covered.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const config = readFileSync(join(__dirname, '..', 'wrangler.toml'), 'utf-8');
+const patterns = [...config.matchAll(/^\s*\{ pattern = "([^"]+)"/gm)].map((m) => m[1]);
+
+/**
+ * Whether any route pattern matches a URL; `*` matches anything, query
+ * strings are ignored
+ */
+function isRouted(url: string): boolean {
+  const { host, pathname } = new URL(url);
+  return patterns.some((pattern) => {
+    const parts = pattern.split('*').map((part) => part.replace(/[.?+^$()[\]{}|\\/]/g, '\\$&'));
+    return new RegExp(`^${parts.join('.*')}$`).test(`${host}${pathname}`);
+  });
+}
+
+describe('wrangler.toml routes', () => {
+  it.each([
+    'https://xivdyetools.app/harmony/?dye=5771&harmony=triadic&v=1',
+    'https://xivdyetools.app/gradient/?start=5771&end=5772&steps=5&v=1',
+    'https://xivdyetools.app/mixer/?dyeA=5771&dyeB=5772&ratio=50&v=1',
+    'https://xivdyetools.app/swatch/?color=8B4513&v=1',
+    'https://xivdyetools.app/comparison/?dyes=5771,5772&v=1',
+    'https://xivdyetools.app/accessibility/?dyes=5771&v=1',
+    'https://xivdyetools.app/s',
+    'https://xivdyetools.app/s/aZ3kQ9x',
+  ])('should route %s to the worker', (url) => {
+    expect(isRouted(url)).toBe(true);
+  });
+
+  it('should leave the rest of the app alone', () => {
+    expect(isRouted('https://xivdyetools.app/')).toBe(false);
+    expect(isRouted('https://xivdyetools.app/sw.js')).toBe(false);
+  });
+});
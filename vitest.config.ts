@@ -1,7 +1,24 @@
-import { defineConfig } from 'vitest/config';
+import { defineConfig, type Plugin } from 'vitest/config';
+import { readFileSync } from 'fs';
 import path from 'path';
 
+/**
+ * Load .ttf imports as ArrayBuffers, like wrangler's Data rule, so modules
+ * that read the bundled fonts work under test
+ */
+const fontData: Plugin = {
+  name: 'font-data',
+  enforce: 'pre',
+  load(id) {
+    const file = id.split('?')[0];
+    if (!file.endsWith('.ttf')) return null;
+    const base64 = readFileSync(file).toString('base64');
+    return `export default Uint8Array.from(atob('${base64}'), (c) => c.charCodeAt(0)).buffer;`;
+  },
+};
+
 export default defineConfig({
+  plugins: [fontData],
   test: {
     globals: true,
     environment: 'node',
@@ -12,8 +29,8 @@ export default defineConfig({
       include: ['src/**/*.ts'],
       exclude: [
         'src/**/*.test.ts',
+        'src/test-utils/**', // Test-only stand-ins for Workers bindings
         'src/index.ts', // Entry point with Hono routes - tested via integration tests
-        'src/services/fonts.ts', // Requires binary font imports
         'src/services/renderer.ts', // Requires WASM initialization
       ],
       thresholds: {
@@ -33,6 +50,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      'cloudflare:workers': path.resolve(__dirname, './src/test-utils/cloudflare-workers.ts'),
     },
   },
 });